@@ -5,6 +5,16 @@ import { ThrottlerGuard } from '@nestjs/throttler';
 import { DatabaseModule } from './database/database.module';
 import { ProductsModule } from './products/products.module';
 import { CartModule } from './cart/cart.module';
+import { OrdersModule } from './orders/orders.module';
+import { CouponsModule } from './coupons/coupons.module';
+import { CurrenciesModule } from './currencies/currencies.module';
+import { TaxesModule } from './taxes/taxes.module';
+import { ShippingModule } from './shipping/shipping.module';
+import { AuthModule } from './auth/auth.module';
+import { UsersModule } from './users/users.module';
+import { CustomersModule } from './customers/customers.module';
+import { WarehousesModule } from './warehouses/warehouses.module';
+import { CategoriesModule } from './categories/categories.module';
 import { CommonModule } from './common/common.module';
 import { RedisThrottlerStorageService } from './common/services/redis-throttler-storage.service';
 import { CacheInterceptor } from './common/interceptors/cache.interceptor';
@@ -39,6 +49,16 @@ import { CacheInterceptor } from './common/interceptors/cache.interceptor';
     }),
     ProductsModule,
     CartModule,
+    OrdersModule,
+    CouponsModule,
+    CurrenciesModule,
+    TaxesModule,
+    ShippingModule,
+    AuthModule,
+    UsersModule,
+    CustomersModule,
+    WarehousesModule,
+    CategoriesModule,
   ],
   providers: [
     {
@@ -0,0 +1,160 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { AuthController } from './auth.controller';
+import { AuthService, TokenType } from './auth.service';
+import { GoogleOAuthService } from './google-oauth.service';
+import { UsersService } from '../users/users.service';
+import { Role } from '../users/entities/user.entity';
+
+describe('AuthController', () => {
+  let controller: AuthController;
+  let service: AuthService;
+
+  const mockUser = { id: 'user-id', email: 'admin@example.com', role: Role.ADMIN };
+
+  const mockTokens = {
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+    expiresIn: '15m',
+    user: mockUser,
+  };
+
+  const mockAuthService = {
+    login: jest.fn(),
+    refresh: jest.fn(),
+    loginWithGoogle: jest.fn(),
+    requestPasswordReset: jest.fn(),
+    resetPassword: jest.fn(),
+  };
+
+  const mockGoogleOAuthService = {
+    getAuthorizationUrl: jest.fn(),
+    getProfile: jest.fn(),
+  };
+
+  const mockUsersService = {
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AuthController],
+      providers: [
+        {
+          provide: AuthService,
+          useValue: mockAuthService,
+        },
+        {
+          provide: UsersService,
+          useValue: mockUsersService,
+        },
+        {
+          provide: GoogleOAuthService,
+          useValue: mockGoogleOAuthService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    controller = module.get<AuthController>(AuthController);
+    service = module.get<AuthService>(AuthService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('login', () => {
+    it('should return the issued tokens', async () => {
+      mockAuthService.login.mockResolvedValue(mockTokens);
+
+      const dto = { email: 'admin@example.com', password: 'correct horse' };
+      const result = await controller.login(dto);
+
+      expect(service.login).toHaveBeenCalledWith(dto);
+      expect(result).toEqual(mockTokens);
+    });
+  });
+
+  describe('refresh', () => {
+    it('should exchange the refresh token', async () => {
+      mockAuthService.refresh.mockResolvedValue(mockTokens);
+
+      await controller.refresh({ refresh_token: 'refresh-token' });
+
+      expect(service.refresh).toHaveBeenCalledWith('refresh-token');
+    });
+  });
+
+  describe('password reset', () => {
+    it('should request a reset link for the email', async () => {
+      await controller.forgotPassword({ email: 'jane@example.com' });
+
+      expect(service.requestPasswordReset).toHaveBeenCalledWith('jane@example.com');
+    });
+
+    it('should reset the password with the emailed token', async () => {
+      await controller.resetPassword({ token: 'reset-token', password: 'battery staple' });
+
+      expect(service.resetPassword).toHaveBeenCalledWith('reset-token', 'battery staple');
+    });
+  });
+
+  describe('google', () => {
+    it('should redirect to the Google consent screen', async () => {
+      mockGoogleOAuthService.getAuthorizationUrl.mockResolvedValue('https://google.test/auth?x=1');
+
+      await expect(controller.google()).resolves.toEqual({ url: 'https://google.test/auth?x=1' });
+    });
+  });
+
+  describe('googleCallback', () => {
+    it('should sign in the Google account', async () => {
+      mockGoogleOAuthService.getProfile.mockResolvedValue({
+        sub: 'google-sub',
+        email: 'jane@example.com',
+        email_verified: true,
+      });
+      mockAuthService.loginWithGoogle.mockResolvedValue(mockTokens);
+
+      const result = await controller.googleCallback('auth-code', 'state');
+
+      expect(mockGoogleOAuthService.getProfile).toHaveBeenCalledWith('auth-code', 'state');
+      expect(service.loginWithGoogle).toHaveBeenCalledWith('google-sub', 'jane@example.com');
+      expect(result).toEqual(mockTokens);
+    });
+
+    it('should reject denied consent and missing codes', async () => {
+      await expect(controller.googleCallback(undefined, 'state', 'access_denied')).rejects.toThrow(
+        'Google sign-in was denied: access_denied',
+      );
+      await expect(controller.googleCallback(undefined, 'state')).rejects.toThrow(
+        'Missing authorization code or state',
+      );
+      expect(mockGoogleOAuthService.getProfile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('me', () => {
+    it('should return the user of the access token', async () => {
+      mockUsersService.findOne.mockResolvedValue(mockUser);
+
+      const result = await controller.me({
+        sub: 'user-id',
+        email: 'admin@example.com',
+        role: Role.ADMIN,
+        type: TokenType.ACCESS,
+      });
+
+      expect(mockUsersService.findOne).toHaveBeenCalledWith('user-id');
+      expect(result).toEqual(mockUser);
+    });
+  });
+});
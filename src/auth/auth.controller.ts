@@ -0,0 +1,111 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  HttpStatus,
+  HttpCode,
+  Query,
+  Redirect,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { AuthService, JwtPayload } from './auth.service';
+import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { AuthTokensDto } from './dto/auth-tokens.dto';
+import { GoogleOAuthService } from './google-oauth.service';
+import { Roles } from './decorators/roles.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+
+@ApiTags('auth')
+@Controller('auth')
+export class AuthController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly usersService: UsersService,
+    private readonly googleOAuthService: GoogleOAuthService,
+  ) {}
+
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Sign in and get an access and a refresh token' })
+  @ApiResponse({ status: 200, description: 'Signed in successfully', type: AuthTokensDto })
+  @ApiResponse({ status: 401, description: 'Invalid email or password' })
+  async login(@Body() loginDto: LoginDto): Promise<AuthTokensDto> {
+    return await this.authService.login(loginDto);
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Exchange a refresh token for a new token pair' })
+  @ApiResponse({ status: 200, description: 'Tokens refreshed successfully', type: AuthTokensDto })
+  @ApiResponse({ status: 401, description: 'Invalid or expired refresh token' })
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto): Promise<AuthTokensDto> {
+    return await this.authService.refresh(refreshTokenDto.refresh_token);
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Email a password reset link' })
+  @ApiResponse({ status: 202, description: 'Reset link sent if the email belongs to an account' })
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto): Promise<void> {
+    await this.authService.requestPasswordReset(forgotPasswordDto.email);
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Choose a new password with the token of a reset link' })
+  @ApiResponse({ status: 204, description: 'Password changed successfully' })
+  @ApiResponse({ status: 401, description: 'Invalid, expired or already used token' })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto): Promise<void> {
+    await this.authService.resetPassword(resetPasswordDto.token, resetPasswordDto.password);
+  }
+
+  @Get('google')
+  @Redirect()
+  @ApiOperation({ summary: 'Start Google sign-in by redirecting to the consent screen' })
+  @ApiResponse({ status: 302, description: 'Redirect to Google' })
+  @ApiResponse({ status: 503, description: 'Google sign-in is not configured' })
+  async google(): Promise<{ url: string }> {
+    return { url: await this.googleOAuthService.getAuthorizationUrl() };
+  }
+
+  // Query params are read one by one: Google appends extras (scope, authuser, prompt) the
+  // whitelisting validation pipe would reject
+  @Get('google/callback')
+  @ApiOperation({ summary: 'Finish Google sign-in and get an access and a refresh token' })
+  @ApiQuery({ name: 'code', description: 'Authorization code issued by Google' })
+  @ApiQuery({ name: 'state', description: 'State passed to Google by GET /auth/google' })
+  @ApiResponse({ status: 200, description: 'Signed in successfully', type: AuthTokensDto })
+  @ApiResponse({ status: 401, description: 'Sign-in denied, or the code or state is invalid' })
+  @ApiResponse({ status: 502, description: 'Google could not be reached' })
+  @ApiResponse({ status: 503, description: 'Google sign-in is not configured' })
+  async googleCallback(
+    @Query('code') code?: string,
+    @Query('state') state?: string,
+    @Query('error') error?: string,
+  ): Promise<AuthTokensDto> {
+    if (error) {
+      throw new UnauthorizedException(`Google sign-in was denied: ${error}`);
+    }
+    if (!code || !state) {
+      throw new UnauthorizedException('Missing authorization code or state');
+    }
+
+    const profile = await this.googleOAuthService.getProfile(code, state);
+    return await this.authService.loginWithGoogle(profile.sub, profile.email);
+  }
+
+  @Get('me')
+  @Roles()
+  @ApiOperation({ summary: 'Get the signed-in user' })
+  @ApiResponse({ status: 200, description: 'User retrieved successfully', type: User })
+  async me(@CurrentUser() user: JwtPayload): Promise<User> {
+    return await this.usersService.findOne(user.sub);
+  }
+}
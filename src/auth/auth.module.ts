@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { AuthController } from './auth.controller';
+import { GoogleOAuthService } from './google-oauth.service';
+import { UsersModule } from '../users/users.module';
+import { MailModule } from '../mail/mail.module';
+import config from '../common/config';
+
+@Module({
+  imports: [
+    // Global so any controller can use @Roles() without importing this module
+    JwtModule.register({ global: true, secret: config.jwt.secret }),
+    UsersModule,
+    MailModule,
+  ],
+  controllers: [AuthController],
+  providers: [AuthService, GoogleOAuthService],
+})
+export class AuthModule {}
@@ -0,0 +1,232 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { AuthService, JwtPayload, TokenType } from './auth.service';
+import { UsersService } from '../users/users.service';
+import { Role, User } from '../users/entities/user.entity';
+import { hashPassword } from '../common/utils/password.utils';
+import { MailService } from '../mail/mail.service';
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  const jwtService = new JwtService({ secret: 'test-secret' });
+
+  const createMockUser = (overrides: Partial<User> = {}): User =>
+    Object.assign(new User(), {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      email: 'admin@example.com',
+      role: Role.ADMIN,
+      ...overrides,
+    });
+
+  const mockUsersService = {
+    findOne: jest.fn(),
+    findByEmailWithPassword: jest.fn(),
+    findOrCreateByGoogle: jest.fn(),
+    updatePassword: jest.fn(),
+  };
+
+  const mockMailService = {
+    sendPasswordReset: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        {
+          provide: JwtService,
+          useValue: jwtService,
+        },
+        {
+          provide: UsersService,
+          useValue: mockUsersService,
+        },
+        {
+          provide: MailService,
+          useValue: mockMailService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('login', () => {
+    beforeEach(async () => {
+      mockUsersService.findByEmailWithPassword.mockResolvedValue(
+        createMockUser({ password_hash: await hashPassword('correct horse') }),
+      );
+    });
+
+    it('should issue an access and a refresh token', async () => {
+      const result = await service.login({
+        email: 'admin@example.com',
+        password: 'correct horse',
+      });
+
+      const access = jwtService.decode<JwtPayload & { exp: number }>(result.accessToken);
+      const refresh = jwtService.decode<JwtPayload & { exp: number }>(result.refreshToken);
+      expect(access).toEqual(
+        expect.objectContaining({
+          sub: '123e4567-e89b-12d3-a456-426614174000',
+          role: Role.ADMIN,
+          type: TokenType.ACCESS,
+        }),
+      );
+      expect(refresh.type).toBe(TokenType.REFRESH);
+      expect(refresh.exp).toBeGreaterThan(access.exp);
+      expect(result.user.password_hash).toBeUndefined();
+    });
+
+    it('should reject a wrong password', async () => {
+      await expect(
+        service.login({ email: 'admin@example.com', password: 'battery staple' }),
+      ).rejects.toThrow('Invalid email or password');
+    });
+
+    it('should reject an unknown email the same way', async () => {
+      mockUsersService.findByEmailWithPassword.mockResolvedValue(null);
+
+      await expect(
+        service.login({ email: 'nobody@example.com', password: 'correct horse' }),
+      ).rejects.toThrow('Invalid email or password');
+    });
+
+    it('should reject password login for Google-only users', async () => {
+      mockUsersService.findByEmailWithPassword.mockResolvedValue(
+        createMockUser({ password_hash: null }),
+      );
+
+      await expect(
+        service.login({ email: 'admin@example.com', password: 'correct horse' }),
+      ).rejects.toThrow('Invalid email or password');
+    });
+  });
+
+  describe('loginWithGoogle', () => {
+    it('should issue the same tokens as password login', async () => {
+      mockUsersService.findOrCreateByGoogle.mockResolvedValue(
+        createMockUser({ role: Role.CUSTOMER, google_id: 'google-sub' }),
+      );
+
+      const result = await service.loginWithGoogle('google-sub', 'admin@example.com');
+
+      expect(mockUsersService.findOrCreateByGoogle).toHaveBeenCalledWith(
+        'google-sub',
+        'admin@example.com',
+      );
+      expect(jwtService.decode<JwtPayload>(result.accessToken)).toEqual(
+        expect.objectContaining({ role: Role.CUSTOMER, type: TokenType.ACCESS }),
+      );
+      expect(jwtService.decode<JwtPayload>(result.refreshToken).type).toBe(TokenType.REFRESH);
+    });
+  });
+
+  describe('refresh', () => {
+    const signRefresh = (type: TokenType) =>
+      jwtService.signAsync({
+        sub: '123e4567-e89b-12d3-a456-426614174000',
+        email: 'admin@example.com',
+        role: Role.ADMIN,
+        type,
+      });
+
+    it('should issue new tokens with the current role', async () => {
+      mockUsersService.findOne.mockResolvedValue(createMockUser({ role: Role.MERCHANDISER }));
+
+      const result = await service.refresh(await signRefresh(TokenType.REFRESH));
+
+      expect(jwtService.decode<JwtPayload>(result.accessToken).role).toBe(Role.MERCHANDISER);
+    });
+
+    it('should not accept an access token', async () => {
+      await expect(service.refresh(await signRefresh(TokenType.ACCESS))).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject tokens signed with another secret', async () => {
+      const forged = await new JwtService({ secret: 'other-secret' }).signAsync({
+        sub: 'user-id',
+        type: TokenType.REFRESH,
+      });
+
+      await expect(service.refresh(forged)).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject tokens of deleted users', async () => {
+      mockUsersService.findOne.mockRejectedValueOnce(new NotFoundException());
+
+      await expect(service.refresh(await signRefresh(TokenType.REFRESH))).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('password reset', () => {
+    let passwordHash: string;
+
+    const requestToken = async () => {
+      await service.requestPasswordReset('admin@example.com');
+      return mockMailService.sendPasswordReset.mock.calls[0][1];
+    };
+
+    beforeEach(async () => {
+      passwordHash = await hashPassword('correct horse');
+      mockUsersService.findByEmailWithPassword.mockImplementation(async () =>
+        createMockUser({ password_hash: passwordHash }),
+      );
+      mockUsersService.findOne.mockResolvedValue(createMockUser());
+    });
+
+    it('should email a short-lived reset token', async () => {
+      const token = await requestToken();
+
+      expect(mockMailService.sendPasswordReset).toHaveBeenCalledWith('admin@example.com', token);
+      expect(jwtService.decode<JwtPayload>(token).type).toBe(TokenType.PASSWORD_RESET);
+    });
+
+    it('should not reveal unknown emails', async () => {
+      mockUsersService.findByEmailWithPassword.mockResolvedValue(null);
+
+      await expect(service.requestPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+      expect(mockMailService.sendPasswordReset).not.toHaveBeenCalled();
+    });
+
+    it('should set the new password', async () => {
+      await service.resetPassword(await requestToken(), 'battery staple');
+
+      expect(mockUsersService.updatePassword).toHaveBeenCalledWith(
+        '123e4567-e89b-12d3-a456-426614174000',
+        'battery staple',
+      );
+    });
+
+    it('should reject a token once the password has changed', async () => {
+      const token = await requestToken();
+      passwordHash = await hashPassword('battery staple');
+
+      await expect(service.resetPassword(token, 'another password')).rejects.toThrow(
+        'Invalid or expired password reset token',
+      );
+      expect(mockUsersService.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('should not accept other tokens', async () => {
+      const accessToken = await jwtService.signAsync({
+        sub: '123e4567-e89b-12d3-a456-426614174000',
+        type: TokenType.ACCESS,
+      });
+
+      await expect(service.resetPassword(accessToken, 'battery staple')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+});
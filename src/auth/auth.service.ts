@@ -0,0 +1,150 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash } from 'crypto';
+import { UsersService } from '../users/users.service';
+import { Role, User } from '../users/entities/user.entity';
+import { LoginDto } from './dto/login.dto';
+import { AuthTokensDto } from './dto/auth-tokens.dto';
+import { verifyPassword } from '../common/utils/password.utils';
+import { MailService } from '../mail/mail.service';
+import config from '../common/config';
+
+export enum TokenType {
+  ACCESS = 'access',
+  REFRESH = 'refresh',
+  /** Signed OAuth state, checked when the provider redirects back */
+  OAUTH_STATE = 'oauth-state',
+  /** Emailed link for choosing a new password */
+  PASSWORD_RESET = 'password-reset',
+}
+
+interface PasswordResetPayload {
+  sub: string;
+  type: TokenType;
+  /** Fingerprint of the password hash the token was issued for, making it single-use */
+  pwd: string;
+}
+
+export interface JwtPayload {
+  /** User ID */
+  sub: string;
+  email: string;
+  role: Role;
+  type: TokenType;
+}
+
+@Injectable()
+export class AuthService {
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly usersService: UsersService,
+    private readonly mailService: MailService,
+  ) {}
+
+  async login(loginDto: LoginDto): Promise<AuthTokensDto> {
+    const user = await this.usersService.findByEmailWithPassword(loginDto.email);
+
+    // Same error for unknown emails, Google-only accounts and wrong passwords
+    if (!user?.password_hash || !(await verifyPassword(loginDto.password, user.password_hash))) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    delete user.password_hash;
+    return await this.issueTokens(user);
+  }
+
+  /**
+   * Signs in the user behind a verified Google account with the same tokens as password login
+   */
+  async loginWithGoogle(googleId: string, email: string): Promise<AuthTokensDto> {
+    const user = await this.usersService.findOrCreateByGoogle(googleId, email);
+
+    return await this.issueTokens(user);
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair, picking up any change to the user's role
+   */
+  async refresh(refreshToken: string): Promise<AuthTokensDto> {
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(refreshToken);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+    if (payload.type !== TokenType.REFRESH) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+
+    const user = await this.usersService.findOne(payload.sub).catch(() => null);
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+
+    return await this.issueTokens(user);
+  }
+
+  /**
+   * Emails a password reset link. Unknown emails are ignored silently so accounts can't be probed.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmailWithPassword(email);
+    if (!user) {
+      return;
+    }
+
+    const payload: PasswordResetPayload = {
+      sub: user.id,
+      type: TokenType.PASSWORD_RESET,
+      pwd: this.fingerprint(user.password_hash),
+    };
+    const token = await this.jwtService.signAsync(payload, {
+      expiresIn: config.mail.passwordResetExpiration,
+    });
+    await this.mailService.sendPasswordReset(user.email, token);
+  }
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    let payload: PasswordResetPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<PasswordResetPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired password reset token');
+    }
+    if (payload.type !== TokenType.PASSWORD_RESET) {
+      throw new UnauthorizedException('Invalid or expired password reset token');
+    }
+
+    const user = await this.usersService.findOne(payload.sub).catch(() => null);
+    const current = user && (await this.usersService.findByEmailWithPassword(user.email));
+    // Changing the password changes the fingerprint, so a used token stops working
+    if (!current || this.fingerprint(current.password_hash) !== payload.pwd) {
+      throw new UnauthorizedException('Invalid or expired password reset token');
+    }
+
+    await this.usersService.updatePassword(user.id, password);
+  }
+
+  private fingerprint(passwordHash?: string): string {
+    return createHash('sha256')
+      .update(passwordHash ?? '')
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  private async issueTokens(user: User): Promise<AuthTokensDto> {
+    const claims = { sub: user.id, email: user.email, role: user.role };
+    const [accessToken, refreshToken] = await Promise.all([
+      this.jwtService.signAsync(
+        { ...claims, type: TokenType.ACCESS },
+        { expiresIn: config.jwt.shortExpiration },
+      ),
+      this.jwtService.signAsync(
+        { ...claims, type: TokenType.REFRESH },
+        { expiresIn: config.jwt.longExpiration },
+      ),
+    ]);
+
+    return { accessToken, refreshToken, expiresIn: config.jwt.shortExpiration, user };
+  }
+}
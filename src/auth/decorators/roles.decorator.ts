@@ -0,0 +1,18 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { Role } from '../../users/entities/user.entity';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { RolesGuard, ROLES_KEY } from '../guards/roles.guard';
+
+/**
+ * Requires a valid access token whose user has one of the given roles.
+ * Without roles any signed-in user is allowed.
+ */
+export const Roles = (...roles: Role[]) =>
+  applyDecorators(
+    SetMetadata(ROLES_KEY, roles),
+    UseGuards(JwtAuthGuard, RolesGuard),
+    ApiBearerAuth(),
+    ApiResponse({ status: 401, description: 'Missing, invalid or expired access token' }),
+    ApiResponse({ status: 403, description: 'Role not allowed' }),
+  );
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { User } from '../../users/entities/user.entity';
+
+export class AuthTokensDto {
+  @ApiProperty({ description: 'Short-lived token to send as "Authorization: Bearer <token>"' })
+  accessToken: string;
+
+  @ApiProperty({ description: 'Long-lived token exchanged for new tokens at POST /auth/refresh' })
+  refreshToken: string;
+
+  @ApiProperty({ description: 'Access token lifetime, e.g. 15m', example: '15m' })
+  expiresIn: string;
+
+  @ApiProperty({ description: 'Signed-in user', type: User })
+  user: User;
+}
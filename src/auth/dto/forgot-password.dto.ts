@@ -0,0 +1,8 @@
+import { IsEmail } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ForgotPasswordDto {
+  @ApiProperty({ description: 'Email of the account', example: 'jane@example.com' })
+  @IsEmail()
+  email: string;
+}
@@ -0,0 +1,13 @@
+import { IsEmail, IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class LoginDto {
+  @ApiProperty({ description: 'Login email', example: 'jane@example.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ description: 'Password' })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
@@ -0,0 +1,8 @@
+import { IsJWT } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({ description: 'Refresh token issued by login or a previous refresh' })
+  @IsJWT()
+  refresh_token: string;
+}
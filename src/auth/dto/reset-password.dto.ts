@@ -0,0 +1,14 @@
+import { IsJWT, IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'Token from the password reset email' })
+  @IsJWT()
+  token: string;
+
+  @ApiProperty({ description: 'New password, at least 8 characters' })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  password: string;
+}
@@ -0,0 +1,130 @@
+import {
+  BadGatewayException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { GoogleOAuthService } from './google-oauth.service';
+import { TokenType } from './auth.service';
+import config from '../common/config';
+
+describe('GoogleOAuthService', () => {
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  const service = new GoogleOAuthService(jwtService);
+
+  const googleConfig = { ...config.google };
+  let fetchSpy: jest.SpyInstance;
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const signState = (type = TokenType.OAUTH_STATE) => jwtService.signAsync({ type });
+
+  beforeEach(() => {
+    Object.assign(config.google, {
+      client_id: 'client-id',
+      client_secret: 'client-secret',
+      callback_url: 'http://localhost:3000/auth/google/callback',
+      token_url: 'http://google.test/token',
+      userinfo_url: 'http://google.test/userinfo',
+    });
+    fetchSpy = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    Object.assign(config.google, googleConfig);
+    fetchSpy.mockRestore();
+  });
+
+  describe('getAuthorizationUrl', () => {
+    it('should point at the consent screen with a signed state', async () => {
+      const url = new URL(await service.getAuthorizationUrl());
+
+      expect(`${url.origin}${url.pathname}`).toBe(config.google.auth_url);
+      expect(url.searchParams.get('client_id')).toBe('client-id');
+      expect(url.searchParams.get('redirect_uri')).toBe(config.google.callback_url);
+      expect(url.searchParams.get('response_type')).toBe('code');
+      expect(url.searchParams.get('scope')).toBe('openid email profile');
+      await expect(jwtService.verifyAsync(url.searchParams.get('state'))).resolves.toEqual(
+        expect.objectContaining({ type: TokenType.OAUTH_STATE }),
+      );
+    });
+
+    it('should fail when no client credentials are configured', async () => {
+      config.google.client_id = '';
+
+      await expect(service.getAuthorizationUrl()).rejects.toThrow(ServiceUnavailableException);
+    });
+  });
+
+  describe('getProfile', () => {
+    it('should exchange the code and fetch the profile', async () => {
+      fetchSpy
+        .mockResolvedValueOnce(jsonResponse({ access_token: 'google-access-token' }))
+        .mockResolvedValueOnce(
+          jsonResponse({ sub: 'google-sub', email: 'jane@example.com', email_verified: true }),
+        );
+
+      const profile = await service.getProfile('auth-code', await signState());
+
+      expect(profile).toEqual(expect.objectContaining({ sub: 'google-sub' }));
+
+      const [tokenUrl, tokenInit] = fetchSpy.mock.calls[0];
+      const form = new URLSearchParams(tokenInit.body);
+      expect(tokenUrl).toBe('http://google.test/token');
+      expect(tokenInit.method).toBe('POST');
+      expect(form.get('code')).toBe('auth-code');
+      expect(form.get('client_secret')).toBe('client-secret');
+      expect(form.get('grant_type')).toBe('authorization_code');
+
+      const [userinfoUrl, userinfoInit] = fetchSpy.mock.calls[1];
+      expect(userinfoUrl).toBe('http://google.test/userinfo');
+      expect(userinfoInit.headers.Authorization).toBe('Bearer google-access-token');
+    });
+
+    it('should reject a state it did not sign', async () => {
+      const forged = await new JwtService({ secret: 'other-secret' }).signAsync({
+        type: TokenType.OAUTH_STATE,
+      });
+
+      await expect(service.getProfile('auth-code', forged)).rejects.toThrow(
+        'Invalid or expired sign-in state',
+      );
+      await expect(
+        service.getProfile('auth-code', await signState(TokenType.ACCESS)),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reject a code Google refuses', async () => {
+      fetchSpy.mockResolvedValueOnce(jsonResponse({ error: 'invalid_grant' }, 400));
+
+      await expect(service.getProfile('auth-code', await signState())).rejects.toThrow(
+        'Google sign-in failed',
+      );
+    });
+
+    it('should reject accounts without a verified email', async () => {
+      fetchSpy
+        .mockResolvedValueOnce(jsonResponse({ access_token: 'google-access-token' }))
+        .mockResolvedValueOnce(
+          jsonResponse({ sub: 'google-sub', email: 'jane@example.com', email_verified: false }),
+        );
+
+      await expect(service.getProfile('auth-code', await signState())).rejects.toThrow(
+        'Google account has no verified email',
+      );
+    });
+
+    it('should report Google being unreachable', async () => {
+      fetchSpy.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      await expect(service.getProfile('auth-code', await signState())).rejects.toThrow(
+        BadGatewayException,
+      );
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { TokenType } from '../auth.service';
+import { Role } from '../../users/entities/user.entity';
+
+describe('JwtAuthGuard', () => {
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  const guard = new JwtAuthGuard(jwtService);
+
+  const createContext = (authorization?: string) => {
+    const request: Record<string, any> = { headers: { authorization } };
+    const context = {
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as ExecutionContext;
+    return { context, request };
+  };
+
+  const sign = (type: TokenType) =>
+    jwtService.signAsync({ sub: 'user-id', email: 'admin@example.com', role: Role.ADMIN, type });
+
+  it('should attach the token payload to the request', async () => {
+    const { context, request } = createContext(`Bearer ${await sign(TokenType.ACCESS)}`);
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request.user).toEqual(
+      expect.objectContaining({ sub: 'user-id', role: Role.ADMIN, type: TokenType.ACCESS }),
+    );
+  });
+
+  it('should reject requests without a bearer token', async () => {
+    await expect(guard.canActivate(createContext().context)).rejects.toThrow(
+      'Missing access token',
+    );
+    await expect(guard.canActivate(createContext('Basic abc').context)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should reject invalid tokens and refresh tokens', async () => {
+    await expect(guard.canActivate(createContext('Bearer not.a.jwt').context)).rejects.toThrow(
+      'Invalid or expired access token',
+    );
+
+    const { context } = createContext(`Bearer ${await sign(TokenType.REFRESH)}`);
+    await expect(guard.canActivate(context)).rejects.toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,35 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { JwtPayload, TokenType } from '../auth.service';
+
+/**
+ * Authenticates the request from its "Authorization: Bearer <access token>" header
+ * and attaches the token payload as request.user
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(private readonly jwtService: JwtService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    if (scheme !== 'Bearer' || !token) {
+      throw new UnauthorizedException('Missing access token');
+    }
+
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+
+    // Refresh tokens are only good for POST /auth/refresh
+    if (payload.type !== TokenType.ACCESS) {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+
+    request.user = payload;
+    return true;
+  }
+}
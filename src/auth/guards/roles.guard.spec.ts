@@ -0,0 +1,43 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RolesGuard } from './roles.guard';
+import { Role } from '../../users/entities/user.entity';
+
+describe('RolesGuard', () => {
+  const reflector = new Reflector();
+  const guard = new RolesGuard(reflector);
+
+  const createContext = (user?: { role: Role }) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should allow any authenticated user when no roles are required', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([]);
+
+    expect(guard.canActivate(createContext({ role: Role.CUSTOMER }))).toBe(true);
+  });
+
+  it('should allow users with one of the required roles', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([Role.ADMIN, Role.MERCHANDISER]);
+
+    expect(guard.canActivate(createContext({ role: Role.MERCHANDISER }))).toBe(true);
+  });
+
+  it('should forbid other roles', () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([Role.ADMIN, Role.MERCHANDISER]);
+
+    expect(() => guard.canActivate(createContext({ role: Role.CUSTOMER }))).toThrow(
+      ForbiddenException,
+    );
+    expect(() => guard.canActivate(createContext())).toThrow(
+      'Requires one of the roles: admin, merchandiser',
+    );
+  });
+});
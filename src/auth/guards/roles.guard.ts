@@ -0,0 +1,30 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '../../users/entities/user.entity';
+import { JwtPayload } from '../auth.service';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Lets the request through when the authenticated user has one of the roles set with @Roles()
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!roles?.length) {
+      return true;
+    }
+
+    const user: JwtPayload | undefined = context.switchToHttp().getRequest().user;
+    if (!user || !roles.includes(user.role)) {
+      throw new ForbiddenException(`Requires one of the roles: ${roles.join(', ')}`);
+    }
+    return true;
+  }
+}
@@ -1,8 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
 import { CartController } from './cart.controller';
 import { CartService } from './cart.service';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { Product } from '../products/entities/product.entity';
+import { CustomersService } from '../customers/customers.service';
+import { TokenType } from '../auth/auth.service';
+import { Role } from '../users/entities/user.entity';
 
 describe('CartController', () => {
   let controller: CartController;
@@ -17,9 +21,6 @@ describe('CartController', () => {
       price: 99.99,
       stock_quantity: 10,
       image_url: 'https://example.com/image.jpg',
-      discount_percentage: null,
-      discount_start_date: null,
-      discount_end_date: null,
       created_at: new Date('2024-01-01'),
       updated_at: new Date('2024-01-01'),
       ...overrides,
@@ -27,8 +28,11 @@ describe('CartController', () => {
     return product;
   };
 
+  const cartId = '789e0123-e89b-12d3-a456-426614174002';
+
   const mockCartItem = {
     id: '456e7890-e89b-12d3-a456-426614174001',
+    cart_id: cartId,
     product_id: '123e4567-e89b-12d3-a456-426614174000',
     quantity: 2,
     created_at: new Date(),
@@ -36,6 +40,7 @@ describe('CartController', () => {
   };
 
   const mockCartResponse = {
+    id: cartId,
     items: [mockCartItem],
     totalItems: 2,
     totalPrice: 199.98,
@@ -43,10 +48,32 @@ describe('CartController', () => {
   };
 
   const mockCartService = {
+    createCart: jest.fn(),
     addToCart: jest.fn(),
+    updateCartItem: jest.fn(),
     getCart: jest.fn(),
     clearCart: jest.fn(),
     removeFromCart: jest.fn(),
+    applyCoupon: jest.fn(),
+    removeCoupon: jest.fn(),
+    getShippingOptions: jest.fn(),
+    selectShippingMethod: jest.fn(),
+    removeShippingMethod: jest.fn(),
+    findOrCreateCustomerCart: jest.fn(),
+    mergeGuestCart: jest.fn(),
+  };
+
+  const mockCustomer = { id: 'cde34567-e89b-12d3-a456-426614174007', user_id: 'user-id' };
+
+  const mockCustomersService = {
+    findOrCreateForUser: jest.fn().mockResolvedValue(mockCustomer),
+  };
+
+  const mockUser = {
+    sub: 'user-id',
+    email: 'jane@example.com',
+    role: Role.CUSTOMER,
+    type: TokenType.ACCESS,
   };
 
   beforeEach(async () => {
@@ -57,6 +84,14 @@ describe('CartController', () => {
           provide: CartService,
           useValue: mockCartService,
         },
+        {
+          provide: CustomersService,
+          useValue: mockCustomersService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
       ],
     }).compile();
 
@@ -68,6 +103,43 @@ describe('CartController', () => {
     jest.clearAllMocks();
   });
 
+  describe('createCart', () => {
+    it('should create a cart', async () => {
+      const mockCart = { id: cartId, expires_at: new Date() };
+      mockCartService.createCart.mockResolvedValue(mockCart);
+
+      const result = await controller.createCart();
+
+      expect(service.createCart).toHaveBeenCalled();
+      expect(result).toEqual(mockCart);
+    });
+  });
+
+  describe('getCustomerCart', () => {
+    it('should return the cart of the signed-in customer', async () => {
+      const customerCart = { id: cartId, customer_id: mockCustomer.id };
+      mockCartService.findOrCreateCustomerCart.mockResolvedValue(customerCart);
+
+      const result = await controller.getCustomerCart(mockUser);
+
+      expect(mockCustomersService.findOrCreateForUser).toHaveBeenCalledWith('user-id');
+      expect(service.findOrCreateCustomerCart).toHaveBeenCalledWith(mockCustomer);
+      expect(result).toEqual(customerCart);
+    });
+  });
+
+  describe('mergeGuestCart', () => {
+    it('should merge the guest cart into the customer cart', async () => {
+      const report = { cart_id: 'customer-cart-id', merged_lines: 1, reduced: [] };
+      mockCartService.mergeGuestCart.mockResolvedValue(report);
+
+      const result = await controller.mergeGuestCart(cartId, mockUser);
+
+      expect(service.mergeGuestCart).toHaveBeenCalledWith(cartId, mockCustomer);
+      expect(result).toEqual(report);
+    });
+  });
+
   describe('addToCart', () => {
     it('should add item to cart', async () => {
       const addToCartDto: AddToCartDto = {
@@ -77,20 +149,102 @@ describe('CartController', () => {
 
       mockCartService.addToCart.mockResolvedValue(mockCartItem);
 
-      const result = await controller.addToCart(addToCartDto);
+      const result = await controller.addToCart(cartId, addToCartDto);
 
-      expect(service.addToCart).toHaveBeenCalledWith(addToCartDto);
+      expect(service.addToCart).toHaveBeenCalledWith(cartId, addToCartDto);
       expect(result).toEqual(mockCartItem);
     });
   });
 
+  describe('updateCartItem', () => {
+    it('should update the item quantity', async () => {
+      const pricedItem = { ...mockCartItem, quantity: 5, lineTotal: 499.95, lineSavings: 0 };
+      mockCartService.updateCartItem.mockResolvedValue(pricedItem);
+
+      const result = await controller.updateCartItem(cartId, mockCartItem.id, { quantity: 5 });
+
+      expect(service.updateCartItem).toHaveBeenCalledWith(cartId, mockCartItem.id, {
+        quantity: 5,
+      });
+      expect(result).toEqual(pricedItem);
+    });
+  });
+
   describe('getCart', () => {
     it('should return cart with totals', async () => {
       mockCartService.getCart.mockResolvedValue(mockCartResponse);
 
-      const result = await controller.getCart();
+      const result = await controller.getCart(cartId, {});
+
+      expect(service.getCart).toHaveBeenCalledWith(cartId, undefined, {});
+      expect(result).toEqual(mockCartResponse);
+    });
+
+    it('should pass the requested currency and destination through', async () => {
+      mockCartService.getCart.mockResolvedValue({ ...mockCartResponse, currency: 'EUR' });
+
+      const query = { currency: 'EUR', region: 'DE', postcode: '10115' };
+      await controller.getCart(cartId, query);
+
+      expect(service.getCart).toHaveBeenCalledWith(cartId, 'EUR', query);
+    });
+  });
+
+  describe('applyCoupon', () => {
+    it('should apply the coupon and return the repriced cart', async () => {
+      const pricedCart = { ...mockCartResponse, couponDiscount: 20, grandTotal: 179.98 };
+      mockCartService.applyCoupon.mockResolvedValue(pricedCart);
+
+      const result = await controller.applyCoupon(cartId, { code: 'SAVE10' });
+
+      expect(service.applyCoupon).toHaveBeenCalledWith(cartId, { code: 'SAVE10' });
+      expect(result).toEqual(pricedCart);
+    });
+  });
+
+  describe('removeCoupon', () => {
+    it('should remove the coupon and return the repriced cart', async () => {
+      mockCartService.removeCoupon.mockResolvedValue(mockCartResponse);
+
+      const result = await controller.removeCoupon(cartId);
+
+      expect(service.removeCoupon).toHaveBeenCalledWith(cartId);
+      expect(result).toEqual(mockCartResponse);
+    });
+  });
+
+  describe('getShippingOptions', () => {
+    it('should quote the shipping methods in the requested currency', async () => {
+      const options = [{ id: 'method-id', name: 'Standard delivery', cost: 4.49, available: true }];
+      mockCartService.getShippingOptions.mockResolvedValue(options);
+
+      const result = await controller.getShippingOptions(cartId, { currency: 'EUR' });
+
+      expect(service.getShippingOptions).toHaveBeenCalledWith(cartId, 'EUR');
+      expect(result).toEqual(options);
+    });
+  });
+
+  describe('selectShippingMethod', () => {
+    it('should choose the method and return the repriced cart', async () => {
+      const pricedCart = { ...mockCartResponse, shippingCost: 4.99, grandTotal: 204.97 };
+      mockCartService.selectShippingMethod.mockResolvedValue(pricedCart);
+
+      const dto = { shipping_method_id: '123e4567-e89b-12d3-a456-426614174009' };
+      const result = await controller.selectShippingMethod(cartId, dto);
+
+      expect(service.selectShippingMethod).toHaveBeenCalledWith(cartId, dto);
+      expect(result).toEqual(pricedCart);
+    });
+  });
+
+  describe('removeShippingMethod', () => {
+    it('should remove the method and return the repriced cart', async () => {
+      mockCartService.removeShippingMethod.mockResolvedValue(mockCartResponse);
+
+      const result = await controller.removeShippingMethod(cartId);
 
-      expect(service.getCart).toHaveBeenCalled();
+      expect(service.removeShippingMethod).toHaveBeenCalledWith(cartId);
       expect(result).toEqual(mockCartResponse);
     });
   });
@@ -99,9 +253,9 @@ describe('CartController', () => {
     it('should clear cart', async () => {
       mockCartService.clearCart.mockResolvedValue(undefined);
 
-      await controller.clearCart();
+      await controller.clearCart(cartId);
 
-      expect(service.clearCart).toHaveBeenCalled();
+      expect(service.clearCart).toHaveBeenCalledWith(cartId);
     });
   });
 
@@ -109,9 +263,12 @@ describe('CartController', () => {
     it('should remove item from cart', async () => {
       mockCartService.removeFromCart.mockResolvedValue(undefined);
 
-      await controller.removeFromCart('456e7890-e89b-12d3-a456-426614174001');
+      await controller.removeFromCart(cartId, '456e7890-e89b-12d3-a456-426614174001');
 
-      expect(service.removeFromCart).toHaveBeenCalledWith('456e7890-e89b-12d3-a456-426614174001');
+      expect(service.removeFromCart).toHaveBeenCalledWith(
+        cartId,
+        '456e7890-e89b-12d3-a456-426614174001',
+      );
     });
   });
 });
@@ -1,18 +1,111 @@
-import { Controller, Get, Post, Body, HttpStatus, HttpCode, Delete, Param } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  HttpStatus,
+  HttpCode,
+  Delete,
+  Param,
+  Query,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiHeader,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { CartService } from './cart.service';
 import { AddToCartDto } from './dto/add-to-cart.dto';
-import { CartResponseDto } from './dto/cart-response.dto';
+import { UpdateCartItemDto } from './dto/update-cart-item.dto';
+import { ApplyCouponDto } from './dto/apply-coupon.dto';
+import { CartResponseDto, CartItemWithPricingDto } from './dto/cart-response.dto';
+import { Cart } from './entities/cart.entity';
 import { CartItem } from './entities/cart-item.entity';
 import { ParseUUIDPipe } from '../common/pipes/parse-uuid.pipe';
+import { CartId, CART_ID_HEADER } from './decorators/cart-id.decorator';
+import { CartQueryDto } from './dto/cart-query.dto';
+import { SelectShippingMethodDto } from './dto/select-shipping-method.dto';
+import { CurrencyQueryDto } from '../currencies/dto/currency-query.dto';
+import { ShippingOptionDto } from '../shipping/dto/shipping-option.dto';
+import { CartMergeReportDto } from './dto/cart-merge-report.dto';
+import { CustomersService } from '../customers/customers.service';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+import { CartOwnerGuard } from './guards/cart-owner.guard';
+
+const CART_ID_HEADER_DOC = {
+  name: CART_ID_HEADER,
+  description: 'Cart ID returned by POST /cart',
+  required: true,
+};
 
 @ApiTags('cart')
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: "Customer cart used without its owner's access token" })
+@UseGuards(CartOwnerGuard)
 @Controller('cart')
 export class CartController {
-  constructor(private readonly cartService: CartService) {}
+  constructor(
+    private readonly cartService: CartService,
+    private readonly customersService: CustomersService,
+  ) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a new anonymous cart' })
+  @ApiResponse({
+    status: 201,
+    description: 'Cart created successfully',
+    type: Cart,
+  })
+  async createCart(): Promise<Cart> {
+    return await this.cartService.createCart();
+  }
+
+  @Post('mine')
+  @HttpCode(HttpStatus.OK)
+  @Roles()
+  @ApiOperation({ summary: 'Get the cart of the signed-in customer, creating it if needed' })
+  @ApiResponse({
+    status: 200,
+    description: 'Customer cart retrieved successfully',
+    type: Cart,
+  })
+  async getCustomerCart(@CurrentUser() user: JwtPayload): Promise<Cart> {
+    const customer = await this.customersService.findOrCreateForUser(user.sub);
+    return await this.cartService.findOrCreateCustomerCart(customer);
+  }
+
+  @Post('merge')
+  @HttpCode(HttpStatus.OK)
+  @Roles()
+  @ApiHeader({ ...CART_ID_HEADER_DOC, description: 'ID of the guest cart to merge' })
+  @ApiOperation({ summary: 'Merge a guest cart into the cart of the signed-in customer' })
+  @ApiResponse({
+    status: 200,
+    description: 'Carts merged successfully, with the lines reduced to the available stock',
+    type: CartMergeReportDto,
+  })
+  @ApiResponse({ status: 400, description: 'Cart belongs to another customer' })
+  @ApiResponse({ status: 404, description: 'Guest cart not found or expired' })
+  async mergeGuestCart(
+    @CartId(ParseUUIDPipe) cartId: string,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<CartMergeReportDto> {
+    const customer = await this.customersService.findOrCreateForUser(user.sub);
+    return await this.cartService.mergeGuestCart(cartId, customer);
+  }
 
   @Post('items')
   @HttpCode(HttpStatus.CREATED)
+  @ApiHeader(CART_ID_HEADER_DOC)
   @ApiOperation({ summary: 'Add a product to cart' })
   @ApiResponse({
     status: 201,
@@ -20,43 +113,155 @@ export class CartController {
     type: CartItem,
   })
   @ApiResponse({ status: 400, description: 'Bad request - insufficient stock or invalid data' })
-  @ApiResponse({ status: 404, description: 'Product not found' })
-  async addToCart(@Body() addToCartDto: AddToCartDto): Promise<CartItem> {
-    return await this.cartService.addToCart(addToCartDto);
+  @ApiResponse({ status: 404, description: 'Cart or product not found' })
+  async addToCart(
+    @CartId(ParseUUIDPipe) cartId: string,
+    @Body() addToCartDto: AddToCartDto,
+  ): Promise<CartItem> {
+    return await this.cartService.addToCart(cartId, addToCartDto);
+  }
+
+  @Patch('items/:id')
+  @ApiHeader(CART_ID_HEADER_DOC)
+  @ApiOperation({ summary: 'Set the quantity of a cart item (0 removes it)' })
+  @ApiParam({ name: 'id', description: 'Cart item ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cart item updated successfully, empty body when it was removed',
+    type: CartItemWithPricingDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - insufficient stock or invalid data' })
+  @ApiResponse({ status: 404, description: 'Cart or cart item not found' })
+  async updateCartItem(
+    @CartId(ParseUUIDPipe) cartId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateCartItemDto: UpdateCartItemDto,
+  ): Promise<CartItemWithPricingDto | null> {
+    return await this.cartService.updateCartItem(cartId, id, updateCartItemDto);
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all items in cart with totals' })
+  @ApiHeader(CART_ID_HEADER_DOC)
+  @ApiOperation({ summary: 'Get all items in cart with totals and tax for a destination' })
   @ApiResponse({
     status: 200,
     description: 'Cart retrieved successfully',
     type: CartResponseDto,
   })
-  async getCart(): Promise<CartResponseDto> {
-    return await this.cartService.getCart();
+  @ApiResponse({ status: 400, description: 'Unsupported currency or invalid destination' })
+  @ApiResponse({ status: 404, description: 'Cart not found or expired' })
+  async getCart(
+    @CartId(ParseUUIDPipe) cartId: string,
+    @Query() query: CartQueryDto,
+  ): Promise<CartResponseDto> {
+    return await this.cartService.getCart(cartId, query.currency, query);
+  }
+
+  @Get('shipping-options')
+  @ApiHeader(CART_ID_HEADER_DOC)
+  @ApiOperation({ summary: 'Quote every active shipping method against the cart' })
+  @ApiResponse({
+    status: 200,
+    description: 'Shipping options quoted successfully',
+    type: [ShippingOptionDto],
+  })
+  @ApiResponse({ status: 400, description: 'Unsupported currency' })
+  @ApiResponse({ status: 404, description: 'Cart not found or expired' })
+  async getShippingOptions(
+    @CartId(ParseUUIDPipe) cartId: string,
+    @Query() query: CurrencyQueryDto,
+  ): Promise<ShippingOptionDto[]> {
+    return await this.cartService.getShippingOptions(cartId, query.currency);
+  }
+
+  @Put('shipping-method')
+  @ApiHeader(CART_ID_HEADER_DOC)
+  @ApiOperation({ summary: 'Choose the shipping method for the cart' })
+  @ApiResponse({
+    status: 200,
+    description: 'Shipping method chosen successfully',
+    type: CartResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Shipping method cannot ship this cart' })
+  @ApiResponse({ status: 404, description: 'Cart or shipping method not found' })
+  async selectShippingMethod(
+    @CartId(ParseUUIDPipe) cartId: string,
+    @Body() selectShippingMethodDto: SelectShippingMethodDto,
+  ): Promise<CartResponseDto> {
+    return await this.cartService.selectShippingMethod(cartId, selectShippingMethodDto);
+  }
+
+  @Delete('shipping-method')
+  @ApiHeader(CART_ID_HEADER_DOC)
+  @ApiOperation({ summary: 'Remove the chosen shipping method from the cart' })
+  @ApiResponse({
+    status: 200,
+    description: 'Shipping method removed successfully',
+    type: CartResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Cart not found or expired' })
+  async removeShippingMethod(@CartId(ParseUUIDPipe) cartId: string): Promise<CartResponseDto> {
+    return await this.cartService.removeShippingMethod(cartId);
   }
 
   @Delete()
   @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiHeader(CART_ID_HEADER_DOC)
   @ApiOperation({ summary: 'Clear all items from cart' })
   @ApiResponse({
     status: 204,
     description: 'Cart cleared successfully',
   })
-  async clearCart(): Promise<void> {
-    return await this.cartService.clearCart();
+  @ApiResponse({ status: 404, description: 'Cart not found or expired' })
+  async clearCart(@CartId(ParseUUIDPipe) cartId: string): Promise<void> {
+    return await this.cartService.clearCart(cartId);
+  }
+
+  @Post('coupon')
+  @HttpCode(HttpStatus.OK)
+  @ApiHeader(CART_ID_HEADER_DOC)
+  @ApiOperation({ summary: 'Apply a promo code to the cart' })
+  @ApiResponse({
+    status: 200,
+    description: 'Coupon applied successfully',
+    type: CartResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Coupon cannot be used with this cart' })
+  @ApiResponse({ status: 404, description: 'Cart or coupon not found' })
+  async applyCoupon(
+    @CartId(ParseUUIDPipe) cartId: string,
+    @Body() applyCouponDto: ApplyCouponDto,
+  ): Promise<CartResponseDto> {
+    return await this.cartService.applyCoupon(cartId, applyCouponDto);
+  }
+
+  @Delete('coupon')
+  @ApiHeader(CART_ID_HEADER_DOC)
+  @ApiOperation({ summary: 'Remove the promo code from the cart' })
+  @ApiResponse({
+    status: 200,
+    description: 'Coupon removed successfully',
+    type: CartResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Cart not found or expired' })
+  async removeCoupon(@CartId(ParseUUIDPipe) cartId: string): Promise<CartResponseDto> {
+    return await this.cartService.removeCoupon(cartId);
   }
 
   @Delete('items/:id')
   @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiHeader(CART_ID_HEADER_DOC)
   @ApiOperation({ summary: 'Remove a specific item from cart' })
   @ApiParam({ name: 'id', description: 'Cart item ID' })
   @ApiResponse({
     status: 204,
     description: 'Item removed from cart successfully',
   })
-  @ApiResponse({ status: 404, description: 'Cart item not found' })
-  async removeFromCart(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
-    return await this.cartService.removeFromCart(id);
+  @ApiResponse({ status: 404, description: 'Cart or cart item not found' })
+  async removeFromCart(
+    @CartId(ParseUUIDPipe) cartId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    return await this.cartService.removeFromCart(cartId, id);
   }
 }
@@ -2,12 +2,29 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { CartService } from './cart.service';
 import { CartController } from './cart.controller';
+import { Cart } from './entities/cart.entity';
 import { CartItem } from './entities/cart-item.entity';
 import { ProductsModule } from '../products/products.module';
 import { CommonModule } from '../common/common.module';
+import { ReservationsModule } from '../reservations/reservations.module';
+import { CouponsModule } from '../coupons/coupons.module';
+import { CurrenciesModule } from '../currencies/currencies.module';
+import { TaxesModule } from '../taxes/taxes.module';
+import { ShippingModule } from '../shipping/shipping.module';
+import { CustomersModule } from '../customers/customers.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([CartItem]), ProductsModule, CommonModule],
+  imports: [
+    TypeOrmModule.forFeature([Cart, CartItem]),
+    ProductsModule,
+    CommonModule,
+    ReservationsModule,
+    CouponsModule,
+    CurrenciesModule,
+    TaxesModule,
+    ShippingModule,
+    CustomersModule,
+  ],
   controllers: [CartController],
   providers: [CartService],
   exports: [CartService],
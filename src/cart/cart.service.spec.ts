@@ -1,17 +1,35 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Repository } from 'typeorm';
 import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { CartService } from './cart.service';
+import { Cart } from './entities/cart.entity';
 import { CartItem } from './entities/cart-item.entity';
 import { ProductsService } from '../products/products.service';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { Product } from '../products/entities/product.entity';
+import { ProductVariant } from '../products/entities/product-variant.entity';
+import { PriceTier } from '../products/entities/price-tier.entity';
+import { ProductDiscount } from '../products/entities/product-discount.entity';
 import { RedisService } from '../common/services/redis.service';
+import { ReservationsService } from '../reservations/reservations.service';
+import { CouponsService } from '../coupons/coupons.service';
+import { Coupon, CouponType } from '../coupons/entities/coupon.entity';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { CurrencyConverter } from '../currencies/currency-converter';
+import { TaxesService } from '../taxes/taxes.service';
+import { TaxCalculator } from '../taxes/tax-calculator';
+import { TaxRate } from '../taxes/entities/tax-rate.entity';
+import { TaxDestinationDto } from '../taxes/dto/tax-destination.dto';
+import { ShippingService } from '../shipping/shipping.service';
+import { ShippingMethod, ShippingRateType } from '../shipping/entities/shipping-method.entity';
+import { Customer } from '../customers/entities/customer.entity';
+import { User } from '../users/entities/user.entity';
 
 describe('CartService', () => {
   let service: CartService;
   let cartRepository: Repository<CartItem>;
+  let cartsRepository: Repository<Cart>;
   let productsService: ProductsService;
 
   const createMockProduct = (overrides: Partial<Product> = {}): Product => {
@@ -21,11 +39,9 @@ describe('CartService', () => {
       name: 'Test Product',
       description: 'Test Description',
       price: 99.99,
+      currency: 'USD',
       stock_quantity: 10,
       image_url: 'https://example.com/image.jpg',
-      discount_percentage: null,
-      discount_start_date: null,
-      discount_end_date: null,
       created_at: new Date('2024-01-01'),
       updated_at: new Date('2024-01-01'),
       ...overrides,
@@ -35,8 +51,23 @@ describe('CartService', () => {
 
   const mockProduct = createMockProduct();
 
+  const cartId = '789e0123-e89b-12d3-a456-426614174002';
+
+  const createMockCart = (overrides: Partial<Cart> = {}): Cart => {
+    const cart = new Cart();
+    Object.assign(cart, {
+      id: cartId,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000),
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01'),
+      ...overrides,
+    });
+    return cart;
+  };
+
   const mockCartItem = {
     id: '456e7890-e89b-12d3-a456-426614174001',
+    cart_id: cartId,
     product_id: '123e4567-e89b-12d3-a456-426614174000',
     quantity: 2,
     created_at: new Date(),
@@ -49,12 +80,21 @@ describe('CartService', () => {
     find: jest.fn(),
     findOne: jest.fn(),
     remove: jest.fn(),
-    clear: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockCartsRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
   };
 
   const mockProductsService = {
     findOne: jest.fn(),
     findOneEntity: jest.fn(),
+    invalidateProductCache: jest.fn(),
   };
 
   const mockRedisService = {
@@ -63,10 +103,83 @@ describe('CartService', () => {
     del: jest.fn(),
   };
 
+  const mockReservationsService = {
+    getReservedQuantity: jest.fn(),
+    getReservedVariantQuantity: jest.fn(),
+    hold: jest.fn(),
+    release: jest.fn(),
+    releaseExpired: jest.fn(),
+  };
+
+  const mockCouponsService = {
+    findByCode: jest.fn(),
+    assertRedeemable: jest.fn(),
+  };
+
+  const exchangeRates = new Map([
+    ['EUR', 0.9],
+    ['JPY', 150],
+  ]);
+
+  const mockCurrenciesService = {
+    getConverter: jest.fn((currency?: string) =>
+      Promise.resolve(new CurrencyConverter(currency ?? 'USD', 'USD', exchangeRates)),
+    ),
+  };
+
+  const taxRates = [
+    { tax_class: 'standard', region: 'US-CA', rate: 7.25, inclusive: false },
+    { tax_class: 'standard', region: 'US-CA', postcode_prefix: '941', rate: 8.5, inclusive: false },
+    { tax_class: 'standard', region: 'DE', rate: 19, inclusive: true },
+  ].map((rate) => Object.assign(new TaxRate(), rate));
+
+  const mockTaxesService = {
+    getCalculator: jest.fn((destination: TaxDestinationDto = {}) =>
+      Promise.resolve(new TaxCalculator(destination, taxRates)),
+    ),
+  };
+
+  const mockShippingService = {
+    findOne: jest.fn(),
+    findActive: jest.fn(),
+    quote: jest.fn(ShippingService.prototype.quote),
+  };
+
+  const createMockShippingMethod = (overrides: Partial<ShippingMethod> = {}): ShippingMethod =>
+    Object.assign(new ShippingMethod(), {
+      id: 'def12345-e89b-12d3-a456-426614174004',
+      name: 'Standard delivery',
+      rate_type: ShippingRateType.WEIGHT,
+      weight_bands: [
+        { max_weight: 2, price: 4.99 },
+        { max_weight: 10, price: 9.99 },
+      ],
+      is_active: true,
+      ...overrides,
+    });
+
+  const createMockCoupon = (overrides: Partial<Coupon> = {}): Coupon => {
+    const coupon = new Coupon();
+    Object.assign(coupon, {
+      id: 'abc12345-e89b-12d3-a456-426614174003',
+      code: 'SAVE10',
+      type: CouponType.PERCENTAGE,
+      value: 10,
+      times_used: 0,
+      is_active: true,
+      ...overrides,
+    });
+    return coupon;
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         CartService,
+        {
+          provide: getRepositoryToken(Cart),
+          useValue: mockCartsRepository,
+        },
         {
           provide: getRepositoryToken(CartItem),
           useValue: mockCartRepository,
@@ -79,18 +192,82 @@ describe('CartService', () => {
           provide: RedisService,
           useValue: mockRedisService,
         },
+        {
+          provide: ReservationsService,
+          useValue: mockReservationsService,
+        },
+        {
+          provide: CouponsService,
+          useValue: mockCouponsService,
+        },
+        {
+          provide: CurrenciesService,
+          useValue: mockCurrenciesService,
+        },
+        {
+          provide: TaxesService,
+          useValue: mockTaxesService,
+        },
+        {
+          provide: ShippingService,
+          useValue: mockShippingService,
+        },
       ],
     }).compile();
 
     service = module.get<CartService>(CartService);
     cartRepository = module.get<Repository<CartItem>>(getRepositoryToken(CartItem));
+    cartsRepository = module.get<Repository<Cart>>(getRepositoryToken(Cart));
     productsService = module.get<ProductsService>(ProductsService);
   });
 
+  beforeEach(() => {
+    mockCartsRepository.findOne.mockResolvedValue(createMockCart());
+    mockCartsRepository.save.mockImplementation(async (cart) => cart);
+    mockReservationsService.getReservedQuantity.mockResolvedValue(0);
+  });
+
   afterEach(() => {
     jest.clearAllMocks();
   });
 
+  describe('createCart', () => {
+    it('should create a cart with an expiry date in the future', async () => {
+      const cart = createMockCart();
+      mockCartsRepository.create.mockReturnValue(cart);
+
+      const result = await service.createCart();
+
+      expect(cartsRepository.create).toHaveBeenCalledWith({ expires_at: expect.any(Date) });
+      const { expires_at } = mockCartsRepository.create.mock.calls[0][0];
+      expect(expires_at.getTime()).toBeGreaterThan(Date.now());
+      expect(result).toBe(cart);
+    });
+  });
+
+  describe('findCart', () => {
+    it('should return an active cart', async () => {
+      const result = await service.findCart(cartId);
+
+      expect(cartsRepository.findOne).toHaveBeenCalledWith({ where: { id: cartId } });
+      expect(result.id).toBe(cartId);
+    });
+
+    it('should throw NotFoundException when cart does not exist', async () => {
+      mockCartsRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findCart(cartId)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should discard and reject an expired cart', async () => {
+      const expiredCart = createMockCart({ expires_at: new Date('2020-01-01') });
+      mockCartsRepository.findOne.mockResolvedValue(expiredCart);
+
+      await expect(service.findCart(cartId)).rejects.toThrow('has expired');
+      expect(cartsRepository.remove).toHaveBeenCalledWith(expiredCart);
+    });
+  });
+
   describe('addToCart', () => {
     const addToCartDto: AddToCartDto = {
       product_id: '123e4567-e89b-12d3-a456-426614174000',
@@ -103,15 +280,29 @@ describe('CartService', () => {
       mockCartRepository.create.mockReturnValue(mockCartItem);
       mockCartRepository.save.mockResolvedValue(mockCartItem);
 
-      const result = await service.addToCart(addToCartDto);
+      const result = await service.addToCart(cartId, addToCartDto);
 
       expect(productsService.findOneEntity).toHaveBeenCalledWith(
         '123e4567-e89b-12d3-a456-426614174000',
       );
+      expect(cartRepository.findOne).toHaveBeenCalledWith({
+        where: {
+          cart_id: cartId,
+          product_id: '123e4567-e89b-12d3-a456-426614174000',
+          variant_id: IsNull(),
+        },
+      });
       expect(cartRepository.create).toHaveBeenCalledWith({
+        cart_id: cartId,
         product_id: '123e4567-e89b-12d3-a456-426614174000',
         quantity: 2,
       });
+      expect(mockReservationsService.hold).toHaveBeenCalledWith(
+        cartId,
+        '123e4567-e89b-12d3-a456-426614174000',
+        2,
+        undefined,
+      );
       expect(result).toEqual(mockCartItem);
     });
 
@@ -123,20 +314,122 @@ describe('CartService', () => {
       mockCartRepository.findOne.mockResolvedValue(existingCartItem);
       mockCartRepository.save.mockResolvedValue(updatedCartItem);
 
-      const result = await service.addToCart(addToCartDto);
+      const result = await service.addToCart(cartId, addToCartDto);
 
       expect(cartRepository.save).toHaveBeenCalledWith({
         ...existingCartItem,
         quantity: 3,
       });
+      expect(mockReservationsService.hold).toHaveBeenCalledWith(
+        cartId,
+        '123e4567-e89b-12d3-a456-426614174000',
+        3,
+        undefined,
+      );
       expect(result).toEqual(updatedCartItem);
     });
 
+    it('should reject quantities held by other carts', async () => {
+      mockProductsService.findOneEntity.mockResolvedValue(mockProduct);
+      mockReservationsService.getReservedQuantity.mockResolvedValue(9);
+
+      await expect(service.addToCart(cartId, addToCartDto)).rejects.toThrow(
+        'Insufficient stock. Available: 1, Requested: 2',
+      );
+      expect(mockReservationsService.getReservedQuantity).toHaveBeenCalledWith(
+        '123e4567-e89b-12d3-a456-426614174000',
+        cartId,
+      );
+      expect(mockReservationsService.hold).not.toHaveBeenCalled();
+      expect(cartRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should not save the item when the hold fails', async () => {
+      mockProductsService.findOneEntity.mockResolvedValue(mockProduct);
+      mockCartRepository.findOne.mockResolvedValue(null);
+      mockReservationsService.hold.mockRejectedValueOnce(new BadRequestException());
+
+      await expect(service.addToCart(cartId, addToCartDto)).rejects.toThrow(BadRequestException);
+      expect(cartRepository.save).not.toHaveBeenCalled();
+    });
+
+    describe('products sold in variants', () => {
+      const variant = Object.assign(new ProductVariant(), {
+        id: 'abc00000-e89b-12d3-a456-426614174009',
+        product_id: mockProduct.id,
+        sku: 'TEST-L',
+        options: { size: 'L' },
+        stock_quantity: 3,
+      });
+      const productWithVariants = createMockProduct({ variants: [variant] });
+
+      beforeEach(() => {
+        mockProductsService.findOneEntity.mockResolvedValue(productWithVariants);
+        mockReservationsService.getReservedVariantQuantity.mockResolvedValue(0);
+      });
+
+      it('should hold the chosen variant', async () => {
+        mockCartRepository.findOne.mockResolvedValue(null);
+        mockCartRepository.create.mockImplementation((data) => data);
+        mockCartRepository.save.mockImplementation(async (item) => item);
+
+        await service.addToCart(cartId, { ...addToCartDto, variant_id: variant.id });
+
+        expect(cartRepository.findOne).toHaveBeenCalledWith({
+          where: { cart_id: cartId, product_id: mockProduct.id, variant_id: variant.id },
+        });
+        expect(cartRepository.create).toHaveBeenCalledWith({
+          cart_id: cartId,
+          product_id: mockProduct.id,
+          variant_id: variant.id,
+          quantity: 2,
+        });
+        expect(mockReservationsService.hold).toHaveBeenCalledWith(
+          cartId,
+          mockProduct.id,
+          2,
+          variant.id,
+        );
+      });
+
+      it('should limit the quantity to the stock of the variant', async () => {
+        mockReservationsService.getReservedVariantQuantity.mockResolvedValue(2);
+
+        await expect(
+          service.addToCart(cartId, { ...addToCartDto, variant_id: variant.id }),
+        ).rejects.toThrow('Insufficient stock. Available: 1, Requested: 2');
+        expect(mockReservationsService.getReservedVariantQuantity).toHaveBeenCalledWith(
+          variant.id,
+          cartId,
+        );
+      });
+
+      it('should require a variant to be chosen', async () => {
+        await expect(service.addToCart(cartId, addToCartDto)).rejects.toThrow(
+          'Choose a variant of Test Product',
+        );
+        expect(mockReservationsService.hold).not.toHaveBeenCalled();
+      });
+
+      it('should reject a variant of another product', async () => {
+        await expect(
+          service.addToCart(cartId, { ...addToCartDto, variant_id: mockCartItem.id }),
+        ).rejects.toThrow(NotFoundException);
+      });
+    });
+
     it('should throw BadRequestException when insufficient stock', async () => {
       const lowStockProduct = { ...mockProduct, stock_quantity: 1 };
       mockProductsService.findOneEntity.mockResolvedValue(lowStockProduct);
 
-      await expect(service.addToCart(addToCartDto)).rejects.toThrow(BadRequestException);
+      await expect(service.addToCart(cartId, addToCartDto)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException when cart does not exist', async () => {
+      mockCartsRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.addToCart(cartId, addToCartDto)).rejects.toThrow(NotFoundException);
+      expect(cartRepository.save).not.toHaveBeenCalled();
     });
 
     it('should throw BadRequestException when total quantity exceeds stock', async () => {
@@ -144,7 +437,64 @@ describe('CartService', () => {
       mockProductsService.findOneEntity.mockResolvedValue(mockProduct);
       mockCartRepository.findOne.mockResolvedValue(existingCartItem);
 
-      await expect(service.addToCart(addToCartDto)).rejects.toThrow(BadRequestException);
+      await expect(service.addToCart(cartId, addToCartDto)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateCartItem', () => {
+    const itemId = '456e7890-e89b-12d3-a456-426614174001';
+
+    it('should set an absolute quantity and return the repriced line', async () => {
+      mockCartRepository.findOne.mockResolvedValue({ ...mockCartItem });
+      mockProductsService.findOneEntity.mockResolvedValue(mockProduct);
+      mockCartRepository.save.mockImplementation(async (item) => item);
+
+      const result = await service.updateCartItem(cartId, itemId, { quantity: 1 });
+
+      expect(cartRepository.save).toHaveBeenCalledWith(expect.objectContaining({ quantity: 1 }));
+      expect(mockReservationsService.hold).toHaveBeenCalledWith(
+        cartId,
+        mockProduct.id,
+        1,
+        undefined,
+      );
+      expect(mockRedisService.del).toHaveBeenCalledWith(`cart:${cartId}:items`);
+      expect(result.quantity).toBe(1);
+      expect(result.lineTotal).toBe(99.99);
+    });
+
+    it('should remove the item when quantity is 0', async () => {
+      mockCartRepository.findOne.mockResolvedValue(mockCartItem);
+
+      const result = await service.updateCartItem(cartId, itemId, { quantity: 0 });
+
+      expect(result).toBeNull();
+      expect(cartRepository.remove).toHaveBeenCalledWith(mockCartItem);
+      expect(mockReservationsService.hold).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when stock is insufficient', async () => {
+      mockCartRepository.findOne.mockResolvedValue({ ...mockCartItem });
+      mockProductsService.findOneEntity.mockResolvedValue(mockProduct);
+
+      await expect(service.updateCartItem(cartId, itemId, { quantity: 11 })).rejects.toThrow(
+        'Insufficient stock. Available: 10, Requested: 11',
+      );
+      expect(cartRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when cart item not found', async () => {
+      mockCartRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.updateCartItem(cartId, itemId, { quantity: 3 })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should reject negative quantities', async () => {
+      await expect(service.updateCartItem(cartId, itemId, { quantity: -1 })).rejects.toThrow(
+        BadRequestException,
+      );
     });
   });
 
@@ -153,12 +503,15 @@ describe('CartService', () => {
       const cartItems = [mockCartItem];
       mockCartRepository.find.mockResolvedValue(cartItems);
 
-      const result = await service.getCart();
+      const result = await service.getCart(cartId);
 
       expect(cartRepository.find).toHaveBeenCalledWith({
+        where: { cart_id: cartId },
         relations: ['product'],
         order: { created_at: 'DESC' },
       });
+      expect(result.id).toBe(cartId);
+      expect(result.currency).toBe('USD');
       expect(result.totalItems).toBe(2);
       expect(result.totalPrice).toBe(199.98);
       expect(result.totalOriginalPrice).toBe(199.98);
@@ -172,7 +525,7 @@ describe('CartService', () => {
     it('should return empty cart when no items', async () => {
       mockCartRepository.find.mockResolvedValue([]);
 
-      const result = await service.getCart();
+      const result = await service.getCart(cartId);
 
       expect(result.items).toHaveLength(0);
       expect(result.totalItems).toBe(0);
@@ -182,11 +535,53 @@ describe('CartService', () => {
       expect(result.uniqueProducts).toBe(0);
     });
 
+    it('should price variant lines at the discounted variant price', async () => {
+      const variant = Object.assign(new ProductVariant(), {
+        id: 'abc00000-e89b-12d3-a456-426614174009',
+        sku: 'TEST-XL',
+        options: { size: 'XL' },
+        price: 120,
+        stock_quantity: 4,
+        image_url: 'https://example.com/xl.jpg',
+      });
+      const product = createMockProduct({
+        variants: [variant],
+        discounts: [
+          Object.assign(new ProductDiscount(), {
+            discount_percentage: 25,
+            starts_at: new Date('2020-01-01'),
+            ends_at: new Date('2030-12-31'),
+          }),
+        ],
+      });
+      mockCartRepository.find.mockResolvedValue([
+        { ...mockCartItem, product, variant_id: variant.id, variant },
+      ]);
+
+      const result = await service.getCart(cartId);
+
+      expect(result.items[0].variant).toEqual({
+        id: variant.id,
+        sku: 'TEST-XL',
+        options: { size: 'XL' },
+      });
+      expect(result.items[0].product.originalPrice).toBe(120);
+      expect(result.items[0].product.effectivePrice).toBe(90);
+      expect(result.items[0].product.stock_quantity).toBe(4);
+      expect(result.items[0].product.image_url).toBe('https://example.com/xl.jpg');
+      expect(result.items[0].lineTotal).toBe(180);
+      expect(result.totalSavings).toBe(60);
+    });
+
     it('should calculate totals correctly with discounted products', async () => {
       const discountedProduct = createMockProduct({
-        discount_percentage: 20,
-        discount_start_date: new Date('2020-01-01'),
-        discount_end_date: new Date('2030-12-31'),
+        discounts: [
+          Object.assign(new ProductDiscount(), {
+            discount_percentage: 20,
+            starts_at: new Date('2020-01-01'),
+            ends_at: new Date('2030-12-31'),
+          }),
+        ],
       });
 
       const cartItemWithDiscount = {
@@ -196,7 +591,7 @@ describe('CartService', () => {
 
       mockCartRepository.find.mockResolvedValue([cartItemWithDiscount]);
 
-      const result = await service.getCart();
+      const result = await service.getCart(cartId);
 
       expect(result.totalItems).toBe(2);
       expect(result.totalPrice).toBe(159.98); // 2 * 79.99
@@ -205,15 +600,483 @@ describe('CartService', () => {
       expect(result.items[0].lineTotal).toBe(159.98);
       expect(result.items[0].lineSavings).toBe(39.98);
     });
+
+    it('should apply the volume tier matching the line quantity', async () => {
+      const tieredProduct = createMockProduct({
+        price: 100,
+        price_tiers: [Object.assign(new PriceTier(), { min_quantity: 2, discount_percentage: 10 })],
+      });
+      mockCartRepository.find.mockResolvedValue([{ ...mockCartItem, product: tieredProduct }]);
+
+      const result = await service.getCart(cartId);
+
+      expect(result.items[0].priceTier).toEqual({ min_quantity: 2, discount_percentage: 10 });
+      expect(result.items[0].unitPrice).toBe(90);
+      expect(result.items[0].lineTotal).toBe(180);
+      expect(result.items[0].lineSavings).toBe(20);
+      expect(result.totalSavings).toBe(20);
+    });
+
+    it('should report the coupon discount separately from totalSavings', async () => {
+      mockCartsRepository.findOne.mockResolvedValue(createMockCart({ coupon: createMockCoupon() }));
+      mockCartRepository.find.mockResolvedValue([mockCartItem]);
+
+      const result = await service.getCart(cartId);
+
+      expect(result.totalSavings).toBe(0);
+      expect(result.couponDiscount).toBe(20);
+      expect(result.grandTotal).toBe(179.98);
+      expect(result.coupon).toEqual({
+        code: 'SAVE10',
+        type: CouponType.PERCENTAGE,
+        value: 10,
+        applicable: true,
+      });
+    });
+
+    it('should convert prices and totals to the requested currency', async () => {
+      mockCartRepository.find.mockResolvedValue([mockCartItem]);
+
+      const result = await service.getCart(cartId, 'EUR');
+
+      expect(mockCurrenciesService.getConverter).toHaveBeenCalledWith('EUR');
+      expect(result.currency).toBe('EUR');
+      expect(result.items[0].product.originalPrice).toBe(89.99); // 99.99 * 0.9
+      expect(result.items[0].unitPrice).toBe(89.99);
+      expect(result.items[0].lineTotal).toBe(179.98);
+      expect(result.totalPrice).toBe(179.98);
+    });
+
+    it('should convert products priced in other currencies', async () => {
+      const yenProduct = createMockProduct({ price: 1000, currency: 'JPY' });
+      mockCartRepository.find.mockResolvedValue([{ ...mockCartItem, product: yenProduct }]);
+
+      const usd = await service.getCart(cartId);
+      const jpy = await service.getCart(cartId, 'JPY');
+
+      expect(usd.items[0].unitPrice).toBe(6.67); // 1000 / 150
+      expect(usd.totalPrice).toBe(13.34);
+      expect(jpy.items[0].unitPrice).toBe(1000);
+      expect(jpy.totalPrice).toBe(2000);
+    });
+
+    it('should convert fixed coupon amounts from the base currency', async () => {
+      const coupon = createMockCoupon({ type: CouponType.FIXED, value: 10 });
+      mockCartsRepository.findOne.mockResolvedValue(createMockCart({ coupon }));
+      mockCartRepository.find.mockResolvedValue([mockCartItem]);
+
+      const result = await service.getCart(cartId, 'EUR');
+
+      expect(result.coupon.value).toBe(9);
+      expect(result.couponDiscount).toBe(9);
+      expect(result.grandTotal).toBe(170.98);
+    });
+
+    it('should keep a coupon that no longer applies without discounting', async () => {
+      const coupon = createMockCoupon({ min_subtotal: 500 });
+      mockCartsRepository.findOne.mockResolvedValue(createMockCart({ coupon }));
+      mockCartRepository.find.mockResolvedValue([mockCartItem]);
+
+      const result = await service.getCart(cartId);
+
+      expect(result.couponDiscount).toBe(0);
+      expect(result.grandTotal).toBe(199.98);
+      expect(result.coupon.applicable).toBe(false);
+      expect(result.coupon.message).toBe('Cart subtotal must be at least 500');
+    });
+
+    describe('tax', () => {
+      const taxedItem = { ...mockCartItem, product: createMockProduct({ tax_class: 'standard' }) };
+
+      beforeEach(() => {
+        mockCartRepository.find.mockResolvedValue([taxedItem]);
+      });
+
+      it('should not charge tax without a destination', async () => {
+        const result = await service.getCart(cartId);
+
+        expect(mockTaxesService.getCalculator).toHaveBeenCalledWith(undefined);
+        expect(result.items[0].taxAmount).toBe(0);
+        expect(result.totalTax).toBe(0);
+        expect(result.grandTotal).toBe(199.98);
+      });
+
+      it('should add exclusive tax for the destination region', async () => {
+        const result = await service.getCart(cartId, undefined, { region: 'US-CA' });
+
+        expect(result.items[0].taxRate).toBe(7.25);
+        expect(result.items[0].taxAmount).toBe(14.5); // 199.98 * 7.25%
+        expect(result.items[0].priceIncludesTax).toBe(false);
+        expect(result.totalTax).toBe(14.5);
+        expect(result.grandTotal).toBe(214.48);
+      });
+
+      it('should prefer a rate matching the destination postcode', async () => {
+        const result = await service.getCart(cartId, undefined, {
+          region: 'US-CA',
+          postcode: '94107',
+        });
+
+        expect(result.items[0].taxRate).toBe(8.5);
+        expect(result.totalTax).toBe(17);
+        expect(result.grandTotal).toBe(216.98);
+      });
+
+      it('should report inclusive tax without adding it to the grand total', async () => {
+        const result = await service.getCart(cartId, undefined, { region: 'DE' });
+
+        expect(result.items[0].priceIncludesTax).toBe(true);
+        expect(result.totalTax).toBe(31.93); // 199.98 * 19 / 119
+        expect(result.grandTotal).toBe(199.98);
+      });
+
+      it('should not tax products without a tax class', async () => {
+        mockCartRepository.find.mockResolvedValue([mockCartItem]);
+
+        const result = await service.getCart(cartId, undefined, { region: 'US-CA' });
+
+        expect(result.items[0].taxRate).toBe(0);
+        expect(result.totalTax).toBe(0);
+      });
+
+      it('should tax lines after their share of the coupon discount', async () => {
+        mockCartsRepository.findOne.mockResolvedValue(
+          createMockCart({ coupon: createMockCoupon() }),
+        );
+
+        const result = await service.getCart(cartId, undefined, { region: 'US-CA' });
+
+        expect(result.couponDiscount).toBe(20);
+        expect(result.items[0].taxAmount).toBe(13.05); // (199.98 - 20) * 7.25%
+        expect(result.grandTotal).toBe(193.03);
+      });
+    });
+  });
+
+  describe('applyCoupon', () => {
+    it('should validate and attach the coupon to the cart', async () => {
+      const coupon = createMockCoupon({ type: CouponType.FIXED, value: 15 });
+      mockCouponsService.findByCode.mockResolvedValue(coupon);
+      mockCartRepository.find.mockResolvedValue([mockCartItem]);
+
+      const result = await service.applyCoupon(cartId, {
+        code: 'save10',
+        email: 'Jane@Example.com',
+      });
+
+      expect(mockCouponsService.findByCode).toHaveBeenCalledWith('save10');
+      expect(mockCouponsService.assertRedeemable).toHaveBeenCalledWith(
+        coupon,
+        expect.any(Array),
+        'jane@example.com',
+      );
+      expect(cartsRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ coupon_id: coupon.id, customer_email: 'jane@example.com' }),
+      );
+      expect(result.couponDiscount).toBe(15);
+      expect(result.grandTotal).toBe(184.98);
+    });
+
+    it('should not attach a coupon that cannot be redeemed', async () => {
+      mockCouponsService.findByCode.mockResolvedValue(createMockCoupon());
+      mockCartRepository.find.mockResolvedValue([mockCartItem]);
+      mockCouponsService.assertRedeemable.mockRejectedValueOnce(
+        new BadRequestException('Coupon has expired'),
+      );
+
+      await expect(service.applyCoupon(cartId, { code: 'SAVE10' })).rejects.toThrow(
+        'Coupon has expired',
+      );
+      expect(cartsRepository.save).not.toHaveBeenCalled();
+    });
+
+    describe('on a customer cart', () => {
+      const customerCart = createMockCart({
+        customer_id: 'customer-id',
+        customer_email: 'jane@example.com',
+      });
+
+      beforeEach(() => {
+        mockCartsRepository.findOne.mockResolvedValueOnce(customerCart).mockResolvedValueOnce({
+          ...customerCart,
+          customer: { id: 'customer-id', user: { email: 'jane@example.com' } },
+        });
+        mockCouponsService.findByCode.mockResolvedValue(createMockCoupon());
+        mockCartRepository.find.mockResolvedValue([mockCartItem]);
+      });
+
+      it('should count the coupon against the account email', async () => {
+        await service.applyCoupon(cartId, { code: 'SAVE10', email: 'JANE@example.com' });
+
+        expect(mockCartsRepository.findOne).toHaveBeenLastCalledWith({
+          where: { id: cartId },
+          relations: ['customer', 'customer.user'],
+        });
+        expect(mockCouponsService.assertRedeemable).toHaveBeenCalledWith(
+          expect.anything(),
+          expect.any(Array),
+          'jane@example.com',
+        );
+      });
+
+      it('should reject a different email', async () => {
+        await expect(
+          service.applyCoupon(cartId, { code: 'SAVE10', email: 'someone@else.com' }),
+        ).rejects.toThrow(BadRequestException);
+        expect(mockCouponsService.assertRedeemable).not.toHaveBeenCalled();
+        expect(cartsRepository.save).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('removeCoupon', () => {
+    it('should detach the coupon from the cart', async () => {
+      mockCartsRepository.findOne.mockResolvedValue(createMockCart({ coupon: createMockCoupon() }));
+      mockCartRepository.find.mockResolvedValue([mockCartItem]);
+
+      const result = await service.removeCoupon(cartId);
+
+      expect(cartsRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ coupon_id: null, coupon: null }),
+      );
+      expect(result.coupon).toBeNull();
+      expect(result.grandTotal).toBe(199.98);
+    });
+  });
+
+  describe('shipping', () => {
+    // 2 × 1.2 kg, 99.99 each
+    const heavyItem = {
+      ...mockCartItem,
+      product: createMockProduct({ weight_kg: 1.2, length_cm: 40, width_cm: 30, height_cm: 10 }),
+    };
+
+    it('should quote every active method against the cart weight and size', async () => {
+      const courier = createMockShippingMethod({
+        id: 'fed12345-e89b-12d3-a456-426614174005',
+        name: 'Courier',
+        rate_type: ShippingRateType.FLAT,
+        flat_rate: 15,
+        max_dimension: 35,
+      });
+      mockShippingService.findActive.mockResolvedValue([createMockShippingMethod(), courier]);
+      mockCartRepository.find.mockResolvedValue([heavyItem]);
+
+      const options = await service.getShippingOptions(cartId);
+
+      expect(options[0]).toEqual(expect.objectContaining({ cost: 9.99, available: true }));
+      expect(options[1]).toEqual(
+        expect.objectContaining({
+          cost: 0,
+          available: false,
+          message: 'An item is longer than 35 cm',
+        }),
+      );
+    });
+
+    it('should quote in the requested currency', async () => {
+      mockShippingService.findActive.mockResolvedValue([createMockShippingMethod()]);
+      mockCartRepository.find.mockResolvedValue([heavyItem]);
+
+      const [option] = await service.getShippingOptions(cartId, 'EUR');
+
+      expect(option.cost).toBe(8.99);
+    });
+
+    it('should add the chosen method to the cart totals', async () => {
+      mockShippingService.findOne.mockResolvedValue(createMockShippingMethod());
+      mockCartRepository.find.mockResolvedValue([heavyItem]);
+
+      const result = await service.selectShippingMethod(cartId, {
+        shipping_method_id: 'def12345-e89b-12d3-a456-426614174004',
+      });
+
+      expect(cartsRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ shipping_method_id: 'def12345-e89b-12d3-a456-426614174004' }),
+      );
+      expect(result.shipping.name).toBe('Standard delivery');
+      expect(result.shippingCost).toBe(9.99);
+      expect(result.grandTotal).toBe(209.97);
+    });
+
+    it('should not charge shipping from the free_over threshold after the coupon', async () => {
+      mockCartsRepository.findOne.mockResolvedValue(
+        createMockCart({
+          shipping_method: createMockShippingMethod({ free_over: 190 }),
+          coupon: createMockCoupon({ type: CouponType.FIXED, value: 15 }),
+        }),
+      );
+      mockCartRepository.find.mockResolvedValue([heavyItem]);
+
+      const result = await service.getCart(cartId);
+
+      // 199.98 - 15 is below the threshold
+      expect(result.shippingCost).toBe(9.99);
+      expect(result.grandTotal).toBe(194.97);
+    });
+
+    it('should not choose a method that cannot ship the cart', async () => {
+      mockShippingService.findOne.mockResolvedValue(createMockShippingMethod({ max_weight: 2 }));
+      mockCartRepository.find.mockResolvedValue([heavyItem]);
+
+      await expect(
+        service.selectShippingMethod(cartId, {
+          shipping_method_id: 'def12345-e89b-12d3-a456-426614174004',
+        }),
+      ).rejects.toThrow('Cart weighs more than 2 kg');
+      expect(cartsRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should remove the chosen method from the cart', async () => {
+      mockCartsRepository.findOne.mockResolvedValue(
+        createMockCart({ shipping_method: createMockShippingMethod() }),
+      );
+      mockCartRepository.find.mockResolvedValue([heavyItem]);
+
+      const result = await service.removeShippingMethod(cartId);
+
+      expect(cartsRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ shipping_method_id: null, shipping_method: null }),
+      );
+      expect(result.shipping).toBeNull();
+      expect(result.grandTotal).toBe(199.98);
+    });
+  });
+
+  describe('customer carts', () => {
+    const customerCartId = 'fed01234-e89b-12d3-a456-426614174005';
+    const otherProductId = 'bcd23456-e89b-12d3-a456-426614174006';
+
+    const customer = Object.assign(new Customer(), {
+      id: 'cde34567-e89b-12d3-a456-426614174007',
+      user: Object.assign(new User(), { email: 'jane@example.com' }),
+    });
+
+    const guestCart = createMockCart();
+    const customerCart = createMockCart({ id: customerCartId, customer_id: customer.id });
+
+    beforeEach(() => {
+      mockCartsRepository.findOne.mockImplementation(async ({ where }) =>
+        where.id ? guestCart : customerCart,
+      );
+      mockCartRepository.create.mockImplementation((item) => item);
+    });
+
+    it('should return the active cart of the customer', async () => {
+      const result = await service.findOrCreateCustomerCart(customer);
+
+      expect(cartsRepository.findOne).toHaveBeenCalledWith({
+        where: { customer_id: customer.id },
+      });
+      expect(result).toBe(customerCart);
+      expect(cartsRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should start a cart for a customer without one', async () => {
+      mockCartsRepository.findOne.mockResolvedValue(null);
+      mockCartsRepository.create.mockImplementation((cart) => cart);
+
+      const result = await service.findOrCreateCustomerCart(customer);
+
+      expect(result).toEqual(
+        expect.objectContaining({ customer_id: customer.id, customer_email: 'jane@example.com' }),
+      );
+      expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should sum quantities per product and cap them at the available stock', async () => {
+      mockCartRepository.find.mockResolvedValue([
+        { ...mockCartItem, quantity: 3 },
+        { ...mockCartItem, id: 'guest-line-2', product_id: otherProductId, quantity: 2 },
+      ]);
+      mockProductsService.findOneEntity.mockImplementation(async (id) =>
+        createMockProduct({ id, stock_quantity: id === mockProduct.id ? 4 : 10 }),
+      );
+      const existingLine = { ...mockCartItem, id: 'account-line', cart_id: customerCartId };
+      mockCartRepository.findOne.mockImplementation(async ({ where }) =>
+        where.product_id === mockProduct.id ? existingLine : null,
+      );
+
+      const result = await service.mergeGuestCart(cartId, customer);
+
+      expect(result).toEqual({
+        cart_id: customerCartId,
+        merged_lines: 2,
+        reduced: [
+          {
+            product_id: mockProduct.id,
+            requested_quantity: 5,
+            quantity: 4,
+            reason: 'Insufficient stock. Available: 4, Requested: 5',
+          },
+        ],
+      });
+      expect(mockReservationsService.release).toHaveBeenCalledWith(cartId);
+      expect(mockReservationsService.hold).toHaveBeenCalledWith(
+        customerCartId,
+        mockProduct.id,
+        4,
+        undefined,
+      );
+      expect(cartRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'account-line', quantity: 4 }),
+      );
+      expect(cartRepository.save).toHaveBeenCalledWith({
+        cart_id: customerCartId,
+        product_id: otherProductId,
+        quantity: 2,
+      });
+      expect(cartsRepository.remove).toHaveBeenCalledWith(guestCart);
+      expect(mockRedisService.del).toHaveBeenCalledWith(`cart:${cartId}:items`);
+    });
+
+    it('should drop lines whose stock is held by other carts', async () => {
+      mockCartRepository.find.mockResolvedValue([{ ...mockCartItem, quantity: 1 }]);
+      mockProductsService.findOneEntity.mockResolvedValue(mockProduct);
+      mockCartRepository.findOne.mockResolvedValue(null);
+      mockReservationsService.getReservedQuantity.mockResolvedValue(mockProduct.stock_quantity);
+
+      const result = await service.mergeGuestCart(cartId, customer);
+
+      expect(result.reduced).toEqual([expect.objectContaining({ quantity: 0 })]);
+      expect(mockReservationsService.hold).not.toHaveBeenCalled();
+      expect(cartRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should not merge the cart of another customer', async () => {
+      mockCartsRepository.findOne.mockImplementation(async ({ where }) =>
+        where.id ? createMockCart({ customer_id: 'other-customer' }) : customerCart,
+      );
+
+      await expect(service.mergeGuestCart(cartId, customer)).rejects.toThrow(
+        'Only guest carts can be merged',
+      );
+      expect(mockReservationsService.release).not.toHaveBeenCalled();
+    });
+
+    it('should leave the customer cart alone when merged into itself', async () => {
+      mockCartsRepository.findOne.mockResolvedValue(customerCart);
+
+      const result = await service.mergeGuestCart(customerCartId, customer);
+
+      expect(result).toEqual({ cart_id: customerCartId, merged_lines: 0, reduced: [] });
+      expect(cartsRepository.remove).not.toHaveBeenCalled();
+    });
   });
 
   describe('clearCart', () => {
-    it('should clear all cart items', async () => {
-      mockCartRepository.clear.mockResolvedValue(undefined);
+    it('should clear only the items of the given cart', async () => {
+      mockCartRepository.find.mockResolvedValue([mockCartItem]);
+      mockCartRepository.delete.mockResolvedValue({ affected: 1 });
 
-      await service.clearCart();
+      await service.clearCart(cartId);
 
-      expect(cartRepository.clear).toHaveBeenCalled();
+      expect(cartRepository.delete).toHaveBeenCalledWith({ cart_id: cartId });
+      expect(mockReservationsService.release).toHaveBeenCalledWith(cartId);
+      expect(mockProductsService.invalidateProductCache).toHaveBeenCalledWith(
+        mockCartItem.product_id,
+      );
+      expect(mockRedisService.del).toHaveBeenCalledWith(`cart:${cartId}:items`);
     });
   });
 
@@ -222,20 +1085,54 @@ describe('CartService', () => {
       mockCartRepository.findOne.mockResolvedValue(mockCartItem);
       mockCartRepository.remove.mockResolvedValue(mockCartItem);
 
-      await service.removeFromCart('456e7890-e89b-12d3-a456-426614174001');
+      await service.removeFromCart(cartId, '456e7890-e89b-12d3-a456-426614174001');
 
       expect(cartRepository.findOne).toHaveBeenCalledWith({
-        where: { id: '456e7890-e89b-12d3-a456-426614174001' },
+        where: { id: '456e7890-e89b-12d3-a456-426614174001', cart_id: cartId },
       });
       expect(cartRepository.remove).toHaveBeenCalledWith(mockCartItem);
+      expect(mockReservationsService.release).toHaveBeenCalledWith(cartId, mockCartItem);
     });
 
     it('should throw NotFoundException when cart item not found', async () => {
       mockCartRepository.findOne.mockResolvedValue(null);
 
-      await expect(service.removeFromCart('999e7890-e89b-12d3-a456-426614174999')).rejects.toThrow(
-        NotFoundException,
-      );
+      await expect(
+        service.removeFromCart(cartId, '999e7890-e89b-12d3-a456-426614174999'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('releaseExpiredReservations', () => {
+    it('should invalidate cached availability of released products', async () => {
+      mockReservationsService.releaseExpired.mockResolvedValue([mockProduct.id]);
+
+      const released = await service.releaseExpiredReservations();
+
+      expect(released).toBe(1);
+      expect(mockProductsService.invalidateProductCache).toHaveBeenCalledWith(mockProduct.id);
+    });
+  });
+
+  describe('removeExpiredCarts', () => {
+    it('should remove expired carts and invalidate their cache', async () => {
+      const expiredCart = createMockCart({ expires_at: new Date('2020-01-01') });
+      mockCartsRepository.find.mockResolvedValue([expiredCart]);
+
+      const removed = await service.removeExpiredCarts();
+
+      expect(removed).toBe(1);
+      expect(cartsRepository.remove).toHaveBeenCalledWith([expiredCart]);
+      expect(mockRedisService.del).toHaveBeenCalledWith(`cart:${cartId}:items`);
+    });
+
+    it('should do nothing when no carts have expired', async () => {
+      mockCartsRepository.find.mockResolvedValue([]);
+
+      const removed = await service.removeExpiredCarts();
+
+      expect(removed).toBe(0);
+      expect(cartsRepository.remove).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,148 +1,746 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, IsNull, LessThanOrEqual } from 'typeorm';
+import { Cart } from './entities/cart.entity';
 import { CartItem } from './entities/cart-item.entity';
 import { ProductsService } from '../products/products.service';
+import { Product } from '../products/entities/product.entity';
+import { ProductVariant } from '../products/entities/product-variant.entity';
 import { AddToCartDto } from './dto/add-to-cart.dto';
-import { CartResponseDto, CartItemWithPricingDto } from './dto/cart-response.dto';
+import { UpdateCartItemDto } from './dto/update-cart-item.dto';
+import { ApplyCouponDto } from './dto/apply-coupon.dto';
+import { CartResponseDto, CartItemWithPricingDto, AppliedCouponDto } from './dto/cart-response.dto';
 import { RedisService } from '../common/services/redis.service';
-import {
-  calculateLineTotal,
-  safeSubtract,
-  sumArray,
-  toPreciseDecimal,
-} from '../common/utils/arithmetic.utils';
+import { ReservationsService } from '../reservations/reservations.service';
+import { CouponsService } from '../coupons/coupons.service';
+import { CouponType } from '../coupons/entities/coupon.entity';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { CurrencyConverter } from '../currencies/currency-converter';
+import { TaxesService } from '../taxes/taxes.service';
+import { TaxCalculator } from '../taxes/tax-calculator';
+import { TaxDestinationDto } from '../taxes/dto/tax-destination.dto';
+import { ShippingService } from '../shipping/shipping.service';
+import { ShippingParcel } from '../shipping/entities/shipping-method.entity';
+import { ShippingOptionDto } from '../shipping/dto/shipping-option.dto';
+import { SelectShippingMethodDto } from './dto/select-shipping-method.dto';
+import { CartMergeReportDto } from './dto/cart-merge-report.dto';
+import { Customer } from '../customers/entities/customer.entity';
+import config from '../common/config';
+import { toPreciseDecimal } from '../common/utils/arithmetic.utils';
+import { Money, MoneyInput } from '../common/utils/money';
 
 @Injectable()
-export class CartService {
-  private readonly CART_CACHE_KEY = 'cart:items';
+export class CartService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CartService.name);
+  private readonly CART_CACHE_PREFIX = 'cart';
+  private readonly CART_TTL_MS = config.cart.ttlHours * 60 * 60 * 1000;
+  private sweepTimer: NodeJS.Timeout;
+  private reservationSweepTimer: NodeJS.Timeout;
 
   constructor(
+    @InjectRepository(Cart)
+    private readonly cartRepository: Repository<Cart>,
     @InjectRepository(CartItem)
     private readonly cartItemRepository: Repository<CartItem>,
     private readonly productsService: ProductsService,
     private readonly redisService: RedisService,
+    private readonly reservationsService: ReservationsService,
+    private readonly couponsService: CouponsService,
+    private readonly currenciesService: CurrenciesService,
+    private readonly taxesService: TaxesService,
+    private readonly shippingService: ShippingService,
   ) {}
 
-  async addToCart(addToCartDto: AddToCartDto): Promise<CartItem> {
-    const { product_id, quantity } = addToCartDto;
+  onModuleInit() {
+    // Periodically discard carts that have passed their expiry date
+    this.sweepTimer = setInterval(() => {
+      this.removeExpiredCarts().catch((error) => {
+        this.logger.error('Failed to remove expired carts:', error);
+      });
+    }, config.cart.sweepIntervalSeconds * 1000);
+    this.sweepTimer.unref();
+
+    // Release stock holds whose TTL has passed
+    this.reservationSweepTimer = setInterval(() => {
+      this.releaseExpiredReservations().catch((error) => {
+        this.logger.error('Failed to release expired reservations:', error);
+      });
+    }, config.reservations.sweepIntervalSeconds * 1000);
+    this.reservationSweepTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+    clearInterval(this.reservationSweepTimer);
+  }
+
+  async createCart(): Promise<Cart> {
+    const cart = this.cartRepository.create({
+      expires_at: new Date(Date.now() + this.CART_TTL_MS),
+    });
+    return await this.cartRepository.save(cart);
+  }
+
+  async findCart(cartId: string): Promise<Cart> {
+    const cart = await this.cartRepository.findOne({ where: { id: cartId } });
+    if (!cart) {
+      throw new NotFoundException(`Cart with ID ${cartId} not found`);
+    }
+
+    if (cart.isExpired) {
+      await this.cartRepository.remove(cart);
+      await this.invalidateCartCache(cartId);
+      throw new NotFoundException(`Cart with ID ${cartId} has expired`);
+    }
+
+    return cart;
+  }
+
+  /**
+   * Returns the ID of the user owning a customer cart, or undefined for guest and unknown carts
+   */
+  async findOwnerUserId(cartId: string): Promise<string | undefined> {
+    const cart = await this.cartRepository.findOne({
+      where: { id: cartId },
+      relations: ['customer'],
+    });
+    return cart?.customer?.user_id;
+  }
+
+  /**
+   * Returns the cart of a signed-in customer, starting a new one when they have none or it expired
+   */
+  async findOrCreateCustomerCart(customer: Customer): Promise<Cart> {
+    const cart = await this.cartRepository.findOne({ where: { customer_id: customer.id } });
+    if (cart && !cart.isExpired) {
+      return cart;
+    }
+
+    if (cart) {
+      const expiredCartId = cart.id;
+      await this.cartRepository.remove(cart);
+      await this.invalidateCartCache(expiredCartId);
+    }
+
+    const customerCart = this.cartRepository.create({
+      customer_id: customer.id,
+      customer_email: customer.user?.email,
+      expires_at: new Date(Date.now() + this.CART_TTL_MS),
+    });
+    return await this.cartRepository.save(customerCart);
+  }
+
+  /**
+   * Moves the lines of a guest cart into the customer's cart and deletes the guest cart.
+   * Quantities are summed per product variant and capped at the stock not held by other carts, the same
+   * check addToCart performs; every line that had to be reduced is listed in the report.
+   */
+  async mergeGuestCart(guestCartId: string, customer: Customer): Promise<CartMergeReportDto> {
+    const guestCart = await this.findCart(guestCartId);
+    const customerCart = await this.findOrCreateCustomerCart(customer);
+    const report: CartMergeReportDto = { cart_id: customerCart.id, merged_lines: 0, reduced: [] };
+
+    if (guestCart.id === customerCart.id) {
+      return report;
+    }
+    if (guestCart.customer_id) {
+      throw new BadRequestException('Only guest carts can be merged');
+    }
+
+    const guestItems = await this.cartItemRepository.find({ where: { cart_id: guestCart.id } });
+    // The guest cart's holds would otherwise count against its own lines
+    await this.reservationsService.release(guestCart.id);
+
+    for (const guestItem of guestItems) {
+      const product = await this.productsService.findOneEntity(guestItem.product_id);
+      const variant = this.resolveVariant(product, guestItem.variant_id);
+      const existingCartItem = await this.cartItemRepository.findOne({
+        where: {
+          cart_id: customerCart.id,
+          product_id: product.id,
+          variant_id: variant?.id ?? IsNull(),
+        },
+      });
+
+      const requestedQuantity = (existingCartItem?.quantity ?? 0) + guestItem.quantity;
+      const available = await this.getAvailableQuantity(product, customerCart.id, variant);
+      const quantity = Math.min(requestedQuantity, available);
+
+      if (quantity < requestedQuantity) {
+        report.reduced.push({
+          product_id: product.id,
+          variant_id: variant?.id,
+          requested_quantity: requestedQuantity,
+          quantity,
+          reason: `Insufficient stock. Available: ${available}, Requested: ${requestedQuantity}`,
+        });
+      }
+
+      if (quantity > 0) {
+        await this.reservationsService.hold(customerCart.id, product.id, quantity, variant?.id);
+        await this.cartItemRepository.save(
+          existingCartItem
+            ? Object.assign(existingCartItem, { quantity })
+            : this.cartItemRepository.create({
+                cart_id: customerCart.id,
+                product_id: product.id,
+                variant_id: variant?.id,
+                quantity,
+              }),
+        );
+      } else if (existingCartItem) {
+        await this.cartItemRepository.remove(existingCartItem);
+        await this.reservationsService.release(customerCart.id, existingCartItem);
+      }
+
+      report.merged_lines++;
+      await this.productsService.invalidateProductCache(product.id);
+    }
+
+    // Guest cart items are removed by the ON DELETE CASCADE foreign key
+    await this.cartRepository.remove(guestCart);
+    await this.invalidateCartCache(guestCartId);
+    await this.touchCart(customerCart);
+
+    return report;
+  }
+
+  async addToCart(cartId: string, addToCartDto: AddToCartDto): Promise<CartItem> {
+    const { product_id, variant_id, quantity } = addToCartDto;
 
     // Validate quantity
     if (!Number.isInteger(quantity) || quantity <= 0) {
       throw new BadRequestException('Quantity must be a positive integer');
     }
 
-    // Verify product exists and has sufficient stock
+    const cart = await this.findCart(cartId);
+
+    // Verify product exists and has sufficient stock not held by other carts
     const product = await this.productsService.findOneEntity(product_id);
+    const variant = this.resolveVariant(product, variant_id);
+    const available = await this.getAvailableQuantity(product, cartId, variant);
 
-    if (product.stock_quantity < quantity) {
+    if (available < quantity) {
       throw new BadRequestException(
-        `Insufficient stock. Available: ${product.stock_quantity}, Requested: ${quantity}`,
+        `Insufficient stock. Available: ${available}, Requested: ${quantity}`,
       );
     }
 
-    // Check if item already exists in cart
+    // Check if item already exists in this cart
     const existingCartItem = await this.cartItemRepository.findOne({
-      where: { product_id },
+      where: { cart_id: cartId, product_id, variant_id: variant?.id ?? IsNull() },
     });
 
-    if (existingCartItem) {
-      // Update quantity if item already exists
-      const newQuantity = existingCartItem.quantity + quantity;
+    const newQuantity = (existingCartItem?.quantity ?? 0) + quantity;
 
-      if (product.stock_quantity < newQuantity) {
-        throw new BadRequestException(
-          `Insufficient stock. Available: ${product.stock_quantity}, Total requested: ${newQuantity}`,
-        );
-      }
+    if (existingCartItem && available < newQuantity) {
+      throw new BadRequestException(
+        `Insufficient stock. Available: ${available}, Total requested: ${newQuantity}`,
+      );
+    }
 
+    // Hold the stock for this cart line before persisting it
+    await this.reservationsService.hold(cartId, product_id, newQuantity, variant?.id);
+
+    let savedItem: CartItem;
+
+    if (existingCartItem) {
+      // Update quantity if item already exists
       existingCartItem.quantity = newQuantity;
-      const savedItem = await this.cartItemRepository.save(existingCartItem);
-      // Invalidate cart cache
-      await this.redisService.del(this.CART_CACHE_KEY);
-      return savedItem;
+      savedItem = await this.cartItemRepository.save(existingCartItem);
     } else {
       // Create new cart item
       const cartItem = this.cartItemRepository.create({
+        cart_id: cartId,
         product_id,
+        variant_id: variant?.id,
         quantity,
       });
-      const savedItem = await this.cartItemRepository.save(cartItem);
-      // Invalidate cart cache
-      await this.redisService.del(this.CART_CACHE_KEY);
-      return savedItem;
+      savedItem = await this.cartItemRepository.save(cartItem);
     }
+
+    await this.touchCart(cart);
+    await this.productsService.invalidateProductCache(product_id);
+    return savedItem;
   }
 
-  async getCart(): Promise<CartResponseDto> {
-    const cartItems = await this.cartItemRepository.find({
-      relations: ['product'],
-      order: { created_at: 'DESC' },
+  async updateCartItem(
+    cartId: string,
+    id: string,
+    updateCartItemDto: UpdateCartItemDto,
+  ): Promise<CartItemWithPricingDto | null> {
+    const { quantity } = updateCartItemDto;
+
+    // Validate quantity
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      throw new BadRequestException('Quantity must be a non-negative integer');
+    }
+
+    // A quantity of 0 is a removal
+    if (quantity === 0) {
+      await this.removeFromCart(cartId, id);
+      return null;
+    }
+
+    const cart = await this.findCart(cartId);
+
+    const cartItem = await this.cartItemRepository.findOne({ where: { id, cart_id: cartId } });
+    if (!cartItem) {
+      throw new NotFoundException(`Cart item with ID ${id} not found`);
+    }
+
+    // Re-validate against current stock not held by other carts
+    const product = await this.productsService.findOneEntity(cartItem.product_id);
+    const variant = this.resolveVariant(product, cartItem.variant_id);
+    const available = await this.getAvailableQuantity(product, cartId, variant);
+
+    if (available < quantity) {
+      throw new BadRequestException(
+        `Insufficient stock. Available: ${available}, Requested: ${quantity}`,
+      );
+    }
+
+    await this.reservationsService.hold(cartId, product.id, quantity, variant?.id);
+
+    cartItem.quantity = quantity;
+    const savedItem = await this.cartItemRepository.save(cartItem);
+    savedItem.product = product;
+    savedItem.variant = variant;
+
+    await this.touchCart(cart);
+    await this.productsService.invalidateProductCache(product.id);
+
+    const converter = await this.currenciesService.getConverter();
+    return this.toItemWithPricing(savedItem, converter);
+  }
+
+  /**
+   * Returns the cart priced in the given currency, or in the base currency when none is given.
+   * Tax is only calculated when a destination region is given.
+   */
+  async getCart(
+    cartId: string,
+    currency?: string,
+    destination?: TaxDestinationDto,
+  ): Promise<CartResponseDto> {
+    const cart = await this.findCart(cartId);
+    const converter = await this.currenciesService.getConverter(currency);
+    const taxes = await this.taxesService.getCalculator(destination);
+    const cartItems = await this.findCartItems(cartId);
+
+    return this.priceCart(cart, cartItems, converter, taxes);
+  }
+
+  async applyCoupon(cartId: string, applyCouponDto: ApplyCouponDto): Promise<CartResponseDto> {
+    const cart = await this.findCart(cartId);
+    const coupon = await this.couponsService.findByCode(applyCouponDto.code);
+    const cartItems = await this.findCartItems(cartId);
+
+    // Coupon amounts are in the base currency, so eligibility is checked against base prices
+    const converter = await this.currenciesService.getConverter();
+    const customerEmail = await this.couponEmailOf(cart, applyCouponDto.email);
+    const itemsWithPricing = cartItems.map((item) => this.toItemWithPricing(item, converter));
+    await this.couponsService.assertRedeemable(coupon, itemsWithPricing, customerEmail);
+
+    cart.coupon_id = coupon.id;
+    cart.coupon = coupon;
+    cart.customer_email = customerEmail;
+    await this.touchCart(cart);
+
+    return this.priceCart(cart, cartItems, converter);
+  }
+
+  /**
+   * Email per-customer coupon limits are counted against. Customer carts always use the account
+   * email, so a different one can't be given to get around the limit; guest carts use the one given.
+   */
+  private async couponEmailOf(cart: Cart, email?: string): Promise<string | undefined> {
+    if (!cart.customer_id) {
+      return email?.toLowerCase() ?? cart.customer_email;
+    }
+
+    const customerCart = await this.cartRepository.findOne({
+      where: { id: cart.id },
+      relations: ['customer', 'customer.user'],
     });
+    const accountEmail = customerCart?.customer?.user?.email ?? cart.customer_email;
+    if (email && email.toLowerCase() !== accountEmail?.toLowerCase()) {
+      throw new BadRequestException('Customer carts use the email of the signed-in account');
+    }
+    return accountEmail;
+  }
+
+  async removeCoupon(cartId: string): Promise<CartResponseDto> {
+    const cart = await this.findCart(cartId);
+
+    cart.coupon_id = null;
+    cart.coupon = null;
+    await this.touchCart(cart);
+
+    const converter = await this.currenciesService.getConverter();
+    const cartItems = await this.findCartItems(cartId);
+    return this.priceCart(cart, cartItems, converter);
+  }
+
+  /**
+   * Quotes every active shipping method against the cart, in the given currency
+   */
+  async getShippingOptions(cartId: string, currency?: string): Promise<ShippingOptionDto[]> {
+    const cart = await this.findCart(cartId);
+    const converter = await this.currenciesService.getConverter(currency);
+    const cartItems = await this.findCartItems(cartId);
+    const methods = await this.shippingService.findActive();
+
+    const pricedCart = this.priceCart(cart, cartItems, converter);
+    const parcel = this.toParcel(
+      cartItems,
+      Money.of(pricedCart.totalPrice).subtract(pricedCart.couponDiscount),
+      converter,
+    );
+    return methods.map((method) => this.shippingService.quote(method, parcel, converter));
+  }
+
+  async selectShippingMethod(
+    cartId: string,
+    selectShippingMethodDto: SelectShippingMethodDto,
+  ): Promise<CartResponseDto> {
+    const cart = await this.findCart(cartId);
+    const method = await this.shippingService.findOne(selectShippingMethodDto.shipping_method_id);
+    const cartItems = await this.findCartItems(cartId);
+    const converter = await this.currenciesService.getConverter();
 
+    cart.shipping_method = method;
+    const pricedCart = this.priceCart(cart, cartItems, converter);
+    if (!pricedCart.shipping.available) {
+      throw new BadRequestException(pricedCart.shipping.message);
+    }
+
+    cart.shipping_method_id = method.id;
+    await this.touchCart(cart);
+
+    return pricedCart;
+  }
+
+  async removeShippingMethod(cartId: string): Promise<CartResponseDto> {
+    const cart = await this.findCart(cartId);
+
+    cart.shipping_method_id = null;
+    cart.shipping_method = null;
+    await this.touchCart(cart);
+
+    const converter = await this.currenciesService.getConverter();
+    const cartItems = await this.findCartItems(cartId);
+    return this.priceCart(cart, cartItems, converter);
+  }
+
+  /**
+   * Computes line and cart totals for the given items, in the converter's currency.
+   * Shared by getCart and checkout so orders snapshot exactly what the shopper saw.
+   */
+  priceCart(
+    cart: Cart,
+    cartItems: CartItem[],
+    converter: CurrencyConverter,
+    taxes: TaxCalculator = TaxCalculator.NONE,
+  ): CartResponseDto {
     // Transform cart items to include pricing information with optimized arithmetic
-    const itemsWithPricing: CartItemWithPricingDto[] = cartItems.map((item) => {
-      const originalPrice = toPreciseDecimal(item.product.price);
-      const effectivePrice = item.product.effectivePrice;
-      const lineTotal = calculateLineTotal(item.quantity, effectivePrice);
-      const originalLineTotal = calculateLineTotal(item.quantity, originalPrice);
-      const lineSavings = safeSubtract(originalLineTotal, lineTotal);
-
-      return {
-        id: item.id,
-        product_id: item.product_id,
-        quantity: item.quantity,
-        created_at: item.created_at,
-        product: {
-          id: item.product.id,
-          name: item.product.name,
-          description: item.product.description,
-          originalPrice,
-          effectivePrice,
-          discountAmount: item.product.discountAmount,
-          isDiscountActive: item.product.isDiscountActive,
-          image_url: item.product.image_url,
-          stock_quantity: item.product.stock_quantity,
-        },
-        lineTotal,
-        lineSavings,
-      };
-    });
+    const itemsWithPricing = cartItems.map((item) =>
+      this.toItemWithPricing(item, converter, taxes),
+    );
 
     // Calculate totals with optimized arithmetic
     const totalItems = cartItems.reduce((sum, item) => sum + item.quantity, 0);
-    const totalPrice = sumArray(itemsWithPricing.map((item) => item.lineTotal));
-    const totalOriginalPrice = sumArray(
-      itemsWithPricing.map((item) => calculateLineTotal(item.quantity, item.product.originalPrice)),
+    const totalPrice = converter.sum(itemsWithPricing.map((item) => item.lineTotal));
+    const totalOriginalPrice = converter.sum(
+      itemsWithPricing.map((item) => Money.of(item.product.originalPrice).multiply(item.quantity)),
     );
-    const totalSavings = safeSubtract(totalOriginalPrice, totalPrice);
+    const totalSavings = converter.round(Money.of(totalOriginalPrice).subtract(totalPrice));
     const uniqueProducts = cartItems.length;
 
+    // The coupon stays on the cart when it stops applying, so the shopper can see why
+    let coupon: AppliedCouponDto | null = null;
+    let couponDiscount = 0;
+    if (cart.coupon) {
+      // Coupon thresholds and fixed amounts are in the base currency
+      const baseLines = itemsWithPricing.map((item) => ({
+        product_id: item.product_id,
+        lineTotal: converter.convert(item.lineTotal, converter.currency, converter.baseCurrency),
+      }));
+      const reason = cart.coupon.getIneligibilityReason(baseLines);
+      couponDiscount = reason
+        ? 0
+        : converter.convert(cart.coupon.calculateDiscount(baseLines), converter.baseCurrency);
+      coupon = {
+        code: cart.coupon.code,
+        type: cart.coupon.type,
+        value:
+          cart.coupon.type === CouponType.FIXED
+            ? converter.convert(cart.coupon.value, converter.baseCurrency)
+            : toPreciseDecimal(cart.coupon.value),
+        applicable: !reason,
+        ...(reason && { message: reason }),
+      };
+    }
+
+    // Lines are taxed on what is paid for them, so the coupon is spread over the lines it applies to
+    if (couponDiscount > 0) {
+      const shares = converter.allocate(
+        couponDiscount,
+        itemsWithPricing.map((item) =>
+          cart.coupon.isEligibleProduct(item.product_id) ? item.lineTotal : 0,
+        ),
+      );
+      itemsWithPricing.forEach((item, index) => {
+        const taxable = Money.of(item.lineTotal).subtract(shares[index]);
+        Object.assign(
+          item,
+          taxes.calculate(cartItems[index].product.tax_class, taxable, converter.currency),
+        );
+      });
+    }
+
+    const totalTax = converter.sum(itemsWithPricing.map((item) => item.taxAmount));
+    const addedTax = converter.sum(
+      itemsWithPricing.filter((item) => !item.priceIncludesTax).map((item) => item.taxAmount),
+    );
+
+    // Like the coupon, the chosen method stays on the cart when it can no longer ship it
+    const shipping = cart.shipping_method
+      ? this.shippingService.quote(
+          cart.shipping_method,
+          this.toParcel(cartItems, Money.of(totalPrice).subtract(couponDiscount), converter),
+          converter,
+        )
+      : null;
+    const shippingCost = shipping?.cost ?? 0;
+
     return {
+      id: cart.id,
+      currency: converter.currency,
+      expires_at: cart.expires_at,
       items: itemsWithPricing,
       totalItems,
       totalPrice,
       totalOriginalPrice,
       totalSavings,
       uniqueProducts,
+      coupon,
+      couponDiscount,
+      totalTax,
+      shipping,
+      shippingCost,
+      grandTotal: converter.round(
+        Money.of(totalPrice).subtract(couponDiscount).add(addedTax).add(shippingCost),
+      ),
     };
   }
 
-  async clearCart(): Promise<void> {
-    await this.cartItemRepository.clear();
+  private async findCartItems(cartId: string): Promise<CartItem[]> {
+    return await this.cartItemRepository.find({
+      where: { cart_id: cartId },
+      relations: ['product'],
+      order: { created_at: 'DESC' },
+    });
+  }
 
-    // Invalidate cart cache
-    await this.redisService.del(this.CART_CACHE_KEY);
+  private toItemWithPricing(
+    item: CartItem,
+    converter: CurrencyConverter,
+    taxes: TaxCalculator = TaxCalculator.NONE,
+  ): CartItemWithPricingDto {
+    const { product, variant } = item;
+    const { currency } = product;
+    const originalPrice = converter.convert(product.getPrice(variant), currency);
+    const effectivePrice = converter.convert(product.getEffectivePrice(variant), currency);
+    const tier = product.getPriceTier(item.quantity);
+    const unitPrice = converter.convert(
+      product.unitPriceForQuantity(item.quantity, variant),
+      currency,
+    );
+    const lineTotal = converter.round(Money.of(unitPrice).multiply(item.quantity));
+    const originalLineTotal = converter.round(Money.of(originalPrice).multiply(item.quantity));
+    const lineSavings = converter.round(Money.of(originalLineTotal).subtract(lineTotal));
+
+    return {
+      id: item.id,
+      product_id: item.product_id,
+      variant_id: item.variant_id ?? undefined,
+      quantity: item.quantity,
+      created_at: item.created_at,
+      product: {
+        id: product.id,
+        name: product.name,
+        description: product.description,
+        originalPrice,
+        effectivePrice,
+        discountAmount: converter.round(Money.of(originalPrice).subtract(effectivePrice)),
+        isDiscountActive: product.isDiscountActive,
+        image_url: variant?.image_url ?? product.image_url,
+        stock_quantity: variant?.stock_quantity ?? product.stock_quantity,
+      },
+      variant: variant ? { id: variant.id, sku: variant.sku, options: variant.options } : null,
+      priceTier: tier
+        ? {
+            min_quantity: tier.min_quantity,
+            discount_percentage: tier.discount_percentage,
+          }
+        : null,
+      unitPrice,
+      lineTotal,
+      lineSavings,
+      ...taxes.calculate(product.tax_class, lineTotal, converter.currency),
+    };
+  }
+
+  /**
+   * Describes the cart for shipping quotes; the subtotal is given in the converter's currency
+   * and quoted in the base currency, since shipping rates and thresholds are set in it
+   */
+  private toParcel(
+    cartItems: CartItem[],
+    subtotal: MoneyInput,
+    converter: CurrencyConverter,
+  ): ShippingParcel {
+    const weight = Money.sum(
+      cartItems.map((item) => Money.of(item.product.weight_kg ?? 0).multiply(item.quantity)),
+    );
+    const longestSide = cartItems.reduce(
+      (longest, { product }) =>
+        Math.max(longest, product.length_cm ?? 0, product.width_cm ?? 0, product.height_cm ?? 0),
+      0,
+    );
+
+    return {
+      weight: weight.toNumber(),
+      subtotal: converter.convert(subtotal, converter.currency, converter.baseCurrency),
+      longestSide,
+    };
+  }
+
+  async invalidateCartCache(cartId: string): Promise<void> {
+    await this.redisService.del(this.getCartCacheKey(cartId));
   }
 
-  async removeFromCart(id: string): Promise<void> {
-    const cartItem = await this.cartItemRepository.findOne({ where: { id } });
+  async clearCart(cartId: string): Promise<void> {
+    const cart = await this.findCart(cartId);
+    const cartItems = await this.cartItemRepository.find({ where: { cart_id: cartId } });
+
+    await this.cartItemRepository.delete({ cart_id: cartId });
+    await this.reservationsService.release(cartId);
+    await this.touchCart(cart);
+
+    for (const item of cartItems) {
+      await this.productsService.invalidateProductCache(item.product_id);
+    }
+  }
+
+  async removeFromCart(cartId: string, id: string): Promise<void> {
+    const cart = await this.findCart(cartId);
+
+    const cartItem = await this.cartItemRepository.findOne({ where: { id, cart_id: cartId } });
     if (!cartItem) {
       throw new NotFoundException(`Cart item with ID ${id} not found`);
     }
     await this.cartItemRepository.remove(cartItem);
+    await this.reservationsService.release(cartId, cartItem);
+
+    await this.touchCart(cart);
+    await this.productsService.invalidateProductCache(cartItem.product_id);
+  }
+
+  async removeExpiredCarts(): Promise<number> {
+    const expiredCarts = await this.cartRepository.find({
+      where: { expires_at: LessThanOrEqual(new Date()) },
+    });
+
+    if (expiredCarts.length === 0) {
+      return 0;
+    }
+
+    // Cart items are removed by the ON DELETE CASCADE foreign key
+    await this.cartRepository.remove(expiredCarts);
+
+    for (const cart of expiredCarts) {
+      await this.invalidateCartCache(cart.id);
+    }
+
+    this.logger.log(`Removed ${expiredCarts.length} expired cart(s)`);
+    return expiredCarts.length;
+  }
+
+  /**
+   * Releases expired stock holds and refreshes the availability cached for their products.
+   * Runs here rather than in ReservationsService because ProductsService depends on the latter.
+   */
+  async releaseExpiredReservations(): Promise<number> {
+    const productIds = await this.reservationsService.releaseExpired();
+
+    for (const productId of productIds) {
+      await this.productsService.invalidateProductCache(productId);
+    }
+
+    return productIds.length;
+  }
+
+  /**
+   * Stock of the product, and of the variant when given, that other carts don't hold
+   */
+  private async getAvailableQuantity(
+    product: Product,
+    cartId: string,
+    variant?: ProductVariant,
+  ): Promise<number> {
+    const reservedByOthers = await this.reservationsService.getReservedQuantity(product.id, cartId);
+    let available = product.stock_quantity - reservedByOthers;
+
+    if (variant) {
+      const variantReservedByOthers = await this.reservationsService.getReservedVariantQuantity(
+        variant.id,
+        cartId,
+      );
+      available = Math.min(available, variant.stock_quantity - variantReservedByOthers);
+    }
+    return Math.max(available, 0);
+  }
+
+  /**
+   * Finds the variant a cart line is for; products sold in variants need one
+   */
+  private resolveVariant(product: Product, variantId?: string): ProductVariant | undefined {
+    const variants = product.variants ?? [];
+    if (!variantId) {
+      if (variants.length > 0) {
+        throw new BadRequestException(`Choose a variant of ${product.name}`);
+      }
+      return undefined;
+    }
+
+    const variant = variants.find((candidate) => candidate.id === variantId);
+    if (!variant) {
+      throw new NotFoundException(`Variant with ID ${variantId} not found`);
+    }
+    return variant;
+  }
+
+  /**
+   * Slides the cart expiry forward after a modification and invalidates its cache
+   */
+  private async touchCart(cart: Cart): Promise<void> {
+    cart.expires_at = new Date(Date.now() + this.CART_TTL_MS);
+    await this.cartRepository.save(cart);
 
     // Invalidate cart cache
-    await this.redisService.del(this.CART_CACHE_KEY);
+    await this.invalidateCartCache(cart.id);
+  }
+
+  private getCartCacheKey(cartId: string): string {
+    return `${this.CART_CACHE_PREFIX}:${cartId}:items`;
   }
 }
@@ -0,0 +1,18 @@
+import { createParamDecorator, ExecutionContext, BadRequestException } from '@nestjs/common';
+
+export const CART_ID_HEADER = 'x-cart-id';
+
+/**
+ * Extracts the anonymous cart token from the x-cart-id header.
+ * Combine with ParseUUIDPipe to validate its format.
+ */
+export const CartId = createParamDecorator((_data: unknown, ctx: ExecutionContext): string => {
+  const request = ctx.switchToHttp().getRequest();
+  const cartId = request.headers[CART_ID_HEADER];
+
+  if (!cartId) {
+    throw new BadRequestException(`Missing ${CART_ID_HEADER} header`);
+  }
+
+  return cartId;
+});
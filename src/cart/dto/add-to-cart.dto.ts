@@ -1,5 +1,5 @@
-import { IsNumber, IsPositive, Min, IsUUID } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsNumber, IsOptional, IsPositive, Min, IsUUID } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 
 export class AddToCartDto {
@@ -10,6 +10,14 @@ export class AddToCartDto {
   @IsUUID()
   product_id: string;
 
+  @ApiPropertyOptional({
+    description: 'Variant to add; required for products sold in variants',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+  })
+  @IsOptional()
+  @IsUUID()
+  variant_id?: string;
+
   @ApiProperty({ description: 'Quantity to add to cart', example: 2 })
   @IsNumber()
   @Min(1)
@@ -0,0 +1,19 @@
+import { IsString, IsNotEmpty, IsOptional, IsEmail, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApplyCouponDto {
+  @ApiProperty({ description: 'Promo code', example: 'SUMMER10' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  code: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Customer email, required by coupons with a per-customer limit on guest carts; customer carts use the account email',
+    example: 'jane@example.com',
+  })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+}
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReducedCartLineDto {
+  @ApiProperty({ description: 'Product ID' })
+  product_id: string;
+
+  @ApiProperty({ description: 'Variant ID', required: false })
+  variant_id?: string;
+
+  @ApiProperty({ description: 'Quantity of the guest and account lines combined' })
+  requested_quantity: number;
+
+  @ApiProperty({ description: 'Quantity kept in the account cart, 0 when the line was dropped' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Why the line was reduced' })
+  reason: string;
+}
+
+export class CartMergeReportDto {
+  @ApiProperty({
+    description: 'ID of the account cart, to send as the x-cart-id header from now on',
+  })
+  cart_id: string;
+
+  @ApiProperty({ description: 'Number of guest cart lines merged into the account cart' })
+  merged_lines: number;
+
+  @ApiProperty({
+    description: 'Lines whose combined quantity exceeded the available stock',
+    type: [ReducedCartLineDto],
+  })
+  reduced: ReducedCartLineDto[];
+}
@@ -0,0 +1,5 @@
+import { IntersectionType } from '@nestjs/swagger';
+import { CurrencyQueryDto } from '../../currencies/dto/currency-query.dto';
+import { TaxDestinationDto } from '../../taxes/dto/tax-destination.dto';
+
+export class CartQueryDto extends IntersectionType(CurrencyQueryDto, TaxDestinationDto) {}
@@ -1,5 +1,7 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { CartItem } from '../entities/cart-item.entity';
+import { CouponType } from '../../coupons/entities/coupon.entity';
+import { ShippingOptionDto } from '../../shipping/dto/shipping-option.dto';
 
 export class CartItemWithPricingDto {
   @ApiProperty({ description: 'Cart item ID' })
@@ -8,6 +10,9 @@ export class CartItemWithPricingDto {
   @ApiProperty({ description: 'Product ID' })
   product_id: string;
 
+  @ApiProperty({ description: 'Variant ID, for products sold in variants', required: false })
+  variant_id?: string;
+
   @ApiProperty({ description: 'Quantity of the product in cart' })
   quantity: number;
 
@@ -27,14 +32,75 @@ export class CartItemWithPricingDto {
     stock_quantity: number;
   };
 
-  @ApiProperty({ description: 'Line total (quantity × effective price)' })
+  @ApiProperty({
+    description: 'Variant of the product in the line',
+    nullable: true,
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      sku: { type: 'string' },
+      options: { type: 'object', additionalProperties: { type: 'string' } },
+    },
+  })
+  variant: { id: string; sku: string; options: Record<string, string> } | null;
+
+  @ApiProperty({
+    description: 'Volume price tier applied to this line',
+    nullable: true,
+    type: 'object',
+    properties: {
+      min_quantity: { type: 'number' },
+      discount_percentage: { type: 'number' },
+    },
+  })
+  priceTier: { min_quantity: number; discount_percentage: number } | null;
+
+  @ApiProperty({ description: 'Unit price after the discount and any volume tier' })
+  unitPrice: number;
+
+  @ApiProperty({ description: 'Line total (quantity × unit price)' })
   lineTotal: number;
 
   @ApiProperty({ description: 'Total savings for this line item' })
   lineSavings: number;
+
+  @ApiProperty({ description: 'Tax rate percentage applied to this line (0 when untaxed)' })
+  taxRate: number;
+
+  @ApiProperty({ description: 'Tax on the line, after its share of any coupon discount' })
+  taxAmount: number;
+
+  @ApiProperty({ description: 'Whether taxAmount is already included in lineTotal' })
+  priceIncludesTax: boolean;
+}
+
+export class AppliedCouponDto {
+  @ApiProperty({ description: 'Promo code' })
+  code: string;
+
+  @ApiProperty({ description: 'Discount type', enum: CouponType })
+  type: CouponType;
+
+  @ApiProperty({ description: 'Percentage or fixed amount off' })
+  value: number;
+
+  @ApiProperty({ description: 'Whether the coupon currently applies to the cart' })
+  applicable: boolean;
+
+  @ApiProperty({ description: 'Why the coupon does not apply', required: false })
+  message?: string;
 }
 
 export class CartResponseDto {
+  @ApiProperty({ description: 'Cart ID' })
+  id: string;
+
+  @ApiProperty({ description: 'ISO 4217 code of the currency all amounts are in', example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ description: 'Date after which the cart is discarded' })
+  expires_at: Date;
+
   @ApiProperty({ description: 'List of cart items with pricing', type: [CartItemWithPricingDto] })
   items: CartItemWithPricingDto[];
 
@@ -52,4 +118,33 @@ export class CartResponseDto {
 
   @ApiProperty({ description: 'Number of unique products in cart' })
   uniqueProducts: number;
+
+  @ApiProperty({
+    description: 'Coupon applied to the cart',
+    type: AppliedCouponDto,
+    nullable: true,
+  })
+  coupon: AppliedCouponDto | null;
+
+  @ApiProperty({ description: 'Discount from the applied coupon, not included in totalSavings' })
+  couponDiscount: number;
+
+  @ApiProperty({ description: 'Total tax, including tax already contained in the prices' })
+  totalTax: number;
+
+  @ApiProperty({
+    description: 'Chosen shipping method quoted for the cart',
+    type: ShippingOptionDto,
+    nullable: true,
+  })
+  shipping: ShippingOptionDto | null;
+
+  @ApiProperty({ description: 'Shipping cost of the chosen method, 0 when none applies' })
+  shippingCost: number;
+
+  @ApiProperty({
+    description:
+      'Amount payable (totalPrice minus couponDiscount plus tax not included in prices and shipping)',
+  })
+  grandTotal: number;
 }
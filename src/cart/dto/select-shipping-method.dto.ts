@@ -0,0 +1,8 @@
+import { IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SelectShippingMethodDto {
+  @ApiProperty({ description: 'ID of the shipping method to use' })
+  @IsUUID()
+  shipping_method_id: string;
+}
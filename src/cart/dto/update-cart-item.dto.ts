@@ -0,0 +1,15 @@
+import { IsInt, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class UpdateCartItemDto {
+  @ApiProperty({
+    description: 'New absolute quantity for the cart line (0 removes the item)',
+    example: 3,
+    minimum: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  quantity: number;
+}
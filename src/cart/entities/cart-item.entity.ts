@@ -8,6 +8,8 @@ import {
 } from 'typeorm';
 import { ApiProperty } from '@nestjs/swagger';
 import { Product } from '../../products/entities/product.entity';
+import { ProductVariant } from '../../products/entities/product-variant.entity';
+import { Cart } from './cart.entity';
 
 @Entity('cart_items')
 export class CartItem {
@@ -15,10 +17,18 @@ export class CartItem {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
+  @ApiProperty({ description: 'Cart ID' })
+  @Column({ type: 'varchar' })
+  cart_id: string;
+
   @ApiProperty({ description: 'Product ID' })
   @Column({ type: 'varchar' })
   product_id: string;
 
+  @ApiProperty({ description: 'Variant ID, for products sold in variants', required: false })
+  @Column({ type: 'varchar', nullable: true })
+  variant_id?: string;
+
   @ApiProperty({ description: 'Quantity of the product in cart' })
   @Column({ type: 'integer' })
   quantity: number;
@@ -27,8 +37,17 @@ export class CartItem {
   @CreateDateColumn()
   created_at: Date;
 
+  @ManyToOne(() => Cart, (cart) => cart.items, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'cart_id' })
+  cart: Cart;
+
   @ApiProperty({ description: 'Product details', type: () => Product })
   @ManyToOne(() => Product, { eager: true })
   @JoinColumn({ name: 'product_id' })
   product: Product;
+
+  @ApiProperty({ description: 'Variant details', type: () => ProductVariant, required: false })
+  @ManyToOne(() => ProductVariant, { eager: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'variant_id' })
+  variant?: ProductVariant;
 }
@@ -0,0 +1,75 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { CartItem } from './cart-item.entity';
+import { Coupon } from '../../coupons/entities/coupon.entity';
+import { ShippingMethod } from '../../shipping/entities/shipping-method.entity';
+import { Customer } from '../../customers/entities/customer.entity';
+
+@Entity('carts')
+export class Cart {
+  @ApiProperty({ description: 'Cart ID, sent back as the x-cart-id header' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Date after which the cart is discarded' })
+  @Column({ type: 'datetime' })
+  expires_at: Date;
+
+  @ApiProperty({ description: 'ID of the applied coupon', required: false })
+  @Column({ type: 'varchar', nullable: true })
+  coupon_id?: string;
+
+  @ApiProperty({ description: 'ID of the chosen shipping method', required: false })
+  @Column({ type: 'varchar', nullable: true })
+  shipping_method_id?: string;
+
+  @ApiProperty({
+    description: 'ID of the customer owning the cart, unset for guest carts',
+    required: false,
+  })
+  @Column({ type: 'varchar', nullable: true })
+  customer_id?: string;
+
+  @ApiProperty({
+    description: 'Customer email used for per-customer coupon limits',
+    required: false,
+  })
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  customer_email?: string;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @OneToMany(() => CartItem, (item) => item.cart)
+  items: CartItem[];
+
+  @ManyToOne(() => Coupon, { nullable: true, eager: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'coupon_id' })
+  coupon?: Coupon;
+
+  @ManyToOne(() => ShippingMethod, { nullable: true, eager: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'shipping_method_id' })
+  shipping_method?: ShippingMethod;
+
+  @ManyToOne(() => Customer, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'customer_id' })
+  customer?: Customer;
+
+  get isExpired(): boolean {
+    return this.expires_at <= new Date();
+  }
+}
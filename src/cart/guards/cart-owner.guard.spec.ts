@@ -0,0 +1,76 @@
+import { ExecutionContext, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { CartOwnerGuard } from './cart-owner.guard';
+import { CartService } from '../cart.service';
+import { TokenType } from '../../auth/auth.service';
+import { Role } from '../../users/entities/user.entity';
+
+describe('CartOwnerGuard', () => {
+  const cartId = '789e0123-e89b-12d3-a456-426614174002';
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  const mockCartService = {
+    findOwnerUserId: jest.fn(),
+  };
+  const guard = new CartOwnerGuard(mockCartService as unknown as CartService, jwtService);
+
+  const createContext = (headers: Record<string, string | undefined>) => {
+    const request: Record<string, any> = { headers };
+    const context = {
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as ExecutionContext;
+    return { context, request };
+  };
+
+  const bearer = async (sub: string) =>
+    `Bearer ${await jwtService.signAsync({
+      sub,
+      email: 'jane@example.com',
+      role: Role.CUSTOMER,
+      type: TokenType.ACCESS,
+    })}`;
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should let requests without a cart header through', async () => {
+    await expect(guard.canActivate(createContext({}).context)).resolves.toBe(true);
+    expect(mockCartService.findOwnerUserId).not.toHaveBeenCalled();
+  });
+
+  it('should let anyone use a guest cart', async () => {
+    mockCartService.findOwnerUserId.mockResolvedValue(undefined);
+
+    const { context } = createContext({ 'x-cart-id': cartId });
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(mockCartService.findOwnerUserId).toHaveBeenCalledWith(cartId);
+  });
+
+  it('should let the owning customer use their cart', async () => {
+    mockCartService.findOwnerUserId.mockResolvedValue('user-id');
+
+    const { context, request } = createContext({
+      'x-cart-id': cartId,
+      authorization: await bearer('user-id'),
+    });
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request.user).toEqual(expect.objectContaining({ sub: 'user-id' }));
+  });
+
+  it('should require an access token for a customer cart', async () => {
+    mockCartService.findOwnerUserId.mockResolvedValue('user-id');
+
+    const { context } = createContext({ 'x-cart-id': cartId });
+    await expect(guard.canActivate(context)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should hide a customer cart from other customers', async () => {
+    mockCartService.findOwnerUserId.mockResolvedValue('user-id');
+
+    const { context } = createContext({
+      'x-cart-id': cartId,
+      authorization: await bearer('other-user-id'),
+    });
+    await expect(guard.canActivate(context)).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,40 @@
+import { CanActivate, ExecutionContext, Injectable, NotFoundException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { CartService } from '../cart.service';
+import { CART_ID_HEADER } from '../decorators/cart-id.decorator';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { JwtPayload } from '../../auth/auth.service';
+
+/**
+ * Lets anyone holding its ID use a guest cart, but requires the access token of the
+ * owning customer for a customer cart
+ */
+@Injectable()
+export class CartOwnerGuard implements CanActivate {
+  constructor(
+    private readonly cartService: CartService,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const cartId = request.headers[CART_ID_HEADER];
+    // A missing header is reported by the CartId decorator
+    if (!cartId) {
+      return true;
+    }
+
+    const ownerId = await this.cartService.findOwnerUserId(cartId);
+    if (!ownerId) {
+      return true;
+    }
+
+    await new JwtAuthGuard(this.jwtService).canActivate(context);
+    const user: JwtPayload = request.user;
+    // Same answer as for a cart that does not exist, so cart IDs cannot be probed
+    if (user.sub !== ownerId) {
+      throw new NotFoundException(`Cart with ID ${cartId} not found`);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { CategoriesController } from './categories.controller';
+import { CategoriesService } from './categories.service';
+import { ROLES_KEY } from '../auth/guards/roles.guard';
+import { Role } from '../users/entities/user.entity';
+
+describe('CategoriesController', () => {
+  let controller: CategoriesController;
+  let service: CategoriesService;
+
+  const mockCategory = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    name: 'Shoes',
+    parent_id: null,
+    path: '123e4567-e89b-12d3-a456-426614174000/',
+  };
+
+  const mockCategoriesService = {
+    create: jest.fn(),
+    findTree: jest.fn(),
+    findOne: jest.fn(),
+    findBreadcrumbs: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CategoriesController],
+      providers: [
+        {
+          provide: CategoriesService,
+          useValue: mockCategoriesService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    controller = module.get<CategoriesController>(CategoriesController);
+    service = module.get<CategoriesService>(CategoriesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('access control', () => {
+    const rolesOf = (handler: (...args: any[]) => unknown) =>
+      Reflect.getMetadata(ROLES_KEY, handler);
+
+    it('should restrict write routes to admins and merchandisers', () => {
+      const { create, update, remove } = CategoriesController.prototype;
+
+      for (const handler of [create, update, remove]) {
+        expect(rolesOf(handler)).toEqual([Role.ADMIN, Role.MERCHANDISER]);
+      }
+    });
+
+    it('should leave read routes public', () => {
+      const { findTree, findOne, findBreadcrumbs } = CategoriesController.prototype;
+
+      for (const handler of [findTree, findOne, findBreadcrumbs]) {
+        expect(rolesOf(handler)).toBeUndefined();
+      }
+    });
+  });
+
+  describe('create', () => {
+    it('should create a category', async () => {
+      const dto = { name: 'Shoes' };
+      mockCategoriesService.create.mockResolvedValue(mockCategory);
+
+      const result = await controller.create(dto);
+
+      expect(service.create).toHaveBeenCalledWith(dto);
+      expect(result).toEqual(mockCategory);
+    });
+  });
+
+  describe('findBreadcrumbs', () => {
+    it('should return the path to the root', async () => {
+      mockCategoriesService.findBreadcrumbs.mockResolvedValue([mockCategory]);
+
+      expect(await controller.findBreadcrumbs(mockCategory.id)).toEqual([mockCategory]);
+      expect(service.findBreadcrumbs).toHaveBeenCalledWith(mockCategory.id);
+    });
+  });
+
+  describe('update', () => {
+    it('should move a category', async () => {
+      const parentId = '223e4567-e89b-12d3-a456-426614174000';
+      mockCategoriesService.update.mockResolvedValue({ ...mockCategory, parent_id: parentId });
+
+      const result = await controller.update(mockCategory.id, { parent_id: parentId });
+
+      expect(service.update).toHaveBeenCalledWith(mockCategory.id, { parent_id: parentId });
+      expect(result.parent_id).toBe(parentId);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a category', async () => {
+      await controller.remove(mockCategory.id);
+
+      expect(service.remove).toHaveBeenCalledWith(mockCategory.id);
+    });
+  });
+});
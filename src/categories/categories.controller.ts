@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { CategoriesService } from './categories.service';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+import { Category } from './entities/category.entity';
+import { ParseUUIDPipe } from '../common/pipes/parse-uuid.pipe';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../users/entities/user.entity';
+
+@ApiTags('categories')
+@Controller('categories')
+export class CategoriesController {
+  constructor(private readonly categoriesService: CategoriesService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Create a category, optionally under a parent' })
+  @ApiResponse({
+    status: 201,
+    description: 'Category created successfully',
+    type: Category,
+  })
+  @ApiResponse({ status: 404, description: 'Parent category not found' })
+  @ApiResponse({ status: 409, description: 'Parent already has a category with this name' })
+  async create(@Body() createCategoryDto: CreateCategoryDto): Promise<Category> {
+    return await this.categoriesService.create(createCategoryDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get the category tree' })
+  @ApiResponse({
+    status: 200,
+    description: 'Root categories with their subcategories nested under children',
+    type: [Category],
+  })
+  async findTree(): Promise<Category[]> {
+    return await this.categoriesService.findTree();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a category by ID' })
+  @ApiParam({ name: 'id', description: 'Category ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category retrieved successfully',
+    type: Category,
+  })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<Category> {
+    return await this.categoriesService.findOne(id);
+  }
+
+  @Get(':id/breadcrumbs')
+  @ApiOperation({ summary: 'Get the path from the root down to a category' })
+  @ApiParam({ name: 'id', description: 'Category ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Categories from the root down to the requested one',
+    type: [Category],
+  })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  async findBreadcrumbs(@Param('id', ParseUUIDPipe) id: string): Promise<Category[]> {
+    return await this.categoriesService.findBreadcrumbs(id);
+  }
+
+  @Put(':id')
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Rename a category or move it with its subcategories' })
+  @ApiParam({ name: 'id', description: 'Category ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category updated successfully',
+    type: Category,
+  })
+  @ApiResponse({ status: 400, description: 'Category cannot be moved under its own subtree' })
+  @ApiResponse({ status: 404, description: 'Category or parent category not found' })
+  @ApiResponse({ status: 409, description: 'Parent already has a category with this name' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateCategoryDto: UpdateCategoryDto,
+  ): Promise<Category> {
+    return await this.categoriesService.update(id, updateCategoryDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Delete a category without subcategories' })
+  @ApiParam({ name: 'id', description: 'Category ID' })
+  @ApiResponse({ status: 204, description: 'Category deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Category still has subcategories' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return await this.categoriesService.remove(id);
+  }
+}
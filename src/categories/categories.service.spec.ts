@@ -0,0 +1,229 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Like } from 'typeorm';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { CategoriesService } from './categories.service';
+import { Category } from './entities/category.entity';
+import { RedisService } from '../common/services/redis.service';
+
+describe('CategoriesService', () => {
+  let service: CategoriesService;
+
+  const clothingId = '123e4567-e89b-12d3-a456-426614174000';
+  const shoesId = '223e4567-e89b-12d3-a456-426614174000';
+  const trainersId = '323e4567-e89b-12d3-a456-426614174000';
+  const saleId = '423e4567-e89b-12d3-a456-426614174000';
+
+  const createMockCategory = (id: string, name: string, parent?: Category): Category =>
+    Object.assign(new Category(), {
+      id,
+      name,
+      parent_id: parent?.id ?? null,
+      path: `${parent?.path ?? ''}${id}/`,
+    });
+
+  let clothing: Category;
+  let shoes: Category;
+  let trainers: Category;
+  let sale: Category;
+  let sibling: Category | null;
+
+  const mockManager = {
+    create: jest.fn((entity, data) => Object.assign(new entity(), data)),
+    save: jest.fn(async (entity) =>
+      entity instanceof Category && !entity.id ? Object.assign(entity, { id: saleId }) : entity,
+    ),
+    find: jest.fn(),
+  };
+
+  const mockCategoryRepository = {
+    manager: { ...mockManager, transaction: jest.fn((work) => work(mockManager)) },
+    find: jest.fn(),
+    findOne: jest.fn(),
+    count: jest.fn(),
+    save: jest.fn(async (category) => category),
+    remove: jest.fn(),
+  };
+
+  const mockRedisService = {
+    flushPattern: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CategoriesService,
+        {
+          provide: getRepositoryToken(Category),
+          useValue: mockCategoryRepository,
+        },
+        {
+          provide: RedisService,
+          useValue: mockRedisService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CategoriesService>(CategoriesService);
+
+    clothing = createMockCategory(clothingId, 'Clothing');
+    shoes = createMockCategory(shoesId, 'Shoes', clothing);
+    trainers = createMockCategory(trainersId, 'Trainers', shoes);
+    sale = createMockCategory(saleId, 'Sale');
+    sibling = null;
+
+    // Lookups by ID find the fixtures; lookups by name find the sibling set by the test
+    mockCategoryRepository.findOne.mockImplementation(async ({ where }) =>
+      where.name ? sibling : [clothing, shoes, trainers, sale].find((c) => c.id === where.id),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store the path from the root down to the new category', async () => {
+      const result = await service.create({ name: 'Sale', parent_id: shoesId });
+
+      expect(result.parent_id).toBe(shoesId);
+      expect(result.path).toBe(`${clothingId}/${shoesId}/${saleId}/`);
+    });
+
+    it('should create a root category', async () => {
+      const result = await service.create({ name: 'Sale' });
+
+      expect(result.parent_id).toBeNull();
+      expect(result.path).toBe(`${saleId}/`);
+    });
+
+    it('should reject a name its siblings already use', async () => {
+      sibling = shoes;
+
+      await expect(service.create({ name: 'Shoes', parent_id: clothingId })).rejects.toThrow(
+        new ConflictException('Category Shoes already exists under Clothing'),
+      );
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown parent', async () => {
+      await expect(
+        service.create({ name: 'Sale', parent_id: '999e4567-e89b-12d3-a456-426614174000' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findTree', () => {
+    it('should nest subcategories under their parents', async () => {
+      mockCategoryRepository.find.mockResolvedValue([clothing, sale, shoes, trainers]);
+
+      const result = await service.findTree();
+
+      expect(result.map((category) => category.name)).toEqual(['Clothing', 'Sale']);
+      expect(result[0].children).toEqual([shoes]);
+      expect(result[0].children[0].children).toEqual([trainers]);
+      expect(result[1].children).toEqual([]);
+    });
+  });
+
+  describe('findBreadcrumbs', () => {
+    it('should return the categories from the root down', async () => {
+      mockCategoryRepository.find.mockResolvedValue([trainers, clothing, shoes]);
+
+      const result = await service.findBreadcrumbs(trainersId);
+
+      expect(result.map((category) => category.name)).toEqual(['Clothing', 'Shoes', 'Trainers']);
+    });
+
+    it('should throw NotFoundException for an unknown category', async () => {
+      await expect(service.findBreadcrumbs('999e4567-e89b-12d3-a456-426614174000')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('findSubtreeIds', () => {
+    it('should match every category below the given one by path', async () => {
+      mockCategoryRepository.find.mockResolvedValue([shoes, trainers]);
+
+      const result = await service.findSubtreeIds(shoesId);
+
+      expect(mockCategoryRepository.find).toHaveBeenCalledWith({
+        select: { id: true },
+        where: { path: Like(`${shoes.path}%`) },
+      });
+      expect(result).toEqual([shoesId, trainersId]);
+    });
+  });
+
+  describe('findByIds', () => {
+    it('should throw NotFoundException naming the first missing category', async () => {
+      mockCategoryRepository.find.mockResolvedValue([shoes]);
+
+      await expect(service.findByIds([shoesId, saleId])).rejects.toThrow(
+        `Category with ID ${saleId} not found`,
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should rename a category without touching its subtree', async () => {
+      const result = await service.update(shoesId, { name: 'Footwear' });
+
+      expect(result.name).toBe('Footwear');
+      expect(mockManager.find).not.toHaveBeenCalled();
+      expect(mockRedisService.flushPattern).not.toHaveBeenCalled();
+    });
+
+    it('should move a category and rewrite the paths of its subtree', async () => {
+      mockManager.find.mockResolvedValue([trainers]);
+
+      const result = await service.update(shoesId, { parent_id: saleId });
+
+      expect(result.parent_id).toBe(saleId);
+      expect(result.path).toBe(`${saleId}/${shoesId}/`);
+      expect(trainers.path).toBe(`${saleId}/${shoesId}/${trainersId}/`);
+      expect(mockManager.save).toHaveBeenCalledWith([trainers]);
+      expect(mockRedisService.flushPattern).toHaveBeenCalledWith('products_list:*');
+    });
+
+    it('should move a category to the root', async () => {
+      mockManager.find.mockResolvedValue([trainers]);
+
+      const result = await service.update(shoesId, { parent_id: null });
+
+      expect(result.parent_id).toBeNull();
+      expect(trainers.path).toBe(`${shoesId}/${trainersId}/`);
+    });
+
+    it('should refuse to move a category under its own subtree', async () => {
+      await expect(service.update(clothingId, { parent_id: trainersId })).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(service.update(shoesId, { parent_id: shoesId })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a leaf category and invalidate the product lists', async () => {
+      mockCategoryRepository.count.mockResolvedValue(0);
+
+      await service.remove(trainersId);
+
+      expect(mockCategoryRepository.remove).toHaveBeenCalledWith(trainers);
+      expect(mockRedisService.flushPattern).toHaveBeenCalledWith('products_list:*');
+    });
+
+    it('should refuse to delete a category with subcategories', async () => {
+      mockCategoryRepository.count.mockResolvedValue(1);
+
+      await expect(service.remove(shoesId)).rejects.toThrow(
+        'Category Shoes still has 1 subcategories',
+      );
+      expect(mockCategoryRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+});
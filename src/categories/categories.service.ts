@@ -0,0 +1,208 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Like, Not, Repository } from 'typeorm';
+import { Category } from './entities/category.entity';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+import { RedisService } from '../common/services/redis.service';
+
+@Injectable()
+export class CategoriesService {
+  constructor(
+    @InjectRepository(Category)
+    private readonly categoryRepository: Repository<Category>,
+    private readonly redisService: RedisService,
+  ) {}
+
+  async create(createCategoryDto: CreateCategoryDto): Promise<Category> {
+    const parent = createCategoryDto.parent_id
+      ? await this.findOne(createCategoryDto.parent_id)
+      : null;
+    await this.assertNameAvailable(createCategoryDto.name, parent);
+
+    return await this.categoryRepository.manager.transaction(async (manager) => {
+      // The path ends in the category's own ID, which is only known once it is inserted
+      const category = await manager.save(
+        manager.create(Category, {
+          name: createCategoryDto.name,
+          parent_id: parent?.id ?? null,
+          path: '',
+        }),
+      );
+      category.path = `${parent?.path ?? ''}${category.id}/`;
+      return await manager.save(category);
+    });
+  }
+
+  /**
+   * Returns the root categories with their subcategories nested under `children`, by name
+   */
+  async findTree(): Promise<Category[]> {
+    const categories = await this.categoryRepository.find({ order: { name: 'ASC' } });
+
+    const byId = new Map(categories.map((category) => [category.id, category]));
+    const roots: Category[] = [];
+    for (const category of categories) {
+      category.children = [];
+    }
+    for (const category of categories) {
+      const parent = category.parent_id ? byId.get(category.parent_id) : undefined;
+      if (parent) {
+        parent.children.push(category);
+      } else {
+        roots.push(category);
+      }
+    }
+    return roots;
+  }
+
+  async findOne(id: string): Promise<Category> {
+    const category = await this.categoryRepository.findOne({ where: { id } });
+    if (!category) {
+      throw new NotFoundException(`Category with ID ${id} not found`);
+    }
+    return category;
+  }
+
+  /**
+   * Finds the given categories, failing with 404 on the first ID that does not exist
+   */
+  async findByIds(ids: string[]): Promise<Category[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const categories = await this.categoryRepository.find({ where: { id: In(ids) } });
+    const missing = ids.find((id) => !categories.some((category) => category.id === id));
+    if (missing) {
+      throw new NotFoundException(`Category with ID ${missing} not found`);
+    }
+    return categories;
+  }
+
+  /**
+   * Returns the categories from the root down to the given category
+   */
+  async findBreadcrumbs(id: string): Promise<Category[]> {
+    const category = await this.findOne(id);
+    const ids = category.path.split('/').filter(Boolean);
+
+    const ancestors = await this.categoryRepository.find({ where: { id: In(ids) } });
+    return ids.map((ancestorId) => ancestors.find((ancestor) => ancestor.id === ancestorId));
+  }
+
+  /**
+   * Returns the IDs of the category and every category below it
+   */
+  async findSubtreeIds(id: string): Promise<string[]> {
+    const category = await this.findOne(id);
+
+    const subtree = await this.categoryRepository.find({
+      select: { id: true },
+      where: { path: Like(`${category.path}%`) },
+    });
+    return subtree.map((node) => node.id);
+  }
+
+  /**
+   * Renames or moves a category; moving it carries its whole subtree along
+   */
+  async update(id: string, updateCategoryDto: UpdateCategoryDto): Promise<Category> {
+    const category = await this.findOne(id);
+
+    const moving =
+      updateCategoryDto.parent_id !== undefined &&
+      (updateCategoryDto.parent_id ?? null) !== category.parent_id;
+    let parent: Category | null = null;
+    if (moving && updateCategoryDto.parent_id) {
+      parent = await this.findOne(updateCategoryDto.parent_id);
+      if (parent.path.startsWith(category.path)) {
+        throw new BadRequestException(
+          'A category cannot be moved under itself or one of its subcategories',
+        );
+      }
+    } else if (!moving && category.parent_id) {
+      parent = await this.findOne(category.parent_id);
+    }
+
+    const name = updateCategoryDto.name ?? category.name;
+    if (moving || name !== category.name) {
+      await this.assertNameAvailable(name, parent, category.id);
+    }
+    category.name = name;
+
+    if (!moving) {
+      return await this.categoryRepository.save(category);
+    }
+
+    const previousPath = category.path;
+    const path = `${parent?.path ?? ''}${category.id}/`;
+    const savedCategory = await this.categoryRepository.manager.transaction(async (manager) => {
+      const descendants = await manager.find(Category, {
+        where: { path: Like(`${previousPath}%`), id: Not(category.id) },
+      });
+      for (const descendant of descendants) {
+        descendant.path = path + descendant.path.slice(previousPath.length);
+      }
+      await manager.save(descendants);
+
+      category.parent_id = parent?.id ?? null;
+      category.path = path;
+      return await manager.save(category);
+    });
+
+    // Listings that include descendants now match different products
+    await this.invalidateProductListCache();
+    return savedCategory;
+  }
+
+  /**
+   * Deletes a category without subcategories, unassigning it from its products
+   */
+  async remove(id: string): Promise<void> {
+    const category = await this.findOne(id);
+
+    const children = await this.categoryRepository.count({ where: { parent_id: id } });
+    if (children > 0) {
+      throw new BadRequestException(
+        `Category ${category.name} still has ${children} subcategories`,
+      );
+    }
+
+    await this.categoryRepository.remove(category);
+    await this.invalidateProductListCache();
+  }
+
+  private async assertNameAvailable(
+    name: string,
+    parent: Category | null,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.categoryRepository.findOne({
+      where: {
+        name,
+        parent_id: parent?.id ?? IsNull(),
+        ...(excludeId ? { id: Not(excludeId) } : {}),
+      },
+    });
+    if (existing) {
+      throw new ConflictException(
+        parent
+          ? `Category ${name} already exists under ${parent.name}`
+          : `Root category ${name} already exists`,
+      );
+    }
+  }
+
+  /**
+   * Product listings are cached by the cache interceptor per query, including category filters
+   */
+  private async invalidateProductListCache(): Promise<void> {
+    await this.redisService.flushPattern('products_list:*');
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * A node of the category tree. `path` is the materialized path of the IDs from the root down to
+ * the category itself, so a subtree is every category whose path starts with its root's path.
+ */
+@Entity('categories')
+export class Category {
+  @ApiProperty({ description: 'Category ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Category name, unique among its siblings', example: 'Shoes' })
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @ApiProperty({ description: 'Parent category ID, null for a root category', nullable: true })
+  @Column({ type: 'varchar', nullable: true })
+  parent_id: string | null;
+
+  @ApiProperty({
+    description: 'IDs from the root down to this category, each followed by a slash',
+    example: '2f1c.../9ab0.../',
+  })
+  @Index()
+  @Column({ type: 'varchar', length: 1000 })
+  path: string;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => Category, (category) => category.children)
+  @JoinColumn({ name: 'parent_id' })
+  parent?: Category;
+
+  @ApiProperty({
+    description: 'Subcategories, only filled in when listing the tree',
+    type: () => [Category],
+    required: false,
+  })
+  @OneToMany(() => Category, (category) => category.parent)
+  children?: Category[];
+}
@@ -16,8 +16,37 @@ export default {
   },
   jwt: {
     secret: process.env.JWT_SECRET || 'helo_secret.tech',
-    longExpiration: process.env.JWT_EXPIRES_IN_LONG,
-    shortExpiration: process.env.JWT_EXPIRES_IN_SHORT,
+    longExpiration: process.env.JWT_EXPIRES_IN_LONG || '7d',
+    shortExpiration: process.env.JWT_EXPIRES_IN_SHORT || '15m',
+  },
+  admin: {
+    email: process.env.ADMIN_EMAIL,
+    password: process.env.ADMIN_PASSWORD,
+  },
+  cart: {
+    ttlHours: Number(process.env.CART_TTL_HOURS) || 72,
+    sweepIntervalSeconds: Number(process.env.CART_SWEEP_INTERVAL_SECONDS) || 300,
+  },
+  reservations: {
+    ttlMinutes: Number(process.env.RESERVATION_TTL_MINUTES) || 15,
+    sweepIntervalSeconds: Number(process.env.RESERVATION_SWEEP_INTERVAL_SECONDS) || 60,
+  },
+  inventory: {
+    // Which warehouses checkout takes stock from first: priority, nearest or largest
+    allocationStrategy: process.env.ALLOCATION_STRATEGY || 'priority',
+  },
+  catalog: {
+    // Upper bounds of the price buckets counted for product listings; the last bucket is open-ended
+    priceFacetBounds: (process.env.PRICE_FACET_BOUNDS || '25,50,100,250,500')
+      .split(',')
+      .map(Number)
+      .filter((bound) => bound > 0)
+      .sort((a, b) => a - b),
+    importMaxFileSizeMb: Number(process.env.PRODUCT_IMPORT_MAX_FILE_SIZE_MB) || 10,
+  },
+  currency: {
+    base: (process.env.BASE_CURRENCY || 'USD').toUpperCase(),
+    ratesFile: process.env.EXCHANGE_RATES_FILE,
   },
   baseUrl: process.env.BASE_URL,
   env: process.env.ENV,
@@ -30,6 +59,15 @@ export default {
     url: process.env.ZOHO_URL,
     token: process.env.ZOHO_TOKEN,
   },
+  mail: {
+    // smtp sends through the zoho settings, file writes JSON files to outboxDir, memory keeps them
+    transport: process.env.MAIL_TRANSPORT || 'smtp',
+    outboxDir: process.env.MAIL_OUTBOX_DIR || './mail-outbox',
+    maxAttempts: Number(process.env.MAIL_MAX_ATTEMPTS) || 5,
+    retryDelaySeconds: Number(process.env.MAIL_RETRY_DELAY_SECONDS) || 60,
+    sweepIntervalSeconds: Number(process.env.MAIL_SWEEP_INTERVAL_SECONDS) || 30,
+    passwordResetExpiration: process.env.PASSWORD_RESET_EXPIRES_IN || '1h',
+  },
   frontEnd: process.env.FRONTEND_URL,
   push_provider: process.env.PUSH_PROVIDER,
   algo: process.env.ALGORITHM || '',
@@ -40,6 +78,10 @@ export default {
     client_id: process.env.GOOGLE_CLIENT_ID || '',
     client_secret: process.env.GOOGLE_CLIENT_SECRET || '',
     callback_url: process.env.GOOGLE_CALLBACK_URL || '',
+    auth_url: process.env.GOOGLE_AUTH_URL || 'https://accounts.google.com/o/oauth2/v2/auth',
+    token_url: process.env.GOOGLE_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+    userinfo_url:
+      process.env.GOOGLE_USERINFO_URL || 'https://openidconnect.googleapis.com/v1/userinfo',
   },
   aws: {
     accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
@@ -149,6 +149,32 @@ describe('CacheInterceptor', () => {
       expect(redisService.getJson).toHaveBeenCalledWith(expect.stringContaining('test:GET:/test:'));
     });
 
+    it('should key a cursor page the same whatever the parameter order', async () => {
+      mockReflector.get.mockReturnValue({ ttl: 300, keyPrefix: 'products_list' });
+      mockRedisService.isConnected.mockReturnValue(true);
+      mockRedisService.getJson.mockResolvedValue(null);
+      const cursor = 'eyJzb3J0IjoicHJpY2UifQ';
+
+      mockGetRequest.mockReturnValue({
+        method: 'GET',
+        url: `/products?cursor=${cursor}&sort=price`,
+        query: { cursor, sort: 'price' },
+        params: {},
+      });
+      await interceptor.intercept(mockExecutionContext, mockCallHandler);
+      mockGetRequest.mockReturnValue({
+        method: 'GET',
+        url: `/products?sort=price&cursor=${cursor}`,
+        query: { sort: 'price', cursor },
+        params: {},
+      });
+      await interceptor.intercept(mockExecutionContext, mockCallHandler);
+
+      const [[firstKey], [secondKey]] = mockRedisService.getJson.mock.calls;
+      expect(firstKey).toBe(`products_list:GET:/products:{"cursor":"${cursor}","sort":"price"}`);
+      expect(secondKey).toBe(firstKey);
+    });
+
     it('should use custom key generator when provided', async () => {
       const customKey = 'custom-cache-key';
       const cacheOptions = {
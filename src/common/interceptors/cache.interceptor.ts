@@ -64,12 +64,24 @@ export class CacheInterceptor implements NestInterceptor {
     }
 
     const prefix = options.keyPrefix || 'cache';
-    const baseKey = `${prefix}:${method}:${url}`;
+    // The query string is keyed from the parsed query below, so requests differing only in
+    // parameter order share a key and long values such as page cursors appear once
+    const path = url.split('?')[0];
+    const baseKey = `${prefix}:${method}:${path}`;
     
     // Include query parameters and route parameters in the key
-    const queryString = Object.keys(query).length > 0 ? `:${JSON.stringify(query)}` : '';
+    const queryString =
+      Object.keys(query).length > 0 ? `:${JSON.stringify(this.sortKeys(query))}` : '';
     const paramsString = Object.keys(params).length > 0 ? `:${JSON.stringify(params)}` : '';
     
     return `${baseKey}${paramsString}${queryString}`;
   }
+
+  private sortKeys(query: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.keys(query)
+        .sort()
+        .map((key) => [key, query[key]]),
+    );
+  }
 }
@@ -0,0 +1,31 @@
+import { DecimalTransformer } from './decimal.transformer';
+import { Money } from '../utils/money';
+
+describe('DecimalTransformer', () => {
+  const transformer = new DecimalTransformer();
+
+  describe('to', () => {
+    it('should write exact decimal strings', () => {
+      expect(transformer.to(19.99)).toBe('19.99');
+      expect(transformer.to('0.10')).toBe('0.10');
+      expect(transformer.to(Money.of(0.1).add(0.2))).toBe('0.3');
+    });
+
+    it('should pass null and undefined through', () => {
+      expect(transformer.to(null)).toBeNull();
+      expect(transformer.to(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('from', () => {
+    it('should read numbers and strings as numbers', () => {
+      expect(transformer.from('99.99')).toBe(99.99);
+      expect(transformer.from(99.99)).toBe(99.99);
+      expect(transformer.from('20.00')).toBe(20);
+    });
+
+    it('should pass null through', () => {
+      expect(transformer.from(null)).toBeNull();
+    });
+  });
+});
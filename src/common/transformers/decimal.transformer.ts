@@ -0,0 +1,26 @@
+import { ValueTransformer } from 'typeorm';
+import { Money, MoneyInput } from '../utils/money';
+
+/**
+ * Column transformer for decimal columns.
+ * Writes exact decimal strings and reads values back as numbers, whether the driver returns
+ * them as numbers or strings, so entities never need Number(...) around money fields.
+ */
+export class DecimalTransformer implements ValueTransformer {
+  to(value: MoneyInput | null | undefined): string | null | undefined {
+    // Undefined must survive so inserts still fall back to the column default
+    if (value === null || value === undefined) {
+      return value as null | undefined;
+    }
+    return Money.of(value).toString();
+  }
+
+  from(value: number | string | null | undefined): number | null | undefined {
+    if (value === null || value === undefined) {
+      return value as null | undefined;
+    }
+    return Money.of(value).toNumber();
+  }
+}
+
+export const decimalTransformer = new DecimalTransformer();
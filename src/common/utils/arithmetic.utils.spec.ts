@@ -5,11 +5,14 @@ import {
   safeMultiply,
   safeDivide,
   calculatePercentage,
+  calculateTax,
   applyDiscount,
   calculateLineTotal,
   sumArray,
   isValidMonetaryAmount,
   formatCurrency,
+  getCurrencyDecimals,
+  roundToCurrency,
 } from './arithmetic.utils';
 
 describe('ArithmeticUtils', () => {
@@ -127,6 +130,28 @@ describe('ArithmeticUtils', () => {
     });
   });
 
+  describe('calculateTax', () => {
+    it('should add tax on top of exclusive amounts', () => {
+      expect(calculateTax(100, 20)).toBe(20);
+      expect(calculateTax(19.99, 8.25)).toBe(1.65);
+    });
+
+    it('should extract the tax share of inclusive amounts', () => {
+      expect(calculateTax(120, 20, true)).toBe(20);
+      expect(calculateTax(10, 19, true)).toBe(1.6);
+    });
+
+    it('should round to the given number of decimals', () => {
+      expect(calculateTax(1000, 10, false, 0)).toBe(100);
+      expect(calculateTax(1005, 10, true, 0)).toBe(91);
+    });
+
+    it('should return 0 for a zero rate or invalid inputs', () => {
+      expect(calculateTax(100, 0)).toBe(0);
+      expect(calculateTax('invalid', 20)).toBe(0);
+    });
+  });
+
   describe('applyDiscount', () => {
     it('should apply discount correctly', () => {
       const result = applyDiscount(100, 10);
@@ -220,5 +245,25 @@ describe('ArithmeticUtils', () => {
       const formatted = formatCurrency(10.5, 'EUR', 'en-US');
       expect(formatted).toMatch(/€10\.50/);
     });
+
+    it('should round to the currency minor unit', () => {
+      expect(formatCurrency(1234.56, 'JPY', 'en-US')).toMatch(/¥1,235/);
+    });
+  });
+
+  describe('getCurrencyDecimals', () => {
+    it('should return the minor unit digits of a currency', () => {
+      expect(getCurrencyDecimals('USD')).toBe(2);
+      expect(getCurrencyDecimals('JPY')).toBe(0);
+      expect(getCurrencyDecimals('KWD')).toBe(3);
+    });
+  });
+
+  describe('roundToCurrency', () => {
+    it('should round amounts to the currency minor unit', () => {
+      expect(roundToCurrency(10.555, 'EUR')).toBe(10.56);
+      expect(roundToCurrency(1234.5, 'JPY')).toBe(1235);
+      expect(roundToCurrency('1.2345', 'KWD')).toBe(1.235);
+    });
   });
 });
@@ -1,21 +1,39 @@
 /**
  * Arithmetic utilities for precise financial calculations
- * Handles floating point precision issues and provides consistent rounding
+ * Thin number-in, number-out wrappers around the exact Money type
  */
+import { Money, RoundingMode } from './money';
+
+/**
+ * Converts an input to an exact Money amount, parsing strings the way parseFloat does
+ * @param value - The value to convert
+ * @returns Exact amount, or null when the value is not a finite number
+ */
+function toMoney(value: number | string | Money): Money | null {
+  if (value instanceof Money) return value;
+
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (!Number.isFinite(num)) return null;
+
+  return Money.of(num);
+}
 
 /**
  * Converts a value to a precise decimal number with proper rounding
  * @param value - The value to convert
  * @param decimals - Number of decimal places (default: 2)
+ * @param mode - How ties are rounded (default: half-up)
  * @returns Precisely rounded number
  */
-export function toPreciseDecimal(value: number | string, decimals: number = 2): number {
-  const num = typeof value === 'string' ? parseFloat(value) : value;
-  if (isNaN(num)) return 0;
-  
-  // Use Math.round with power of 10 for precise rounding
-  const factor = Math.pow(10, decimals);
-  return Math.round((num + Number.EPSILON) * factor) / factor;
+export function toPreciseDecimal(
+  value: number | string | Money,
+  decimals: number = 2,
+  mode: RoundingMode = RoundingMode.HALF_UP,
+): number {
+  const amount = toMoney(value);
+  if (!amount) return 0;
+
+  return amount.round(decimals, mode).toNumber();
 }
 
 /**
@@ -24,13 +42,7 @@ export function toPreciseDecimal(value: number | string, decimals: number = 2):
  * @returns Sum with precise decimal handling
  */
 export function safeAdd(...values: (number | string)[]): number {
-  const sum = values.reduce((acc, val) => {
-    acc = typeof acc === 'string' ? parseFloat(acc) : acc;
-    const num = typeof val === 'string' ? parseFloat(val) : val;
-    return acc + (isNaN(num) ? 0 : num);
-  }, 0);
-  
-  return toPreciseDecimal(sum);
+  return sumArray(values);
 }
 
 /**
@@ -40,12 +52,12 @@ export function safeAdd(...values: (number | string)[]): number {
  * @returns Difference with precise decimal handling
  */
 export function safeSubtract(minuend: number | string, subtrahend: number | string): number {
-  const num1 = typeof minuend === 'string' ? parseFloat(minuend) : minuend;
-  const num2 = typeof subtrahend === 'string' ? parseFloat(subtrahend) : subtrahend;
-  
-  if (isNaN(num1) || isNaN(num2)) return 0;
-  
-  return toPreciseDecimal(num1 - num2);
+  const amount1 = toMoney(minuend);
+  const amount2 = toMoney(subtrahend);
+
+  if (!amount1 || !amount2) return 0;
+
+  return amount1.subtract(amount2).round().toNumber();
 }
 
 /**
@@ -55,12 +67,12 @@ export function safeSubtract(minuend: number | string, subtrahend: number | stri
  * @returns Product with precise decimal handling
  */
 export function safeMultiply(multiplicand: number | string, multiplier: number | string): number {
-  const num1 = typeof multiplicand === 'string' ? parseFloat(multiplicand) : multiplicand;
-  const num2 = typeof multiplier === 'string' ? parseFloat(multiplier) : multiplier;
-  
-  if (isNaN(num1) || isNaN(num2)) return 0;
-  
-  return toPreciseDecimal(num1 * num2);
+  const amount1 = toMoney(multiplicand);
+  const amount2 = toMoney(multiplier);
+
+  if (!amount1 || !amount2) return 0;
+
+  return amount1.multiply(amount2).round().toNumber();
 }
 
 /**
@@ -70,12 +82,12 @@ export function safeMultiply(multiplicand: number | string, multiplier: number |
  * @returns Quotient with precise decimal handling
  */
 export function safeDivide(dividend: number | string, divisor: number | string): number {
-  const num1 = typeof dividend === 'string' ? parseFloat(dividend) : dividend;
-  const num2 = typeof divisor === 'string' ? parseFloat(divisor) : divisor;
-  
-  if (isNaN(num1) || isNaN(num2) || num2 === 0) return 0;
-  
-  return toPreciseDecimal(num1 / num2);
+  const amount1 = toMoney(dividend);
+  const amount2 = toMoney(divisor);
+
+  if (!amount1 || !amount2 || amount2.isZero()) return 0;
+
+  return amount1.divide(amount2).toNumber();
 }
 
 /**
@@ -85,12 +97,36 @@ export function safeDivide(dividend: number | string, divisor: number | string):
  * @returns Percentage amount with precise decimal handling
  */
 export function calculatePercentage(value: number | string, percentage: number | string): number {
-  const baseValue = typeof value === 'string' ? parseFloat(value) : value;
-  const percent = typeof percentage === 'string' ? parseFloat(percentage) : percentage;
-  
-  if (isNaN(baseValue) || isNaN(percent)) return 0;
-  
-  return toPreciseDecimal((baseValue * percent) / 100);
+  const baseValue = toMoney(value);
+  const percent = toMoney(percentage);
+
+  if (!baseValue || !percent) return 0;
+
+  return baseValue.percentage(percent).round().toNumber();
+}
+
+/**
+ * Calculates the tax on an amount
+ * @param amount - Taxable amount
+ * @param rate - Tax rate percentage
+ * @param inclusive - Whether the amount already includes the tax
+ * @param decimals - Number of decimal places to round the tax to (default: 2)
+ * @returns Tax added on top of the amount, or the share of it that is tax when inclusive
+ */
+export function calculateTax(
+  amount: number | string | Money,
+  rate: number | string,
+  inclusive: boolean = false,
+  decimals: number = 2,
+): number {
+  const base = toMoney(amount);
+  const percent = toMoney(rate);
+
+  if (!base || !percent || percent.isZero()) return 0;
+
+  // amount × rate / 100, or amount × rate / (100 + rate) to take the tax back out of a gross amount
+  const divisor = inclusive ? percent.add(100) : Money.of(100);
+  return base.multiply(percent).divide(divisor, decimals).toNumber();
 }
 
 /**
@@ -133,11 +169,15 @@ export function calculateLineTotal(quantity: number, unitPrice: number | string)
 
 /**
  * Sums an array of numbers with precise decimal handling
- * @param values - Array of numbers to sum
+ * @param values - Array of numbers to sum, invalid entries count as 0
  * @returns Sum with precise decimal handling
  */
 export function sumArray(values: (number | string)[]): number {
-  return safeAdd(...values);
+  const total = values.reduce<Money>(
+    (sum, value) => sum.add(toMoney(value) ?? Money.zero()),
+    Money.zero(),
+  );
+  return total.round().toNumber();
 }
 
 /**
@@ -150,6 +190,33 @@ export function isValidMonetaryAmount(value: number | string): boolean {
   return !isNaN(num) && isFinite(num) && num >= 0;
 }
 
+/**
+ * Gets the number of minor unit digits used by a currency (e.g. 2 for USD, 0 for JPY)
+ * @param currency - ISO 4217 currency code
+ * @returns Number of decimal places amounts in this currency are rounded to
+ */
+export function getCurrencyDecimals(currency: string): number {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+  }).resolvedOptions().maximumFractionDigits;
+}
+
+/**
+ * Rounds an amount to the minor unit of a currency
+ * @param value - Amount to round
+ * @param currency - ISO 4217 currency code
+ * @param mode - How ties are rounded (default: half-up)
+ * @returns Amount rounded to the currency's decimal places
+ */
+export function roundToCurrency(
+  value: number | string | Money,
+  currency: string,
+  mode: RoundingMode = RoundingMode.HALF_UP,
+): number {
+  return toPreciseDecimal(value, getCurrencyDecimals(currency), mode);
+}
+
 /**
  * Formats a number as currency (for display purposes)
  * @param value - Value to format
@@ -162,7 +229,7 @@ export function formatCurrency(
   currency: string = 'USD',
   locale: string = 'en-US'
 ): string {
-  const num = toPreciseDecimal(value);
+  const num = roundToCurrency(value, currency);
   return new Intl.NumberFormat(locale, {
     style: 'currency',
     currency,
@@ -0,0 +1,138 @@
+import { Money, RoundingMode } from './money';
+
+describe('Money', () => {
+  describe('of', () => {
+    it('should read numbers by their shortest decimal representation', () => {
+      expect(Money.of(0.1).toString()).toBe('0.1');
+      expect(Money.of(19.99).units).toBe(BigInt(1999));
+      expect(Money.of(19.99).scale).toBe(2);
+    });
+
+    it('should parse decimal strings exactly', () => {
+      expect(Money.of('1234567890123.4567').toString()).toBe('1234567890123.4567');
+      expect(Money.of(' -0.50 ').toString()).toBe('-0.50');
+      expect(Money.of('.5').toString()).toBe('0.5');
+    });
+
+    it('should parse exponent notation', () => {
+      expect(Money.of(1e-7).toString()).toBe('0.0000001');
+      expect(Money.of('1.5e3').toString()).toBe('1500');
+    });
+
+    it('should reject values that are not finite decimals', () => {
+      expect(() => Money.of('abc')).toThrow(RangeError);
+      expect(() => Money.of(NaN)).toThrow(RangeError);
+      expect(() => Money.of(Infinity)).toThrow(RangeError);
+      expect(() => Money.of('')).toThrow(RangeError);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add and subtract without float error', () => {
+      expect(Money.of(0.1).add(0.2).toNumber()).toBe(0.3);
+      expect(Money.of(199.98).subtract(159.98).toNumber()).toBe(40);
+      expect(Money.of('10.5').add('0.005').toString()).toBe('10.505');
+    });
+
+    it('should multiply exactly', () => {
+      expect(Money.of(1.005).multiply(1000).toNumber()).toBe(1005);
+      expect(Money.of(79.99).multiply(3).toString()).toBe('239.97');
+    });
+
+    it('should take exact percentages', () => {
+      expect(Money.of(33.33).percentage(15).toString()).toBe('4.9995');
+      expect(Money.of(200).percentage(12.5).toNumber()).toBe(25);
+    });
+
+    it('should divide to the requested scale', () => {
+      expect(Money.of(1).divide(3).toString()).toBe('0.33');
+      expect(Money.of(2).divide(3, 4).toString()).toBe('0.6667');
+      expect(() => Money.of(1).divide(0)).toThrow('Division by zero');
+    });
+
+    it('should sum large lists without spreading them', () => {
+      const values = new Array(200000).fill(0.01);
+
+      expect(Money.sum(values).toNumber()).toBe(2000);
+    });
+  });
+
+  describe('round', () => {
+    it('should round half up by default', () => {
+      expect(Money.of(1.005).round().toString()).toBe('1.01');
+      expect(Money.of(2.5).round(0).toString()).toBe('3');
+      expect(Money.of(-2.5).round(0).toString()).toBe('-3');
+    });
+
+    it('should round half to even when requested', () => {
+      expect(Money.of(2.5).round(0, RoundingMode.HALF_EVEN).toString()).toBe('2');
+      expect(Money.of(3.5).round(0, RoundingMode.HALF_EVEN).toString()).toBe('4');
+      expect(Money.of(1.005).round(2, RoundingMode.HALF_EVEN).toString()).toBe('1.00');
+      expect(Money.of(1.0051).round(2, RoundingMode.HALF_EVEN).toString()).toBe('1.01');
+    });
+
+    it('should pad to a larger scale', () => {
+      expect(Money.of(5).round(2).toString()).toBe('5.00');
+    });
+  });
+
+  describe('allocate', () => {
+    it('should never lose or create minor units', () => {
+      const shares = Money.of(100).round().allocate([1, 1, 1]);
+
+      expect(shares.map((share) => share.toString())).toEqual(['33.34', '33.33', '33.33']);
+      expect(Money.sum(shares).toNumber()).toBe(100);
+    });
+
+    it('should give leftover units to the largest remainders', () => {
+      const shares = Money.of('1.00').allocate([3, 2, 1]);
+
+      expect(shares.map((share) => share.toString())).toEqual(['0.50', '0.33', '0.17']);
+    });
+
+    it('should allocate negative amounts', () => {
+      const shares = Money.of(-0.1).round().allocate([1, 2]);
+
+      expect(shares.map((share) => share.toString())).toEqual(['-0.03', '-0.07']);
+    });
+
+    it('should reject invalid ratios', () => {
+      expect(() => Money.of(10).allocate([])).toThrow(RangeError);
+      expect(() => Money.of(10).allocate([0, 0])).toThrow(RangeError);
+      expect(() => Money.of(10).allocate([1, -1])).toThrow(RangeError);
+    });
+  });
+
+  describe('split', () => {
+    it('should split into equal parts', () => {
+      const parts = Money.fromMinorUnits(1000).split(3);
+
+      expect(parts.map((part) => part.toString())).toEqual(['3.34', '3.33', '3.33']);
+    });
+
+    it('should reject a non-positive number of parts', () => {
+      expect(() => Money.of(10).split(0)).toThrow(RangeError);
+    });
+  });
+
+  describe('comparison', () => {
+    it('should compare amounts of different scales', () => {
+      expect(Money.of('1.50').compare(1.5)).toBe(0);
+      expect(Money.of(1.5).equals('1.500')).toBe(true);
+      expect(Money.of(1).compare(2)).toBe(-1);
+      expect(Money.of(-1).isNegative()).toBe(true);
+      expect(Money.zero().isZero()).toBe(true);
+    });
+  });
+
+  describe('serialization', () => {
+    it('should serialize to a number in JSON', () => {
+      expect(JSON.stringify({ price: Money.of('19.90') })).toBe('{"price":19.9}');
+    });
+
+    it('should create amounts from minor units', () => {
+      expect(Money.fromMinorUnits(1999).toString()).toBe('19.99');
+      expect(Money.fromMinorUnits(1500, 0).toString()).toBe('1500');
+    });
+  });
+});
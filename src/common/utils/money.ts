@@ -0,0 +1,248 @@
+/**
+ * Exact money arithmetic backed by integer minor units
+ * A Money value is a bigint count of 10^-scale units, so amounts never pick up float error
+ */
+
+export enum RoundingMode {
+  /** Ties round away from zero: 2.5 -> 3, -2.5 -> -3 */
+  HALF_UP = 'half-up',
+  /** Ties round to the nearest even digit: 2.5 -> 2, 3.5 -> 4 (banker's rounding) */
+  HALF_EVEN = 'half-even',
+}
+
+export type MoneyInput = Money | number | string;
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+function pow10(exponent: number): bigint {
+  return BigInt(10) ** BigInt(exponent);
+}
+
+/**
+ * Integer division rounded to the nearest integer, ties resolved by the rounding mode
+ */
+function divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  if (denominator < BigInt(0)) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === BigInt(0)) {
+    return quotient;
+  }
+
+  const step = numerator < BigInt(0) ? BigInt(-1) : BigInt(1);
+  const twiceRemainder = (remainder < BigInt(0) ? -remainder : remainder) * BigInt(2);
+
+  if (twiceRemainder > denominator) {
+    return quotient + step;
+  }
+  if (twiceRemainder < denominator) {
+    return quotient;
+  }
+  if (mode === RoundingMode.HALF_EVEN && quotient % BigInt(2) === BigInt(0)) {
+    return quotient;
+  }
+  return quotient + step;
+}
+
+export class Money {
+  private constructor(
+    /** Amount as a count of 10^-scale units */
+    readonly units: bigint,
+    /** Number of decimal places the units represent */
+    readonly scale: number,
+  ) {}
+
+  /**
+   * Creates an exact amount from a decimal number or string.
+   * Numbers are read by their shortest decimal representation, so 0.1 is exactly 0.1.
+   * @throws RangeError when the value is not a finite decimal
+   */
+  static of(value: MoneyInput): Money {
+    if (value instanceof Money) {
+      return value;
+    }
+
+    const text = typeof value === 'number' ? String(value) : value.trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match || (!match[2] && !match[3])) {
+      throw new RangeError(`Invalid monetary amount: ${value}`);
+    }
+
+    const [, sign, integer = '', fraction = '', exponent = '0'] = match;
+    let units = BigInt(`${integer}${fraction}` || '0');
+    let scale = fraction.length - Number(exponent);
+    if (scale < 0) {
+      units *= pow10(-scale);
+      scale = 0;
+    }
+
+    return new Money(sign === '-' ? -units : units, scale);
+  }
+
+  /**
+   * Creates an amount from a count of minor units, e.g. fromMinorUnits(1999) is 19.99
+   */
+  static fromMinorUnits(units: bigint | number, scale: number = 2): Money {
+    return new Money(BigInt(units), scale);
+  }
+
+  static zero(scale: number = 2): Money {
+    return new Money(BigInt(0), scale);
+  }
+
+  /**
+   * Sums any number of amounts without spreading them into a call
+   */
+  static sum(values: MoneyInput[]): Money {
+    return values.reduce<Money>((total, value) => total.add(value), Money.zero());
+  }
+
+  add(other: MoneyInput): Money {
+    const [a, b, scale] = Money.align(this, Money.of(other));
+    return new Money(a + b, scale);
+  }
+
+  subtract(other: MoneyInput): Money {
+    const [a, b, scale] = Money.align(this, Money.of(other));
+    return new Money(a - b, scale);
+  }
+
+  /**
+   * Exact product; the result carries the combined scale until it is rounded
+   */
+  multiply(factor: MoneyInput): Money {
+    const multiplier = Money.of(factor);
+    return new Money(this.units * multiplier.units, this.scale + multiplier.scale);
+  }
+
+  /**
+   * Quotient rounded to the given number of decimal places
+   * @throws RangeError on division by zero
+   */
+  divide(divisor: MoneyInput, scale: number = 2, mode: RoundingMode = RoundingMode.HALF_UP): Money {
+    const denominator = Money.of(divisor);
+    if (denominator.units === BigInt(0)) {
+      throw new RangeError('Division by zero');
+    }
+
+    // this / divisor = (units * 10^divisorScale) / (divisorUnits * 10^thisScale), shifted to scale
+    const numerator = this.units * pow10(denominator.scale + scale);
+    return new Money(divideRounded(numerator, denominator.units * pow10(this.scale), mode), scale);
+  }
+
+  /**
+   * Exact percentage of the amount, e.g. Money.of(200).percentage(15) is 30
+   */
+  percentage(percent: MoneyInput): Money {
+    const product = this.multiply(percent);
+    return new Money(product.units, product.scale + 2);
+  }
+
+  /**
+   * Rounds to the given number of decimal places (the currency's minor unit)
+   */
+  round(scale: number = 2, mode: RoundingMode = RoundingMode.HALF_UP): Money {
+    if (scale >= this.scale) {
+      return new Money(this.units * pow10(scale - this.scale), scale);
+    }
+    return new Money(divideRounded(this.units, pow10(this.scale - scale), mode), scale);
+  }
+
+  /**
+   * Splits the amount in proportion to the given ratios without losing any minor unit.
+   * Units left over after flooring each share go to the shares with the largest remainders.
+   */
+  allocate(ratios: MoneyInput[]): Money[] {
+    if (ratios.length === 0) {
+      throw new RangeError('Cannot allocate to zero ratios');
+    }
+
+    const weights = ratios.map((ratio) => Money.of(ratio));
+    const scale = Math.max(...weights.map((weight) => weight.scale));
+    const parts = weights.map((weight) => weight.units * pow10(scale - weight.scale));
+    if (parts.some((part) => part < BigInt(0))) {
+      throw new RangeError('Allocation ratios must not be negative');
+    }
+
+    const total = parts.reduce((sum, part) => sum + part, BigInt(0));
+    if (total === BigInt(0)) {
+      throw new RangeError('Allocation ratios must not all be zero');
+    }
+
+    const negative = this.units < BigInt(0);
+    const amount = negative ? -this.units : this.units;
+
+    const shares = parts.map((part) => (amount * part) / total);
+    const remainders = parts.map((part, index) => ({ index, rest: (amount * part) % total }));
+
+    let leftover = amount - shares.reduce((sum, share) => sum + share, BigInt(0));
+    remainders.sort((a, b) => (a.rest === b.rest ? a.index - b.index : a.rest > b.rest ? -1 : 1));
+    for (const { index } of remainders) {
+      if (leftover === BigInt(0)) {
+        break;
+      }
+      shares[index] += BigInt(1);
+      leftover -= BigInt(1);
+    }
+
+    return shares.map((share) => new Money(negative ? -share : share, this.scale));
+  }
+
+  /**
+   * Splits the amount into equal parts, spreading leftover minor units over the first parts
+   */
+  split(parts: number): Money[] {
+    if (!Number.isInteger(parts) || parts < 1) {
+      throw new RangeError('Parts must be a positive integer');
+    }
+    return this.allocate(new Array(parts).fill(1));
+  }
+
+  compare(other: MoneyInput): -1 | 0 | 1 {
+    const [a, b] = Money.align(this, Money.of(other));
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  equals(other: MoneyInput): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.units === BigInt(0);
+  }
+
+  isNegative(): boolean {
+    return this.units < BigInt(0);
+  }
+
+  /**
+   * Converts to a JS number; exact for any amount with up to 15 significant digits
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * Plain decimal string with exactly `scale` decimal places, e.g. "19.90"
+   */
+  toString(): string {
+    const negative = this.units < BigInt(0);
+    const digits = (negative ? -this.units : this.units).toString().padStart(this.scale + 1, '0');
+    const integer = digits.slice(0, digits.length - this.scale);
+    const fraction = this.scale > 0 ? `.${digits.slice(-this.scale)}` : '';
+    return `${negative ? '-' : ''}${integer}${fraction}`;
+  }
+
+  toJSON(): number {
+    return this.toNumber();
+  }
+
+  private static align(a: Money, b: Money): [bigint, bigint, number] {
+    const scale = Math.max(a.scale, b.scale);
+    return [a.units * pow10(scale - a.scale), b.units * pow10(scale - b.scale), scale];
+  }
+}
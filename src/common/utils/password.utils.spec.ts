@@ -0,0 +1,22 @@
+import { hashPassword, verifyPassword } from './password.utils';
+
+describe('password utils', () => {
+  it('should salt hashes so equal passwords hash differently', async () => {
+    const first = await hashPassword('correct horse');
+    const second = await hashPassword('correct horse');
+
+    expect(first).toMatch(/^[0-9a-f]{32}:[0-9a-f]{128}$/);
+    expect(first).not.toBe(second);
+  });
+
+  it('should verify only the original password', async () => {
+    const hash = await hashPassword('correct horse');
+
+    await expect(verifyPassword('correct horse', hash)).resolves.toBe(true);
+    await expect(verifyPassword('battery staple', hash)).resolves.toBe(false);
+  });
+
+  it('should reject malformed hashes', async () => {
+    await expect(verifyPassword('correct horse', 'not-a-hash')).resolves.toBe(false);
+  });
+});
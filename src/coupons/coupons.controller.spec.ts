@@ -0,0 +1,117 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { CouponsController } from './coupons.controller';
+import { CouponsService } from './coupons.service';
+import { CouponType } from './entities/coupon.entity';
+import { ROLES_KEY } from '../auth/guards/roles.guard';
+import { Role } from '../users/entities/user.entity';
+
+describe('CouponsController', () => {
+  let controller: CouponsController;
+  let service: CouponsService;
+
+  const mockCoupon = {
+    id: 'abc12345-e89b-12d3-a456-426614174003',
+    code: 'SAVE10',
+    type: CouponType.PERCENTAGE,
+    value: 10,
+    times_used: 0,
+    is_active: true,
+  };
+
+  const mockCouponsService = {
+    create: jest.fn(),
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CouponsController],
+      providers: [
+        {
+          provide: CouponsService,
+          useValue: mockCouponsService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    controller = module.get<CouponsController>(CouponsController);
+    service = module.get<CouponsService>(CouponsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('access control', () => {
+    const rolesOf = (handler: (...args: any[]) => unknown) =>
+      Reflect.getMetadata(ROLES_KEY, handler);
+
+    it('should only let admins read coupons', () => {
+      const { findAll, findOne } = CouponsController.prototype;
+
+      expect(rolesOf(findAll)).toEqual([Role.ADMIN]);
+      expect(rolesOf(findOne)).toEqual([Role.ADMIN]);
+    });
+
+    it('should restrict write routes to admins', () => {
+      const { create, update, remove } = CouponsController.prototype;
+
+      for (const handler of [create, update, remove]) {
+        expect(rolesOf(handler)).toEqual([Role.ADMIN]);
+      }
+    });
+  });
+
+  describe('create', () => {
+    it('should create a coupon', async () => {
+      const createCouponDto = { code: 'save10', type: CouponType.PERCENTAGE, value: 10 };
+      mockCouponsService.create.mockResolvedValue(mockCoupon);
+
+      const result = await controller.create(createCouponDto);
+
+      expect(service.create).toHaveBeenCalledWith(createCouponDto);
+      expect(result).toEqual(mockCoupon);
+    });
+  });
+
+  describe('findAll', () => {
+    it('should return all coupons', async () => {
+      mockCouponsService.findAll.mockResolvedValue([mockCoupon]);
+
+      expect(await controller.findAll()).toEqual([mockCoupon]);
+    });
+  });
+
+  describe('update', () => {
+    it('should update a coupon', async () => {
+      mockCouponsService.update.mockResolvedValue({ ...mockCoupon, is_active: false });
+
+      const result = await controller.update(mockCoupon.id, { is_active: false });
+
+      expect(service.update).toHaveBeenCalledWith(mockCoupon.id, { is_active: false });
+      expect(result.is_active).toBe(false);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a coupon', async () => {
+      mockCouponsService.remove.mockResolvedValue(undefined);
+
+      await controller.remove(mockCoupon.id);
+
+      expect(service.remove).toHaveBeenCalledWith(mockCoupon.id);
+    });
+  });
+});
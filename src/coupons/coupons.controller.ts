@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { CouponsService } from './coupons.service';
+import { CreateCouponDto } from './dto/create-coupon.dto';
+import { UpdateCouponDto } from './dto/update-coupon.dto';
+import { Coupon } from './entities/coupon.entity';
+import { ParseUUIDPipe } from '../common/pipes/parse-uuid.pipe';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../users/entities/user.entity';
+
+@ApiTags('coupons')
+@Controller('coupons')
+export class CouponsController {
+  constructor(private readonly couponsService: CouponsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Create a promo code' })
+  @ApiResponse({ status: 201, description: 'Coupon created successfully', type: Coupon })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid data' })
+  @ApiResponse({ status: 409, description: 'A coupon with this code already exists' })
+  async create(@Body() createCouponDto: CreateCouponDto): Promise<Coupon> {
+    return await this.couponsService.create(createCouponDto);
+  }
+
+  @Get()
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'List all coupons' })
+  @ApiResponse({ status: 200, description: 'Coupons retrieved successfully', type: [Coupon] })
+  async findAll(): Promise<Coupon[]> {
+    return await this.couponsService.findAll();
+  }
+
+  @Get(':id')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Get a coupon by ID' })
+  @ApiParam({ name: 'id', description: 'Coupon ID' })
+  @ApiResponse({ status: 200, description: 'Coupon retrieved successfully', type: Coupon })
+  @ApiResponse({ status: 404, description: 'Coupon not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<Coupon> {
+    return await this.couponsService.findOne(id);
+  }
+
+  @Put(':id')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Update a coupon by ID' })
+  @ApiParam({ name: 'id', description: 'Coupon ID' })
+  @ApiResponse({ status: 200, description: 'Coupon updated successfully', type: Coupon })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid data' })
+  @ApiResponse({ status: 404, description: 'Coupon not found' })
+  @ApiResponse({ status: 409, description: 'A coupon with this code already exists' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateCouponDto: UpdateCouponDto,
+  ): Promise<Coupon> {
+    return await this.couponsService.update(id, updateCouponDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Delete a coupon by ID' })
+  @ApiParam({ name: 'id', description: 'Coupon ID' })
+  @ApiResponse({ status: 204, description: 'Coupon deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Coupon not found' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return await this.couponsService.remove(id);
+  }
+}
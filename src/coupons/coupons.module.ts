@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CouponsService } from './coupons.service';
+import { CouponsController } from './coupons.controller';
+import { Coupon } from './entities/coupon.entity';
+import { CouponRedemption } from './entities/coupon-redemption.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Coupon, CouponRedemption])],
+  controllers: [CouponsController],
+  providers: [CouponsService],
+  exports: [CouponsService],
+})
+export class CouponsModule {}
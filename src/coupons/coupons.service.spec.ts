@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { CouponsService } from './coupons.service';
+import { Coupon, CouponType } from './entities/coupon.entity';
+import { CouponRedemption } from './entities/coupon-redemption.entity';
+
+describe('CouponsService', () => {
+  let service: CouponsService;
+
+  const couponId = 'abc12345-e89b-12d3-a456-426614174003';
+  const lines = [{ product_id: '123e4567-e89b-12d3-a456-426614174000', lineTotal: 100 }];
+
+  const createMockCoupon = (overrides: Partial<Coupon> = {}): Coupon => {
+    const coupon = new Coupon();
+    Object.assign(coupon, {
+      id: couponId,
+      code: 'SAVE10',
+      type: CouponType.PERCENTAGE,
+      value: 10,
+      times_used: 0,
+      is_active: true,
+      ...overrides,
+    });
+    return coupon;
+  };
+
+  const mockManager = {
+    count: jest.fn(),
+    increment: jest.fn(),
+    create: jest.fn((_entity, data) => ({ ...data })),
+    save: jest.fn(async (entity) => ({ id: 'redemption-id', ...entity })),
+  };
+
+  const mockCouponRepository = {
+    create: jest.fn((data) => Object.assign(new Coupon(), data)),
+    save: jest.fn(async (coupon) => coupon),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockRedemptionRepository = {
+    manager: mockManager,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CouponsService,
+        {
+          provide: getRepositoryToken(Coupon),
+          useValue: mockCouponRepository,
+        },
+        {
+          provide: getRepositoryToken(CouponRedemption),
+          useValue: mockRedemptionRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CouponsService>(CouponsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store the code upper-cased', async () => {
+      mockCouponRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.create({
+        code: ' summer10 ',
+        type: CouponType.PERCENTAGE,
+        value: 10,
+        ends_at: '2030-12-31T23:59:59.000Z',
+      });
+
+      expect(result.code).toBe('SUMMER10');
+      expect(result.ends_at).toEqual(new Date('2030-12-31T23:59:59.000Z'));
+      expect(mockCouponRepository.save).toHaveBeenCalled();
+    });
+
+    it('should reject duplicate codes', async () => {
+      mockCouponRepository.findOne.mockResolvedValue(createMockCoupon());
+
+      await expect(
+        service.create({ code: 'save10', type: CouponType.FIXED, value: 5 }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject an end date before the start date', async () => {
+      mockCouponRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          code: 'BACKWARDS',
+          type: CouponType.FIXED,
+          value: 5,
+          starts_at: '2030-01-01T00:00:00.000Z',
+          ends_at: '2029-01-01T00:00:00.000Z',
+        }),
+      ).rejects.toThrow('ends_at must be after starts_at');
+      expect(mockCouponRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject percentages above 100', async () => {
+      mockCouponRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.create({ code: 'HUGE', type: CouponType.PERCENTAGE, value: 150 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockCouponRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findByCode', () => {
+    it('should look codes up case-insensitively', async () => {
+      const coupon = createMockCoupon();
+      mockCouponRepository.findOne.mockResolvedValue(coupon);
+
+      const result = await service.findByCode('save10');
+
+      expect(mockCouponRepository.findOne).toHaveBeenCalledWith({ where: { code: 'SAVE10' } });
+      expect(result).toBe(coupon);
+    });
+
+    it('should throw NotFoundException for unknown codes', async () => {
+      mockCouponRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findByCode('nope')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('update', () => {
+    it('should reject an end date before the start date', async () => {
+      mockCouponRepository.findOne.mockResolvedValue(
+        createMockCoupon({ starts_at: new Date('2030-01-01') }),
+      );
+
+      await expect(
+        service.update(couponId, { ends_at: '2029-01-01T00:00:00.000Z' }),
+      ).rejects.toThrow('ends_at must be after starts_at');
+    });
+  });
+
+  describe('assertRedeemable', () => {
+    it('should pass for a usable coupon', async () => {
+      await expect(service.assertRedeemable(createMockCoupon(), lines)).resolves.toBeUndefined();
+    });
+
+    it('should surface the ineligibility reason', async () => {
+      await expect(
+        service.assertRedeemable(createMockCoupon({ min_subtotal: 150 }), lines),
+      ).rejects.toThrow('Cart subtotal must be at least 150');
+    });
+
+    it('should require an email for per-customer limited coupons', async () => {
+      await expect(
+        service.assertRedeemable(createMockCoupon({ max_uses_per_customer: 1 }), lines),
+      ).rejects.toThrow('An email is required to use this coupon');
+    });
+
+    it('should enforce the per-customer limit', async () => {
+      mockManager.count.mockResolvedValue(1);
+
+      await expect(
+        service.assertRedeemable(
+          createMockCoupon({ max_uses_per_customer: 1 }),
+          lines,
+          'Jane@Example.com',
+        ),
+      ).rejects.toThrow('Coupon usage limit reached for this customer');
+      expect(mockManager.count).toHaveBeenCalledWith(CouponRedemption, {
+        where: { coupon_id: couponId, customer_email: 'jane@example.com' },
+      });
+    });
+  });
+
+  describe('recordRedemption', () => {
+    it('should bump the usage counter and store the redemption', async () => {
+      mockManager.increment.mockResolvedValue({ affected: 1 });
+
+      const result = await service.recordRedemption(
+        createMockCoupon(),
+        'order-id',
+        10,
+        'jane@example.com',
+        mockManager as any,
+      );
+
+      expect(mockManager.increment).toHaveBeenCalledWith(Coupon, { id: couponId }, 'times_used', 1);
+      expect(result).toEqual(
+        expect.objectContaining({ coupon_id: couponId, order_id: 'order-id', discount_amount: 10 }),
+      );
+    });
+
+    it('should fail when a concurrent checkout used the last redemption', async () => {
+      mockManager.increment.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.recordRedemption(
+          createMockCoupon({ max_uses: 1 }),
+          'order-id',
+          10,
+          undefined,
+          mockManager as any,
+        ),
+      ).rejects.toThrow('Coupon usage limit reached');
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+  });
+});
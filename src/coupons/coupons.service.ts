@@ -0,0 +1,174 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, LessThan, Repository } from 'typeorm';
+import { Coupon, CouponLine, CouponType } from './entities/coupon.entity';
+import { CouponRedemption } from './entities/coupon-redemption.entity';
+import { CreateCouponDto } from './dto/create-coupon.dto';
+import { UpdateCouponDto } from './dto/update-coupon.dto';
+
+@Injectable()
+export class CouponsService {
+  constructor(
+    @InjectRepository(Coupon)
+    private readonly couponRepository: Repository<Coupon>,
+    @InjectRepository(CouponRedemption)
+    private readonly redemptionRepository: Repository<CouponRedemption>,
+  ) {}
+
+  async create(createCouponDto: CreateCouponDto): Promise<Coupon> {
+    const code = this.normalizeCode(createCouponDto.code);
+    await this.assertCodeAvailable(code);
+
+    const coupon = this.couponRepository.create({
+      ...createCouponDto,
+      code,
+      starts_at: createCouponDto.starts_at ? new Date(createCouponDto.starts_at) : undefined,
+      ends_at: createCouponDto.ends_at ? new Date(createCouponDto.ends_at) : undefined,
+    });
+    this.assertValidWindow(coupon);
+    this.assertValidValue(coupon);
+
+    return await this.couponRepository.save(coupon);
+  }
+
+  async findAll(): Promise<Coupon[]> {
+    return await this.couponRepository.find({ order: { created_at: 'DESC' } });
+  }
+
+  async findOne(id: string): Promise<Coupon> {
+    const coupon = await this.couponRepository.findOne({ where: { id } });
+    if (!coupon) {
+      throw new NotFoundException(`Coupon with ID ${id} not found`);
+    }
+    return coupon;
+  }
+
+  async findByCode(code: string): Promise<Coupon> {
+    const normalized = this.normalizeCode(code);
+    const coupon = await this.couponRepository.findOne({ where: { code: normalized } });
+    if (!coupon) {
+      throw new NotFoundException(`Coupon ${normalized} not found`);
+    }
+    return coupon;
+  }
+
+  async update(id: string, updateCouponDto: UpdateCouponDto): Promise<Coupon> {
+    const coupon = await this.findOne(id);
+
+    const { code, starts_at, ends_at, ...rest } = updateCouponDto;
+    Object.assign(coupon, rest);
+
+    if (code !== undefined) {
+      const normalized = this.normalizeCode(code);
+      if (normalized !== coupon.code) {
+        await this.assertCodeAvailable(normalized);
+      }
+      coupon.code = normalized;
+    }
+    if (starts_at !== undefined) {
+      coupon.starts_at = starts_at ? new Date(starts_at) : null;
+    }
+    if (ends_at !== undefined) {
+      coupon.ends_at = ends_at ? new Date(ends_at) : null;
+    }
+
+    this.assertValidWindow(coupon);
+    this.assertValidValue(coupon);
+
+    return await this.couponRepository.save(coupon);
+  }
+
+  async remove(id: string): Promise<void> {
+    const coupon = await this.findOne(id);
+    await this.couponRepository.remove(coupon);
+  }
+
+  /**
+   * Throws if the coupon cannot be redeemed against the given lines by this customer
+   */
+  async assertRedeemable(
+    coupon: Coupon,
+    lines: CouponLine[],
+    customerEmail?: string,
+    manager: EntityManager = this.redemptionRepository.manager,
+  ): Promise<void> {
+    const reason = coupon.getIneligibilityReason(lines);
+    if (reason) {
+      throw new BadRequestException(reason);
+    }
+
+    if (coupon.max_uses_per_customer != null) {
+      if (!customerEmail) {
+        throw new BadRequestException('An email is required to use this coupon');
+      }
+
+      const redemptions = await manager.count(CouponRedemption, {
+        where: { coupon_id: coupon.id, customer_email: customerEmail.toLowerCase() },
+      });
+      if (redemptions >= coupon.max_uses_per_customer) {
+        throw new BadRequestException('Coupon usage limit reached for this customer');
+      }
+    }
+  }
+
+  /**
+   * Counts a use of the coupon against an order. The usage counter is bumped
+   * conditionally so concurrent checkouts can't exceed max_uses.
+   */
+  async recordRedemption(
+    coupon: Coupon,
+    orderId: string,
+    discountAmount: number,
+    customerEmail: string | undefined,
+    manager: EntityManager,
+  ): Promise<CouponRedemption> {
+    const result = await manager.increment(
+      Coupon,
+      coupon.max_uses != null
+        ? { id: coupon.id, times_used: LessThan(coupon.max_uses) }
+        : { id: coupon.id },
+      'times_used',
+      1,
+    );
+
+    if (!result.affected) {
+      throw new BadRequestException('Coupon usage limit reached');
+    }
+
+    const redemption = manager.create(CouponRedemption, {
+      coupon_id: coupon.id,
+      order_id: orderId,
+      customer_email: customerEmail?.toLowerCase(),
+      discount_amount: discountAmount,
+    });
+    return await manager.save(redemption);
+  }
+
+  private normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  private async assertCodeAvailable(code: string): Promise<void> {
+    const existing = await this.couponRepository.findOne({ where: { code } });
+    if (existing) {
+      throw new ConflictException(`Coupon ${code} already exists`);
+    }
+  }
+
+  private assertValidWindow(coupon: Coupon): void {
+    if (coupon.starts_at && coupon.ends_at && coupon.ends_at <= coupon.starts_at) {
+      throw new BadRequestException('ends_at must be after starts_at');
+    }
+  }
+
+  private assertValidValue(coupon: Coupon): void {
+    if (coupon.type === CouponType.PERCENTAGE && coupon.value > 100) {
+      throw new BadRequestException('Percentage coupons must not exceed 100');
+    }
+  }
+}
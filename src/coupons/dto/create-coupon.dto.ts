@@ -0,0 +1,100 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsPositive,
+  IsInt,
+  IsEnum,
+  IsArray,
+  IsUUID,
+  IsBoolean,
+  IsOptional,
+  IsDateString,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { CouponType } from '../entities/coupon.entity';
+import { IsDateAfter } from '../../products/dto/validators/date-range.validator';
+
+export class CreateCouponDto {
+  @ApiProperty({ description: 'Promo code (case-insensitive)', example: 'SUMMER10' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  code: string;
+
+  @ApiProperty({ description: 'Discount type', enum: CouponType, example: CouponType.PERCENTAGE })
+  @IsEnum(CouponType)
+  type: CouponType;
+
+  @ApiProperty({ description: 'Percentage (0-100) or fixed amount off', example: 10 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  @Type(() => Number)
+  value: number;
+
+  @ApiPropertyOptional({ description: 'Minimum cart subtotal required', example: 50 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  min_subtotal?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum number of redemptions overall', example: 100 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  max_uses?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum number of redemptions per customer', example: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  max_uses_per_customer?: number;
+
+  @ApiPropertyOptional({
+    description: 'Date from which the coupon can be used (ISO string)',
+    example: '2024-06-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'starts_at must be a valid ISO date string' })
+  starts_at?: string;
+
+  @ApiPropertyOptional({
+    description: 'Date after which the coupon can no longer be used (ISO string)',
+    example: '2024-08-31T23:59:59.000Z',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'ends_at must be a valid ISO date string' })
+  @ValidateIf((o: CreateCouponDto) => o.starts_at !== undefined)
+  @IsDateAfter('starts_at', { message: 'ends_at must be after starts_at' })
+  ends_at?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only these products count towards the discount',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  allowed_product_ids?: string[];
+
+  @ApiPropertyOptional({
+    description: 'These products never count towards the discount',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  excluded_product_ids?: string[];
+
+  @ApiPropertyOptional({ description: 'Whether the coupon can be used', example: true })
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
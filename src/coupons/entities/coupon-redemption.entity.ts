@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Coupon } from './coupon.entity';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+
+/**
+ * One use of a coupon by a placed order, used to enforce per-customer limits
+ */
+@Entity('coupon_redemptions')
+@Index(['coupon_id', 'customer_email'])
+export class CouponRedemption {
+  @ApiProperty({ description: 'Redemption ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Redeemed coupon ID' })
+  @Column({ type: 'varchar' })
+  coupon_id: string;
+
+  @ApiProperty({ description: 'Order the coupon was redeemed on' })
+  @Column({ type: 'varchar' })
+  order_id: string;
+
+  @ApiProperty({ description: 'Email of the redeeming customer', required: false })
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  customer_email?: string;
+
+  @ApiProperty({ description: 'Discount granted by the coupon' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
+  discount_amount: number;
+
+  @ApiProperty({ description: 'Redemption date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => Coupon, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'coupon_id' })
+  coupon: Coupon;
+}
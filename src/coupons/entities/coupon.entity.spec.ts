@@ -0,0 +1,94 @@
+import { Coupon, CouponType } from './coupon.entity';
+
+describe('Coupon Entity', () => {
+  let coupon: Coupon;
+
+  const productA = '123e4567-e89b-12d3-a456-426614174000';
+  const productB = '223e4567-e89b-12d3-a456-426614174000';
+  const lines = [
+    { product_id: productA, lineTotal: 60 },
+    { product_id: productB, lineTotal: 40 },
+  ];
+
+  beforeEach(() => {
+    coupon = new Coupon();
+    coupon.id = 'abc12345-e89b-12d3-a456-426614174003';
+    coupon.code = 'SAVE10';
+    coupon.type = CouponType.PERCENTAGE;
+    coupon.value = 10;
+    coupon.times_used = 0;
+    coupon.is_active = true;
+  });
+
+  describe('calculateDiscount', () => {
+    it('should take a percentage off the whole subtotal', () => {
+      expect(coupon.calculateDiscount(lines)).toBe(10);
+    });
+
+    it('should take a fixed amount off', () => {
+      coupon.type = CouponType.FIXED;
+      coupon.value = 25;
+      expect(coupon.calculateDiscount(lines)).toBe(25);
+    });
+
+    it('should never discount more than the eligible subtotal', () => {
+      coupon.type = CouponType.FIXED;
+      coupon.value = 150;
+      expect(coupon.calculateDiscount(lines)).toBe(100);
+    });
+
+    it('should only count allowed products', () => {
+      coupon.allowed_product_ids = [productB];
+      expect(coupon.calculateDiscount(lines)).toBe(4);
+    });
+
+    it('should skip excluded products', () => {
+      coupon.excluded_product_ids = [productA];
+      expect(coupon.calculateDiscount(lines)).toBe(4);
+    });
+
+    it('should handle decimal precision correctly', () => {
+      coupon.value = 15;
+      expect(coupon.calculateDiscount([{ product_id: productA, lineTotal: 33.33 }])).toBe(5);
+    });
+  });
+
+  describe('getIneligibilityReason', () => {
+    it('should return null for a usable coupon', () => {
+      expect(coupon.getIneligibilityReason(lines)).toBeNull();
+    });
+
+    it('should reject inactive coupons', () => {
+      coupon.is_active = false;
+      expect(coupon.getIneligibilityReason(lines)).toBe('Coupon is not active');
+    });
+
+    it('should reject coupons before their start date', () => {
+      coupon.starts_at = new Date('2999-01-01');
+      expect(coupon.getIneligibilityReason(lines)).toBe('Coupon is not valid yet');
+    });
+
+    it('should reject coupons after their end date', () => {
+      coupon.ends_at = new Date('2020-01-01');
+      expect(coupon.getIneligibilityReason(lines)).toBe('Coupon has expired');
+    });
+
+    it('should reject coupons that reached their usage cap', () => {
+      coupon.max_uses = 5;
+      coupon.times_used = 5;
+      expect(coupon.getIneligibilityReason(lines)).toBe('Coupon usage limit reached');
+    });
+
+    it('should reject carts below the minimum subtotal', () => {
+      coupon.min_subtotal = 100.01;
+      expect(coupon.getIneligibilityReason(lines)).toBe('Cart subtotal must be at least 100.01');
+    });
+
+    it('should reject carts without eligible products', () => {
+      coupon.allowed_product_ids = ['999e4567-e89b-12d3-a456-426614174999'];
+      expect(coupon.getIneligibilityReason(lines)).toBe(
+        'No items in the cart are eligible for this coupon',
+      );
+    });
+  });
+});
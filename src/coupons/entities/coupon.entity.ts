@@ -0,0 +1,171 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  calculatePercentage,
+  sumArray,
+  toPreciseDecimal,
+} from '../../common/utils/arithmetic.utils';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+
+export enum CouponType {
+  PERCENTAGE = 'percentage',
+  FIXED = 'fixed',
+}
+
+/**
+ * Minimal view of a priced cart line needed to evaluate a coupon
+ */
+export interface CouponLine {
+  product_id: string;
+  lineTotal: number;
+}
+
+@Entity('coupons')
+export class Coupon {
+  @ApiProperty({ description: 'Coupon ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Promo code entered by shoppers (stored upper-case)' })
+  @Column({ type: 'varchar', length: 50, unique: true })
+  code: string;
+
+  @ApiProperty({ description: 'Discount type', enum: CouponType })
+  @Column({ type: 'varchar', length: 20 })
+  type: CouponType;
+
+  @ApiProperty({ description: 'Percentage (0-100) or fixed amount off' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
+  value: number;
+
+  @ApiProperty({ description: 'Minimum cart subtotal required', required: false })
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    transformer: decimalTransformer,
+    nullable: true,
+  })
+  min_subtotal?: number;
+
+  @ApiProperty({ description: 'Maximum number of redemptions overall', required: false })
+  @Column({ type: 'integer', nullable: true })
+  max_uses?: number;
+
+  @ApiProperty({ description: 'Maximum number of redemptions per customer', required: false })
+  @Column({ type: 'integer', nullable: true })
+  max_uses_per_customer?: number;
+
+  @ApiProperty({ description: 'Number of times the coupon has been redeemed' })
+  @Column({ type: 'integer', default: 0 })
+  times_used: number;
+
+  @ApiProperty({ description: 'Date from which the coupon can be used', required: false })
+  @Column({ type: 'datetime', nullable: true })
+  starts_at?: Date;
+
+  @ApiProperty({
+    description: 'Date after which the coupon can no longer be used',
+    required: false,
+  })
+  @Column({ type: 'datetime', nullable: true })
+  ends_at?: Date;
+
+  @ApiProperty({
+    description: 'Only these products count towards the discount (all when empty)',
+    required: false,
+    type: [String],
+  })
+  @Column({ type: 'simple-json', nullable: true })
+  allowed_product_ids?: string[];
+
+  @ApiProperty({
+    description: 'These products never count towards the discount',
+    required: false,
+    type: [String],
+  })
+  @Column({ type: 'simple-json', nullable: true })
+  excluded_product_ids?: string[];
+
+  @ApiProperty({ description: 'Whether the coupon can currently be used' })
+  @Column({ type: 'boolean', default: true })
+  is_active: boolean;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  isEligibleProduct(productId: string): boolean {
+    if (this.excluded_product_ids?.includes(productId)) {
+      return false;
+    }
+    if (this.allowed_product_ids?.length) {
+      return this.allowed_product_ids.includes(productId);
+    }
+    return true;
+  }
+
+  /**
+   * Sum of the line totals the coupon applies to
+   */
+  eligibleSubtotal(lines: CouponLine[]): number {
+    return sumArray(
+      lines.filter((line) => this.isEligibleProduct(line.product_id)).map((line) => line.lineTotal),
+    );
+  }
+
+  /**
+   * Amount taken off the cart, never more than the eligible subtotal
+   */
+  calculateDiscount(lines: CouponLine[]): number {
+    const eligibleSubtotal = this.eligibleSubtotal(lines);
+
+    const discount =
+      this.type === CouponType.PERCENTAGE
+        ? calculatePercentage(eligibleSubtotal, this.value)
+        : toPreciseDecimal(this.value);
+
+    return Math.min(discount, eligibleSubtotal);
+  }
+
+  /**
+   * Returns why the coupon cannot be used with the given lines, or null if it can.
+   * Per-customer limits need redemption history and are checked by CouponsService.
+   */
+  getIneligibilityReason(lines: CouponLine[]): string | null {
+    const now = new Date();
+
+    if (!this.is_active) {
+      return 'Coupon is not active';
+    }
+    if (this.starts_at && this.starts_at > now) {
+      return 'Coupon is not valid yet';
+    }
+    if (this.ends_at && this.ends_at <= now) {
+      return 'Coupon has expired';
+    }
+    if (this.max_uses != null && this.times_used >= this.max_uses) {
+      return 'Coupon usage limit reached';
+    }
+
+    const subtotal = sumArray(lines.map((line) => line.lineTotal));
+    if (this.min_subtotal != null && subtotal < toPreciseDecimal(this.min_subtotal)) {
+      return `Cart subtotal must be at least ${toPreciseDecimal(this.min_subtotal)}`;
+    }
+    if (this.eligibleSubtotal(lines) <= 0) {
+      return 'No items in the cart are eligible for this coupon';
+    }
+
+    return null;
+  }
+}
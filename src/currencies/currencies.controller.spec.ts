@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { CurrenciesController } from './currencies.controller';
+import { CurrenciesService } from './currencies.service';
+import { ROLES_KEY } from '../auth/guards/roles.guard';
+import { Role } from '../users/entities/user.entity';
+
+describe('CurrenciesController', () => {
+  let controller: CurrenciesController;
+  let service: CurrenciesService;
+
+  const mockRates = { base: 'USD', rates: { EUR: 0.92, JPY: 151.4 } };
+
+  const mockCurrenciesService = {
+    findRates: jest.fn(),
+    refreshRates: jest.fn(),
+    setRate: jest.fn(),
+    removeRate: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CurrenciesController],
+      providers: [
+        {
+          provide: CurrenciesService,
+          useValue: mockCurrenciesService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    controller = module.get<CurrenciesController>(CurrenciesController);
+    service = module.get<CurrenciesService>(CurrenciesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('access control', () => {
+    const rolesOf = (handler: (...args: any[]) => unknown) =>
+      Reflect.getMetadata(ROLES_KEY, handler);
+
+    it('should restrict rate changes to admins', () => {
+      const { refreshRates, setRate, removeRate } = CurrenciesController.prototype;
+
+      for (const handler of [refreshRates, setRate, removeRate]) {
+        expect(rolesOf(handler)).toEqual([Role.ADMIN]);
+      }
+    });
+
+    it('should leave the rates public', () => {
+      expect(rolesOf(CurrenciesController.prototype.findRates)).toBeUndefined();
+    });
+  });
+
+  describe('findRates', () => {
+    it('should return the exchange rates', async () => {
+      mockCurrenciesService.findRates.mockResolvedValue(mockRates);
+
+      const result = await controller.findRates();
+
+      expect(result).toEqual(mockRates);
+    });
+  });
+
+  describe('refreshRates', () => {
+    it('should reload the exchange rates', async () => {
+      mockCurrenciesService.refreshRates.mockResolvedValue(mockRates);
+
+      const result = await controller.refreshRates();
+
+      expect(service.refreshRates).toHaveBeenCalled();
+      expect(result).toEqual(mockRates);
+    });
+  });
+
+  describe('setRate', () => {
+    it('should set the rate of a currency', async () => {
+      const exchangeRate = { currency: 'EUR', rate: 0.95, updated_at: new Date() };
+      mockCurrenciesService.setRate.mockResolvedValue(exchangeRate);
+
+      const result = await controller.setRate('eur', { rate: 0.95 });
+
+      expect(service.setRate).toHaveBeenCalledWith('eur', { rate: 0.95 });
+      expect(result).toEqual(exchangeRate);
+    });
+  });
+
+  describe('removeRate', () => {
+    it('should remove the rate of a currency', async () => {
+      mockCurrenciesService.removeRate.mockResolvedValue(undefined);
+
+      await controller.removeRate('EUR');
+
+      expect(service.removeRate).toHaveBeenCalledWith('EUR');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { CurrenciesService } from './currencies.service';
+import { UpdateExchangeRateDto } from './dto/update-exchange-rate.dto';
+import { ExchangeRatesResponseDto } from './dto/exchange-rates-response.dto';
+import { ExchangeRate } from './entities/exchange-rate.entity';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../users/entities/user.entity';
+
+@ApiTags('currencies')
+@Controller('currencies')
+export class CurrenciesController {
+  constructor(private readonly currenciesService: CurrenciesService) {}
+
+  @Get('rates')
+  @ApiOperation({ summary: 'List exchange rates relative to the base currency' })
+  @ApiResponse({
+    status: 200,
+    description: 'Exchange rates retrieved successfully',
+    type: ExchangeRatesResponseDto,
+  })
+  async findRates(): Promise<ExchangeRatesResponseDto> {
+    return await this.currenciesService.findRates();
+  }
+
+  @Post('rates/refresh')
+  @HttpCode(HttpStatus.OK)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Reload exchange rates from the configured rates file' })
+  @ApiResponse({
+    status: 200,
+    description: 'Exchange rates reloaded successfully',
+    type: ExchangeRatesResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Rates file missing or invalid' })
+  async refreshRates(): Promise<ExchangeRatesResponseDto> {
+    return await this.currenciesService.refreshRates();
+  }
+
+  @Put('rates/:currency')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Set the exchange rate of a currency' })
+  @ApiParam({ name: 'currency', description: 'ISO 4217 currency code' })
+  @ApiResponse({ status: 200, description: 'Exchange rate saved successfully', type: ExchangeRate })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid currency or rate' })
+  async setRate(
+    @Param('currency') currency: string,
+    @Body() updateExchangeRateDto: UpdateExchangeRateDto,
+  ): Promise<ExchangeRate> {
+    return await this.currenciesService.setRate(currency, updateExchangeRateDto);
+  }
+
+  @Delete('rates/:currency')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Stop supporting a currency' })
+  @ApiParam({ name: 'currency', description: 'ISO 4217 currency code' })
+  @ApiResponse({ status: 204, description: 'Exchange rate removed successfully' })
+  @ApiResponse({ status: 404, description: 'Exchange rate not found' })
+  @ApiResponse({ status: 409, description: 'Products are still priced in the currency' })
+  async removeRate(@Param('currency') currency: string): Promise<void> {
+    return await this.currenciesService.removeRate(currency);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CurrenciesService } from './currencies.service';
+import { CurrenciesController } from './currencies.controller';
+import { ExchangeRate } from './entities/exchange-rate.entity';
+import { Product } from '../products/entities/product.entity';
+import { CommonModule } from '../common/common.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ExchangeRate, Product]), CommonModule],
+  controllers: [CurrenciesController],
+  providers: [CurrenciesService],
+  exports: [CurrenciesService],
+})
+export class CurrenciesModule {}
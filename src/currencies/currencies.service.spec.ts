@@ -0,0 +1,217 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CurrenciesService } from './currencies.service';
+import { ExchangeRate } from './entities/exchange-rate.entity';
+import { Product } from '../products/entities/product.entity';
+import { RedisService } from '../common/services/redis.service';
+import config from '../common/config';
+
+describe('CurrenciesService', () => {
+  let service: CurrenciesService;
+
+  const createMockRate = (currency: string, rate: number): ExchangeRate =>
+    Object.assign(new ExchangeRate(), { currency, rate, updated_at: new Date('2024-01-01') });
+
+  const mockExchangeRateRepository = {
+    create: jest.fn((data) => Object.assign(new ExchangeRate(), data)),
+    save: jest.fn(async (exchangeRate) => exchangeRate),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockPricedCurrencies = {
+    select: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    count: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockPricedCurrencies),
+  };
+
+  const mockRedisService = {
+    flushPattern: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CurrenciesService,
+        {
+          provide: getRepositoryToken(ExchangeRate),
+          useValue: mockExchangeRateRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: RedisService,
+          useValue: mockRedisService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CurrenciesService>(CurrenciesService);
+  });
+
+  beforeEach(() => {
+    mockExchangeRateRepository.find.mockResolvedValue([
+      createMockRate('EUR', 0.92),
+      createMockRate('JPY', 151.4),
+    ]);
+    mockProductRepository.count.mockResolvedValue(0);
+    mockPricedCurrencies.getRawMany.mockResolvedValue([{ currency: 'USD' }]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findRates', () => {
+    it('should return rates relative to the base currency', async () => {
+      const result = await service.findRates();
+
+      expect(result).toEqual({ base: 'USD', rates: { EUR: 0.92, JPY: 151.4 } });
+    });
+  });
+
+  describe('getConverter', () => {
+    it('should convert into the base currency by default', async () => {
+      const converter = await service.getConverter();
+
+      expect(converter.currency).toBe('USD');
+      expect(converter.convert(92, 'EUR')).toBe(100);
+    });
+
+    it('should accept lower-case currency codes', async () => {
+      const converter = await service.getConverter('jpy');
+
+      expect(converter.currency).toBe('JPY');
+      expect(converter.convert(10, 'USD')).toBe(1514);
+    });
+
+    it('should reject currencies without a rate', async () => {
+      await expect(service.getConverter('CHF')).rejects.toThrow('Unsupported currency CHF');
+    });
+
+    it('should reject invalid currency codes', async () => {
+      await expect(service.getConverter('EURO')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('setRate', () => {
+    it('should store the rate and drop cached prices', async () => {
+      const result = await service.setRate('eur', { rate: 0.95 });
+
+      expect(mockExchangeRateRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ currency: 'EUR', rate: 0.95 }),
+      );
+      expect(result.currency).toBe('EUR');
+      expect(mockRedisService.flushPattern).toHaveBeenCalledWith('product:*');
+      expect(mockRedisService.flushPattern).toHaveBeenCalledWith('products_list:*');
+    });
+
+    it('should not allow changing the base currency rate', async () => {
+      await expect(service.setRate('USD', { rate: 2 })).rejects.toThrow(BadRequestException);
+      expect(mockExchangeRateRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeRate', () => {
+    it('should remove the rate', async () => {
+      const exchangeRate = createMockRate('EUR', 0.92);
+      mockExchangeRateRepository.findOne.mockResolvedValue(exchangeRate);
+
+      await service.removeRate('EUR');
+
+      expect(mockExchangeRateRepository.remove).toHaveBeenCalledWith(exchangeRate);
+    });
+
+    it('should throw NotFoundException for unknown currencies', async () => {
+      mockExchangeRateRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.removeRate('CHF')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should keep a rate products are still priced in', async () => {
+      mockExchangeRateRepository.findOne.mockResolvedValue(createMockRate('EUR', 0.92));
+      mockProductRepository.count.mockResolvedValue(2);
+
+      await expect(service.removeRate('EUR')).rejects.toThrow(ConflictException);
+      expect(mockProductRepository.count).toHaveBeenCalledWith({ where: { currency: 'EUR' } });
+      expect(mockExchangeRateRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshRates', () => {
+    const originalRatesFile = config.currency.ratesFile;
+    let ratesFile: string;
+
+    const writeRatesFile = async (contents: unknown) => {
+      await fs.writeFile(ratesFile, JSON.stringify(contents));
+    };
+
+    beforeEach(() => {
+      ratesFile = path.join(os.tmpdir(), `exchange-rates-${process.pid}.json`);
+      config.currency.ratesFile = ratesFile;
+    });
+
+    afterEach(async () => {
+      config.currency.ratesFile = originalRatesFile;
+      await fs.rm(ratesFile, { force: true });
+    });
+
+    it('should replace the stored rates with those from the file', async () => {
+      await writeRatesFile({ base: 'USD', rates: { EUR: 0.9, GBP: 0.8 } });
+
+      await service.refreshRates();
+
+      expect(mockExchangeRateRepository.remove).toHaveBeenCalledWith([
+        expect.objectContaining({ currency: 'JPY' }),
+      ]);
+      expect(mockExchangeRateRepository.save).toHaveBeenCalledWith([
+        expect.objectContaining({ currency: 'EUR', rate: 0.9 }),
+        expect.objectContaining({ currency: 'GBP', rate: 0.8 }),
+      ]);
+      expect(mockRedisService.flushPattern).toHaveBeenCalledWith('product:*');
+    });
+
+    it('should keep the last known rate of currencies products are priced in', async () => {
+      mockPricedCurrencies.getRawMany.mockResolvedValue([{ currency: 'USD' }, { currency: 'JPY' }]);
+      await writeRatesFile({ base: 'USD', rates: { EUR: 0.9 } });
+
+      await service.refreshRates();
+
+      expect(mockExchangeRateRepository.remove).toHaveBeenCalledWith([]);
+    });
+
+    it('should reject a file relative to another base currency', async () => {
+      await writeRatesFile({ base: 'EUR', rates: { USD: 1.09 } });
+
+      await expect(service.refreshRates()).rejects.toThrow(
+        'Exchange rate file must be relative to the base currency USD',
+      );
+      expect(mockExchangeRateRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-positive rates', async () => {
+      await writeRatesFile({ base: 'USD', rates: { EUR: 0 } });
+
+      await expect(service.refreshRates()).rejects.toThrow(
+        'Exchange rate for EUR must be a positive number',
+      );
+    });
+
+    it('should fail when no file is configured', async () => {
+      config.currency.ratesFile = undefined;
+
+      await expect(service.refreshRates()).rejects.toThrow(BadRequestException);
+    });
+  });
+});
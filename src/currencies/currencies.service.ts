@@ -0,0 +1,202 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { isISO4217CurrencyCode } from 'class-validator';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ExchangeRate } from './entities/exchange-rate.entity';
+import { Product } from '../products/entities/product.entity';
+import { UpdateExchangeRateDto } from './dto/update-exchange-rate.dto';
+import { ExchangeRatesResponseDto } from './dto/exchange-rates-response.dto';
+import { CurrencyConverter } from './currency-converter';
+import { RedisService } from '../common/services/redis.service';
+import config from '../common/config';
+
+@Injectable()
+export class CurrenciesService implements OnModuleInit {
+  private readonly logger = new Logger(CurrenciesService.name);
+  readonly baseCurrency = config.currency.base;
+
+  constructor(
+    @InjectRepository(ExchangeRate)
+    private readonly exchangeRateRepository: Repository<ExchangeRate>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    private readonly redisService: RedisService,
+  ) {}
+
+  async onModuleInit() {
+    if (!config.currency.ratesFile) {
+      return;
+    }
+
+    // A broken rates file should not keep the API from starting; prices fall back to stored rates
+    try {
+      await this.refreshRates();
+    } catch (error) {
+      this.logger.error('Failed to load exchange rates:', error);
+    }
+  }
+
+  async findRates(): Promise<ExchangeRatesResponseDto> {
+    const rates = await this.loadRates();
+    return { base: this.baseCurrency, rates: Object.fromEntries(rates) };
+  }
+
+  async setRate(
+    currency: string,
+    updateExchangeRateDto: UpdateExchangeRateDto,
+  ): Promise<ExchangeRate> {
+    const code = this.normalizeCode(currency);
+    if (code === this.baseCurrency) {
+      throw new BadRequestException(`The rate of the base currency ${code} is always 1`);
+    }
+
+    const exchangeRate = this.exchangeRateRepository.create({
+      currency: code,
+      rate: updateExchangeRateDto.rate,
+    });
+    const savedRate = await this.exchangeRateRepository.save(exchangeRate);
+
+    await this.invalidatePriceCaches();
+    return savedRate;
+  }
+
+  async removeRate(currency: string): Promise<void> {
+    const code = this.normalizeCode(currency);
+    const exchangeRate = await this.exchangeRateRepository.findOne({ where: { currency: code } });
+    if (!exchangeRate) {
+      throw new NotFoundException(`Exchange rate for ${code} not found`);
+    }
+
+    // Without a rate, every listing, product page and cart showing these products would fail
+    const pricedProducts = await this.productRepository.count({ where: { currency: code } });
+    if (pricedProducts > 0) {
+      throw new ConflictException(
+        `${pricedProducts} product(s) are still priced in ${code}; reprice them before removing the rate`,
+      );
+    }
+
+    await this.exchangeRateRepository.remove(exchangeRate);
+    await this.invalidatePriceCaches();
+  }
+
+  /**
+   * Replaces the stored rates with the contents of the configured rates file.
+   * Currencies missing from the file are no longer supported afterwards, except those
+   * products are still priced in, which keep their last known rate.
+   */
+  async refreshRates(): Promise<ExchangeRatesResponseDto> {
+    const rates = await this.readRatesFile();
+    const pricedCurrencies = await this.findPricedCurrencies();
+
+    const missing = (await this.exchangeRateRepository.find()).filter(
+      (exchangeRate) => !rates.has(exchangeRate.currency),
+    );
+    const kept = missing.filter((exchangeRate) => pricedCurrencies.has(exchangeRate.currency));
+    if (kept.length > 0) {
+      this.logger.warn(
+        `Keeping the last known rate of ${kept.map((exchangeRate) => exchangeRate.currency).join(', ')}: ` +
+          'missing from the rates file but products are still priced in it',
+      );
+    }
+    await this.exchangeRateRepository.remove(
+      missing.filter((exchangeRate) => !pricedCurrencies.has(exchangeRate.currency)),
+    );
+    await this.exchangeRateRepository.save(
+      [...rates].map(([currency, rate]) => this.exchangeRateRepository.create({ currency, rate })),
+    );
+
+    await this.invalidatePriceCaches();
+    this.logger.log(`Loaded ${rates.size} exchange rate(s) relative to ${this.baseCurrency}`);
+
+    return await this.findRates();
+  }
+
+  /**
+   * Returns a converter into the given currency, or into the base currency when none is given
+   */
+  async getConverter(currency?: string): Promise<CurrencyConverter> {
+    const target = currency ? this.normalizeCode(currency) : this.baseCurrency;
+    const rates = await this.loadRates();
+
+    if (target !== this.baseCurrency && !rates.has(target)) {
+      throw new BadRequestException(`Unsupported currency ${target}`);
+    }
+
+    return new CurrencyConverter(target, this.baseCurrency, rates);
+  }
+
+  async assertSupported(currency: string): Promise<void> {
+    await this.getConverter(currency);
+  }
+
+  private async findPricedCurrencies(): Promise<Set<string>> {
+    const rows = await this.productRepository
+      .createQueryBuilder('product')
+      .select('DISTINCT product.currency', 'currency')
+      .getRawMany();
+    return new Set(rows.map((row) => row.currency));
+  }
+
+  private async loadRates(): Promise<Map<string, number>> {
+    const exchangeRates = await this.exchangeRateRepository.find({ order: { currency: 'ASC' } });
+    return new Map(exchangeRates.map((exchangeRate) => [exchangeRate.currency, exchangeRate.rate]));
+  }
+
+  private async readRatesFile(): Promise<Map<string, number>> {
+    const file = config.currency.ratesFile;
+    if (!file) {
+      throw new BadRequestException('No exchange rate file configured (EXCHANGE_RATES_FILE)');
+    }
+
+    let contents: { base?: string; rates?: Record<string, unknown> };
+    try {
+      contents = JSON.parse(await fs.readFile(path.resolve(process.cwd(), file), 'utf8'));
+    } catch (error) {
+      throw new BadRequestException(`Could not read exchange rate file: ${error.message}`);
+    }
+
+    if (contents.base?.toUpperCase() !== this.baseCurrency) {
+      throw new BadRequestException(
+        `Exchange rate file must be relative to the base currency ${this.baseCurrency}`,
+      );
+    }
+
+    const rates = new Map<string, number>();
+    for (const [currency, rate] of Object.entries(contents.rates ?? {})) {
+      const code = this.normalizeCode(currency);
+      if (typeof rate !== 'number' || !(rate > 0)) {
+        throw new BadRequestException(`Exchange rate for ${code} must be a positive number`);
+      }
+      if (code !== this.baseCurrency) {
+        rates.set(code, rate);
+      }
+    }
+    return rates;
+  }
+
+  private normalizeCode(currency: string): string {
+    const code = currency.trim().toUpperCase();
+    if (!isISO4217CurrencyCode(code)) {
+      throw new BadRequestException(`${currency} is not a valid ISO 4217 currency code`);
+    }
+    return code;
+  }
+
+  /**
+   * Converted prices are cached per currency by ProductsService and the cache interceptor,
+   * so a rate change has to drop them all
+   */
+  private async invalidatePriceCaches(): Promise<void> {
+    await this.redisService.flushPattern('product:*');
+    await this.redisService.flushPattern('products_list:*');
+  }
+}
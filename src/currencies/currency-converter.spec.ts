@@ -0,0 +1,61 @@
+import { BadRequestException } from '@nestjs/common';
+import { CurrencyConverter } from './currency-converter';
+
+describe('CurrencyConverter', () => {
+  const rates = new Map([
+    ['EUR', 0.92],
+    ['JPY', 151.4],
+    ['KWD', 0.3075],
+  ]);
+
+  it('should convert from the base currency', () => {
+    const converter = new CurrencyConverter('EUR', 'USD', rates);
+
+    expect(converter.convert(100, 'USD')).toBe(92);
+    expect(converter.convert('19.99', 'USD')).toBe(18.39);
+  });
+
+  it('should convert between two non-base currencies through the base', () => {
+    const converter = new CurrencyConverter('EUR', 'USD', rates);
+
+    expect(converter.convert(1514, 'JPY')).toBe(9.2);
+  });
+
+  it('should round to the minor unit of the target currency', () => {
+    expect(new CurrencyConverter('JPY', 'USD', rates).convert(19.99, 'USD')).toBe(3026);
+    expect(new CurrencyConverter('KWD', 'USD', rates).convert(19.99, 'USD')).toBe(6.147);
+  });
+
+  it('should only round amounts already in the target currency', () => {
+    const converter = new CurrencyConverter('USD', 'USD', rates);
+
+    expect(converter.convert(10.005, 'USD')).toBe(10.01);
+  });
+
+  it('should convert to an explicit currency', () => {
+    const converter = new CurrencyConverter('EUR', 'USD', rates);
+
+    expect(converter.convert(92, 'EUR', 'USD')).toBe(100);
+  });
+
+  it('should sum and round amounts in the target currency', () => {
+    const converter = new CurrencyConverter('KWD', 'USD', rates);
+
+    expect(converter.sum([0.1, 0.2, 1.0004])).toBe(1.3);
+    expect(converter.sum([])).toBe(0);
+  });
+
+  it('should allocate amounts in minor units of the target currency', () => {
+    expect(new CurrencyConverter('USD', 'USD', rates).allocate(10, [1, 1, 1])).toEqual([
+      3.34, 3.33, 3.33,
+    ]);
+    expect(new CurrencyConverter('JPY', 'USD', rates).allocate(100, [1, 2])).toEqual([33, 67]);
+  });
+
+  it('should reject currencies without a rate', () => {
+    const converter = new CurrencyConverter('EUR', 'USD', rates);
+
+    expect(() => converter.convert(10, 'CHF')).toThrow(BadRequestException);
+    expect(() => converter.convert(10, 'CHF')).toThrow('No exchange rate available for CHF');
+  });
+});
@@ -0,0 +1,67 @@
+import { BadRequestException } from '@nestjs/common';
+import { getCurrencyDecimals, roundToCurrency } from '../common/utils/arithmetic.utils';
+import { Money, MoneyInput } from '../common/utils/money';
+
+/**
+ * Converts amounts into one target currency using a snapshot of the exchange rates,
+ * so a whole response is priced against the same rates.
+ */
+export class CurrencyConverter {
+  constructor(
+    readonly currency: string,
+    readonly baseCurrency: string,
+    private readonly rates: Map<string, number>,
+  ) {}
+
+  /**
+   * Converts an amount from one currency to another (the target currency by default),
+   * rounded to the minor unit of the currency converted to
+   */
+  convert(amount: MoneyInput, from: string, to: string = this.currency): number {
+    if (from === to) {
+      return roundToCurrency(Money.of(amount), to);
+    }
+
+    return Money.of(amount)
+      .multiply(this.getRate(to))
+      .divide(this.getRate(from), getCurrencyDecimals(to))
+      .toNumber();
+  }
+
+  /**
+   * Rounds an amount already in the target currency to its minor unit
+   */
+  round(amount: MoneyInput): number {
+    return roundToCurrency(Money.of(amount), this.currency);
+  }
+
+  /**
+   * Sums amounts already in the target currency, rounded to its minor unit
+   */
+  sum(amounts: MoneyInput[]): number {
+    return this.round(Money.sum(amounts));
+  }
+
+  /**
+   * Splits an amount already in the target currency in proportion to the ratios,
+   * so the shares add up to the rounded amount exactly
+   */
+  allocate(amount: MoneyInput, ratios: MoneyInput[]): number[] {
+    return Money.of(amount)
+      .round(getCurrencyDecimals(this.currency))
+      .allocate(ratios)
+      .map((share) => share.toNumber());
+  }
+
+  private getRate(currency: string): number {
+    if (currency === this.baseCurrency) {
+      return 1;
+    }
+
+    const rate = this.rates.get(currency);
+    if (rate === undefined) {
+      throw new BadRequestException(`No exchange rate available for ${currency}`);
+    }
+    return rate;
+  }
+}
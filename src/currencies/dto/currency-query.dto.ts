@@ -0,0 +1,11 @@
+import { IsOptional, IsISO4217CurrencyCode } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export class CurrencyQueryDto {
+  @ApiPropertyOptional({ description: 'ISO 4217 code to convert prices to', example: 'EUR' })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  @IsISO4217CurrencyCode()
+  currency?: string;
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ExchangeRatesResponseDto {
+  @ApiProperty({ description: 'Currency all rates are relative to', example: 'USD' })
+  base: string;
+
+  @ApiProperty({
+    description: 'Units of each currency per unit of the base currency',
+    type: 'object',
+    additionalProperties: { type: 'number' },
+    example: { EUR: 0.92, GBP: 0.79, JPY: 151.4 },
+  })
+  rates: Record<string, number>;
+}
@@ -0,0 +1,14 @@
+import { IsNumber, IsPositive } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class UpdateExchangeRateDto {
+  @ApiProperty({
+    description: 'Units of this currency per unit of the base currency',
+    example: 0.92,
+  })
+  @IsNumber({ maxDecimalPlaces: 8 })
+  @IsPositive()
+  @Type(() => Number)
+  rate: number;
+}
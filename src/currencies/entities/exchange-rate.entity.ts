@@ -0,0 +1,31 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+
+/**
+ * SQL converting an amount to the base currency, from the currency named in the given column.
+ * Multiplied by 1.0 so whole amounts and rates don't divide as integers.
+ */
+export function inBaseCurrency(amount: string, currencyColumn: string): string {
+  return `(${amount} * 1.0 / COALESCE((SELECT exchange_rate.rate FROM exchange_rates exchange_rate
+    WHERE exchange_rate.currency = ${currencyColumn}), 1))`;
+}
+
+/**
+ * Units of a currency per one unit of the base currency.
+ * The base currency itself has no row; its rate is always 1.
+ */
+@Entity('exchange_rates')
+export class ExchangeRate {
+  @ApiProperty({ description: 'ISO 4217 currency code', example: 'EUR' })
+  @PrimaryColumn({ type: 'varchar', length: 3 })
+  currency: string;
+
+  @ApiProperty({ description: 'Units of this currency per unit of the base currency' })
+  @Column({ type: 'decimal', precision: 18, scale: 8, transformer: decimalTransformer })
+  rate: number;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+}
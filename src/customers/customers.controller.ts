@@ -0,0 +1,21 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { CustomersService } from './customers.service';
+import { Customer } from './entities/customer.entity';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+
+@ApiTags('customers')
+@Controller('customers')
+export class CustomersController {
+  constructor(private readonly customersService: CustomersService) {}
+
+  @Get('me')
+  @Roles()
+  @ApiOperation({ summary: 'Get the customer record of the signed-in user' })
+  @ApiResponse({ status: 200, description: 'Customer retrieved successfully', type: Customer })
+  async me(@CurrentUser() user: JwtPayload): Promise<Customer> {
+    return await this.customersService.findOrCreateForUser(user.sub);
+  }
+}
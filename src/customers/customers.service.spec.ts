@@ -0,0 +1,62 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CustomersService } from './customers.service';
+import { Customer } from './entities/customer.entity';
+
+describe('CustomersService', () => {
+  let service: CustomersService;
+
+  const mockCustomer = Object.assign(new Customer(), {
+    id: 'cde34567-e89b-12d3-a456-426614174007',
+    user_id: 'user-id',
+  });
+
+  const mockCustomerRepository = {
+    create: jest.fn((data) => Object.assign(new Customer(), data)),
+    save: jest.fn(async (customer) => customer),
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CustomersService,
+        {
+          provide: getRepositoryToken(Customer),
+          useValue: mockCustomerRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CustomersService>(CustomersService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findOrCreateForUser', () => {
+    it('should return the existing customer of the user', async () => {
+      mockCustomerRepository.findOne.mockResolvedValue(mockCustomer);
+
+      const result = await service.findOrCreateForUser('user-id');
+
+      expect(mockCustomerRepository.findOne).toHaveBeenCalledWith({
+        where: { user_id: 'user-id' },
+      });
+      expect(result).toBe(mockCustomer);
+      expect(mockCustomerRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should create the customer on first use', async () => {
+      mockCustomerRepository.findOne.mockResolvedValueOnce(null).mockResolvedValue(mockCustomer);
+
+      const result = await service.findOrCreateForUser('user-id');
+
+      expect(mockCustomerRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: 'user-id' }),
+      );
+      expect(result).toBe(mockCustomer);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Customer } from './entities/customer.entity';
+
+@Injectable()
+export class CustomersService {
+  constructor(
+    @InjectRepository(Customer)
+    private readonly customerRepository: Repository<Customer>,
+  ) {}
+
+  /**
+   * Returns the customer record of a signed-in user, creating it on first use
+   */
+  async findOrCreateForUser(userId: string): Promise<Customer> {
+    const existing = await this.customerRepository.findOne({ where: { user_id: userId } });
+    if (existing) {
+      return existing;
+    }
+
+    await this.customerRepository.save(this.customerRepository.create({ user_id: userId }));
+    // Reload so the eager user relation is populated
+    return await this.customerRepository.findOne({ where: { user_id: userId } });
+  }
+}
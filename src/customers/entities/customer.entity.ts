@@ -0,0 +1,35 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToOne,
+  JoinColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { User } from '../../users/entities/user.entity';
+
+@Entity('customers')
+export class Customer {
+  @ApiProperty({ description: 'Customer ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'ID of the user signing in as this customer' })
+  @Column({ type: 'varchar', unique: true })
+  user_id: string;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ApiProperty({ description: 'Signed-in user', type: () => User })
+  @OneToOne(() => User, { eager: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+}
@@ -1,14 +1,61 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Product } from '../products/entities/product.entity';
+import { PriceTier } from '../products/entities/price-tier.entity';
+import { ProductVariant } from '../products/entities/product-variant.entity';
+import { ProductDiscount } from '../products/entities/product-discount.entity';
+import { ProductImport } from '../products/entities/product-import.entity';
+import { Cart } from '../cart/entities/cart.entity';
 import { CartItem } from '../cart/entities/cart-item.entity';
+import { Order } from '../orders/entities/order.entity';
+import { OrderLine } from '../orders/entities/order-line.entity';
+import { StockReservation } from '../reservations/entities/stock-reservation.entity';
+import { Coupon } from '../coupons/entities/coupon.entity';
+import { CouponRedemption } from '../coupons/entities/coupon-redemption.entity';
+import { ExchangeRate } from '../currencies/entities/exchange-rate.entity';
+import { TaxClass } from '../taxes/entities/tax-class.entity';
+import { TaxRate } from '../taxes/entities/tax-rate.entity';
+import { ShippingMethod } from '../shipping/entities/shipping-method.entity';
+import { User } from '../users/entities/user.entity';
+import { Customer } from '../customers/entities/customer.entity';
+import { OutboundEmail } from '../mail/entities/outbound-email.entity';
+import { BackInStockSubscription } from '../stock-alerts/entities/back-in-stock-subscription.entity';
+import { StockMovement } from '../inventory/entities/stock-movement.entity';
+import { InventoryLevel } from '../inventory/entities/inventory-level.entity';
+import { Warehouse } from '../warehouses/entities/warehouse.entity';
+import { Category } from '../categories/entities/category.entity';
 
 @Module({
   imports: [
     TypeOrmModule.forRoot({
       type: 'sqlite',
       database: 'stackron.db',
-      entities: [Product, CartItem],
+      entities: [
+        Product,
+        PriceTier,
+        ProductVariant,
+        ProductDiscount,
+        ProductImport,
+        Cart,
+        CartItem,
+        Order,
+        OrderLine,
+        StockReservation,
+        Coupon,
+        CouponRedemption,
+        ExchangeRate,
+        TaxClass,
+        TaxRate,
+        ShippingMethod,
+        User,
+        Customer,
+        OutboundEmail,
+        BackInStockSubscription,
+        StockMovement,
+        InventoryLevel,
+        Warehouse,
+        Category,
+      ],
       synchronize: true, // Only for development
       logging: true,
     }),
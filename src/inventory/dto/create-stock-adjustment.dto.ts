@@ -0,0 +1,50 @@
+import { IsIn, IsInt, IsOptional, IsString, IsUUID, MaxLength, NotEquals } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { StockMovementType } from '../entities/stock-movement.entity';
+
+/** Movements that can be entered by hand; sales and holds are only recorded by the system */
+export const MANUAL_MOVEMENT_TYPES = [
+  StockMovementType.RECEIPT,
+  StockMovementType.ADJUSTMENT,
+  StockMovementType.RETURN,
+];
+
+export class CreateStockAdjustmentDto {
+  @ApiPropertyOptional({
+    description: 'Kind of movement',
+    enum: MANUAL_MOVEMENT_TYPES,
+    default: StockMovementType.ADJUSTMENT,
+  })
+  @IsOptional()
+  @IsIn(MANUAL_MOVEMENT_TYPES)
+  type?: StockMovementType = StockMovementType.ADJUSTMENT;
+
+  @ApiProperty({
+    description: 'Signed change in units; receipts and returns must be positive',
+    example: 24,
+  })
+  @IsInt()
+  @NotEquals(0)
+  @Type(() => Number)
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Warehouse the stock moves at; without one, stock not assigned to a warehouse',
+  })
+  @IsOptional()
+  @IsUUID()
+  warehouse_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Variant whose stock moves; without one, stock not held by a variant',
+  })
+  @IsOptional()
+  @IsUUID()
+  variant_id?: string;
+
+  @ApiProperty({ description: 'Why the stock moved', example: 'Weekly delivery' })
+  @IsString()
+  @MaxLength(255)
+  reason: string;
+}
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Product } from '../../products/entities/product.entity';
+import { Warehouse } from '../../warehouses/entities/warehouse.entity';
+
+/**
+ * Stock of a product held at one warehouse.
+ * Product.stock_quantity is the total over all levels plus any stock not assigned to a warehouse.
+ */
+@Entity('inventory_levels')
+@Index(['product_id', 'warehouse_id'], { unique: true })
+export class InventoryLevel {
+  @ApiProperty({ description: 'Inventory level ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Product ID' })
+  @Column({ type: 'varchar' })
+  product_id: string;
+
+  @ApiProperty({ description: 'Warehouse ID' })
+  @Column({ type: 'varchar' })
+  warehouse_id: string;
+
+  @ApiProperty({ description: 'Units on hand at the warehouse', example: 12 })
+  @Column({ type: 'integer', default: 0 })
+  quantity: number;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => Product, (product) => product.inventory_levels, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+
+  @ManyToOne(() => Warehouse, { eager: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'warehouse_id' })
+  warehouse: Warehouse;
+}
@@ -0,0 +1,86 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Product } from '../../products/entities/product.entity';
+
+export enum StockMovementType {
+  /** Stock received from a supplier */
+  RECEIPT = 'receipt',
+  /** Stock sold through checkout */
+  SALE = 'sale',
+  /** Manual correction, e.g. after a count or for damaged goods */
+  ADJUSTMENT = 'adjustment',
+  /** Sold stock coming back */
+  RETURN = 'return',
+  /** A cart hold taken or released; moves stock between available and held, not on hand */
+  RESERVATION = 'reservation',
+}
+
+/**
+ * Append-only ledger entry; rows are never updated or deleted while their product exists
+ */
+@Entity('stock_movements')
+@Index(['product_id', 'created_at'])
+export class StockMovement {
+  @ApiProperty({ description: 'Movement ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Product ID' })
+  @Column({ type: 'varchar' })
+  product_id: string;
+
+  @ApiProperty({ description: 'What moved the stock', enum: StockMovementType })
+  @Column({ type: 'varchar', length: 20 })
+  type: StockMovementType;
+
+  @ApiProperty({
+    description: 'Signed change in units; for reservations the change in units held',
+    example: -2,
+  })
+  @Column({ type: 'integer' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Stock on hand after the movement', example: 48 })
+  @Column({ type: 'integer' })
+  balance: number;
+
+  @ApiPropertyOptional({
+    description: 'Warehouse the stock moved at, empty for stock not assigned to a warehouse',
+  })
+  @Column({ type: 'varchar', nullable: true })
+  warehouse_id?: string;
+
+  @ApiPropertyOptional({ description: 'Variant whose stock moved, empty for the product itself' })
+  @Column({ type: 'varchar', nullable: true })
+  variant_id?: string;
+
+  @ApiPropertyOptional({ description: 'Why the stock moved', example: 'Weekly delivery' })
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description: 'Email of the user who moved the stock, empty for automatic movements',
+  })
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  actor?: string;
+
+  @ApiPropertyOptional({ description: 'ID of the order or cart behind the movement' })
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  reference?: string;
+
+  @ApiProperty({ description: 'When the stock moved' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { InventoryService } from './inventory.service';
+import { StockMovement } from './entities/stock-movement.entity';
+import { InventoryLevel } from './entities/inventory-level.entity';
+import { Product } from '../products/entities/product.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([StockMovement, InventoryLevel, Product])],
+  providers: [InventoryService],
+  exports: [InventoryService],
+})
+export class InventoryModule {}
@@ -0,0 +1,410 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { InventoryService } from './inventory.service';
+import { StockMovement, StockMovementType } from './entities/stock-movement.entity';
+import { InventoryLevel } from './entities/inventory-level.entity';
+import { Product } from '../products/entities/product.entity';
+import { ProductVariant } from '../products/entities/product-variant.entity';
+import { Warehouse } from '../warehouses/entities/warehouse.entity';
+
+describe('InventoryService', () => {
+  let service: InventoryService;
+
+  const productId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const createMockProduct = (overrides: Partial<Product> = {}): Product =>
+    Object.assign(new Product(), {
+      id: productId,
+      name: 'Test Product',
+      stock_quantity: 10,
+      ...overrides,
+    });
+
+  const warehouseId = '223e4567-e89b-12d3-a456-426614174000';
+  const warehouse = Object.assign(new Warehouse(), {
+    id: warehouseId,
+    code: 'EAST',
+    region: 'US-NY',
+    priority: 1,
+  });
+
+  const variantId = '323e4567-e89b-12d3-a456-426614174000';
+  const variant = Object.assign(new ProductVariant(), {
+    id: variantId,
+    product_id: productId,
+    sku: 'TEST-L',
+    stock_quantity: 4,
+  });
+
+  const mockManager = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    decrement: jest.fn(),
+    increment: jest.fn(),
+    sum: jest.fn(),
+    create: jest.fn((entity, data) => Object.assign(new entity(), data)),
+    save: jest.fn(async (entity) => entity),
+    transaction: jest.fn((work) => work(mockManager)),
+  };
+
+  const mockMovementRepository = {
+    manager: mockManager,
+    findAndCount: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InventoryService,
+        {
+          provide: getRepositoryToken(StockMovement),
+          useValue: mockMovementRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<InventoryService>(InventoryService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('adjust', () => {
+    it('should add received stock and record the new balance', async () => {
+      mockManager.findOne.mockResolvedValueOnce(createMockProduct());
+      mockManager.sum.mockResolvedValueOnce(10);
+
+      const result = await service.adjust(productId, {
+        type: StockMovementType.RECEIPT,
+        quantity: 24,
+        reason: 'Weekly delivery',
+        actor: 'admin@example.com',
+      });
+
+      expect(mockManager.increment).toHaveBeenCalledWith(
+        Product,
+        { id: productId },
+        'stock_quantity',
+        24,
+      );
+      expect(result).toEqual(
+        expect.objectContaining({
+          product_id: productId,
+          type: StockMovementType.RECEIPT,
+          quantity: 24,
+          balance: 34,
+          reason: 'Weekly delivery',
+          actor: 'admin@example.com',
+        }),
+      );
+    });
+
+    it('should remove stock with a conditional decrement', async () => {
+      mockManager.findOne.mockResolvedValueOnce(createMockProduct());
+      mockManager.sum.mockResolvedValueOnce(10);
+      mockManager.decrement.mockResolvedValue({ affected: 1 });
+
+      const result = await service.adjust(productId, {
+        type: StockMovementType.ADJUSTMENT,
+        quantity: -3,
+        reason: 'Damaged in storage',
+      });
+
+      expect(mockManager.decrement).toHaveBeenCalledWith(
+        Product,
+        { id: productId, stock_quantity: expect.any(Object) },
+        'stock_quantity',
+        3,
+      );
+      expect(result.balance).toBe(7);
+    });
+
+    it('should refuse to take stock below zero', async () => {
+      mockManager.findOne.mockResolvedValueOnce(createMockProduct({ stock_quantity: 2 }));
+      mockManager.decrement.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.adjust(productId, { type: StockMovementType.ADJUSTMENT, quantity: -5 }),
+      ).rejects.toThrow('Insufficient stock for Test Product. On hand: 2, Removing: 5');
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should add stock at a warehouse, creating its level', async () => {
+      mockManager.findOne
+        .mockResolvedValueOnce(createMockProduct())
+        .mockResolvedValueOnce(warehouse)
+        .mockResolvedValueOnce(null);
+      mockManager.sum.mockResolvedValueOnce(10);
+
+      const result = await service.adjust(productId, {
+        type: StockMovementType.RECEIPT,
+        quantity: 5,
+        warehouse_id: warehouseId,
+      });
+
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({ product_id: productId, warehouse_id: warehouseId, quantity: 5 }),
+      );
+      expect(mockManager.increment).toHaveBeenCalledWith(
+        Product,
+        { id: productId },
+        'stock_quantity',
+        5,
+      );
+      expect(result).toEqual(expect.objectContaining({ warehouse_id: warehouseId, balance: 15 }));
+    });
+
+    it('should refuse to take a warehouse below zero', async () => {
+      mockManager.findOne
+        .mockResolvedValueOnce(createMockProduct())
+        .mockResolvedValueOnce(warehouse)
+        .mockResolvedValueOnce(Object.assign(new InventoryLevel(), { quantity: 1 }));
+      mockManager.decrement.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.adjust(productId, {
+          type: StockMovementType.ADJUSTMENT,
+          quantity: -4,
+          warehouse_id: warehouseId,
+        }),
+      ).rejects.toThrow('Insufficient stock for Test Product at EAST. On hand: 1, Removing: 4');
+      expect(mockManager.decrement).toHaveBeenCalledWith(
+        InventoryLevel,
+        { product_id: productId, warehouse_id: warehouseId, quantity: expect.any(Object) },
+        'quantity',
+        4,
+      );
+    });
+
+    it('should throw NotFoundException for an unknown warehouse', async () => {
+      mockManager.findOne.mockResolvedValueOnce(createMockProduct()).mockResolvedValueOnce(null);
+
+      await expect(
+        service.adjust(productId, {
+          type: StockMovementType.RECEIPT,
+          quantity: 5,
+          warehouse_id: warehouseId,
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should only remove stock that is not held at a warehouse without one', async () => {
+      mockManager.findOne.mockResolvedValueOnce(
+        createMockProduct({
+          inventory_levels: [Object.assign(new InventoryLevel(), { quantity: 8 })],
+        }),
+      );
+
+      await expect(
+        service.adjust(productId, { type: StockMovementType.ADJUSTMENT, quantity: -3 }),
+      ).rejects.toThrow('Only 2 units of Test Product are not assigned to a warehouse');
+      expect(mockManager.decrement).not.toHaveBeenCalled();
+    });
+
+    it('should take stock off a variant along with the product', async () => {
+      mockManager.findOne.mockResolvedValueOnce(createMockProduct()).mockResolvedValueOnce(variant);
+      mockManager.sum.mockResolvedValueOnce(10);
+      mockManager.decrement.mockResolvedValue({ affected: 1 });
+
+      const result = await service.adjust(productId, {
+        type: StockMovementType.ADJUSTMENT,
+        quantity: -2,
+        variant_id: variantId,
+      });
+
+      expect(mockManager.decrement).toHaveBeenCalledWith(
+        ProductVariant,
+        { id: variantId, product_id: productId, stock_quantity: expect.any(Object) },
+        'stock_quantity',
+        2,
+      );
+      expect(mockManager.decrement).toHaveBeenCalledWith(
+        Product,
+        { id: productId, stock_quantity: expect.any(Object) },
+        'stock_quantity',
+        2,
+      );
+      expect(result).toEqual(expect.objectContaining({ variant_id: variantId, balance: 8 }));
+    });
+
+    it('should refuse to take a variant below zero', async () => {
+      mockManager.findOne.mockResolvedValueOnce(createMockProduct()).mockResolvedValueOnce(variant);
+      mockManager.decrement.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.adjust(productId, {
+          type: StockMovementType.ADJUSTMENT,
+          quantity: -5,
+          variant_id: variantId,
+        }),
+      ).rejects.toThrow('Insufficient stock for Test Product TEST-L. On hand: 4, Removing: 5');
+    });
+
+    it('should only remove stock that is not held by a variant without one', async () => {
+      mockManager.findOne.mockResolvedValueOnce(createMockProduct({ variants: [variant] }));
+
+      await expect(
+        service.adjust(productId, { type: StockMovementType.ADJUSTMENT, quantity: -7 }),
+      ).rejects.toThrow('Only 6 units of Test Product are not assigned to a variant');
+      expect(mockManager.decrement).not.toHaveBeenCalled();
+    });
+
+    it('should reject receipts and returns that remove stock', async () => {
+      await expect(
+        service.adjust(productId, { type: StockMovementType.RETURN, quantity: -1 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockManager.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown product', async () => {
+      mockManager.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.adjust(productId, { type: StockMovementType.ADJUSTMENT, quantity: 1 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('record', () => {
+    it('should add the movement to the balance the ledger adds up to', async () => {
+      mockManager.sum.mockResolvedValueOnce(10);
+
+      const result = await service.record(
+        productId,
+        { type: StockMovementType.SALE, quantity: -2, reference: 'order-id' },
+        mockManager as any,
+      );
+
+      expect(mockManager.sum).toHaveBeenCalledWith(StockMovement, 'quantity', {
+        product_id: productId,
+        type: expect.any(Object),
+      });
+      expect(mockManager.save).toHaveBeenCalled();
+      expect(result.balance).toBe(8);
+      expect(result.reference).toBe('order-id');
+    });
+
+    it('should give each of several changes applied together its own balance', async () => {
+      // Two allocations of one order line, recorded after the line's stock was taken off
+      mockManager.sum.mockResolvedValueOnce(10).mockResolvedValueOnce(7);
+
+      const first = await service.record(productId, {
+        type: StockMovementType.SALE,
+        quantity: -3,
+        warehouse_id: warehouseId,
+      });
+      const second = await service.record(productId, {
+        type: StockMovementType.SALE,
+        quantity: -2,
+      });
+
+      expect(first.balance).toBe(7);
+      expect(second.balance).toBe(5);
+    });
+
+    it('should leave the balance unchanged for holds', async () => {
+      mockManager.sum.mockResolvedValueOnce(8);
+
+      const result = await service.record(productId, {
+        type: StockMovementType.RESERVATION,
+        quantity: 2,
+        reference: 'cart-id',
+      });
+
+      expect(result.balance).toBe(8);
+    });
+
+    it('should record stock the ledger has no record of as an opening balance', async () => {
+      mockManager.sum.mockResolvedValueOnce(null);
+      mockManager.findOne.mockResolvedValueOnce(createMockProduct({ stock_quantity: 4 }));
+
+      const result = await service.record(productId, {
+        type: StockMovementType.ADJUSTMENT,
+        quantity: -6,
+      });
+
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: StockMovementType.ADJUSTMENT,
+          quantity: 10,
+          balance: 10,
+          reason: 'Opening balance',
+        }),
+      );
+      expect(result.balance).toBe(4);
+    });
+
+    it('should not open a ledger for stock the first movement brought in', async () => {
+      mockManager.sum.mockResolvedValueOnce(null);
+      mockManager.findOne.mockResolvedValueOnce(createMockProduct({ stock_quantity: 5 }));
+
+      const result = await service.record(productId, {
+        type: StockMovementType.RECEIPT,
+        quantity: 5,
+        reason: 'Initial stock',
+      });
+
+      expect(mockManager.save).toHaveBeenCalledTimes(1);
+      expect(result.balance).toBe(5);
+    });
+  });
+
+  describe('allocate', () => {
+    it('should take the quantity off the warehouses it is allocated to', async () => {
+      mockManager.find.mockResolvedValue([
+        Object.assign(new InventoryLevel(), {
+          warehouse_id: warehouseId,
+          quantity: 2,
+          warehouse,
+        }),
+      ]);
+
+      const result = await service.allocate(productId, 3, 'US-NY', mockManager as any);
+
+      expect(result).toEqual([
+        { warehouse_id: warehouseId, warehouse_code: 'EAST', quantity: 2 },
+        { warehouse_id: null, warehouse_code: null, quantity: 1 },
+      ]);
+      expect(mockManager.decrement).toHaveBeenCalledTimes(1);
+      expect(mockManager.decrement).toHaveBeenCalledWith(
+        InventoryLevel,
+        { product_id: productId, warehouse_id: warehouseId },
+        'quantity',
+        2,
+      );
+    });
+  });
+
+  describe('findByProduct', () => {
+    it('should page through movements newest first', async () => {
+      mockProductRepository.findOne.mockResolvedValue(createMockProduct());
+      mockMovementRepository.findAndCount.mockResolvedValue([[], 45]);
+
+      const result = await service.findByProduct(productId, { page: 3, limit: 20 });
+
+      expect(mockMovementRepository.findAndCount).toHaveBeenCalledWith({
+        where: { product_id: productId },
+        skip: 40,
+        take: 20,
+        order: { created_at: 'DESC' },
+      });
+      expect(result).toEqual({ movements: [], total: 45, page: 3, limit: 20 });
+    });
+
+    it('should throw NotFoundException for an unknown product', async () => {
+      mockProductRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findByProduct(productId, {})).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, MoreThan, MoreThanOrEqual, Not, Repository } from 'typeorm';
+import { StockMovement, StockMovementType } from './entities/stock-movement.entity';
+import { InventoryLevel } from './entities/inventory-level.entity';
+import { StockMovementQueryDto } from './dto/stock-movement-query.dto';
+import {
+  AllocationStrategy,
+  StockAllocation,
+  allocateStock,
+  rankInventoryLevels,
+} from './stock-allocation';
+import { Product } from '../products/entities/product.entity';
+import { ProductVariant } from '../products/entities/product-variant.entity';
+import { Warehouse } from '../warehouses/entities/warehouse.entity';
+import config from '../common/config';
+
+export interface StockMovementInput {
+  type: StockMovementType;
+  /** Signed change in units */
+  quantity: number;
+  /** Warehouse the stock moves at; without one the change applies to unassigned stock */
+  warehouse_id?: string;
+  /** Variant whose stock moves; without one the change applies to stock not held by a variant */
+  variant_id?: string;
+  reason?: string;
+  actor?: string;
+  reference?: string;
+}
+
+@Injectable()
+export class InventoryService {
+  private readonly allocationStrategy = config.inventory.allocationStrategy as AllocationStrategy;
+
+  constructor(
+    @InjectRepository(StockMovement)
+    private readonly movementRepository: Repository<StockMovement>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+  ) {}
+
+  /**
+   * Changes a product's stock by the movement's quantity and records it, in one transaction.
+   * With a warehouse or variant, its stock changes too. Fails rather than taking stock below zero.
+   * Pass the caller's transaction manager to make the change part of a larger one.
+   */
+  async adjust(
+    productId: string,
+    input: StockMovementInput,
+    manager?: EntityManager,
+  ): Promise<StockMovement> {
+    if (
+      (input.type === StockMovementType.RECEIPT || input.type === StockMovementType.RETURN) &&
+      input.quantity <= 0
+    ) {
+      throw new BadRequestException('Receipts and returns must add stock');
+    }
+
+    if (!manager) {
+      return await this.movementRepository.manager.transaction((transaction) =>
+        this.adjust(productId, input, transaction),
+      );
+    }
+
+    const product = await manager.findOne(Product, { where: { id: productId } });
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    // Stock held at a warehouse or by a variant can only be taken out there
+    if (input.warehouse_id) {
+      await this.adjustLevel(product, input.warehouse_id, input.quantity, manager);
+    } else if (input.quantity < 0) {
+      this.assertUnassigned(product, product.inventory_levels, 'warehouse', -input.quantity);
+    }
+    if (input.variant_id) {
+      await this.adjustVariant(product, input.variant_id, input.quantity, manager);
+    } else if (input.quantity < 0) {
+      this.assertUnassigned(
+        product,
+        (product.variants ?? []).map((variant) => ({ quantity: variant.stock_quantity })),
+        'variant',
+        -input.quantity,
+      );
+    }
+
+    if (input.quantity < 0) {
+      // Conditional decrement so a concurrent checkout can't drive stock negative
+      const result = await manager.decrement(
+        Product,
+        { id: productId, stock_quantity: MoreThanOrEqual(-input.quantity) },
+        'stock_quantity',
+        -input.quantity,
+      );
+      if (!result.affected) {
+        throw new BadRequestException(
+          `Insufficient stock for ${product.name}. On hand: ${product.stock_quantity}, Removing: ${-input.quantity}`,
+        );
+      }
+    } else {
+      await manager.increment(Product, { id: productId }, 'stock_quantity', input.quantity);
+    }
+
+    return await this.record(productId, input, manager);
+  }
+
+  /**
+   * Appends a movement for a stock change the caller has already applied, or for a hold.
+   * Pass the caller's transaction manager so the entry commits or rolls back with the change.
+   */
+  async record(
+    productId: string,
+    input: StockMovementInput,
+    manager: EntityManager = this.movementRepository.manager,
+  ): Promise<StockMovement> {
+    // Holds don't change the stock on hand
+    const change = input.type === StockMovementType.RESERVATION ? 0 : input.quantity;
+
+    const movement = manager.create(StockMovement, {
+      product_id: productId,
+      type: input.type,
+      quantity: input.quantity,
+      balance: (await this.balanceBefore(productId, change, manager)) + change,
+      warehouse_id: input.warehouse_id,
+      variant_id: input.variant_id,
+      reason: input.reason,
+      actor: input.actor,
+      reference: input.reference,
+    });
+    return await manager.save(movement);
+  }
+
+  /**
+   * Splits a line's quantity over the warehouses holding the product, following the configured
+   * allocation strategy, and takes it off their levels. The caller has already taken the quantity
+   * off the product's total stock.
+   */
+  async allocate(
+    productId: string,
+    quantity: number,
+    destinationRegion: string | undefined,
+    manager: EntityManager,
+  ): Promise<StockAllocation[]> {
+    const levels = await manager.find(InventoryLevel, {
+      where: { product_id: productId, quantity: MoreThan(0) },
+    });
+    const allocations = allocateStock(
+      rankInventoryLevels(levels, this.allocationStrategy, destinationRegion),
+      quantity,
+    );
+
+    for (const allocation of allocations) {
+      if (allocation.warehouse_id) {
+        await manager.decrement(
+          InventoryLevel,
+          { product_id: productId, warehouse_id: allocation.warehouse_id },
+          'quantity',
+          allocation.quantity,
+        );
+      }
+    }
+    return allocations;
+  }
+
+  /**
+   * Lists a product's movements, newest first
+   */
+  async findByProduct(
+    productId: string,
+    query: StockMovementQueryDto,
+  ): Promise<{ movements: StockMovement[]; total: number; page: number; limit: number }> {
+    const { page = 1, limit = 20 } = query;
+
+    const product = await this.productRepository.findOne({ where: { id: productId } });
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+
+    const [movements, total] = await this.movementRepository.findAndCount({
+      where: { product_id: productId },
+      skip: (page - 1) * limit,
+      take: limit,
+      order: { created_at: 'DESC' },
+    });
+
+    return { movements, total, page, limit };
+  }
+
+  /**
+   * Stock on hand before a change the caller has applied. Every change is recorded, so the ledger adds
+   * up to it even when several changes were applied before being recorded. Stock the ledger has no
+   * record of, e.g. from before it was kept, is recorded as an opening balance first.
+   */
+  private async balanceBefore(
+    productId: string,
+    change: number,
+    manager: EntityManager,
+  ): Promise<number> {
+    const balance = await manager.sum(StockMovement, 'quantity', {
+      product_id: productId,
+      type: Not(StockMovementType.RESERVATION),
+    });
+    if (balance !== null) {
+      return balance;
+    }
+
+    const product = await manager.findOne(Product, {
+      where: { id: productId },
+      select: { id: true, stock_quantity: true },
+    });
+    const opening = (product?.stock_quantity ?? 0) - change;
+    if (opening !== 0) {
+      await manager.save(
+        manager.create(StockMovement, {
+          product_id: productId,
+          type: StockMovementType.ADJUSTMENT,
+          quantity: opening,
+          balance: opening,
+          reason: 'Opening balance',
+        }),
+      );
+    }
+    return opening;
+  }
+
+  private async adjustLevel(
+    product: Product,
+    warehouseId: string,
+    quantity: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    const warehouse = await manager.findOne(Warehouse, { where: { id: warehouseId } });
+    if (!warehouse) {
+      throw new NotFoundException(`Warehouse with ID ${warehouseId} not found`);
+    }
+
+    const where = { product_id: product.id, warehouse_id: warehouseId };
+    const level = await manager.findOne(InventoryLevel, { where });
+
+    if (quantity < 0) {
+      const result = await manager.decrement(
+        InventoryLevel,
+        { ...where, quantity: MoreThanOrEqual(-quantity) },
+        'quantity',
+        -quantity,
+      );
+      if (!result.affected) {
+        throw new BadRequestException(
+          `Insufficient stock for ${product.name} at ${warehouse.code}. On hand: ${level?.quantity ?? 0}, Removing: ${-quantity}`,
+        );
+      }
+    } else if (level) {
+      await manager.increment(InventoryLevel, where, 'quantity', quantity);
+    } else {
+      await manager.save(manager.create(InventoryLevel, { ...where, quantity }));
+    }
+  }
+
+  private async adjustVariant(
+    product: Product,
+    variantId: string,
+    quantity: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    const where = { id: variantId, product_id: product.id };
+    const variant = await manager.findOne(ProductVariant, { where });
+    if (!variant) {
+      throw new NotFoundException(`Variant with ID ${variantId} not found`);
+    }
+
+    if (quantity < 0) {
+      const result = await manager.decrement(
+        ProductVariant,
+        { ...where, stock_quantity: MoreThanOrEqual(-quantity) },
+        'stock_quantity',
+        -quantity,
+      );
+      if (!result.affected) {
+        throw new BadRequestException(
+          `Insufficient stock for ${product.name} ${variant.sku}. On hand: ${variant.stock_quantity}, Removing: ${-quantity}`,
+        );
+      }
+    } else {
+      await manager.increment(ProductVariant, where, 'stock_quantity', quantity);
+    }
+  }
+
+  private assertUnassigned(
+    product: Product,
+    held: { quantity: number }[] | undefined,
+    holder: string,
+    removing: number,
+  ): void {
+    const assigned = (held ?? []).reduce((sum, entry) => sum + entry.quantity, 0);
+    const unassigned = Math.max(product.stock_quantity - assigned, 0);
+    if (assigned > 0 && unassigned < removing) {
+      throw new BadRequestException(
+        `Only ${unassigned} units of ${product.name} are not assigned to a ${holder}, adjust a ${holder}'s stock instead`,
+      );
+    }
+  }
+}
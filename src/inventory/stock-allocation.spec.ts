@@ -0,0 +1,80 @@
+import { AllocationStrategy, allocateStock, rankInventoryLevels } from './stock-allocation';
+import { InventoryLevel } from './entities/inventory-level.entity';
+import { Warehouse } from '../warehouses/entities/warehouse.entity';
+
+describe('stock allocation', () => {
+  const createLevel = (
+    code: string,
+    region: string,
+    priority: number,
+    quantity: number,
+  ): InventoryLevel =>
+    Object.assign(new InventoryLevel(), {
+      warehouse_id: `${code.toLowerCase()}-id`,
+      quantity,
+      warehouse: Object.assign(new Warehouse(), { code, region, priority }),
+    });
+
+  const east = createLevel('EAST', 'US-NY', 1, 3);
+  const west = createLevel('WEST', 'US-CA', 2, 10);
+  const berlin = createLevel('BER', 'DE-BE', 3, 6);
+  const codes = (levels: InventoryLevel[]) => levels.map((level) => level.warehouse.code);
+
+  describe('rankInventoryLevels', () => {
+    it('should follow warehouse priority', () => {
+      expect(codes(rankInventoryLevels([berlin, west, east], AllocationStrategy.PRIORITY))).toEqual(
+        ['EAST', 'WEST', 'BER'],
+      );
+    });
+
+    it('should put the destination region first, then the same country', () => {
+      expect(
+        codes(rankInventoryLevels([east, west, berlin], AllocationStrategy.NEAREST, 'US-CA')),
+      ).toEqual(['WEST', 'EAST', 'BER']);
+      expect(
+        codes(rankInventoryLevels([east, west, berlin], AllocationStrategy.NEAREST, 'DE-HH')),
+      ).toEqual(['BER', 'EAST', 'WEST']);
+    });
+
+    it('should fall back to priority when the destination is unknown', () => {
+      expect(codes(rankInventoryLevels([berlin, west, east], AllocationStrategy.NEAREST))).toEqual([
+        'EAST',
+        'WEST',
+        'BER',
+      ]);
+    });
+
+    it('should put the largest stock first', () => {
+      expect(codes(rankInventoryLevels([east, west, berlin], AllocationStrategy.LARGEST))).toEqual([
+        'WEST',
+        'BER',
+        'EAST',
+      ]);
+    });
+  });
+
+  describe('allocateStock', () => {
+    it('should take from each warehouse in turn', () => {
+      expect(allocateStock([east, west], 5)).toEqual([
+        { warehouse_id: 'east-id', warehouse_code: 'EAST', quantity: 3 },
+        { warehouse_id: 'west-id', warehouse_code: 'WEST', quantity: 2 },
+      ]);
+    });
+
+    it('should not touch warehouses once the quantity is covered', () => {
+      expect(allocateStock([west, east], 4)).toEqual([
+        { warehouse_id: 'west-id', warehouse_code: 'WEST', quantity: 4 },
+      ]);
+    });
+
+    it('should take the rest from stock not assigned to a warehouse', () => {
+      expect(allocateStock([east], 5)).toEqual([
+        { warehouse_id: 'east-id', warehouse_code: 'EAST', quantity: 3 },
+        { warehouse_id: null, warehouse_code: null, quantity: 2 },
+      ]);
+      expect(allocateStock([], 2)).toEqual([
+        { warehouse_id: null, warehouse_code: null, quantity: 2 },
+      ]);
+    });
+  });
+});
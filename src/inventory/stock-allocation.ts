@@ -0,0 +1,88 @@
+import { InventoryLevel } from './entities/inventory-level.entity';
+
+export enum AllocationStrategy {
+  /** Lowest warehouse priority number first */
+  PRIORITY = 'priority',
+  /** Warehouses in the destination region first, then those in the same country */
+  NEAREST = 'nearest',
+  /** Warehouses holding the most stock first, so orders split across fewer of them */
+  LARGEST = 'largest',
+}
+
+/**
+ * Units of an order line taken from one warehouse, or from stock not assigned to any warehouse
+ */
+export interface StockAllocation {
+  warehouse_id: string | null;
+  warehouse_code: string | null;
+  quantity: number;
+}
+
+/**
+ * 0 for the destination region itself, 1 for another region of the same country, 2 otherwise
+ */
+function regionDistance(warehouseRegion: string, destinationRegion?: string): number {
+  if (!destinationRegion) {
+    return 2;
+  }
+  if (warehouseRegion === destinationRegion) {
+    return 0;
+  }
+  return warehouseRegion.split('-')[0] === destinationRegion.split('-')[0] ? 1 : 2;
+}
+
+/**
+ * Orders the warehouse stock of a product in the sequence checkout should take it.
+ * Ties fall back to warehouse priority, then code, so the order is always deterministic.
+ */
+export function rankInventoryLevels(
+  levels: InventoryLevel[],
+  strategy: AllocationStrategy,
+  destinationRegion?: string,
+): InventoryLevel[] {
+  const byPriority = (a: InventoryLevel, b: InventoryLevel) =>
+    a.warehouse.priority - b.warehouse.priority || a.warehouse.code.localeCompare(b.warehouse.code);
+
+  return [...levels].sort((a, b) => {
+    switch (strategy) {
+      case AllocationStrategy.NEAREST:
+        return (
+          regionDistance(a.warehouse.region, destinationRegion) -
+            regionDistance(b.warehouse.region, destinationRegion) || byPriority(a, b)
+        );
+      case AllocationStrategy.LARGEST:
+        return b.quantity - a.quantity || byPriority(a, b);
+      default:
+        return byPriority(a, b);
+    }
+  });
+}
+
+/**
+ * Takes the quantity from the ranked levels in turn; whatever they can't cover
+ * comes from stock not assigned to a warehouse
+ */
+export function allocateStock(rankedLevels: InventoryLevel[], quantity: number): StockAllocation[] {
+  const allocations: StockAllocation[] = [];
+  let remaining = quantity;
+
+  for (const level of rankedLevels) {
+    if (remaining === 0) {
+      break;
+    }
+    const taken = Math.min(level.quantity, remaining);
+    if (taken > 0) {
+      allocations.push({
+        warehouse_id: level.warehouse_id,
+        warehouse_code: level.warehouse.code,
+        quantity: taken,
+      });
+      remaining -= taken;
+    }
+  }
+
+  if (remaining > 0) {
+    allocations.push({ warehouse_id: null, warehouse_code: null, quantity: remaining });
+  }
+  return allocations;
+}
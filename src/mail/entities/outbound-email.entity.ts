@@ -0,0 +1,71 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum OutboundEmailStatus {
+  PENDING = 'pending',
+  SENT = 'sent',
+  FAILED = 'failed',
+}
+
+@Entity('mail_queue')
+@Index(['status', 'next_attempt_at'])
+export class OutboundEmail {
+  @ApiProperty({ description: 'Queued email ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Template the message was rendered from' })
+  @Column({ type: 'varchar', length: 50 })
+  template: string;
+
+  @ApiProperty({ description: 'Recipient addresses', type: [String] })
+  @Column({ type: 'simple-array' })
+  to: string[];
+
+  @ApiProperty({ description: 'Subject line' })
+  @Column({ type: 'varchar', length: 255 })
+  subject: string;
+
+  @ApiProperty({ description: 'Plain-text body' })
+  @Column({ type: 'text' })
+  text: string;
+
+  @ApiProperty({ description: 'HTML body' })
+  @Column({ type: 'text' })
+  html: string;
+
+  @ApiProperty({ description: 'Delivery status', enum: OutboundEmailStatus })
+  @Column({ type: 'varchar', length: 20, default: OutboundEmailStatus.PENDING })
+  status: OutboundEmailStatus;
+
+  @ApiProperty({ description: 'Number of delivery attempts so far' })
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  @ApiProperty({ description: 'Earliest time of the next delivery attempt' })
+  @Column({ type: 'datetime' })
+  next_attempt_at: Date;
+
+  @ApiProperty({ description: 'Error of the last failed attempt', required: false })
+  @Column({ type: 'text', nullable: true })
+  last_error?: string;
+
+  @ApiProperty({ description: 'Delivery date', required: false })
+  @Column({ type: 'datetime', nullable: true })
+  sent_at?: Date;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+}
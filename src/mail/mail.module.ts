@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { MailService } from './mail.service';
+import { OutboundEmail } from './entities/outbound-email.entity';
+import { MAIL_TRANSPORT, MailTransport, MailTransportType } from './transports/mail-transport';
+import { SmtpMailTransport } from './transports/smtp.transport';
+import { FileMailTransport } from './transports/file.transport';
+import { InMemoryMailTransport } from './transports/memory.transport';
+import config from '../common/config';
+
+function createMailTransport(): MailTransport {
+  switch (config.mail.transport) {
+    case MailTransportType.FILE:
+      return new FileMailTransport(config.mail.outboxDir);
+    case MailTransportType.MEMORY:
+      return new InMemoryMailTransport();
+    default:
+      return new SmtpMailTransport();
+  }
+}
+
+@Module({
+  imports: [TypeOrmModule.forFeature([OutboundEmail])],
+  providers: [MailService, { provide: MAIL_TRANSPORT, useFactory: createMailTransport }],
+  exports: [MailService, MAIL_TRANSPORT],
+})
+export class MailModule {}
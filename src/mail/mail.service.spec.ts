@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { MailService } from './mail.service';
+import { OutboundEmail, OutboundEmailStatus } from './entities/outbound-email.entity';
+import { MAIL_TRANSPORT } from './transports/mail-transport';
+import { InMemoryMailTransport } from './transports/memory.transport';
+import { MailTemplate } from './templates/mail-templates';
+import config from '../common/config';
+
+describe('MailService', () => {
+  let service: MailService;
+  let transport: InMemoryMailTransport;
+  let queue: OutboundEmail[];
+
+  const mockOutboundEmailRepository = {
+    create: jest.fn((data) => Object.assign(new OutboundEmail(), data)),
+    save: jest.fn(async (email: OutboundEmail) => {
+      if (!email.id) {
+        Object.assign(email, {
+          id: `email-${queue.length + 1}`,
+          status: OutboundEmailStatus.PENDING,
+          attempts: 0,
+        });
+        queue.push(email);
+      }
+      return email;
+    }),
+    find: jest.fn(async () =>
+      queue.filter(
+        (email) =>
+          email.status === OutboundEmailStatus.PENDING && email.next_attempt_at <= new Date(),
+      ),
+    ),
+  };
+
+  beforeEach(async () => {
+    queue = [];
+    transport = new InMemoryMailTransport();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailService,
+        {
+          provide: getRepositoryToken(OutboundEmail),
+          useValue: mockOutboundEmailRepository,
+        },
+        {
+          provide: MAIL_TRANSPORT,
+          useValue: transport,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MailService>(MailService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should queue a rendered message and send it right away', async () => {
+    await service.sendLowStockAlert(
+      [{ id: 'product-id', name: 'Widget', stock_quantity: 2 }],
+      ['admin@example.com'],
+    );
+    await service.processQueue();
+
+    expect(queue[0]).toEqual(
+      expect.objectContaining({
+        template: MailTemplate.LOW_STOCK_ALERT,
+        status: OutboundEmailStatus.SENT,
+        attempts: 1,
+      }),
+    );
+    expect(transport.sent).toEqual([
+      expect.objectContaining({
+        to: ['admin@example.com'],
+        subject: 'Low stock: 1 product',
+        text: expect.stringContaining('Widget (product-id): 2 left'),
+      }),
+    ]);
+  });
+
+  it('should link the password reset email to the front end', async () => {
+    await service.sendPasswordReset('jane@example.com', 'reset.token');
+    await service.processQueue();
+
+    expect(transport.sent[0].text).toContain(`${config.frontEnd}/reset-password?token=reset.token`);
+  });
+
+  it('should retry failed sends with exponential backoff', async () => {
+    jest.spyOn(transport, 'send').mockRejectedValue(new Error('Connection refused'));
+
+    await service.sendPasswordReset('jane@example.com', 'reset.token');
+    await service.processQueue();
+
+    const [email] = queue;
+    const firstRetry = email.next_attempt_at.getTime() - Date.now();
+    expect(email.status).toBe(OutboundEmailStatus.PENDING);
+    expect(email.last_error).toBe('Connection refused');
+    expect(firstRetry).toBeGreaterThan((config.mail.retryDelaySeconds - 1) * 1000);
+
+    // Not due yet, so nothing is attempted
+    await service.processQueue();
+    expect(email.attempts).toBe(1);
+
+    email.next_attempt_at = new Date();
+    await service.processQueue();
+    expect(email.next_attempt_at.getTime() - Date.now()).toBeGreaterThan(firstRetry * 1.5);
+  });
+
+  it('should give up after the configured number of attempts', async () => {
+    jest.spyOn(transport, 'send').mockRejectedValue(new Error('Mailbox unavailable'));
+
+    await service.sendPasswordReset('jane@example.com', 'reset.token');
+    for (let attempt = 0; attempt < config.mail.maxAttempts; attempt++) {
+      queue[0].next_attempt_at = new Date();
+      await service.processQueue();
+    }
+
+    expect(queue[0].status).toBe(OutboundEmailStatus.FAILED);
+    expect(queue[0].attempts).toBe(config.mail.maxAttempts);
+  });
+});
@@ -0,0 +1,160 @@
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { OutboundEmail, OutboundEmailStatus } from './entities/outbound-email.entity';
+import { MAIL_TRANSPORT, MailTransport } from './transports/mail-transport';
+import {
+  LowStockProduct,
+  MailContent,
+  MailTemplate,
+  renderBackInStock,
+  renderLowStockAlert,
+  renderOrderConfirmation,
+  renderPasswordReset,
+} from './templates/mail-templates';
+import { Order } from '../orders/entities/order.entity';
+import { Product } from '../products/entities/product.entity';
+import config from '../common/config';
+
+/**
+ * Renders transactional emails into a persistent queue and delivers them in the background,
+ * retrying failed sends with exponential backoff
+ */
+@Injectable()
+export class MailService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MailService.name);
+  private readonly BATCH_SIZE = 50;
+  private sweepTimer: NodeJS.Timeout;
+  // Deliveries run one after another so a message is never picked up twice
+  private delivery: Promise<number> = Promise.resolve(0);
+
+  constructor(
+    @InjectRepository(OutboundEmail)
+    private readonly outboundEmailRepository: Repository<OutboundEmail>,
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+  ) {}
+
+  onModuleInit() {
+    // Retry messages whose backoff has passed
+    this.sweepTimer = setInterval(() => {
+      this.processQueue().catch((error) => {
+        this.logger.error('Failed to process the mail queue:', error);
+      });
+    }, config.mail.sweepIntervalSeconds * 1000);
+    this.sweepTimer.unref();
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+    await this.delivery.catch(() => undefined);
+  }
+
+  async sendOrderConfirmation(order: Order, email: string): Promise<OutboundEmail> {
+    return await this.enqueue(
+      MailTemplate.ORDER_CONFIRMATION,
+      [email],
+      renderOrderConfirmation(order),
+    );
+  }
+
+  async sendLowStockAlert(
+    products: LowStockProduct[],
+    recipients: string[],
+  ): Promise<OutboundEmail> {
+    return await this.enqueue(
+      MailTemplate.LOW_STOCK_ALERT,
+      recipients,
+      renderLowStockAlert(products),
+    );
+  }
+
+  async sendBackInStock(product: Product, email: string): Promise<OutboundEmail> {
+    const productUrl = `${config.frontEnd}/products/${product.id}`;
+    return await this.enqueue(
+      MailTemplate.BACK_IN_STOCK,
+      [email],
+      renderBackInStock(product, productUrl),
+    );
+  }
+
+  async sendPasswordReset(email: string, token: string): Promise<OutboundEmail> {
+    const resetUrl = `${config.frontEnd}/reset-password?token=${encodeURIComponent(token)}`;
+    return await this.enqueue(
+      MailTemplate.PASSWORD_RESET,
+      [email],
+      renderPasswordReset(resetUrl, config.mail.passwordResetExpiration),
+    );
+  }
+
+  /**
+   * Delivers every queued message that is due and returns how many were sent
+   */
+  processQueue(): Promise<number> {
+    this.delivery = this.delivery.catch(() => 0).then(() => this.deliverDue());
+    return this.delivery;
+  }
+
+  private async enqueue(
+    template: MailTemplate,
+    to: string[],
+    content: MailContent,
+  ): Promise<OutboundEmail> {
+    const email = await this.outboundEmailRepository.save(
+      this.outboundEmailRepository.create({
+        template,
+        to,
+        ...content,
+        next_attempt_at: new Date(),
+      }),
+    );
+
+    // Send right away instead of waiting for the next sweep
+    this.processQueue().catch((error) => {
+      this.logger.error('Failed to process the mail queue:', error);
+    });
+    return email;
+  }
+
+  private async deliverDue(): Promise<number> {
+    const due = await this.outboundEmailRepository.find({
+      where: { status: OutboundEmailStatus.PENDING, next_attempt_at: LessThanOrEqual(new Date()) },
+      order: { created_at: 'ASC' },
+      take: this.BATCH_SIZE,
+    });
+
+    let sent = 0;
+    for (const email of due) {
+      email.attempts += 1;
+
+      try {
+        await this.transport.send({
+          from: config.zoho.from,
+          to: email.to,
+          subject: email.subject,
+          text: email.text,
+          html: email.html,
+        });
+        email.status = OutboundEmailStatus.SENT;
+        email.sent_at = new Date();
+        email.last_error = null;
+        sent++;
+      } catch (error) {
+        email.last_error = error.message;
+
+        if (email.attempts >= config.mail.maxAttempts) {
+          email.status = OutboundEmailStatus.FAILED;
+          this.logger.error(`Giving up on email ${email.id} after ${email.attempts} attempts`);
+        } else {
+          const delayMs = config.mail.retryDelaySeconds * 1000 * 2 ** (email.attempts - 1);
+          email.next_attempt_at = new Date(Date.now() + delayMs);
+          this.logger.warn(`Failed to send email ${email.id}, retrying: ${error.message}`);
+        }
+      }
+
+      await this.outboundEmailRepository.save(email);
+    }
+
+    return sent;
+  }
+}
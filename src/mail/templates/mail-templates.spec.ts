@@ -0,0 +1,77 @@
+import {
+  renderBackInStock,
+  renderLowStockAlert,
+  renderOrderConfirmation,
+  renderPasswordReset,
+} from './mail-templates';
+import { Order } from '../../orders/entities/order.entity';
+import { OrderLine } from '../../orders/entities/order-line.entity';
+
+describe('mail templates', () => {
+  const order = Object.assign(new Order(), {
+    id: 'order-id',
+    currency: 'USD',
+    total_price: 199.98,
+    coupon_code: 'SAVE10',
+    coupon_discount: 20,
+    shipping_method: 'Standard delivery',
+    shipping_cost: 4.99,
+    total_tax: 0,
+    grand_total: 184.97,
+    lines: [
+      Object.assign(new OrderLine(), {
+        product_name: 'Fish & <Chips>',
+        quantity: 2,
+        line_total: 199.98,
+      }),
+    ],
+  });
+
+  it('should list the lines and totals of an order', () => {
+    const content = renderOrderConfirmation(order);
+
+    expect(content.subject).toBe('Order confirmation order-id');
+    expect(content.text).toContain('2 x Fish & <Chips>: $199.98');
+    expect(content.text).toContain('Coupon SAVE10: -$20.00');
+    expect(content.text).toContain('Standard delivery: $4.99');
+    expect(content.text).toContain('Total: $184.97');
+  });
+
+  it('should escape values in the HTML body', () => {
+    const { html } = renderOrderConfirmation(order);
+
+    expect(html).toContain('Fish &amp; &lt;Chips&gt;');
+    expect(html).not.toContain('<Chips>');
+  });
+
+  it('should leave out a coupon line without a discount', () => {
+    const { text } = renderOrderConfirmation(
+      Object.assign(new Order(), order, { coupon_code: null, coupon_discount: 0 }),
+    );
+
+    expect(text).not.toContain('Coupon');
+  });
+
+  it('should pluralise the low-stock subject', () => {
+    const products = [
+      { id: 'a', name: 'Widget', stock_quantity: 1 },
+      { id: 'b', name: 'Gadget', stock_quantity: 0 },
+    ];
+
+    expect(renderLowStockAlert(products).subject).toBe('Low stock: 2 products');
+  });
+
+  it('should link to the restocked product', () => {
+    const content = renderBackInStock({ name: 'Fish & Chips' }, 'https://shop.test/products/a');
+
+    expect(content.subject).toBe('Fish & Chips is back in stock');
+    expect(content.html).toContain('<a href="https://shop.test/products/a">Fish &amp; Chips</a>');
+  });
+
+  it('should link to the password reset page', () => {
+    const { html } = renderPasswordReset('https://shop.test/reset-password?token=a&b', '1h');
+
+    expect(html).toContain('href="https://shop.test/reset-password?token=a&amp;b"');
+    expect(html).toContain('within 1h');
+  });
+});
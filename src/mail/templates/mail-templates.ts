@@ -0,0 +1,124 @@
+import { Order } from '../../orders/entities/order.entity';
+import { Product } from '../../products/entities/product.entity';
+import { formatCurrency } from '../../common/utils/arithmetic.utils';
+
+export enum MailTemplate {
+  ORDER_CONFIRMATION = 'order-confirmation',
+  LOW_STOCK_ALERT = 'low-stock-alert',
+  PASSWORD_RESET = 'password-reset',
+  BACK_IN_STOCK = 'back-in-stock',
+}
+
+/**
+ * Subject and bodies rendered from a template
+ */
+export interface MailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export type LowStockProduct = Pick<Product, 'id' | 'name' | 'stock_quantity'>;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+export function renderOrderConfirmation(order: Order): MailContent {
+  const money = (amount: number) => formatCurrency(amount, order.currency);
+  const lines = order.lines.map((line) => ({
+    name: line.product_name,
+    quantity: line.quantity,
+    total: money(line.line_total),
+  }));
+
+  const totals = [
+    ['Subtotal', money(order.total_price)],
+    ...(Number(order.coupon_discount) > 0
+      ? [[`Coupon ${order.coupon_code}`, `-${money(order.coupon_discount)}`]]
+      : []),
+    ...(order.shipping_method ? [[order.shipping_method, money(order.shipping_cost)]] : []),
+    ['Tax', money(order.total_tax)],
+    ['Total', money(order.grand_total)],
+  ];
+
+  return {
+    subject: `Order confirmation ${order.id}`,
+    text: [
+      `Thank you for your order ${order.id}.`,
+      '',
+      ...lines.map((line) => `${line.quantity} x ${line.name}: ${line.total}`),
+      '',
+      ...totals.map(([label, amount]) => `${label}: ${amount}`),
+    ].join('\n'),
+    html: [
+      `<p>Thank you for your order <strong>${escapeHtml(order.id)}</strong>.</p>`,
+      '<table>',
+      ...lines.map(
+        (line) =>
+          `<tr><td>${line.quantity} &times; ${escapeHtml(line.name)}</td><td>${line.total}</td></tr>`,
+      ),
+      ...totals.map(
+        ([label, amount]) => `<tr><th>${escapeHtml(label)}</th><td>${amount}</td></tr>`,
+      ),
+      '</table>',
+    ].join('\n'),
+  };
+}
+
+export function renderLowStockAlert(products: LowStockProduct[]): MailContent {
+  const lines = products.map(
+    (product) => `${product.name} (${product.id}): ${product.stock_quantity} left`,
+  );
+
+  return {
+    subject: `Low stock: ${products.length} product${products.length === 1 ? '' : 's'}`,
+    text: ['These products are running low:', '', ...lines].join('\n'),
+    html: [
+      '<p>These products are running low:</p>',
+      '<ul>',
+      ...lines.map((line) => `<li>${escapeHtml(line)}</li>`),
+      '</ul>',
+    ].join('\n'),
+  };
+}
+
+export function renderBackInStock(product: Pick<Product, 'name'>, productUrl: string): MailContent {
+  return {
+    subject: `${product.name} is back in stock`,
+    text: [
+      `${product.name} is back in stock: ${productUrl}`,
+      '',
+      'You asked to be told once; this is the only email you will get about it.',
+    ].join('\n'),
+    html: [
+      `<p><a href="${escapeHtml(productUrl)}">${escapeHtml(product.name)}</a> is back in stock.</p>`,
+      '<p>You asked to be told once; this is the only email you will get about it.</p>',
+    ].join('\n'),
+  };
+}
+
+export function renderPasswordReset(resetUrl: string, expiresIn: string): MailContent {
+  return {
+    subject: 'Reset your password',
+    text: [
+      'Someone asked to reset the password of your account.',
+      `Choose a new password within ${expiresIn}: ${resetUrl}`,
+      '',
+      'If this was not you, ignore this email; your password stays the same.',
+    ].join('\n'),
+    html: [
+      '<p>Someone asked to reset the password of your account.</p>',
+      `<p><a href="${escapeHtml(resetUrl)}">Choose a new password</a> within ${escapeHtml(expiresIn)}.</p>`,
+      '<p>If this was not you, ignore this email; your password stays the same.</p>',
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,19 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Writes each message as a JSON file, for development without an SMTP server
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${Date.now()}-${uuidv4()}.json`),
+      JSON.stringify(message, null, 2),
+    );
+  }
+}
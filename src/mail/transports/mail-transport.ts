@@ -0,0 +1,25 @@
+/**
+ * A rendered message ready to be handed to a transport
+ */
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Delivers messages; throwing marks the attempt as failed so the queue retries it
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export enum MailTransportType {
+  SMTP = 'smtp',
+  FILE = 'file',
+  MEMORY = 'memory',
+}
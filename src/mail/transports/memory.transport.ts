@@ -0,0 +1,16 @@
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Keeps sent messages in memory so tests can assert on them
+ */
+export class InMemoryMailTransport implements MailTransport {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
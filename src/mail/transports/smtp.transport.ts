@@ -0,0 +1,24 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './mail-transport';
+import config from '../../common/config';
+
+/**
+ * Sends through the SMTP server in config.zoho
+ */
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor() {
+    this.transporter = createTransport({
+      host: config.zoho.host,
+      port: config.zoho.port,
+      // Port 465 speaks TLS from the start, other ports upgrade with STARTTLS
+      secure: config.zoho.port === 465,
+      auth: config.zoho.user ? { user: config.zoho.user, pass: config.zoho.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
@@ -21,6 +21,17 @@ async function bootstrap() {
     .setVersion('1.0')
     .addTag('products')
     .addTag('cart')
+    .addTag('orders')
+    .addTag('coupons')
+    .addTag('currencies')
+    .addTag('taxes')
+    .addTag('shipping')
+    .addTag('auth')
+    .addTag('users')
+    .addTag('customers')
+    .addTag('warehouses')
+    .addTag('categories')
+    .addBearerAuth()
     .build();
   
   const document = SwaggerModule.createDocument(app, swaggerConfig);
@@ -0,0 +1,42 @@
+import { Controller, Post, Body, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader, ApiBearerAuth } from '@nestjs/swagger';
+import { OrdersService } from './orders.service';
+import { Order } from './entities/order.entity';
+import { ParseUUIDPipe } from '../common/pipes/parse-uuid.pipe';
+import { CartId, CART_ID_HEADER } from '../cart/decorators/cart-id.decorator';
+import { TaxDestinationDto } from '../taxes/dto/tax-destination.dto';
+import { CartOwnerGuard } from '../cart/guards/cart-owner.guard';
+
+@ApiTags('cart')
+@Controller('cart')
+export class CheckoutController {
+  constructor(private readonly ordersService: OrdersService) {}
+
+  @Post('checkout')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(CartOwnerGuard)
+  @ApiBearerAuth()
+  @ApiHeader({
+    name: CART_ID_HEADER,
+    description: 'Cart ID returned by POST /cart',
+    required: true,
+  })
+  @ApiOperation({
+    summary: 'Turn the cart into an order and decrement stock',
+    description: 'Tax is charged for the destination region and postcode in the body, if given',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Order placed successfully',
+    type: Order,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - empty cart or insufficient stock' })
+  @ApiResponse({ status: 401, description: "Customer cart used without its owner's access token" })
+  @ApiResponse({ status: 404, description: 'Cart not found or expired' })
+  async checkout(
+    @CartId(ParseUUIDPipe) cartId: string,
+    @Body() destination: TaxDestinationDto,
+  ): Promise<Order> {
+    return await this.ordersService.checkout(cartId, destination);
+  }
+}
@@ -0,0 +1,97 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Order } from './order.entity';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+import { StockAllocation } from '../../inventory/stock-allocation';
+
+/**
+ * Snapshot of a cart line at checkout time.
+ * Prices are copied rather than referenced so later product changes don't alter past orders.
+ */
+@Entity('order_lines')
+export class OrderLine {
+  @ApiProperty({ description: 'Order line ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Order ID' })
+  @Column({ type: 'varchar' })
+  order_id: string;
+
+  @ApiProperty({ description: 'Product ID' })
+  @Column({ type: 'varchar' })
+  product_id: string;
+
+  @ApiProperty({ description: 'Variant ID', required: false })
+  @Column({ type: 'varchar', nullable: true })
+  variant_id?: string;
+
+  @ApiProperty({ description: 'Variant SKU at checkout time', required: false })
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  sku?: string;
+
+  @ApiProperty({ description: 'Product name at checkout time' })
+  @Column({ type: 'varchar', length: 255 })
+  product_name: string;
+
+  @ApiProperty({ description: 'Quantity ordered' })
+  @Column({ type: 'integer' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Unit price before discounts' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
+  original_price: number;
+
+  @ApiProperty({ description: 'Unit price after the product discount' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
+  effective_price: number;
+
+  @ApiProperty({ description: 'Discount amount per unit' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
+  discount_amount: number;
+
+  @ApiProperty({ description: 'Volume tier discount percentage applied', required: false })
+  @Column({
+    type: 'decimal',
+    precision: 5,
+    scale: 2,
+    transformer: decimalTransformer,
+    nullable: true,
+  })
+  tier_discount_percentage?: number;
+
+  @ApiProperty({ description: 'Unit price charged, including any volume tier' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
+  unit_price: number;
+
+  @ApiProperty({ description: 'Line total (quantity × unit price)' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
+  line_total: number;
+
+  @ApiProperty({ description: 'Total savings for this line' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
+  line_savings: number;
+
+  @ApiProperty({ description: 'Tax rate percentage applied to the line' })
+  @Column({ type: 'decimal', precision: 5, scale: 2, transformer: decimalTransformer, default: 0 })
+  tax_rate: number;
+
+  @ApiProperty({ description: 'Tax on the line, after its share of the coupon discount' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer, default: 0 })
+  tax_amount: number;
+
+  @ApiProperty({ description: 'Whether tax_amount is included in line_total' })
+  @Column({ type: 'boolean', default: false })
+  price_includes_tax: boolean;
+
+  @ApiProperty({
+    description: 'Warehouses the units ship from; a null warehouse is stock not assigned to one',
+    required: false,
+  })
+  @Column({ type: 'simple-json', nullable: true })
+  allocations?: StockAllocation[];
+
+  @ManyToOne(() => Order, (order) => order.lines, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'order_id' })
+  order: Order;
+}
@@ -0,0 +1,91 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, OneToMany } from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { OrderLine } from './order-line.entity';
+import config from '../../common/config';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+
+export enum OrderStatus {
+  PLACED = 'placed',
+}
+
+@Entity('orders')
+export class Order {
+  @ApiProperty({ description: 'Order ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'ID of the cart the order was created from' })
+  @Column({ type: 'varchar' })
+  cart_id: string;
+
+  @ApiProperty({
+    description: 'ID of the customer who placed the order, unset for guest orders',
+    required: false,
+  })
+  @Column({ type: 'varchar', nullable: true })
+  customer_id?: string;
+
+  @ApiProperty({ description: 'Order status', enum: OrderStatus })
+  @Column({ type: 'varchar', length: 20, default: OrderStatus.PLACED })
+  status: OrderStatus;
+
+  @ApiProperty({ description: 'ISO 4217 code of the currency the order is priced in' })
+  @Column({ type: 'varchar', length: 3, default: config.currency.base })
+  currency: string;
+
+  @ApiProperty({ description: 'Total number of units ordered' })
+  @Column({ type: 'integer' })
+  total_items: number;
+
+  @ApiProperty({ description: 'Total price before discounts' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
+  total_original_price: number;
+
+  @ApiProperty({ description: 'Total savings from discounts' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
+  total_savings: number;
+
+  @ApiProperty({ description: 'Total price after discounts' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
+  total_price: number;
+
+  @ApiProperty({ description: 'Promo code redeemed on the order', required: false })
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  coupon_code?: string;
+
+  @ApiProperty({ description: 'Discount from the redeemed coupon' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer, default: 0 })
+  coupon_discount: number;
+
+  @ApiProperty({ description: 'Destination region the tax was calculated for', required: false })
+  @Column({ type: 'varchar', length: 10, nullable: true })
+  tax_region?: string;
+
+  @ApiProperty({ description: 'Destination postcode the tax was calculated for', required: false })
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  tax_postcode?: string;
+
+  @ApiProperty({ description: 'Total tax, including tax already contained in the prices' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer, default: 0 })
+  total_tax: number;
+
+  @ApiProperty({ description: 'Name of the shipping method chosen on the cart', required: false })
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  shipping_method?: string;
+
+  @ApiProperty({ description: 'Shipping cost of the chosen method' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer, default: 0 })
+  shipping_cost: number;
+
+  @ApiProperty({ description: 'Amount payable after coupon discount, tax and shipping' })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
+  grand_total: number;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Ordered lines', type: () => [OrderLine] })
+  @OneToMany(() => OrderLine, (line) => line.order, { cascade: true })
+  lines: OrderLine[];
+}
@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { OrdersController } from './orders.controller';
+import { CheckoutController } from './checkout.controller';
+import { OrdersService } from './orders.service';
+import { CartService } from '../cart/cart.service';
+import { ROLES_KEY } from '../auth/guards/roles.guard';
+import { Role } from '../users/entities/user.entity';
+import { JwtPayload, TokenType } from '../auth/auth.service';
+
+describe('OrdersController', () => {
+  let ordersController: OrdersController;
+  let checkoutController: CheckoutController;
+  let service: OrdersService;
+
+  const cartId = '789e0123-e89b-12d3-a456-426614174002';
+  const mockOrder = {
+    id: '321e4567-e89b-12d3-a456-426614174003',
+    cart_id: cartId,
+    total_price: 199.98,
+    lines: [],
+  };
+
+  const mockOrdersService = {
+    checkout: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [OrdersController, CheckoutController],
+      providers: [
+        {
+          provide: OrdersService,
+          useValue: mockOrdersService,
+        },
+        {
+          provide: CartService,
+          useValue: {},
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    ordersController = module.get<OrdersController>(OrdersController);
+    checkoutController = module.get<CheckoutController>(CheckoutController);
+    service = module.get<OrdersService>(OrdersService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('checkout', () => {
+    it('should place an order for the cart', async () => {
+      mockOrdersService.checkout.mockResolvedValue(mockOrder);
+
+      const result = await checkoutController.checkout(cartId, { region: 'US-CA' });
+
+      expect(service.checkout).toHaveBeenCalledWith(cartId, { region: 'US-CA' });
+      expect(result).toEqual(mockOrder);
+    });
+  });
+
+  describe('findOne', () => {
+    it('should return an order to the signed-in user', async () => {
+      const user: JwtPayload = {
+        sub: 'user-id',
+        email: 'ada@x.io',
+        role: Role.CUSTOMER,
+        type: TokenType.ACCESS,
+      };
+      mockOrdersService.findOne.mockResolvedValue(mockOrder);
+
+      const result = await ordersController.findOne(mockOrder.id, user);
+
+      expect(service.findOne).toHaveBeenCalledWith(mockOrder.id, user);
+      expect(result).toEqual(mockOrder);
+    });
+  });
+
+  describe('access control', () => {
+    it('should require a signed-in user to read an order', () => {
+      expect(Reflect.getMetadata(ROLES_KEY, OrdersController.prototype.findOne)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { OrdersService } from './orders.service';
+import { Order } from './entities/order.entity';
+import { ParseUUIDPipe } from '../common/pipes/parse-uuid.pipe';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+
+@ApiTags('orders')
+@Controller('orders')
+export class OrdersController {
+  constructor(private readonly ordersService: OrdersService) {}
+
+  @Get(':id')
+  @Roles()
+  @ApiOperation({ summary: 'Get an order by ID, for admins or the customer who placed it' })
+  @ApiParam({ name: 'id', description: 'Order ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Order retrieved successfully',
+    type: Order,
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<Order> {
+    return await this.ordersService.findOne(id, user);
+  }
+}
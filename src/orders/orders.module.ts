@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OrdersService } from './orders.service';
+import { OrdersController } from './orders.controller';
+import { CheckoutController } from './checkout.controller';
+import { Order } from './entities/order.entity';
+import { OrderLine } from './entities/order-line.entity';
+import { CartModule } from '../cart/cart.module';
+import { ProductsModule } from '../products/products.module';
+import { ReservationsModule } from '../reservations/reservations.module';
+import { CouponsModule } from '../coupons/coupons.module';
+import { CurrenciesModule } from '../currencies/currencies.module';
+import { TaxesModule } from '../taxes/taxes.module';
+import { MailModule } from '../mail/mail.module';
+import { StockAlertsModule } from '../stock-alerts/stock-alerts.module';
+import { InventoryModule } from '../inventory/inventory.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Order, OrderLine]),
+    CartModule,
+    ProductsModule,
+    ReservationsModule,
+    CouponsModule,
+    CurrenciesModule,
+    TaxesModule,
+    MailModule,
+    StockAlertsModule,
+    InventoryModule,
+  ],
+  controllers: [OrdersController, CheckoutController],
+  providers: [OrdersService],
+  exports: [OrdersService],
+})
+export class OrdersModule {}
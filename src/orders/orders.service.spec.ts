@@ -0,0 +1,652 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { OrdersService } from './orders.service';
+import { Order } from './entities/order.entity';
+import { OrderLine } from './entities/order-line.entity';
+import { CartService } from '../cart/cart.service';
+import { ProductsService } from '../products/products.service';
+import { ReservationsService } from '../reservations/reservations.service';
+import { CouponsService } from '../coupons/coupons.service';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { CurrencyConverter } from '../currencies/currency-converter';
+import { TaxesService } from '../taxes/taxes.service';
+import { MailService } from '../mail/mail.service';
+import { StockAlertsService } from '../stock-alerts/stock-alerts.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { StockMovementType } from '../inventory/entities/stock-movement.entity';
+import { TaxCalculator } from '../taxes/tax-calculator';
+import { Product } from '../products/entities/product.entity';
+import { ProductVariant } from '../products/entities/product-variant.entity';
+import { Cart } from '../cart/entities/cart.entity';
+import { CartItem } from '../cart/entities/cart-item.entity';
+import { Customer } from '../customers/entities/customer.entity';
+import { Role } from '../users/entities/user.entity';
+import { JwtPayload, TokenType } from '../auth/auth.service';
+
+describe('OrdersService', () => {
+  let service: OrdersService;
+
+  const cartId = '789e0123-e89b-12d3-a456-426614174002';
+
+  const createMockProduct = (overrides: Partial<Product> = {}): Product => {
+    const product = new Product();
+    Object.assign(product, {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'Test Product',
+      description: 'Test Description',
+      price: 100,
+      currency: 'USD',
+      stock_quantity: 10,
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01'),
+      ...overrides,
+    });
+    return product;
+  };
+
+  const mockCart = { id: cartId, expires_at: new Date(Date.now() + 3600000) };
+
+  const mockCartItem = {
+    id: '456e7890-e89b-12d3-a456-426614174001',
+    cart_id: cartId,
+    product_id: '123e4567-e89b-12d3-a456-426614174000',
+    quantity: 2,
+    created_at: new Date(),
+    product: createMockProduct(),
+  };
+
+  const mockPricedCart = {
+    id: cartId,
+    currency: 'USD',
+    expires_at: mockCart.expires_at,
+    items: [
+      {
+        id: mockCartItem.id,
+        product_id: mockCartItem.product_id,
+        quantity: 2,
+        created_at: mockCartItem.created_at,
+        product: {
+          id: mockCartItem.product_id,
+          name: 'Test Product',
+          description: 'Test Description',
+          originalPrice: 100,
+          effectivePrice: 80,
+          discountAmount: 20,
+          isDiscountActive: true,
+          stock_quantity: 10,
+        },
+        priceTier: null,
+        unitPrice: 80,
+        lineTotal: 160,
+        lineSavings: 40,
+        taxRate: 20,
+        taxAmount: 32,
+        priceIncludesTax: false,
+      },
+    ],
+    totalItems: 2,
+    totalPrice: 160,
+    totalOriginalPrice: 200,
+    totalSavings: 40,
+    uniqueProducts: 1,
+    coupon: null,
+    couponDiscount: 0,
+    totalTax: 32,
+    shipping: null,
+    shippingCost: 0,
+    grandTotal: 192,
+  };
+
+  const mockManager = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    decrement: jest.fn(),
+    create: jest.fn((_entity, data) => ({ ...data })),
+    save: jest.fn(async (entity) => ({ id: 'order-id', ...entity })),
+    delete: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockCustomerRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn((work) => work(mockManager)),
+    getRepository: jest.fn(() => mockCustomerRepository),
+  };
+
+  const mockOrderRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockCartService = {
+    findCart: jest.fn(),
+    priceCart: jest.fn(),
+    invalidateCartCache: jest.fn(),
+  };
+
+  const mockProductsService = {
+    invalidateProductCache: jest.fn(),
+  };
+
+  const mockReservationsService = {
+    getReservedQuantity: jest.fn(),
+    getReservedVariantQuantity: jest.fn(),
+    release: jest.fn(),
+  };
+
+  const mockCouponsService = {
+    assertRedeemable: jest.fn(),
+    recordRedemption: jest.fn(),
+  };
+
+  const baseConverter = new CurrencyConverter('USD', 'USD', new Map());
+
+  const mockCurrenciesService = {
+    getConverter: jest.fn(() => Promise.resolve(baseConverter)),
+  };
+
+  const taxCalculator = new TaxCalculator({ region: 'GB' }, []);
+
+  const mockTaxesService = {
+    getCalculator: jest.fn(() => Promise.resolve(taxCalculator)),
+  };
+
+  const mockMailService = {
+    sendOrderConfirmation: jest.fn(),
+  };
+
+  const mockStockAlertsService = {
+    onStockChanged: jest.fn(),
+  };
+
+  const mockInventoryService = {
+    record: jest.fn(),
+    allocate: jest.fn(),
+  };
+
+  const unassignedAllocation = { warehouse_id: null, warehouse_code: null, quantity: 2 };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrdersService,
+        {
+          provide: getRepositoryToken(Order),
+          useValue: mockOrderRepository,
+        },
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+        {
+          provide: CartService,
+          useValue: mockCartService,
+        },
+        {
+          provide: ProductsService,
+          useValue: mockProductsService,
+        },
+        {
+          provide: ReservationsService,
+          useValue: mockReservationsService,
+        },
+        {
+          provide: CouponsService,
+          useValue: mockCouponsService,
+        },
+        {
+          provide: CurrenciesService,
+          useValue: mockCurrenciesService,
+        },
+        {
+          provide: TaxesService,
+          useValue: mockTaxesService,
+        },
+        {
+          provide: MailService,
+          useValue: mockMailService,
+        },
+        {
+          provide: StockAlertsService,
+          useValue: mockStockAlertsService,
+        },
+        {
+          provide: InventoryService,
+          useValue: mockInventoryService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrdersService>(OrdersService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('checkout', () => {
+    beforeEach(() => {
+      mockCartService.findCart.mockResolvedValue(mockCart);
+      mockCartService.priceCart.mockReturnValue(mockPricedCart);
+      mockManager.find.mockResolvedValue([mockCartItem]);
+      mockReservationsService.getReservedQuantity.mockResolvedValue(0);
+      mockInventoryService.allocate.mockResolvedValue([unassignedAllocation]);
+    });
+
+    it('should snapshot cart pricing into an order and empty the cart', async () => {
+      mockManager.decrement.mockResolvedValue({ affected: 1 });
+
+      const result = await service.checkout(cartId, { region: 'GB' });
+
+      expect(mockCurrenciesService.getConverter).toHaveBeenCalledWith();
+      expect(mockTaxesService.getCalculator).toHaveBeenCalledWith({ region: 'GB' });
+      expect(mockCartService.priceCart).toHaveBeenCalledWith(
+        mockCart,
+        [mockCartItem],
+        baseConverter,
+        taxCalculator,
+      );
+      expect(mockManager.create).toHaveBeenCalledWith(OrderLine, {
+        product_id: mockCartItem.product_id,
+        product_name: 'Test Product',
+        quantity: 2,
+        original_price: 100,
+        effective_price: 80,
+        discount_amount: 20,
+        tier_discount_percentage: undefined,
+        unit_price: 80,
+        line_total: 160,
+        line_savings: 40,
+        tax_rate: 20,
+        tax_amount: 32,
+        price_includes_tax: false,
+        allocations: [unassignedAllocation],
+      });
+      expect(result.currency).toBe('USD');
+      expect(result.total_price).toBe(160);
+      expect(result.total_savings).toBe(40);
+      expect(result.tax_region).toBe('GB');
+      expect(result.total_tax).toBe(32);
+      expect(result.grand_total).toBe(192);
+      expect(result.lines).toHaveLength(1);
+      expect(mockManager.delete).toHaveBeenCalledWith(CartItem, { cart_id: cartId });
+      expect(mockReservationsService.release).toHaveBeenCalledWith(cartId, undefined, mockManager);
+      // No email to confirm to on a guest cart
+      expect(mockMailService.sendOrderConfirmation).not.toHaveBeenCalled();
+    });
+
+    it("should keep the cart's customer on the order", async () => {
+      mockCartService.findCart.mockResolvedValue({ ...mockCart, customer_id: 'customer-id' });
+      mockManager.decrement.mockResolvedValue({ affected: 1 });
+
+      const result = await service.checkout(cartId);
+
+      expect(result.customer_id).toBe('customer-id');
+    });
+
+    it('should email a confirmation once the order is placed', async () => {
+      mockCartService.findCart.mockResolvedValue({
+        ...mockCart,
+        customer_email: 'jane@example.com',
+      });
+      mockManager.decrement.mockResolvedValue({ affected: 1 });
+
+      const result = await service.checkout(cartId);
+
+      expect(mockMailService.sendOrderConfirmation).toHaveBeenCalledWith(
+        result,
+        'jane@example.com',
+      );
+    });
+
+    it('should not email a confirmation when checkout fails', async () => {
+      mockCartService.findCart.mockResolvedValue({
+        ...mockCart,
+        customer_email: 'jane@example.com',
+      });
+      mockManager.decrement.mockResolvedValue({ affected: 0 });
+      mockManager.findOne.mockResolvedValue(createMockProduct({ stock_quantity: 1 }));
+
+      await expect(service.checkout(cartId)).rejects.toThrow('Insufficient stock');
+      expect(mockMailService.sendOrderConfirmation).not.toHaveBeenCalled();
+    });
+
+    it('should decrement stock for each line', async () => {
+      mockManager.decrement.mockResolvedValue({ affected: 1 });
+
+      await service.checkout(cartId);
+
+      expect(mockManager.decrement).toHaveBeenCalledWith(
+        Product,
+        { id: mockCartItem.product_id, stock_quantity: expect.any(Object) },
+        'stock_quantity',
+        2,
+      );
+      expect(mockProductsService.invalidateProductCache).toHaveBeenCalledWith(
+        mockCartItem.product_id,
+      );
+      expect(mockCartService.invalidateCartCache).toHaveBeenCalledWith(cartId);
+    });
+
+    it('should allocate each line to warehouses for the destination', async () => {
+      mockManager.decrement.mockResolvedValue({ affected: 1 });
+
+      await service.checkout(cartId, { region: 'US-NY' });
+
+      expect(mockInventoryService.allocate).toHaveBeenCalledWith(
+        mockCartItem.product_id,
+        2,
+        'US-NY',
+        mockManager,
+      );
+    });
+
+    it('should record a sale in the stock ledger for each allocation', async () => {
+      mockCartService.findCart.mockResolvedValue({
+        ...mockCart,
+        customer_email: 'jane@example.com',
+      });
+      mockManager.decrement.mockResolvedValue({ affected: 1 });
+      mockInventoryService.allocate.mockResolvedValue([
+        { warehouse_id: 'east-id', warehouse_code: 'EAST', quantity: 1 },
+        { warehouse_id: null, warehouse_code: null, quantity: 1 },
+      ]);
+
+      const result = await service.checkout(cartId);
+
+      expect(mockInventoryService.record).toHaveBeenCalledTimes(2);
+      expect(mockInventoryService.record).toHaveBeenCalledWith(
+        mockCartItem.product_id,
+        {
+          type: StockMovementType.SALE,
+          quantity: -1,
+          warehouse_id: 'east-id',
+          actor: 'jane@example.com',
+          reference: result.id,
+        },
+        mockManager,
+      );
+      expect(mockInventoryService.record).toHaveBeenCalledWith(
+        mockCartItem.product_id,
+        {
+          type: StockMovementType.SALE,
+          quantity: -1,
+          warehouse_id: undefined,
+          actor: 'jane@example.com',
+          reference: result.id,
+        },
+        mockManager,
+      );
+    });
+
+    it('should report the stock change of each line once committed', async () => {
+      const remaining = createMockProduct({ stock_quantity: 3 });
+      mockManager.decrement.mockResolvedValue({ affected: 1 });
+      mockManager.findOne.mockResolvedValue(remaining);
+
+      await service.checkout(cartId);
+
+      expect(mockStockAlertsService.onStockChanged).toHaveBeenCalledWith(remaining, 5);
+    });
+
+    it('should not report stock changes when checkout fails', async () => {
+      mockManager.decrement.mockResolvedValue({ affected: 0 });
+      mockManager.findOne.mockResolvedValue(createMockProduct({ stock_quantity: 1 }));
+
+      await expect(service.checkout(cartId)).rejects.toThrow('Insufficient stock');
+      expect(mockStockAlertsService.onStockChanged).not.toHaveBeenCalled();
+    });
+
+    it('should fail the whole checkout when a line lacks stock', async () => {
+      mockManager.decrement.mockResolvedValue({ affected: 0 });
+      mockManager.findOne.mockResolvedValue(createMockProduct({ stock_quantity: 1 }));
+
+      await expect(service.checkout(cartId)).rejects.toThrow(
+        'Insufficient stock for Test Product. Available: 1, Requested: 2',
+      );
+      expect(mockManager.save).not.toHaveBeenCalled();
+      expect(mockManager.delete).not.toHaveBeenCalled();
+      expect(mockCartService.invalidateCartCache).not.toHaveBeenCalled();
+    });
+
+    it('should leave stock held by other carts untouched', async () => {
+      mockReservationsService.getReservedQuantity.mockResolvedValue(9);
+      mockManager.decrement.mockResolvedValue({ affected: 0 });
+      mockManager.findOne.mockResolvedValue(createMockProduct({ stock_quantity: 10 }));
+
+      await expect(service.checkout(cartId)).rejects.toThrow('Available: 1, Requested: 2');
+      expect(mockReservationsService.getReservedQuantity).toHaveBeenCalledWith(
+        mockCartItem.product_id,
+        cartId,
+        mockManager,
+      );
+    });
+
+    describe('variant lines', () => {
+      const variantId = 'abc00000-e89b-12d3-a456-426614174009';
+      const variantItem = {
+        ...mockCartItem,
+        variant_id: variantId,
+        variant: { id: variantId, sku: 'TEST-L' },
+      };
+
+      beforeEach(() => {
+        mockManager.find.mockResolvedValue([variantItem]);
+        mockCartService.priceCart.mockReturnValue({
+          ...mockPricedCart,
+          items: [
+            {
+              ...mockPricedCart.items[0],
+              variant_id: variantId,
+              variant: { id: variantId, sku: 'TEST-L', options: { size: 'L' } },
+            },
+          ],
+        });
+        mockReservationsService.getReservedVariantQuantity.mockResolvedValue(0);
+      });
+
+      it('should take the line off the variant stock and snapshot its SKU', async () => {
+        mockManager.decrement.mockResolvedValue({ affected: 1 });
+
+        await service.checkout(cartId);
+
+        expect(mockManager.decrement).toHaveBeenCalledWith(
+          ProductVariant,
+          { id: variantId, stock_quantity: expect.any(Object) },
+          'stock_quantity',
+          2,
+        );
+        expect(mockManager.create).toHaveBeenCalledWith(
+          OrderLine,
+          expect.objectContaining({ variant_id: variantId, sku: 'TEST-L' }),
+        );
+        expect(mockInventoryService.record).toHaveBeenCalledWith(
+          mockCartItem.product_id,
+          expect.objectContaining({ type: StockMovementType.SALE, variant_id: variantId }),
+          mockManager,
+        );
+      });
+
+      it('should fail checkout when the variant lacks stock', async () => {
+        mockReservationsService.getReservedVariantQuantity.mockResolvedValue(3);
+        mockManager.decrement
+          .mockResolvedValueOnce({ affected: 1 })
+          .mockResolvedValueOnce({ affected: 0 });
+        mockManager.findOne.mockResolvedValue({ id: variantId, sku: 'TEST-L', stock_quantity: 4 });
+
+        await expect(service.checkout(cartId)).rejects.toThrow(
+          'Insufficient stock for Test Product TEST-L. Available: 1, Requested: 2',
+        );
+        expect(mockReservationsService.getReservedVariantQuantity).toHaveBeenCalledWith(
+          variantId,
+          cartId,
+          mockManager,
+        );
+        expect(mockManager.save).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should redeem the cart coupon with the order', async () => {
+      const coupon = { id: 'coupon-id', code: 'SAVE10' };
+      const cartWithCoupon = { ...mockCart, coupon, customer_email: 'jane@example.com' };
+      mockCartService.findCart.mockResolvedValue(cartWithCoupon);
+      mockCartService.priceCart.mockReturnValue({
+        ...mockPricedCart,
+        couponDiscount: 16,
+        grandTotal: 144,
+      });
+      mockManager.decrement.mockResolvedValue({ affected: 1 });
+
+      const result = await service.checkout(cartId);
+
+      expect(mockCouponsService.assertRedeemable).toHaveBeenCalledWith(
+        coupon,
+        mockPricedCart.items,
+        'jane@example.com',
+        mockManager,
+      );
+      expect(mockCouponsService.recordRedemption).toHaveBeenCalledWith(
+        coupon,
+        'order-id',
+        16,
+        'jane@example.com',
+        mockManager,
+      );
+      expect(mockManager.update).toHaveBeenCalledWith(Cart, { id: cartId }, { coupon_id: null });
+      expect(result.coupon_code).toBe('SAVE10');
+      expect(result.coupon_discount).toBe(16);
+      expect(result.grand_total).toBe(144);
+    });
+
+    it('should fail checkout when the coupon no longer applies', async () => {
+      mockCartService.findCart.mockResolvedValue({ ...mockCart, coupon: { id: 'coupon-id' } });
+      mockCouponsService.assertRedeemable.mockRejectedValueOnce(
+        new BadRequestException('Coupon has expired'),
+      );
+
+      await expect(service.checkout(cartId)).rejects.toThrow('Coupon has expired');
+      expect(mockManager.decrement).not.toHaveBeenCalled();
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should snapshot the chosen shipping method', async () => {
+      const shippingMethod = { id: 'method-id', name: 'Standard delivery' };
+      mockCartService.findCart.mockResolvedValue({ ...mockCart, shipping_method: shippingMethod });
+      mockCartService.priceCart.mockReturnValue({
+        ...mockPricedCart,
+        shipping: { ...shippingMethod, cost: 9.99, available: true },
+        shippingCost: 9.99,
+        grandTotal: 201.99,
+      });
+      mockManager.decrement.mockResolvedValue({ affected: 1 });
+
+      const result = await service.checkout(cartId);
+
+      expect(result.shipping_method).toBe('Standard delivery');
+      expect(result.shipping_cost).toBe(9.99);
+      expect(result.grand_total).toBe(201.99);
+      expect(mockManager.update).toHaveBeenCalledWith(
+        Cart,
+        { id: cartId },
+        { shipping_method_id: null },
+      );
+    });
+
+    it('should fail checkout when the shipping method can no longer ship the cart', async () => {
+      mockCartService.priceCart.mockReturnValue({
+        ...mockPricedCart,
+        shipping: { available: false, cost: 0, message: 'Cart weighs more than 2 kg' },
+      });
+
+      await expect(service.checkout(cartId)).rejects.toThrow('Cart weighs more than 2 kg');
+      expect(mockManager.decrement).not.toHaveBeenCalled();
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject an empty cart', async () => {
+      mockManager.find.mockResolvedValue([]);
+
+      await expect(service.checkout(cartId)).rejects.toThrow(BadRequestException);
+      expect(mockManager.decrement).not.toHaveBeenCalled();
+    });
+
+    it('should propagate NotFoundException for unknown carts', async () => {
+      mockCartService.findCart.mockRejectedValue(new NotFoundException());
+
+      await expect(service.checkout(cartId)).rejects.toThrow(NotFoundException);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOne', () => {
+    const admin: JwtPayload = {
+      sub: 'admin-id',
+      email: 'admin@x.io',
+      role: Role.ADMIN,
+      type: TokenType.ACCESS,
+    };
+    const customer: JwtPayload = {
+      sub: 'user-id',
+      email: 'ada@x.io',
+      role: Role.CUSTOMER,
+      type: TokenType.ACCESS,
+    };
+
+    it('should return an order with its lines to an admin', async () => {
+      const order = { id: 'order-id', cart_id: cartId, lines: [] };
+      mockOrderRepository.findOne.mockResolvedValue(order);
+
+      const result = await service.findOne('order-id', admin);
+
+      expect(mockOrderRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'order-id' },
+        relations: ['lines'],
+      });
+      expect(result).toBe(order);
+      expect(mockCustomerRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should return an order to the customer who placed it', async () => {
+      const order = { id: 'order-id', cart_id: cartId, customer_id: 'customer-id', lines: [] };
+      mockOrderRepository.findOne.mockResolvedValue(order);
+      mockCustomerRepository.findOne.mockResolvedValue({ id: 'customer-id', user_id: 'user-id' });
+
+      const result = await service.findOne('order-id', customer);
+
+      expect(mockDataSource.getRepository).toHaveBeenCalledWith(Customer);
+      expect(mockCustomerRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'customer-id' },
+      });
+      expect(result).toBe(order);
+    });
+
+    it("should hide other customers' orders", async () => {
+      mockOrderRepository.findOne.mockResolvedValue({
+        id: 'order-id',
+        cart_id: cartId,
+        customer_id: 'customer-id',
+        lines: [],
+      });
+      mockCustomerRepository.findOne.mockResolvedValue({ id: 'customer-id', user_id: 'other' });
+
+      await expect(service.findOne('order-id', customer)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should hide guest orders from customers', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({ id: 'order-id', cart_id: cartId, lines: [] });
+
+      await expect(service.findOne('order-id', customer)).rejects.toThrow(NotFoundException);
+      expect(mockCustomerRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when order not found', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne('missing', admin)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
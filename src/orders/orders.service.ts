@@ -0,0 +1,290 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, MoreThanOrEqual, Repository } from 'typeorm';
+import { Order } from './entities/order.entity';
+import { OrderLine } from './entities/order-line.entity';
+import { Cart } from '../cart/entities/cart.entity';
+import { Customer } from '../customers/entities/customer.entity';
+import { CartItem } from '../cart/entities/cart-item.entity';
+import { Product } from '../products/entities/product.entity';
+import { ProductVariant } from '../products/entities/product-variant.entity';
+import { CartService } from '../cart/cart.service';
+import { ProductsService } from '../products/products.service';
+import { ReservationsService } from '../reservations/reservations.service';
+import { CouponsService } from '../coupons/coupons.service';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { TaxesService } from '../taxes/taxes.service';
+import { TaxDestinationDto } from '../taxes/dto/tax-destination.dto';
+import { MailService } from '../mail/mail.service';
+import { StockAlertsService } from '../stock-alerts/stock-alerts.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { StockMovementType } from '../inventory/entities/stock-movement.entity';
+import { StockAllocation } from '../inventory/stock-allocation';
+import { JwtPayload } from '../auth/auth.service';
+import { Role } from '../users/entities/user.entity';
+
+@Injectable()
+export class OrdersService {
+  constructor(
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    private readonly dataSource: DataSource,
+    private readonly cartService: CartService,
+    private readonly productsService: ProductsService,
+    private readonly reservationsService: ReservationsService,
+    private readonly couponsService: CouponsService,
+    private readonly currenciesService: CurrenciesService,
+    private readonly taxesService: TaxesService,
+    private readonly mailService: MailService,
+    private readonly stockAlertsService: StockAlertsService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  async checkout(cartId: string, destination: TaxDestinationDto = {}): Promise<Order> {
+    const cart = await this.cartService.findCart(cartId);
+
+    // Orders are always placed in the base currency
+    const converter = await this.currenciesService.getConverter();
+    const taxes = await this.taxesService.getCalculator(destination);
+
+    const stockChanges: { product: Product; previousQuantity: number }[] = [];
+    const allocations = new Map<string, StockAllocation[]>();
+
+    // Stock decrement, order creation and cart emptying succeed or fail together
+    const order = await this.dataSource.transaction(async (manager) => {
+      const cartItems = await manager.find(CartItem, {
+        where: { cart_id: cartId },
+        relations: ['product'],
+        order: { created_at: 'DESC' },
+      });
+
+      if (cartItems.length === 0) {
+        throw new BadRequestException('Cannot checkout an empty cart');
+      }
+
+      const pricedCart = this.cartService.priceCart(cart, cartItems, converter, taxes);
+
+      // A coupon that no longer applies fails the checkout rather than being silently dropped
+      if (cart.coupon) {
+        await this.couponsService.assertRedeemable(
+          cart.coupon,
+          pricedCart.items,
+          cart.customer_email,
+          manager,
+        );
+      }
+
+      // Likewise a shipping method that can no longer ship the cart
+      if (pricedCart.shipping && !pricedCart.shipping.available) {
+        throw new BadRequestException(pricedCart.shipping.message);
+      }
+
+      for (const item of cartItems) {
+        // Stock held by other carts is off limits, even if this cart's own hold has lapsed
+        const reservedByOthers = await this.reservationsService.getReservedQuantity(
+          item.product_id,
+          cartId,
+          manager,
+        );
+
+        // Conditional decrement so a concurrent checkout can't drive stock negative
+        const result = await manager.decrement(
+          Product,
+          {
+            id: item.product_id,
+            stock_quantity: MoreThanOrEqual(item.quantity + reservedByOthers),
+          },
+          'stock_quantity',
+          item.quantity,
+        );
+
+        if (!result.affected) {
+          const product = await manager.findOne(Product, { where: { id: item.product_id } });
+          const available = Math.max((product?.stock_quantity ?? 0) - reservedByOthers, 0);
+          throw new BadRequestException(
+            `Insufficient stock for ${item.product.name}. Available: ${available}, Requested: ${item.quantity}`,
+          );
+        }
+
+        if (item.variant_id) {
+          await this.decrementVariant(item, cartId, manager);
+        }
+
+        allocations.set(
+          item.id,
+          await this.inventoryService.allocate(
+            item.product_id,
+            item.quantity,
+            destination.region,
+            manager,
+          ),
+        );
+
+        const updated = await manager.findOne(Product, { where: { id: item.product_id } });
+        if (updated) {
+          stockChanges.push({
+            product: updated,
+            previousQuantity: updated.stock_quantity + item.quantity,
+          });
+        }
+      }
+
+      const lines = pricedCart.items.map((item) =>
+        manager.create(OrderLine, {
+          product_id: item.product_id,
+          product_name: item.product.name,
+          quantity: item.quantity,
+          original_price: item.product.originalPrice,
+          effective_price: item.product.effectivePrice,
+          discount_amount: item.product.discountAmount,
+          tier_discount_percentage: item.priceTier?.discount_percentage,
+          unit_price: item.unitPrice,
+          line_total: item.lineTotal,
+          line_savings: item.lineSavings,
+          tax_rate: item.taxRate,
+          tax_amount: item.taxAmount,
+          price_includes_tax: item.priceIncludesTax,
+          variant_id: item.variant_id,
+          sku: item.variant?.sku,
+          allocations: allocations.get(item.id),
+        }),
+      );
+
+      const newOrder = manager.create(Order, {
+        cart_id: cartId,
+        // Kept on the order, since the cart is deleted once it expires
+        customer_id: cart.customer_id,
+        currency: pricedCart.currency,
+        total_items: pricedCart.totalItems,
+        total_original_price: pricedCart.totalOriginalPrice,
+        total_savings: pricedCart.totalSavings,
+        total_price: pricedCart.totalPrice,
+        coupon_code: cart.coupon?.code,
+        coupon_discount: pricedCart.couponDiscount,
+        tax_region: destination.region,
+        tax_postcode: destination.postcode,
+        total_tax: pricedCart.totalTax,
+        shipping_method: cart.shipping_method?.name,
+        shipping_cost: pricedCart.shippingCost,
+        grand_total: pricedCart.grandTotal,
+        lines,
+      });
+      const savedOrder = await manager.save(newOrder);
+
+      for (const item of cartItems) {
+        for (const allocation of allocations.get(item.id) ?? []) {
+          await this.inventoryService.record(
+            item.product_id,
+            {
+              type: StockMovementType.SALE,
+              quantity: -allocation.quantity,
+              warehouse_id: allocation.warehouse_id ?? undefined,
+              variant_id: item.variant_id ?? undefined,
+              actor: cart.customer_email,
+              reference: savedOrder.id,
+            },
+            manager,
+          );
+        }
+      }
+
+      if (cart.coupon) {
+        await this.couponsService.recordRedemption(
+          cart.coupon,
+          savedOrder.id,
+          pricedCart.couponDiscount,
+          cart.customer_email,
+          manager,
+        );
+        await manager.update(Cart, { id: cartId }, { coupon_id: null });
+      }
+      if (cart.shipping_method) {
+        await manager.update(Cart, { id: cartId }, { shipping_method_id: null });
+      }
+
+      await manager.delete(CartItem, { cart_id: cartId });
+      await this.reservationsService.release(cartId, undefined, manager);
+
+      return savedOrder;
+    });
+
+    // Invalidate caches only once the transaction has committed
+    await this.cartService.invalidateCartCache(cartId);
+    for (const line of order.lines) {
+      await this.productsService.invalidateProductCache(line.product_id);
+    }
+
+    // Queued only once committed, so a failed checkout never sends a confirmation
+    if (cart.customer_email) {
+      await this.mailService.sendOrderConfirmation(order, cart.customer_email);
+    }
+
+    for (const { product, previousQuantity } of stockChanges) {
+      await this.stockAlertsService.onStockChanged(product, previousQuantity);
+    }
+
+    return order;
+  }
+
+  /**
+   * Returns an order to an admin, or to the customer whose cart it was placed from
+   */
+  async findOne(id: string, user: JwtPayload): Promise<Order> {
+    const order = await this.orderRepository.findOne({
+      where: { id },
+      relations: ['lines'],
+    });
+    // Other customers' orders are reported as missing, so order IDs can't be probed
+    if (!order || !(await this.canRead(order, user))) {
+      throw new NotFoundException(`Order with ID ${id} not found`);
+    }
+    return order;
+  }
+
+  private async canRead(order: Order, user: JwtPayload): Promise<boolean> {
+    if (user.role === Role.ADMIN) {
+      return true;
+    }
+
+    // Guest orders have no owner to sign in as
+    if (!order.customer_id) {
+      return false;
+    }
+    const customer = await this.dataSource.getRepository(Customer).findOne({
+      where: { id: order.customer_id },
+    });
+    return customer?.user_id === user.sub;
+  }
+
+  /**
+   * Takes a variant line off the variant's own stock, guarded like the product decrement
+   */
+  private async decrementVariant(
+    item: CartItem,
+    cartId: string,
+    manager: EntityManager,
+  ): Promise<void> {
+    const reservedByOthers = await this.reservationsService.getReservedVariantQuantity(
+      item.variant_id,
+      cartId,
+      manager,
+    );
+    const result = await manager.decrement(
+      ProductVariant,
+      {
+        id: item.variant_id,
+        stock_quantity: MoreThanOrEqual(item.quantity + reservedByOthers),
+      },
+      'stock_quantity',
+      item.quantity,
+    );
+
+    if (!result.affected) {
+      const variant = await manager.findOne(ProductVariant, { where: { id: item.variant_id } });
+      const available = Math.max((variant?.stock_quantity ?? 0) - reservedByOthers, 0);
+      throw new BadRequestException(
+        `Insufficient stock for ${item.product.name} ${variant?.sku}. Available: ${available}, Requested: ${item.quantity}`,
+      );
+    }
+  }
+}
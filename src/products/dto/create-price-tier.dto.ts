@@ -0,0 +1,23 @@
+import { IsInt, IsNumber, Min, Max } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class CreatePriceTierDto {
+  @ApiProperty({ description: 'Minimum line quantity for the tier to apply', example: 10 })
+  @IsInt()
+  @Min(2, { message: 'min_quantity must be at least 2' })
+  @Type(() => Number)
+  min_quantity: number;
+
+  @ApiProperty({
+    description: 'Discount percentage (0-100) taken off the effective price',
+    example: 5,
+    minimum: 0,
+    maximum: 100,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0, { message: 'discount_percentage must be at least 0' })
+  @Max(100, { message: 'discount_percentage must not exceed 100' })
+  @Type(() => Number)
+  discount_percentage: number;
+}
@@ -0,0 +1,58 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsPositive,
+  IsUrl,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class CreateProductVariantDto {
+  @ApiProperty({
+    description: 'Stock keeping unit, unique across all variants',
+    example: 'TEE-M-RED',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  @Matches(/^[A-Z0-9._-]+$/, { message: 'sku may only contain letters, digits, ".", "_" and "-"' })
+  sku: string;
+
+  @ApiProperty({
+    description: 'Value of each option axis; every variant of a product uses the same axes',
+    example: { size: 'M', colour: 'Red' },
+  })
+  @IsObject()
+  options: Record<string, string>;
+
+  @ApiPropertyOptional({
+    description: 'Price in the product currency (defaults to the product price)',
+    example: 24.99,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  @Type(() => Number)
+  price?: number;
+
+  @ApiPropertyOptional({ description: 'Units in stock, recorded as a receipt', example: 10 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  stock_quantity?: number;
+
+  @ApiPropertyOptional({ description: 'Variant image URL' })
+  @IsOptional()
+  @IsUrl()
+  @MaxLength(500)
+  image_url?: string;
+}
@@ -2,15 +2,19 @@ import {
   IsString,
   IsNotEmpty,
   IsNumber,
+  IsInt,
   IsPositive,
   Min,
   Max,
   IsOptional,
   IsDateString,
   ValidateIf,
+  IsISO4217CurrencyCode,
+  MaxLength,
+  Matches,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { Type } from 'class-transformer';
+import { Type, Transform } from 'class-transformer';
 import { IsDateAfter } from './validators/date-range.validator';
 
 export class CreateProductDto {
@@ -19,6 +23,29 @@ export class CreateProductDto {
   @IsNotEmpty()
   name: string;
 
+  @ApiPropertyOptional({
+    description: 'Stock keeping unit, unique across all products (stored upper-case)',
+    example: 'IPHONE-15-128',
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  @Matches(/^[A-Z0-9._-]+$/, { message: 'sku may only contain letters, digits, ".", "_" and "-"' })
+  sku?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID of the product in an external system, unique across all products',
+    example: 'erp-100234',
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  external_id?: string;
+
   @ApiProperty({
     description: 'Product description',
     example: 'Latest iPhone with advanced features',
@@ -33,12 +60,69 @@ export class CreateProductDto {
   @Type(() => Number)
   price: number;
 
+  @ApiPropertyOptional({
+    description:
+      'ISO 4217 code of the currency the price is set in (defaults to the base currency)',
+    example: 'USD',
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiPropertyOptional({
+    description: 'Code of the tax class the product is taxed under (untaxed when omitted)',
+    example: 'standard',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  tax_class?: string;
+
   @ApiProperty({ description: 'Stock quantity', example: 50 })
   @IsNumber()
   @Min(0)
   @Type(() => Number)
   stock_quantity: number;
 
+  @ApiPropertyOptional({
+    description: 'Admins are emailed when stock drops below this level, 0 turns alerts off',
+    example: 5,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  reorder_threshold?: number;
+
+  @ApiPropertyOptional({ description: 'Shipping weight in kg', example: 1.2 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 3 })
+  @Min(0)
+  @Type(() => Number)
+  weight_kg?: number;
+
+  @ApiPropertyOptional({ description: 'Package length in cm', example: 30 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  length_cm?: number;
+
+  @ApiPropertyOptional({ description: 'Package width in cm', example: 20 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  width_cm?: number;
+
+  @ApiPropertyOptional({ description: 'Package height in cm', example: 10 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  height_cm?: number;
+
   // Note: Image file will be handled separately via multipart/form-data upload
 
   @ApiPropertyOptional({
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ProductDiscount } from '../entities/product-discount.entity';
+
+export class ProductDiscountHistoryDto {
+  @ApiProperty({
+    description: 'Windows that have ended, most recent first',
+    type: [ProductDiscount],
+  })
+  past: ProductDiscount[];
+
+  @ApiProperty({
+    description: 'Window covering the current date',
+    type: ProductDiscount,
+    nullable: true,
+  })
+  active: ProductDiscount | null;
+
+  @ApiProperty({ description: 'Scheduled windows, soonest first', type: [ProductDiscount] })
+  upcoming: ProductDiscount[];
+}
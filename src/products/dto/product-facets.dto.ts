@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class PriceBucketDto {
+  @ApiProperty({ description: 'Lowest price in the bucket', example: 25 })
+  min: number;
+
+  @ApiPropertyOptional({
+    description: 'Price the bucket stops below, absent for the last bucket',
+    example: 50,
+  })
+  max?: number;
+
+  @ApiProperty({ description: 'Number of matching products priced in the bucket', example: 12 })
+  count: number;
+}
+
+export class StockFacetDto {
+  @ApiProperty({ description: 'Matching products with stock', example: 40 })
+  in_stock: number;
+
+  @ApiProperty({ description: 'Matching products without stock', example: 3 })
+  out_of_stock: number;
+}
+
+export class SaleFacetDto {
+  @ApiProperty({ description: 'Matching products with a discount active now', example: 8 })
+  on_sale: number;
+
+  @ApiProperty({ description: 'Matching products at full price', example: 35 })
+  not_on_sale: number;
+}
+
+export class CategoryFacetDto {
+  @ApiProperty({ description: 'Category ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Category name', example: 'Shoes' })
+  name: string;
+
+  @ApiProperty({ description: 'Number of matching products assigned to the category', example: 5 })
+  count: number;
+}
+
+export class ProductFacetsDto {
+  @ApiProperty({ description: 'Price buckets, cheapest first', type: [PriceBucketDto] })
+  price: PriceBucketDto[];
+
+  @ApiProperty({ type: StockFacetDto })
+  stock: StockFacetDto;
+
+  @ApiProperty({ type: SaleFacetDto })
+  sale: SaleFacetDto;
+
+  @ApiProperty({
+    description: 'Categories the matching products are assigned to, most products first',
+    type: [CategoryFacetDto],
+  })
+  categories: CategoryFacetDto[];
+}
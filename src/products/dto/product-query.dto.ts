@@ -1,8 +1,32 @@
-import { IsOptional, IsString, IsNumber, Min } from 'class-validator';
+import {
+  IsOptional,
+  IsString,
+  IsNumber,
+  IsBoolean,
+  IsUUID,
+  IsEnum,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { Type } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
+import { CurrencyQueryDto } from '../../currencies/dto/currency-query.dto';
 
-export class ProductQueryDto {
+export enum ProductSort {
+  NEWEST = 'newest',
+  PRICE = 'price',
+  NAME = 'name',
+  DISCOUNT = 'discount',
+  STOCK = 'stock',
+}
+
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc',
+}
+
+export class ProductQueryDto extends CurrencyQueryDto {
   @ApiPropertyOptional({ description: 'Page number for pagination', example: 1 })
   @IsOptional()
   @IsNumber()
@@ -10,29 +34,105 @@ export class ProductQueryDto {
   @Type(() => Number)
   page?: number = 1;
 
-  @ApiPropertyOptional({ description: 'Number of items per page', example: 10 })
+  @ApiPropertyOptional({ description: 'Number of items per page', example: 10, maximum: 100 })
   @IsOptional()
   @IsNumber()
   @Min(1)
+  @Max(100)
   @Type(() => Number)
   limit?: number = 10;
 
+  @ApiPropertyOptional({
+    description:
+      'nextCursor or prevCursor of a previous page, sent with the same sort and order; replaces page',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  cursor?: string;
+
   @ApiPropertyOptional({ description: 'Filter by product name', example: 'iPhone' })
   @IsOptional()
   @IsString()
   name?: string;
 
-  @ApiPropertyOptional({ description: 'Minimum price filter', example: 100 })
+  @ApiPropertyOptional({
+    description: 'Minimum price before discounts, in the base currency',
+    example: 100,
+  })
   @IsOptional()
   @IsNumber()
   @Min(0)
   @Type(() => Number)
   minPrice?: number;
 
-  @ApiPropertyOptional({ description: 'Maximum price filter', example: 1000 })
+  @ApiPropertyOptional({
+    description: 'Maximum price before discounts, in the base currency',
+    example: 1000,
+  })
   @IsOptional()
   @IsNumber()
   @Min(0)
   @Type(() => Number)
   maxPrice?: number;
+
+  @ApiPropertyOptional({ description: 'Only products assigned to this category' })
+  @IsOptional()
+  @IsUUID()
+  category?: string;
+
+  @ApiPropertyOptional({
+    description: 'Also match products assigned to subcategories of the category',
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean()
+  includeDescendants?: boolean = false;
+
+  @ApiPropertyOptional({
+    description: 'true for products with stock, false for products without',
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean()
+  inStock?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'true for products with a discount active now, false for products at full price',
+  })
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean()
+  onSale?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Only products with a discount of at least this percentage active now',
+    example: 20,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @Type(() => Number)
+  discountMin?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'What to sort by: newest, price (after any active discount), name, discount (active percentage) or stock',
+    enum: ProductSort,
+    default: ProductSort.NEWEST,
+  })
+  @IsOptional()
+  @IsEnum(ProductSort)
+  sort?: ProductSort = ProductSort.NEWEST;
+
+  @ApiPropertyOptional({
+    description:
+      'Sort direction; defaults to asc for price and name and to desc for newest, discount and stock',
+    enum: SortOrder,
+  })
+  @IsOptional()
+  @IsEnum(SortOrder)
+  order?: SortOrder;
 }
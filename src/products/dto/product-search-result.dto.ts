@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ProductWithPricingDto } from './product-with-pricing.dto';
+
+export class ProductSearchHighlightsDto {
+  @ApiProperty({
+    description: 'HTML-escaped product name with matched words wrapped in <mark>',
+    example: '<mark>Running</mark> shoes',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'HTML-escaped excerpt of the description around the matched words',
+    example: '…lightweight trainers for road <mark>running</mark>…',
+  })
+  description: string;
+}
+
+export class ProductSearchHitDto extends ProductWithPricingDto {
+  @ApiProperty({ description: 'Relevance score, higher is a better match', example: 4.2 })
+  score: number;
+
+  @ApiProperty({ description: 'Matched words in context', type: ProductSearchHighlightsDto })
+  highlights: ProductSearchHighlightsDto;
+}
+
+export class ProductSearchResultDto {
+  @ApiProperty({ description: 'Matching products, best match first', type: [ProductSearchHitDto] })
+  products: ProductSearchHitDto[];
+
+  @ApiProperty({ description: 'Number of matching products' })
+  total: number;
+
+  @ApiProperty({ description: 'Page number' })
+  page: number;
+
+  @ApiProperty({ description: 'Results per page' })
+  limit: number;
+
+  @ApiProperty({
+    description: 'Misspelt words that were also matched as similar indexed words',
+    example: { runing: ['running'] },
+  })
+  corrections: Record<string, string[]>;
+}
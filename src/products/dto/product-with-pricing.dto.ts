@@ -1,5 +1,37 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { Product } from '../entities/product.entity';
+import { ProductVariant } from '../entities/product-variant.entity';
+import { CurrencyConverter } from '../../currencies/currency-converter';
+import { Money } from '../../common/utils/money';
+
+export class VariantWithPricingDto {
+  @ApiProperty({ description: 'Variant ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Stock keeping unit' })
+  sku: string;
+
+  @ApiProperty({ description: 'Value of each option axis', example: { size: 'M', colour: 'Red' } })
+  options: Record<string, string>;
+
+  @ApiProperty({ description: 'Variant price before discounts' })
+  originalPrice: number;
+
+  @ApiProperty({ description: 'Variant price after the product discount' })
+  effectivePrice: number;
+
+  @ApiProperty({ description: 'Discount amount in currency' })
+  discountAmount: number;
+
+  @ApiProperty({ description: 'Stock quantity of the variant' })
+  stock_quantity: number;
+
+  @ApiProperty({
+    description: 'Variant image URL, falling back to the product image',
+    required: false,
+  })
+  image_url?: string;
+}
 
 export class ProductWithPricingDto {
   @ApiProperty({ description: 'Product ID' })
@@ -8,9 +40,18 @@ export class ProductWithPricingDto {
   @ApiProperty({ description: 'Product name' })
   name: string;
 
+  @ApiProperty({ description: 'Stock keeping unit', required: false })
+  sku?: string;
+
+  @ApiProperty({ description: 'ID of the product in an external system', required: false })
+  external_id?: string;
+
   @ApiProperty({ description: 'Product description' })
   description: string;
 
+  @ApiProperty({ description: 'ISO 4217 code of the currency the prices are in', example: 'USD' })
+  currency: string;
+
   @ApiProperty({ description: 'Original product price' })
   originalPrice: number;
 
@@ -20,48 +61,203 @@ export class ProductWithPricingDto {
   @ApiProperty({ description: 'Discount amount in currency' })
   discountAmount: number;
 
-  @ApiProperty({ description: 'Stock quantity' })
+  @ApiProperty({ description: 'Code of the tax class the product is taxed under', required: false })
+  tax_class?: string;
+
+  @ApiProperty({
+    description: 'Total stock over all warehouses, including stock not assigned to one',
+  })
   stock_quantity: number;
 
+  @ApiProperty({
+    description: 'Stock held at each warehouse',
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        warehouse_id: { type: 'string' },
+        warehouse_code: { type: 'string' },
+        quantity: { type: 'number' },
+      },
+    },
+  })
+  stock_by_warehouse: { warehouse_id: string; warehouse_code: string; quantity: number }[];
+
+  @ApiProperty({ description: 'Stock not currently held by shopping carts' })
+  available: number;
+
+  @ApiProperty({ description: 'Stock level below which admins are alerted', required: false })
+  reorder_threshold?: number;
+
+  @ApiProperty({ description: 'Shipping weight in kg', required: false })
+  weight_kg?: number;
+
+  @ApiProperty({ description: 'Package length in cm', required: false })
+  length_cm?: number;
+
+  @ApiProperty({ description: 'Package width in cm', required: false })
+  width_cm?: number;
+
+  @ApiProperty({ description: 'Package height in cm', required: false })
+  height_cm?: number;
+
   @ApiProperty({ description: 'Product image URL', required: false })
   image_url?: string;
 
-  @ApiProperty({ description: 'Discount percentage', required: false })
+  @ApiProperty({ description: 'Percentage of the active discount', required: false })
   discount_percentage?: number;
 
   @ApiProperty({ description: 'Whether discount is currently active' })
   isDiscountActive: boolean;
 
-  @ApiProperty({ description: 'Discount start date', required: false })
+  @ApiProperty({ description: 'Start of the active discount window', required: false })
   discount_start_date?: Date;
 
-  @ApiProperty({ description: 'Discount end date', required: false })
+  @ApiProperty({ description: 'End of the active discount window', required: false })
   discount_end_date?: Date;
 
+  @ApiProperty({
+    description: 'Option axes of the variants and the values each takes',
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        values: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  })
+  options: { name: string; values: string[] }[];
+
+  @ApiProperty({ description: 'Variants the product is sold in', type: [VariantWithPricingDto] })
+  variants: VariantWithPricingDto[];
+
+  @ApiProperty({
+    description: 'Volume price tiers, applied on top of the effective price',
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        min_quantity: { type: 'number' },
+        discount_percentage: { type: 'number' },
+      },
+    },
+  })
+  price_tiers: { min_quantity: number; discount_percentage: number }[];
+
   @ApiProperty({ description: 'Creation date' })
   created_at: Date;
 
   @ApiProperty({ description: 'Last update date' })
   updated_at: Date;
 
-  static fromProduct(product: Product): ProductWithPricingDto {
+  /**
+   * Prices are in the product's own currency unless a converter is given.
+   * When converting, the discount amount is derived from the converted prices so the three stay consistent.
+   */
+  static fromProduct(
+    product: Product,
+    reservedQuantity = 0,
+    converter?: CurrencyConverter,
+  ): ProductWithPricingDto {
+    const activeDiscount = product.activeDiscount;
+
+    const currency = converter?.currency ?? product.currency;
+    const { originalPrice, effectivePrice, discountAmount } = ProductWithPricingDto.priceOf(
+      product,
+      undefined,
+      converter,
+    );
+    const variants = [...(product.variants ?? [])].sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+    );
+
     return {
       id: product.id,
       name: product.name,
+      sku: product.sku,
+      external_id: product.external_id,
       description: product.description,
-      originalPrice: Number(product.price),
-      effectivePrice: product.effectivePrice,
-      discountAmount: product.discountAmount,
+      currency,
+      originalPrice,
+      effectivePrice,
+      discountAmount,
+      tax_class: product.tax_class,
       stock_quantity: product.stock_quantity,
+      available: Math.max(product.stock_quantity - reservedQuantity, 0),
+      stock_by_warehouse: (product.inventory_levels ?? [])
+        .map((level) => ({
+          warehouse_id: level.warehouse_id,
+          warehouse_code: level.warehouse.code,
+          quantity: level.quantity,
+        }))
+        .sort((a, b) => a.warehouse_code.localeCompare(b.warehouse_code)),
+      reorder_threshold: product.reorder_threshold,
+      weight_kg: product.weight_kg,
+      length_cm: product.length_cm,
+      width_cm: product.width_cm,
+      height_cm: product.height_cm,
       image_url: product.image_url,
-      discount_percentage: product.discount_percentage
-        ? Number(product.discount_percentage)
-        : undefined,
+      discount_percentage: activeDiscount?.discount_percentage,
       isDiscountActive: product.isDiscountActive,
-      discount_start_date: product.discount_start_date,
-      discount_end_date: product.discount_end_date,
+      discount_start_date: activeDiscount?.starts_at,
+      discount_end_date: activeDiscount?.ends_at ?? undefined,
+      options: ProductWithPricingDto.optionAxes(variants),
+      variants: variants.map((variant) => ({
+        id: variant.id,
+        sku: variant.sku,
+        options: variant.options,
+        ...ProductWithPricingDto.priceOf(product, variant, converter),
+        stock_quantity: variant.stock_quantity,
+        image_url: variant.image_url ?? product.image_url,
+      })),
+      price_tiers: (product.price_tiers ?? [])
+        .map((tier) => ({
+          min_quantity: tier.min_quantity,
+          discount_percentage: tier.discount_percentage,
+        }))
+        .sort((a, b) => a.min_quantity - b.min_quantity),
       created_at: product.created_at,
       updated_at: product.updated_at,
     };
   }
+
+  private static priceOf(
+    product: Product,
+    variant?: ProductVariant,
+    converter?: CurrencyConverter,
+  ): { originalPrice: number; effectivePrice: number; discountAmount: number } {
+    if (!converter) {
+      return {
+        originalPrice: product.getPrice(variant),
+        effectivePrice: product.getEffectivePrice(variant),
+        discountAmount: product.getDiscountAmount(variant),
+      };
+    }
+
+    const originalPrice = converter.convert(product.getPrice(variant), product.currency);
+    const effectivePrice = converter.convert(product.getEffectivePrice(variant), product.currency);
+    return {
+      originalPrice,
+      effectivePrice,
+      discountAmount: converter.round(Money.of(originalPrice).subtract(effectivePrice)),
+    };
+  }
+
+  /**
+   * Collects the values each option axis takes, in the order the variants were added
+   */
+  private static optionAxes(variants: ProductVariant[]): { name: string; values: string[] }[] {
+    const axes = new Map<string, string[]>();
+    for (const variant of variants) {
+      for (const [name, value] of Object.entries(variant.options)) {
+        const values = axes.get(name) ?? [];
+        if (!values.includes(value)) {
+          values.push(value);
+        }
+        axes.set(name, values);
+      }
+    }
+    return [...axes].map(([name, values]) => ({ name, values }));
+  }
 }
@@ -0,0 +1,13 @@
+import { ArrayUnique, IsArray, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SetProductCategoriesDto {
+  @ApiProperty({
+    description: 'Every category the product belongs to; an empty list unassigns it from all',
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  category_ids: string[];
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateProductVariantDto } from './create-product-variant.dto';
+
+export class UpdateProductVariantDto extends PartialType(CreateProductVariantDto) {}
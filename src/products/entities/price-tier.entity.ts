@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Product } from './product.entity';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+
+/**
+ * Volume discount that applies once a cart line reaches min_quantity units
+ */
+@Entity('price_tiers')
+@Index(['product_id', 'min_quantity'], { unique: true })
+export class PriceTier {
+  @ApiProperty({ description: 'Price tier ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Product ID' })
+  @Column({ type: 'varchar' })
+  product_id: string;
+
+  @ApiProperty({ description: 'Minimum line quantity for the tier to apply' })
+  @Column({ type: 'integer' })
+  min_quantity: number;
+
+  @ApiProperty({ description: 'Discount percentage (0-100) taken off the effective price' })
+  @Column({ type: 'decimal', precision: 5, scale: 2, transformer: decimalTransformer })
+  discount_percentage: number;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => Product, (product) => product.price_tiers, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+}
@@ -0,0 +1,52 @@
+import { ProductDiscount, DiscountStatus } from './product-discount.entity';
+
+describe('ProductDiscount Entity', () => {
+  const createDiscount = (starts_at: string, ends_at: string | null): ProductDiscount =>
+    Object.assign(new ProductDiscount(), {
+      discount_percentage: 20,
+      starts_at: new Date(starts_at),
+      ends_at: ends_at ? new Date(ends_at) : null,
+    });
+
+  describe('getStatus', () => {
+    const now = new Date('2025-06-15T00:00:00.000Z');
+
+    it('should classify windows relative to the given date', () => {
+      expect(createDiscount('2025-01-01', '2025-02-01').getStatus(now)).toBe(DiscountStatus.PAST);
+      expect(createDiscount('2025-06-01', '2025-07-01').getStatus(now)).toBe(DiscountStatus.ACTIVE);
+      expect(createDiscount('2025-11-28', '2025-12-01').getStatus(now)).toBe(
+        DiscountStatus.UPCOMING,
+      );
+    });
+
+    it('should treat open-ended windows as active once started', () => {
+      expect(createDiscount('2025-01-01', null).getStatus(now)).toBe(DiscountStatus.ACTIVE);
+    });
+
+    it('should treat the end date as exclusive', () => {
+      expect(createDiscount('2025-06-01', '2025-06-15T00:00:00.000Z').getStatus(now)).toBe(
+        DiscountStatus.PAST,
+      );
+    });
+  });
+
+  describe('overlaps', () => {
+    const discount = createDiscount('2025-06-01', '2025-07-01');
+
+    it('should detect windows that share any instant', () => {
+      expect(discount.overlaps(new Date('2025-06-15'), new Date('2025-08-01'))).toBe(true);
+      expect(discount.overlaps(new Date('2025-05-01'), new Date('2025-06-02'))).toBe(true);
+      expect(discount.overlaps(new Date('2025-05-01'), new Date('2025-08-01'))).toBe(true);
+    });
+
+    it('should allow back-to-back windows', () => {
+      expect(discount.overlaps(new Date('2025-07-01'), new Date('2025-08-01'))).toBe(false);
+      expect(discount.overlaps(new Date('2025-05-01'), new Date('2025-06-01'))).toBe(false);
+    });
+
+    it('should treat a missing end date as never ending', () => {
+      expect(discount.overlaps(new Date('2025-01-01'), null)).toBe(true);
+      expect(createDiscount('2025-06-01', null).overlaps(new Date('2030-01-01'), null)).toBe(true);
+    });
+  });
+});
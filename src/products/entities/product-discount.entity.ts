@@ -0,0 +1,95 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Product } from './product.entity';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+
+export enum DiscountStatus {
+  PAST = 'past',
+  ACTIVE = 'active',
+  UPCOMING = 'upcoming',
+}
+
+// Windows open at :now with a percentage above zero, the SQL form of Product.activeDiscount
+const ACTIVE_AT_NOW = `discount.discount_percentage > 0 AND discount.starts_at <= :now
+  AND (discount.ends_at IS NULL OR discount.ends_at > :now)`;
+
+/**
+ * Products with a discount active at :now, the SQL form of Product.isDiscountActive
+ */
+export const ACTIVE_DISCOUNT_PRODUCT_IDS = `SELECT discount.product_id FROM product_discounts discount
+  WHERE ${ACTIVE_AT_NOW}`;
+
+/**
+ * Percentage of the discount active at :now on the product whose ID is in the given column, or 0
+ */
+export function activeDiscountPercentage(productIdColumn: string): string {
+  return `COALESCE((SELECT discount.discount_percentage FROM product_discounts discount
+    WHERE discount.product_id = ${productIdColumn} AND ${ACTIVE_AT_NOW}), 0)`;
+}
+
+/**
+ * A scheduled discount window. Windows of the same product never overlap,
+ * and past windows are kept as a record of previous promotions.
+ */
+@Entity('product_discounts')
+@Index(['product_id', 'starts_at'])
+export class ProductDiscount {
+  @ApiProperty({ description: 'Discount ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Product ID' })
+  @Column({ type: 'varchar' })
+  product_id: string;
+
+  @ApiProperty({ description: 'Discount percentage (0-100)' })
+  @Column({ type: 'decimal', precision: 5, scale: 2, transformer: decimalTransformer })
+  discount_percentage: number;
+
+  @ApiProperty({ description: 'Start of the discount window' })
+  @Column({ type: 'datetime' })
+  starts_at: Date;
+
+  @ApiProperty({
+    description: 'End of the discount window (open-ended when empty)',
+    required: false,
+  })
+  @Column({ type: 'datetime', nullable: true })
+  ends_at?: Date;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => Product, (product) => product.discounts, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+
+  getStatus(now: Date = new Date()): DiscountStatus {
+    if (this.starts_at > now) {
+      return DiscountStatus.UPCOMING;
+    }
+    if (this.ends_at && this.ends_at <= now) {
+      return DiscountStatus.PAST;
+    }
+    return DiscountStatus.ACTIVE;
+  }
+
+  /**
+   * Whether this window shares any instant with [startsAt, endsAt).
+   * A null end means the window never ends.
+   */
+  overlaps(startsAt: Date, endsAt: Date | null): boolean {
+    const startsBeforeOtherEnds = !endsAt || this.starts_at < endsAt;
+    const endsAfterOtherStarts = !this.ends_at || this.ends_at > startsAt;
+    return startsBeforeOtherEnds && endsAfterOtherStarts;
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum ProductImportStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export enum ProductImportFormat {
+  CSV = 'csv',
+  NDJSON = 'ndjson',
+}
+
+export class ProductImportRowError {
+  @ApiProperty({ description: 'Row number, counting from 1 after any CSV header', example: 3 })
+  row: number;
+
+  @ApiProperty({ description: 'SKU given on the row', required: false, example: 'TEE-M-RED' })
+  sku?: string;
+
+  @ApiProperty({
+    description: 'External ID given on the row',
+    required: false,
+    example: 'erp-1042',
+  })
+  external_id?: string;
+
+  @ApiProperty({
+    description: 'Why the row was rejected',
+    type: [String],
+    example: ['price must be a positive number'],
+  })
+  messages: string[];
+}
+
+@Entity('product_imports')
+export class ProductImport {
+  @ApiProperty({ description: 'Import ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Progress of the import', enum: ProductImportStatus })
+  @Column({ type: 'varchar', length: 20, default: ProductImportStatus.QUEUED })
+  status: ProductImportStatus;
+
+  @ApiProperty({ description: 'Format of the uploaded file', enum: ProductImportFormat })
+  @Column({ type: 'varchar', length: 10 })
+  format: ProductImportFormat;
+
+  @ApiProperty({ description: 'Name of the uploaded file' })
+  @Column({ type: 'varchar', length: 255 })
+  filename: string;
+
+  @ApiProperty({ description: 'Whether rows are only validated, without writing products' })
+  @Column({ type: 'boolean', default: false })
+  dry_run: boolean;
+
+  @ApiProperty({ description: 'Number of rows in the file' })
+  @Column({ type: 'integer', default: 0 })
+  total_rows: number;
+
+  @ApiProperty({ description: 'Number of rows handled so far' })
+  @Column({ type: 'integer', default: 0 })
+  processed_rows: number;
+
+  @ApiProperty({ description: 'Rows that created a product (or would have, in a dry run)' })
+  @Column({ type: 'integer', default: 0 })
+  created_count: number;
+
+  @ApiProperty({
+    description: 'Rows that updated the product with their SKU (or would have, in a dry run)',
+  })
+  @Column({ type: 'integer', default: 0 })
+  updated_count: number;
+
+  @ApiProperty({ description: 'Rows rejected, each listed in errors' })
+  @Column({ type: 'integer', default: 0 })
+  failed_count: number;
+
+  @ApiProperty({ description: 'Rejected rows and why', type: [ProductImportRowError] })
+  @Column({ type: 'simple-json' })
+  errors: ProductImportRowError[];
+
+  @ApiProperty({ description: 'Why the import as a whole failed', required: false })
+  @Column({ type: 'text', nullable: true })
+  failure_reason?: string;
+
+  @ApiProperty({ description: 'Email of the user who uploaded the file', required: false })
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  created_by?: string;
+
+  @ApiProperty({ description: 'Date the last row was handled', required: false })
+  @Column({ type: 'datetime', nullable: true })
+  finished_at?: Date;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+}
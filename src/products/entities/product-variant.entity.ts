@@ -0,0 +1,73 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Product } from './product.entity';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+
+/**
+ * One sellable combination of a product's options, e.g. size M in red.
+ * Its stock is part of the product's stock_quantity; the product's discount applies to its price.
+ */
+@Entity('product_variants')
+@Index(['product_id', 'created_at'])
+export class ProductVariant {
+  @ApiProperty({ description: 'Variant ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Product ID' })
+  @Column({ type: 'varchar' })
+  product_id: string;
+
+  @ApiProperty({ description: 'Stock keeping unit, unique across all variants' })
+  @Column({ type: 'varchar', length: 64, unique: true })
+  sku: string;
+
+  @ApiProperty({
+    description: 'Value of each option axis',
+    example: { size: 'M', colour: 'Red' },
+  })
+  @Column({ type: 'simple-json' })
+  options: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Price in the product currency, overriding the product price',
+    required: false,
+  })
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    transformer: decimalTransformer,
+    nullable: true,
+  })
+  price?: number;
+
+  @ApiProperty({ description: 'Stock quantity of this variant' })
+  @Column({ type: 'integer', default: 0 })
+  stock_quantity: number;
+
+  @ApiProperty({ description: 'Variant image URL', required: false })
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  image_url?: string;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => Product, (product) => product.variants, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+}
@@ -1,4 +1,7 @@
 import { Product } from './product.entity';
+import { PriceTier } from './price-tier.entity';
+import { ProductDiscount } from './product-discount.entity';
+import { ProductVariant } from './product-variant.entity';
 
 describe('Product Entity', () => {
   let product: Product;
@@ -14,99 +17,190 @@ describe('Product Entity', () => {
     product.updated_at = new Date();
   });
 
+  // Opens a single discount window; a missing start date means it started long ago
+  const setDiscount = (
+    discount_percentage: number | null,
+    starts_at: Date | null = null,
+    ends_at: Date | null = null,
+  ) => {
+    product.discounts =
+      discount_percentage === null
+        ? []
+        : [
+            Object.assign(new ProductDiscount(), {
+              discount_percentage,
+              starts_at: starts_at ?? new Date(0),
+              ends_at,
+            }),
+          ];
+  };
+
   describe('isDiscountActive', () => {
     it('should return false when no discount percentage is set', () => {
-      product.discount_percentage = null;
+      setDiscount(null);
       expect(product.isDiscountActive).toBe(false);
     });
 
     it('should return false when discount percentage is 0', () => {
-      product.discount_percentage = 0;
+      setDiscount(0);
       expect(product.isDiscountActive).toBe(false);
     });
 
     it('should return true when discount is valid and within date range', () => {
-      product.discount_percentage = 20;
-      product.discount_start_date = new Date('2020-01-01');
-      product.discount_end_date = new Date('2030-12-31');
+      setDiscount(20, new Date('2020-01-01'), new Date('2030-12-31'));
       expect(product.isDiscountActive).toBe(true);
     });
 
     it('should return false when current date is before start date', () => {
-      product.discount_percentage = 20;
-      product.discount_start_date = new Date('2030-01-01');
-      product.discount_end_date = new Date('2030-12-31');
+      setDiscount(20, new Date('2030-01-01'), new Date('2030-12-31'));
       expect(product.isDiscountActive).toBe(false);
     });
 
     it('should return false when current date is after end date', () => {
-      product.discount_percentage = 20;
-      product.discount_start_date = new Date('2020-01-01');
-      product.discount_end_date = new Date('2020-12-31');
+      setDiscount(20, new Date('2020-01-01'), new Date('2020-12-31'));
       expect(product.isDiscountActive).toBe(false);
     });
 
     it('should return true when only start date is set and current date is after', () => {
-      product.discount_percentage = 20;
-      product.discount_start_date = new Date('2020-01-01');
-      product.discount_end_date = null;
+      setDiscount(20, new Date('2020-01-01'), null);
       expect(product.isDiscountActive).toBe(true);
     });
 
     it('should return true when only end date is set and current date is before', () => {
-      product.discount_percentage = 20;
-      product.discount_start_date = null;
-      product.discount_end_date = new Date('2030-12-31');
+      setDiscount(20, null, new Date('2030-12-31'));
       expect(product.isDiscountActive).toBe(true);
     });
   });
 
+  describe('activeDiscount', () => {
+    it('should resolve the window covering the current date among past and upcoming ones', () => {
+      product.discounts = [
+        Object.assign(new ProductDiscount(), {
+          id: 'past',
+          discount_percentage: 10,
+          starts_at: new Date('2020-01-01'),
+          ends_at: new Date('2020-12-31'),
+        }),
+        Object.assign(new ProductDiscount(), {
+          id: 'active',
+          discount_percentage: 25,
+          starts_at: new Date('2021-01-01'),
+          ends_at: null,
+        }),
+        Object.assign(new ProductDiscount(), {
+          id: 'upcoming',
+          discount_percentage: 50,
+          starts_at: new Date('2999-11-27'),
+          ends_at: new Date('2999-11-30'),
+        }),
+      ];
+
+      expect(product.activeDiscount.id).toBe('active');
+      expect(product.effectivePrice).toBe(75);
+    });
+
+    it('should return undefined when no discounts are scheduled', () => {
+      product.discounts = undefined;
+      expect(product.activeDiscount).toBeUndefined();
+      expect(product.isDiscountActive).toBe(false);
+    });
+  });
+
   describe('effectivePrice', () => {
     it('should return original price when no discount is active', () => {
-      product.discount_percentage = null;
+      setDiscount(null);
       expect(product.effectivePrice).toBe(100);
     });
 
     it('should return discounted price when discount is active', () => {
-      product.discount_percentage = 20;
-      product.discount_start_date = new Date('2020-01-01');
-      product.discount_end_date = new Date('2030-12-31');
+      setDiscount(20, new Date('2020-01-01'), new Date('2030-12-31'));
       expect(product.effectivePrice).toBe(80);
     });
 
     it('should return original price when discount is not active due to dates', () => {
-      product.discount_percentage = 20;
-      product.discount_start_date = new Date('2030-01-01');
-      product.discount_end_date = new Date('2030-12-31');
+      setDiscount(20, new Date('2030-01-01'), new Date('2030-12-31'));
       expect(product.effectivePrice).toBe(100);
     });
 
     it('should handle decimal discount percentages correctly', () => {
-      product.discount_percentage = 15.5;
-      product.discount_start_date = new Date('2020-01-01');
-      product.discount_end_date = new Date('2030-12-31');
+      setDiscount(15.5, new Date('2020-01-01'), new Date('2030-12-31'));
       expect(product.effectivePrice).toBe(84.5);
     });
   });
 
   describe('discountAmount', () => {
     it('should return 0 when no discount is active', () => {
-      product.discount_percentage = null;
+      setDiscount(null);
       expect(product.discountAmount).toBe(0);
     });
 
     it('should return correct discount amount when discount is active', () => {
-      product.discount_percentage = 20;
-      product.discount_start_date = new Date('2020-01-01');
-      product.discount_end_date = new Date('2030-12-31');
+      setDiscount(20, new Date('2020-01-01'), new Date('2030-12-31'));
       expect(product.discountAmount).toBe(20);
     });
 
     it('should handle decimal discount amounts correctly', () => {
-      product.discount_percentage = 15.5;
-      product.discount_start_date = new Date('2020-01-01');
-      product.discount_end_date = new Date('2030-12-31');
+      setDiscount(15.5, new Date('2020-01-01'), new Date('2030-12-31'));
       expect(product.discountAmount).toBe(15.5);
     });
   });
+
+  describe('price tiers', () => {
+    const createTier = (min_quantity: number, discount_percentage: number): PriceTier =>
+      Object.assign(new PriceTier(), { min_quantity, discount_percentage });
+
+    beforeEach(() => {
+      product.price_tiers = [createTier(50, 12), createTier(10, 5)];
+    });
+
+    it('should return no tier below the lowest threshold', () => {
+      expect(product.getPriceTier(9)).toBeUndefined();
+      expect(product.unitPriceForQuantity(9)).toBe(100);
+    });
+
+    it('should pick the highest tier the quantity reaches', () => {
+      expect(product.getPriceTier(10).min_quantity).toBe(10);
+      expect(product.getPriceTier(75).min_quantity).toBe(50);
+      expect(product.unitPriceForQuantity(75)).toBe(88);
+    });
+
+    it('should stack the tier on top of an active discount', () => {
+      setDiscount(20, new Date('2020-01-01'), new Date('2030-12-31'));
+
+      // 100 - 20% = 80, then 80 - 5% = 76
+      expect(product.unitPriceForQuantity(10)).toBe(76);
+    });
+
+    it('should handle products without tiers', () => {
+      product.price_tiers = undefined;
+      expect(product.unitPriceForQuantity(100)).toBe(100);
+    });
+  });
+
+  describe('variants', () => {
+    const createVariant = (price?: number): ProductVariant =>
+      Object.assign(new ProductVariant(), { sku: 'TEST-L', options: { size: 'L' }, price });
+
+    it('should price a variant at its own price when it overrides the product price', () => {
+      expect(product.getPrice(createVariant(120))).toBe(120);
+      expect(product.getEffectivePrice(createVariant(120))).toBe(120);
+    });
+
+    it('should price a variant without its own price at the product price', () => {
+      expect(product.getEffectivePrice(createVariant())).toBe(100);
+    });
+
+    it('should apply the product discount and tiers to the variant price', () => {
+      setDiscount(25, new Date('2020-01-01'), new Date('2030-12-31'));
+      product.price_tiers = [
+        Object.assign(new PriceTier(), { min_quantity: 10, discount_percentage: 10 }),
+      ];
+      const variant = createVariant(120);
+
+      // 120 - 25% = 90, then 90 - 10% = 81
+      expect(product.getEffectivePrice(variant)).toBe(90);
+      expect(product.getDiscountAmount(variant)).toBe(30);
+      expect(product.unitPriceForQuantity(10, variant)).toBe(81);
+    });
+  });
 });
@@ -4,9 +4,19 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  OneToMany,
+  ManyToMany,
+  JoinTable,
 } from 'typeorm';
 import { ApiProperty } from '@nestjs/swagger';
 import { applyDiscount, toPreciseDecimal } from '../../common/utils/arithmetic.utils';
+import config from '../../common/config';
+import { PriceTier } from './price-tier.entity';
+import { ProductDiscount, DiscountStatus } from './product-discount.entity';
+import { ProductVariant } from './product-variant.entity';
+import { InventoryLevel } from '../../inventory/entities/inventory-level.entity';
+import { Category } from '../../categories/entities/category.entity';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
 
 @Entity('products')
 export class Product {
@@ -18,34 +28,89 @@ export class Product {
   @Column({ type: 'varchar', length: 255 })
   name: string;
 
+  @ApiProperty({
+    description: 'Stock keeping unit, unique across all products; imports upsert by it',
+    required: false,
+  })
+  @Column({ type: 'varchar', length: 64, unique: true, nullable: true })
+  sku?: string;
+
+  @ApiProperty({
+    description:
+      'ID of the product in an external system, unique across all products; imports upsert by it',
+    required: false,
+  })
+  @Column({ type: 'varchar', length: 100, unique: true, nullable: true })
+  external_id?: string;
+
   @ApiProperty({ description: 'Product description' })
   @Column({ type: 'text' })
   description: string;
 
   @ApiProperty({ description: 'Product price' })
-  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  @Column({ type: 'decimal', precision: 10, scale: 2, transformer: decimalTransformer })
   price: number;
 
+  @ApiProperty({ description: 'ISO 4217 code of the currency the price is set in', example: 'USD' })
+  @Column({ type: 'varchar', length: 3, default: config.currency.base })
+  currency: string;
+
+  @ApiProperty({ description: 'Code of the tax class the product is taxed under', required: false })
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  tax_class?: string;
+
   @ApiProperty({ description: 'Stock quantity' })
   @Column({ type: 'integer' })
   stock_quantity: number;
 
+  @ApiProperty({ description: 'Stock level below which admins are alerted', required: false })
+  @Column({ type: 'integer', nullable: true })
+  reorder_threshold?: number;
+
+  @ApiProperty({ description: 'Shipping weight in kg', required: false })
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 3,
+    transformer: decimalTransformer,
+    nullable: true,
+  })
+  weight_kg?: number;
+
+  @ApiProperty({ description: 'Package length in cm', required: false })
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    transformer: decimalTransformer,
+    nullable: true,
+  })
+  length_cm?: number;
+
+  @ApiProperty({ description: 'Package width in cm', required: false })
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    transformer: decimalTransformer,
+    nullable: true,
+  })
+  width_cm?: number;
+
+  @ApiProperty({ description: 'Package height in cm', required: false })
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    transformer: decimalTransformer,
+    nullable: true,
+  })
+  height_cm?: number;
+
   @ApiProperty({ description: 'Product image URL', required: false })
   @Column({ type: 'varchar', length: 500, nullable: true })
   image_url?: string;
 
-  @ApiProperty({ description: 'Discount percentage (0-100)', required: false })
-  @Column({ type: 'decimal', precision: 5, scale: 2, nullable: true })
-  discount_percentage?: number;
-
-  @ApiProperty({ description: 'Discount start date', required: false })
-  @Column({ type: 'datetime', nullable: true })
-  discount_start_date?: Date;
-
-  @ApiProperty({ description: 'Discount end date', required: false })
-  @Column({ type: 'datetime', nullable: true })
-  discount_end_date?: Date;
-
   @ApiProperty({ description: 'Creation date' })
   @CreateDateColumn()
   created_at: Date;
@@ -54,35 +119,114 @@ export class Product {
   @UpdateDateColumn()
   updated_at: Date;
 
-  // Computed properties for discount logic
-  @ApiProperty({ description: 'Whether discount is currently active' })
-  get isDiscountActive(): boolean {
-    if (!this.discount_percentage || this.discount_percentage <= 0) {
-      return false;
-    }
+  @ApiProperty({ description: 'Volume price tiers', type: () => [PriceTier], required: false })
+  @OneToMany(() => PriceTier, (tier) => tier.product, { eager: true })
+  price_tiers?: PriceTier[];
+
+  @ApiProperty({
+    description: 'Scheduled discount windows',
+    type: () => [ProductDiscount],
+    required: false,
+  })
+  @OneToMany(() => ProductDiscount, (discount) => discount.product, { eager: true })
+  discounts?: ProductDiscount[];
+
+  @ApiProperty({
+    description: 'Stock held at each warehouse',
+    type: () => [InventoryLevel],
+    required: false,
+  })
+  @OneToMany(() => InventoryLevel, (level) => level.product, { eager: true })
+  inventory_levels?: InventoryLevel[];
+
+  @ApiProperty({
+    description: 'Variants the product is sold in',
+    type: () => [ProductVariant],
+    required: false,
+  })
+  @OneToMany(() => ProductVariant, (variant) => variant.product, { eager: true })
+  variants?: ProductVariant[];
+
+  // Not eager: only loaded when the categories of a product are asked for
+  @ManyToMany(() => Category)
+  @JoinTable({
+    name: 'product_categories',
+    joinColumn: { name: 'product_id' },
+    inverseJoinColumn: { name: 'category_id' },
+  })
+  categories?: Category[];
 
+  // Computed properties for discount logic
+  @ApiProperty({ description: 'Discount window covering the current date', required: false })
+  get activeDiscount(): ProductDiscount | undefined {
     const now = new Date();
-    const startValid = !this.discount_start_date || this.discount_start_date <= now;
-    const endValid = !this.discount_end_date || this.discount_end_date >= now;
+    return (this.discounts ?? []).find(
+      (discount) =>
+        discount.getStatus(now) === DiscountStatus.ACTIVE && discount.discount_percentage > 0,
+    );
+  }
 
-    return startValid && endValid;
+  @ApiProperty({ description: 'Whether discount is currently active' })
+  get isDiscountActive(): boolean {
+    return this.activeDiscount !== undefined;
   }
 
   @ApiProperty({ description: 'Effective price after discount (if applicable)' })
   get effectivePrice(): number {
-    if (this.isDiscountActive && this.discount_percentage) {
-      const discountResult = applyDiscount(this.price, this.discount_percentage);
-      return discountResult.finalPrice;
-    }
-    return toPreciseDecimal(this.price);
+    return this.getEffectivePrice();
   }
 
   @ApiProperty({ description: 'Discount amount in currency' })
   get discountAmount(): number {
-    if (this.isDiscountActive && this.discount_percentage) {
-      const discountResult = applyDiscount(this.price, this.discount_percentage);
+    return this.getDiscountAmount();
+  }
+
+  /**
+   * Price before discounts: the variant's own price when it overrides the product price
+   */
+  getPrice(variant?: ProductVariant): number {
+    return variant?.price ?? this.price;
+  }
+
+  /**
+   * Price after the active discount, for the product or one of its variants
+   */
+  getEffectivePrice(variant?: ProductVariant): number {
+    const discount = this.activeDiscount;
+    if (discount) {
+      const discountResult = applyDiscount(this.getPrice(variant), discount.discount_percentage);
+      return discountResult.finalPrice;
+    }
+    return toPreciseDecimal(this.getPrice(variant));
+  }
+
+  getDiscountAmount(variant?: ProductVariant): number {
+    const discount = this.activeDiscount;
+    if (discount) {
+      const discountResult = applyDiscount(this.getPrice(variant), discount.discount_percentage);
       return discountResult.discountAmount;
     }
     return 0;
   }
+
+  /**
+   * Returns the tier with the highest min_quantity the given quantity reaches
+   */
+  getPriceTier(quantity: number): PriceTier | undefined {
+    const reached = (this.price_tiers ?? []).filter((tier) => quantity >= tier.min_quantity);
+    return reached.sort((a, b) => b.min_quantity - a.min_quantity)[0];
+  }
+
+  /**
+   * Unit price for a line of the given quantity. Tier discounts stack multiplicatively
+   * with the time-windowed discount: the tier percentage is taken off effectivePrice.
+   */
+  unitPriceForQuantity(quantity: number, variant?: ProductVariant): number {
+    const tier = this.getPriceTier(quantity);
+    const effectivePrice = this.getEffectivePrice(variant);
+    if (!tier) {
+      return effectivePrice;
+    }
+    return applyDiscount(effectivePrice, tier.discount_percentage).finalPrice;
+  }
 }
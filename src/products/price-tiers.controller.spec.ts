@@ -0,0 +1,77 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { PriceTiersController } from './price-tiers.controller';
+import { PriceTiersService } from './price-tiers.service';
+
+describe('PriceTiersController', () => {
+  let controller: PriceTiersController;
+  let service: PriceTiersService;
+
+  const productId = '123e4567-e89b-12d3-a456-426614174000';
+  const mockTier = {
+    id: '456e7890-e89b-12d3-a456-426614174001',
+    product_id: productId,
+    min_quantity: 10,
+    discount_percentage: 5,
+  };
+
+  const mockPriceTiersService = {
+    findAll: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PriceTiersController],
+      providers: [
+        {
+          provide: PriceTiersService,
+          useValue: mockPriceTiersService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    controller = module.get<PriceTiersController>(PriceTiersController);
+    service = module.get<PriceTiersService>(PriceTiersService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list the tiers of a product', async () => {
+    mockPriceTiersService.findAll.mockResolvedValue([mockTier]);
+
+    expect(await controller.findAll(productId)).toEqual([mockTier]);
+    expect(service.findAll).toHaveBeenCalledWith(productId);
+  });
+
+  it('should create a tier', async () => {
+    const dto = { min_quantity: 10, discount_percentage: 5 };
+    mockPriceTiersService.create.mockResolvedValue(mockTier);
+
+    expect(await controller.create(productId, dto)).toEqual(mockTier);
+    expect(service.create).toHaveBeenCalledWith(productId, dto);
+  });
+
+  it('should update a tier', async () => {
+    mockPriceTiersService.update.mockResolvedValue({ ...mockTier, discount_percentage: 7 });
+
+    const result = await controller.update(productId, mockTier.id, { discount_percentage: 7 });
+
+    expect(service.update).toHaveBeenCalledWith(productId, mockTier.id, { discount_percentage: 7 });
+    expect(result.discount_percentage).toBe(7);
+  });
+
+  it('should delete a tier', async () => {
+    await controller.remove(productId, mockTier.id);
+
+    expect(service.remove).toHaveBeenCalledWith(productId, mockTier.id);
+  });
+});
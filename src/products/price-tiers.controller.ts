@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { PriceTiersService } from './price-tiers.service';
+import { CreatePriceTierDto } from './dto/create-price-tier.dto';
+import { UpdatePriceTierDto } from './dto/update-price-tier.dto';
+import { PriceTier } from './entities/price-tier.entity';
+import { ParseUUIDPipe } from '../common/pipes/parse-uuid.pipe';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../users/entities/user.entity';
+
+@ApiTags('products')
+@Controller('products/:productId/price-tiers')
+export class PriceTiersController {
+  constructor(private readonly priceTiersService: PriceTiersService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the volume price tiers of a product' })
+  @ApiParam({ name: 'productId', description: 'Product ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Price tiers retrieved successfully',
+    type: [PriceTier],
+  })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async findAll(@Param('productId', ParseUUIDPipe) productId: string): Promise<PriceTier[]> {
+    return await this.priceTiersService.findAll(productId);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Add a volume price tier to a product' })
+  @ApiParam({ name: 'productId', description: 'Product ID' })
+  @ApiResponse({ status: 201, description: 'Price tier created successfully', type: PriceTier })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid tier data' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  @ApiResponse({ status: 409, description: 'A tier for this quantity already exists' })
+  async create(
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Body() createPriceTierDto: CreatePriceTierDto,
+  ): Promise<PriceTier> {
+    return await this.priceTiersService.create(productId, createPriceTierDto);
+  }
+
+  @Put(':id')
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Update a volume price tier' })
+  @ApiParam({ name: 'productId', description: 'Product ID' })
+  @ApiParam({ name: 'id', description: 'Price tier ID' })
+  @ApiResponse({ status: 200, description: 'Price tier updated successfully', type: PriceTier })
+  @ApiResponse({ status: 404, description: 'Price tier not found' })
+  @ApiResponse({ status: 409, description: 'A tier for this quantity already exists' })
+  async update(
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updatePriceTierDto: UpdatePriceTierDto,
+  ): Promise<PriceTier> {
+    return await this.priceTiersService.update(productId, id, updatePriceTierDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Delete a volume price tier' })
+  @ApiParam({ name: 'productId', description: 'Product ID' })
+  @ApiParam({ name: 'id', description: 'Price tier ID' })
+  @ApiResponse({ status: 204, description: 'Price tier deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Price tier not found' })
+  async remove(
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    return await this.priceTiersService.remove(productId, id);
+  }
+}
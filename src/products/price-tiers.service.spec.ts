@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { PriceTiersService } from './price-tiers.service';
+import { PriceTier } from './entities/price-tier.entity';
+import { ProductsService } from './products.service';
+
+describe('PriceTiersService', () => {
+  let service: PriceTiersService;
+
+  const productId = '123e4567-e89b-12d3-a456-426614174000';
+  const tierId = '456e7890-e89b-12d3-a456-426614174001';
+
+  const mockTier = {
+    id: tierId,
+    product_id: productId,
+    min_quantity: 10,
+    discount_percentage: 5,
+  };
+
+  const mockPriceTierRepository = {
+    create: jest.fn((data) => ({ ...data })),
+    save: jest.fn(async (tier) => ({ id: tierId, ...tier })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockProductsService = {
+    findOneEntity: jest.fn(),
+    invalidateProductCache: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PriceTiersService,
+        {
+          provide: getRepositoryToken(PriceTier),
+          useValue: mockPriceTierRepository,
+        },
+        {
+          provide: ProductsService,
+          useValue: mockProductsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PriceTiersService>(PriceTiersService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should return the tiers ordered by quantity', async () => {
+      mockPriceTierRepository.find.mockResolvedValue([mockTier]);
+
+      const result = await service.findAll(productId);
+
+      expect(mockProductsService.findOneEntity).toHaveBeenCalledWith(productId);
+      expect(mockPriceTierRepository.find).toHaveBeenCalledWith({
+        where: { product_id: productId },
+        order: { min_quantity: 'ASC' },
+      });
+      expect(result).toEqual([mockTier]);
+    });
+
+    it('should propagate NotFoundException for unknown products', async () => {
+      mockProductsService.findOneEntity.mockRejectedValueOnce(new NotFoundException());
+
+      await expect(service.findAll(productId)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('create', () => {
+    it('should create a tier and invalidate the product cache', async () => {
+      mockPriceTierRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.create(productId, { min_quantity: 10, discount_percentage: 5 });
+
+      expect(result).toEqual(mockTier);
+      expect(mockProductsService.invalidateProductCache).toHaveBeenCalledWith(productId);
+    });
+
+    it('should reject a second tier for the same quantity', async () => {
+      mockPriceTierRepository.findOne.mockResolvedValue(mockTier);
+
+      await expect(
+        service.create(productId, { min_quantity: 10, discount_percentage: 8 }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPriceTierRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should update the discount of a tier', async () => {
+      mockPriceTierRepository.findOne.mockResolvedValue({ ...mockTier });
+
+      const result = await service.update(productId, tierId, { discount_percentage: 7 });
+
+      expect(result.discount_percentage).toBe(7);
+      expect(mockProductsService.invalidateProductCache).toHaveBeenCalledWith(productId);
+    });
+
+    it('should throw NotFoundException for a tier of another product', async () => {
+      mockPriceTierRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.update(productId, tierId, { discount_percentage: 7 })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the tier', async () => {
+      mockPriceTierRepository.findOne.mockResolvedValue(mockTier);
+
+      await service.remove(productId, tierId);
+
+      expect(mockPriceTierRepository.remove).toHaveBeenCalledWith(mockTier);
+      expect(mockProductsService.invalidateProductCache).toHaveBeenCalledWith(productId);
+    });
+  });
+});
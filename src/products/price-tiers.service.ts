@@ -0,0 +1,84 @@
+import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PriceTier } from './entities/price-tier.entity';
+import { CreatePriceTierDto } from './dto/create-price-tier.dto';
+import { UpdatePriceTierDto } from './dto/update-price-tier.dto';
+import { ProductsService } from './products.service';
+
+@Injectable()
+export class PriceTiersService {
+  constructor(
+    @InjectRepository(PriceTier)
+    private readonly priceTierRepository: Repository<PriceTier>,
+    private readonly productsService: ProductsService,
+  ) {}
+
+  async findAll(productId: string): Promise<PriceTier[]> {
+    await this.productsService.findOneEntity(productId);
+
+    return await this.priceTierRepository.find({
+      where: { product_id: productId },
+      order: { min_quantity: 'ASC' },
+    });
+  }
+
+  async create(productId: string, createPriceTierDto: CreatePriceTierDto): Promise<PriceTier> {
+    await this.productsService.findOneEntity(productId);
+    await this.assertMinQuantityAvailable(productId, createPriceTierDto.min_quantity);
+
+    const tier = this.priceTierRepository.create({
+      ...createPriceTierDto,
+      product_id: productId,
+    });
+    const savedTier = await this.priceTierRepository.save(tier);
+
+    await this.productsService.invalidateProductCache(productId);
+    return savedTier;
+  }
+
+  async update(
+    productId: string,
+    id: string,
+    updatePriceTierDto: UpdatePriceTierDto,
+  ): Promise<PriceTier> {
+    const tier = await this.findTier(productId, id);
+
+    if (
+      updatePriceTierDto.min_quantity !== undefined &&
+      updatePriceTierDto.min_quantity !== tier.min_quantity
+    ) {
+      await this.assertMinQuantityAvailable(productId, updatePriceTierDto.min_quantity);
+    }
+
+    Object.assign(tier, updatePriceTierDto);
+    const savedTier = await this.priceTierRepository.save(tier);
+
+    await this.productsService.invalidateProductCache(productId);
+    return savedTier;
+  }
+
+  async remove(productId: string, id: string): Promise<void> {
+    const tier = await this.findTier(productId, id);
+    await this.priceTierRepository.remove(tier);
+
+    await this.productsService.invalidateProductCache(productId);
+  }
+
+  private async findTier(productId: string, id: string): Promise<PriceTier> {
+    const tier = await this.priceTierRepository.findOne({ where: { id, product_id: productId } });
+    if (!tier) {
+      throw new NotFoundException(`Price tier with ID ${id} not found`);
+    }
+    return tier;
+  }
+
+  private async assertMinQuantityAvailable(productId: string, minQuantity: number): Promise<void> {
+    const existing = await this.priceTierRepository.findOne({
+      where: { product_id: productId, min_quantity: minQuantity },
+    });
+    if (existing) {
+      throw new ConflictException(`A price tier for ${minQuantity}+ units already exists`);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { BadRequestException } from '@nestjs/common';
+import { ProductSort, SortOrder } from './dto/product-query.dto';
+
+export enum CursorDirection {
+  NEXT = 'next',
+  PREV = 'prev',
+}
+
+/**
+ * Position in a sorted product listing: the products after (or before) the one the cursor was taken from
+ */
+export interface ProductCursor {
+  sort: ProductSort;
+  order: SortOrder;
+  direction: CursorDirection;
+  // Sort key values of the product as stored, from the primary sort key down to the ID
+  values: (string | number)[];
+}
+
+export function encodeCursor(cursor: ProductCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(token: string): ProductCursor {
+  let cursor: ProductCursor | undefined;
+  try {
+    cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    cursor = undefined;
+  }
+
+  const isValid =
+    cursor !== null &&
+    typeof cursor === 'object' &&
+    Object.values(ProductSort).includes(cursor.sort) &&
+    Object.values(SortOrder).includes(cursor.order) &&
+    Object.values(CursorDirection).includes(cursor.direction) &&
+    Array.isArray(cursor.values) &&
+    cursor.values.every((value) => typeof value === 'string' || typeof value === 'number');
+  if (!isValid) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  return cursor;
+}
@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Like } from 'typeorm';
+import { ProductFacetsService } from './product-facets.service';
+import { Product } from './entities/product.entity';
+
+describe('ProductFacetsService', () => {
+  let service: ProductFacetsService;
+
+  const createMockQueryBuilder = () => {
+    const builder: any = {};
+    for (const method of [
+      'setFindOptions',
+      'select',
+      'addSelect',
+      'setParameter',
+      'innerJoin',
+      'groupBy',
+      'addGroupBy',
+    ]) {
+      builder[method] = jest.fn().mockReturnValue(builder);
+    }
+    builder.getRawOne = jest.fn();
+    builder.getRawMany = jest.fn();
+    return builder;
+  };
+
+  let countsQuery: ReturnType<typeof createMockQueryBuilder>;
+  let categoriesQuery: ReturnType<typeof createMockQueryBuilder>;
+
+  const mockProductRepository = {
+    createQueryBuilder: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductFacetsService,
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProductFacetsService>(ProductFacetsService);
+
+    countsQuery = createMockQueryBuilder();
+    categoriesQuery = createMockQueryBuilder();
+    mockProductRepository.createQueryBuilder
+      .mockReturnValueOnce(countsQuery)
+      .mockReturnValueOnce(categoriesQuery);
+
+    countsQuery.getRawOne.mockResolvedValue({
+      total: 10,
+      in_stock: 7,
+      on_sale: 3,
+      price_0: 2,
+      price_1: 1,
+      price_2: 4,
+      price_3: 0,
+      price_4: 2,
+      price_5: 1,
+    });
+    categoriesQuery.getRawMany.mockResolvedValue([
+      { id: 'sale-id', name: 'Sale', count: 3 },
+      { id: 'boots-id', name: 'Boots', count: 3 },
+      { id: 'shoes-id', name: 'Shoes', count: 6 },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should count within the listing filters without loading eager relations', async () => {
+    const where = { name: Like('%boot%') };
+    const now = new Date('2024-06-01T00:00:00.000Z');
+
+    await service.compute(where, now);
+
+    for (const query of [countsQuery, categoriesQuery]) {
+      expect(query.setFindOptions).toHaveBeenCalledWith({ where, loadEagerRelations: false });
+    }
+    expect(countsQuery.setParameter).toHaveBeenCalledWith('now', now);
+  });
+
+  it('should bucket prices by the configured bounds with an open-ended last bucket', async () => {
+    const result = await service.compute({}, new Date());
+
+    expect(result.price).toEqual([
+      { min: 0, max: 25, count: 2 },
+      { min: 25, max: 50, count: 1 },
+      { min: 50, max: 100, count: 4 },
+      { min: 100, max: 250, count: 0 },
+      { min: 250, max: 500, count: 2 },
+      { min: 500, max: undefined, count: 1 },
+    ]);
+    const [bucket, alias] = countsQuery.addSelect.mock.calls.find(([, name]) => name === 'price_1');
+    expect(bucket).toMatch(/^COUNT\(DISTINCT CASE WHEN \(product\.price \* 1\.0 \/ COALESCE/);
+    expect(bucket).toContain('WHERE exchange_rate.currency = product.currency), 1)) >= 25 AND');
+    expect(bucket).toMatch(/\), 1\)\) < 50 THEN product\.id END\)$/);
+    expect(alias).toBe('price_1');
+  });
+
+  it('should split the matching products by stock and by sale', async () => {
+    const result = await service.compute({}, new Date());
+
+    expect(result.stock).toEqual({ in_stock: 7, out_of_stock: 3 });
+    expect(result.sale).toEqual({ on_sale: 3, not_on_sale: 7 });
+  });
+
+  it('should list categories with the most matching products first', async () => {
+    const result = await service.compute({}, new Date());
+
+    expect(categoriesQuery.innerJoin).toHaveBeenCalledWith('product.categories', 'facet_category');
+    expect(result.categories).toEqual([
+      { id: 'shoes-id', name: 'Shoes', count: 6 },
+      { id: 'boots-id', name: 'Boots', count: 3 },
+      { id: 'sale-id', name: 'Sale', count: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
+import { Product } from './entities/product.entity';
+import { ACTIVE_DISCOUNT_PRODUCT_IDS } from './entities/product-discount.entity';
+import { ProductFacetsDto, PriceBucketDto } from './dto/product-facets.dto';
+import { inBaseCurrency } from '../currencies/entities/exchange-rate.entity';
+import config from '../common/config';
+
+/**
+ * Counts for the product listing sidebars, taken over every product matching the listing's filters
+ */
+@Injectable()
+export class ProductFacetsService {
+  constructor(
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+  ) {}
+
+  async compute(where: FindOptionsWhere<Product>, now: Date): Promise<ProductFacetsDto> {
+    const bounds = config.catalog.priceFacetBounds;
+    const buckets = [0, ...bounds].map((min, index) => ({ min, max: bounds[index] }));
+
+    // A product assigned to several matching categories is joined once per category, hence DISTINCT
+    const counts = this.filtered(where)
+      .select('COUNT(DISTINCT product.id)', 'total')
+      .addSelect(
+        'COUNT(DISTINCT CASE WHEN product.stock_quantity > 0 THEN product.id END)',
+        'in_stock',
+      )
+      .addSelect(
+        `COUNT(DISTINCT CASE WHEN product.id IN (${ACTIVE_DISCOUNT_PRODUCT_IDS}) THEN product.id END)`,
+        'on_sale',
+      )
+      .setParameter('now', now);
+    // Bucket bounds are in the base currency, whatever currency each product is priced in
+    const price = inBaseCurrency('product.price', 'product.currency');
+    buckets.forEach(({ min, max }, index) => {
+      const upper = max === undefined ? '' : ` AND ${price} < ${max}`;
+      counts.addSelect(
+        `COUNT(DISTINCT CASE WHEN ${price} >= ${min}${upper} THEN product.id END)`,
+        `price_${index}`,
+      );
+    });
+    const totals = await counts.getRawOne();
+
+    const categories = await this.filtered(where)
+      .innerJoin('product.categories', 'facet_category')
+      .select('facet_category.id', 'id')
+      .addSelect('facet_category.name', 'name')
+      .addSelect('COUNT(DISTINCT product.id)', 'count')
+      .groupBy('facet_category.id')
+      .addGroupBy('facet_category.name')
+      .getRawMany();
+
+    const total = Number(totals.total);
+    const inStock = Number(totals.in_stock);
+    const onSale = Number(totals.on_sale);
+
+    return {
+      price: buckets.map(
+        ({ min, max }, index): PriceBucketDto => ({
+          min,
+          max,
+          count: Number(totals[`price_${index}`]),
+        }),
+      ),
+      stock: { in_stock: inStock, out_of_stock: total - inStock },
+      sale: { on_sale: onSale, not_on_sale: total - onSale },
+      categories: categories
+        .map((category) => ({
+          id: category.id,
+          name: category.name,
+          count: Number(category.count),
+        }))
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+    };
+  }
+
+  private filtered(where: FindOptionsWhere<Product>) {
+    return this.productRepository
+      .createQueryBuilder('product')
+      .setFindOptions({ where, loadEagerRelations: false });
+  }
+}
@@ -0,0 +1,93 @@
+import { BadRequestException } from '@nestjs/common';
+import { importFormatOf, parseImportFile } from './product-import-parser';
+import { ProductImportFormat } from './entities/product-import.entity';
+
+describe('product import parser', () => {
+  describe('importFormatOf', () => {
+    it('should go by the file extension first', () => {
+      expect(
+        importFormatOf({ originalname: 'tees.CSV', mimetype: 'application/octet-stream' }),
+      ).toBe(ProductImportFormat.CSV);
+      expect(importFormatOf({ originalname: 'tees.jsonl', mimetype: 'text/plain' })).toBe(
+        ProductImportFormat.NDJSON,
+      );
+    });
+
+    it('should fall back to the MIME type', () => {
+      expect(importFormatOf({ originalname: 'upload', mimetype: 'application/x-ndjson' })).toBe(
+        ProductImportFormat.NDJSON,
+      );
+    });
+
+    it('should reject other files', () => {
+      expect(() => importFormatOf({ originalname: 'tees.xlsx', mimetype: 'text/plain' })).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('CSV', () => {
+    it('should key each row by the header and leave out empty cells', () => {
+      const rows = parseImportFile(
+        ProductImportFormat.CSV,
+        'sku,name,price,tax_class\r\nTEE-RED,Red Tee,19.99,\r\nTEE-BLUE,Blue Tee,21,reduced\r\n',
+      );
+
+      expect(rows).toEqual([
+        { row: 1, data: { sku: 'TEE-RED', name: 'Red Tee', price: '19.99' } },
+        { row: 2, data: { sku: 'TEE-BLUE', name: 'Blue Tee', price: '21', tax_class: 'reduced' } },
+      ]);
+    });
+
+    it('should read quoted fields with commas, quotes and line breaks', () => {
+      const rows = parseImportFile(
+        ProductImportFormat.CSV,
+        'name,description\n"Tee, red","Soft ""organic"" cotton\nMachine washable"\n',
+      );
+
+      expect(rows[0].data).toEqual({
+        name: 'Tee, red',
+        description: 'Soft "organic" cotton\nMachine washable',
+      });
+    });
+
+    it('should skip blank lines and a byte order mark', () => {
+      const rows = parseImportFile(ProductImportFormat.CSV, '\uFEFFname\n\nRed Tee\n\nBlue Tee');
+
+      expect(rows).toEqual([
+        { row: 1, data: { name: 'Red Tee' } },
+        { row: 2, data: { name: 'Blue Tee' } },
+      ]);
+    });
+
+    it('should report rows whose field count differs from the header', () => {
+      const rows = parseImportFile(ProductImportFormat.CSV, 'name,price\nRed Tee\n');
+
+      expect(rows).toEqual([{ row: 1, error: 'Row has 1 fields where the header has 2' }]);
+    });
+
+    it('should reject files it cannot split into rows', () => {
+      expect(() => parseImportFile(ProductImportFormat.CSV, 'name\n"Red Tee\n')).toThrow(
+        'The CSV file ends inside a quoted field',
+      );
+      expect(() => parseImportFile(ProductImportFormat.CSV, 'name,name\nRed Tee,Tee\n')).toThrow(
+        'The CSV header must name every column once',
+      );
+    });
+  });
+
+  describe('NDJSON', () => {
+    it('should read one object per line and report lines that are not one', () => {
+      const rows = parseImportFile(
+        ProductImportFormat.NDJSON,
+        '{"name":"Red Tee","price":19.99}\n\n{"name":\n[1,2]\n',
+      );
+
+      expect(rows).toEqual([
+        { row: 1, data: { name: 'Red Tee', price: 19.99 } },
+        { row: 2, error: 'Row is not valid JSON' },
+        { row: 3, error: 'Row is not a JSON object' },
+      ]);
+    });
+  });
+});
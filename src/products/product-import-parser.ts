@@ -0,0 +1,146 @@
+import { BadRequestException } from '@nestjs/common';
+import { ProductImportFormat } from './entities/product-import.entity';
+
+/**
+ * One data row of an import file: its fields, or why they couldn't be read
+ */
+export interface ImportRow {
+  // Counting from 1, after any CSV header and without blank lines
+  row: number;
+  data?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Works out the format of an uploaded file from its extension, falling back to its MIME type
+ */
+export function importFormatOf(file: {
+  originalname: string;
+  mimetype: string;
+}): ProductImportFormat {
+  if (/\.csv$/i.test(file.originalname)) {
+    return ProductImportFormat.CSV;
+  }
+  if (/\.(ndjson|jsonl)$/i.test(file.originalname)) {
+    return ProductImportFormat.NDJSON;
+  }
+  if (file.mimetype === 'text/csv') {
+    return ProductImportFormat.CSV;
+  }
+  if (file.mimetype === 'application/x-ndjson' || file.mimetype === 'application/jsonl') {
+    return ProductImportFormat.NDJSON;
+  }
+  throw new BadRequestException('Invalid file type. Only CSV and NDJSON files can be imported.');
+}
+
+/**
+ * Splits an import file into rows. Problems with a single row are reported on the row;
+ * a file that can't be read at all is rejected.
+ */
+export function parseImportFile(format: ProductImportFormat, content: string): ImportRow[] {
+  const text = content.replace(/^\uFEFF/, '');
+  return format === ProductImportFormat.CSV ? parseCsv(text) : parseNdjson(text);
+}
+
+function parseNdjson(text: string): ImportRow[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .map((line, index) => {
+      const row = index + 1;
+      let data: unknown;
+      try {
+        data = JSON.parse(line);
+      } catch {
+        return { row, error: 'Row is not valid JSON' };
+      }
+      if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+        return { row, error: 'Row is not a JSON object' };
+      }
+      return { row, data: data as Record<string, unknown> };
+    });
+}
+
+/**
+ * RFC 4180 CSV with a header row. Empty cells are left out, so optional fields keep their defaults.
+ */
+function parseCsv(text: string): ImportRow[] {
+  const [header, ...records] = csvRecords(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((column) => column.trim());
+  if (columns.some((column) => column === '') || new Set(columns).size !== columns.length) {
+    throw new BadRequestException('The CSV header must name every column once');
+  }
+
+  return records.map((fields, index) => {
+    const row = index + 1;
+    if (fields.length !== columns.length) {
+      return {
+        row,
+        error: `Row has ${fields.length} fields where the header has ${columns.length}`,
+      };
+    }
+
+    const data: Record<string, unknown> = {};
+    columns.forEach((column, position) => {
+      if (fields[position] !== '') {
+        data[column] = fields[position];
+      }
+    });
+    return { row, data };
+  });
+}
+
+function csvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    // Blank lines hold no data
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new BadRequestException('The CSV file ends inside a quoted field');
+  }
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+  return records;
+}
@@ -0,0 +1,70 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ProductImportsController } from './product-imports.controller';
+import { ProductImportsService } from './product-imports.service';
+import { ProductImportStatus } from './entities/product-import.entity';
+import { Role } from '../users/entities/user.entity';
+import { TokenType } from '../auth/auth.service';
+
+describe('ProductImportsController', () => {
+  let controller: ProductImportsController;
+  let service: ProductImportsService;
+
+  const importId = '123e4567-e89b-12d3-a456-426614174000';
+  const mockImport = {
+    id: importId,
+    status: ProductImportStatus.QUEUED,
+    total_rows: 2,
+    processed_rows: 0,
+  };
+
+  const mockProductImportsService = {
+    start: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ProductImportsController],
+      providers: [
+        {
+          provide: ProductImportsService,
+          useValue: mockProductImportsService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    controller = module.get<ProductImportsController>(ProductImportsController);
+    service = module.get<ProductImportsService>(ProductImportsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should start an import of the uploaded file on behalf of the user', async () => {
+    const file = { originalname: 'products.csv', buffer: Buffer.from('name\nRed Tee\n') };
+    mockProductImportsService.start.mockResolvedValue(mockImport);
+
+    const result = await controller.create({ dryRun: true }, file, {
+      sub: 'user-id',
+      email: 'ada@x.io',
+      role: Role.MERCHANDISER,
+      type: TokenType.ACCESS,
+    });
+
+    expect(result).toEqual(mockImport);
+    expect(service.start).toHaveBeenCalledWith(file, true, 'ada@x.io');
+  });
+
+  it('should return an import for polling', async () => {
+    mockProductImportsService.findOne.mockResolvedValue(mockImport);
+
+    expect(await controller.findOne(importId)).toEqual(mockImport);
+    expect(service.findOne).toHaveBeenCalledWith(importId);
+  });
+});
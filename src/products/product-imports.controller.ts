@@ -0,0 +1,84 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  HttpStatus,
+  HttpCode,
+  UseInterceptors,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import { ProductImportsService } from './product-imports.service';
+import { ProductImport } from './entities/product-import.entity';
+import { ImportProductsQueryDto } from './dto/import-products-query.dto';
+import { ParseUUIDPipe } from '../common/pipes/parse-uuid.pipe';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../users/entities/user.entity';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+import config from '../common/config';
+
+@ApiTags('products')
+@Controller('products/import')
+export class ProductImportsController {
+  constructor(private readonly productImportsService: ProductImportsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: config.catalog.importMaxFileSizeMb * 1024 * 1024 },
+    }),
+  )
+  @ApiOperation({ summary: 'Import products from a CSV or NDJSON file in the background' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    description: 'One product per row, with the fields of a product creation',
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'CSV with a header row (.csv) or one JSON object per line (.ndjson, .jsonl)',
+        },
+      },
+      required: ['file'],
+    },
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Import queued; poll it for progress and the rejected rows',
+    type: ProductImport,
+  })
+  @ApiResponse({ status: 400, description: 'Missing, unsupported or unreadable file' })
+  @ApiResponse({ status: 413, description: 'File too large' })
+  async create(
+    @Query() query: ImportProductsQueryDto,
+    @UploadedFile() file?: any,
+    @CurrentUser() user?: JwtPayload,
+  ): Promise<ProductImport> {
+    return await this.productImportsService.start(file, query.dryRun, user?.email);
+  }
+
+  @Get(':id')
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Get the progress and error report of a product import' })
+  @ApiParam({ name: 'id', description: 'Import ID' })
+  @ApiResponse({ status: 200, description: 'Import retrieved successfully', type: ProductImport })
+  @ApiResponse({ status: 404, description: 'Import not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<ProductImport> {
+    return await this.productImportsService.findOne(id);
+  }
+}
@@ -0,0 +1,280 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { In } from 'typeorm';
+import { ProductImportsService } from './product-imports.service';
+import { ProductsService } from './products.service';
+import {
+  ProductImport,
+  ProductImportFormat,
+  ProductImportStatus,
+} from './entities/product-import.entity';
+import { Product } from './entities/product.entity';
+
+describe('ProductImportsService', () => {
+  let service: ProductImportsService;
+
+  const existingProduct = Object.assign(new Product(), {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    sku: 'TEE-RED',
+    external_id: 'erp-1',
+  });
+
+  const mockImportRepository = {
+    create: jest.fn((data) => Object.assign(new ProductImport(), data)),
+    save: jest.fn(async (productImport) => ({ id: 'import-id', ...productImport })),
+    update: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockProductsService = {
+    findOneBySku: jest.fn(),
+    findOneByExternalId: jest.fn(),
+    assertValidProductData: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    invalidateProductListCache: jest.fn(),
+  };
+
+  const csvFile = (content: string) => ({
+    originalname: 'products.csv',
+    mimetype: 'text/csv',
+    buffer: Buffer.from(content),
+  });
+
+  // Queues the file and waits for its rows to be handled, returning the import as last saved
+  const importFile = async (content: string, dryRun = false): Promise<ProductImport> => {
+    await service.start(csvFile(content), dryRun, 'ada@x.io');
+    await service.onModuleDestroy();
+    return mockImportRepository.save.mock.calls.at(-1)[0];
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductImportsService,
+        {
+          provide: getRepositoryToken(ProductImport),
+          useValue: mockImportRepository,
+        },
+        {
+          provide: ProductsService,
+          useValue: mockProductsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProductImportsService>(ProductImportsService);
+
+    mockProductsService.findOneBySku.mockImplementation(async (sku) =>
+      sku === existingProduct.sku ? existingProduct : null,
+    );
+    mockProductsService.findOneByExternalId.mockImplementation(async (externalId) =>
+      externalId === existingProduct.external_id ? existingProduct : null,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('onModuleInit', () => {
+    it('should fail imports a restart cut short', async () => {
+      await service.onModuleInit();
+
+      expect(mockImportRepository.update).toHaveBeenCalledWith(
+        { status: In([ProductImportStatus.QUEUED, ProductImportStatus.RUNNING]) },
+        expect.objectContaining({ status: ProductImportStatus.FAILED }),
+      );
+    });
+  });
+
+  describe('start', () => {
+    it('should queue the rows and return the import right away', async () => {
+      const productImport = await service.start(
+        csvFile('name,description,price,stock_quantity\nRed Tee,Cotton,19.99,5\n'),
+        false,
+        'ada@x.io',
+      );
+
+      expect(productImport).toEqual(
+        expect.objectContaining({
+          id: 'import-id',
+          format: ProductImportFormat.CSV,
+          filename: 'products.csv',
+          dry_run: false,
+          total_rows: 1,
+          created_by: 'ada@x.io',
+        }),
+      );
+      await service.onModuleDestroy();
+    });
+
+    it('should reject a missing or empty file', async () => {
+      await expect(service.start(undefined)).rejects.toThrow(BadRequestException);
+      await expect(service.start(csvFile('name,price\n'))).rejects.toThrow(
+        'The file has no rows to import',
+      );
+      expect(mockImportRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rows', () => {
+    it('should create products without a known SKU and update the one with it', async () => {
+      const result = await importFile(
+        'sku,name,description,price,stock_quantity\n' +
+          'tee-red,Red Tee,Cotton,19.99,5\n' +
+          'TEE-BLUE,Blue Tee,Cotton,21,3\n',
+      );
+
+      expect(mockProductsService.update).toHaveBeenCalledWith(
+        existingProduct.id,
+        expect.objectContaining({ sku: 'TEE-RED', price: 19.99, stock_quantity: 5 }),
+        undefined,
+        'ada@x.io',
+      );
+      expect(mockProductsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ sku: 'TEE-BLUE', name: 'Blue Tee' }),
+        undefined,
+        'ada@x.io',
+      );
+      expect(result).toEqual(
+        expect.objectContaining({
+          status: ProductImportStatus.COMPLETED,
+          processed_rows: 2,
+          created_count: 1,
+          updated_count: 1,
+          failed_count: 0,
+          errors: [],
+        }),
+      );
+      expect(mockProductsService.invalidateProductListCache).toHaveBeenCalled();
+    });
+
+    it("should update the product with the row's external ID, even under a new SKU", async () => {
+      const result = await importFile(
+        'external_id,sku,name,description,price,stock_quantity\n' +
+          'erp-1,TEE-CRIMSON,Crimson Tee,Cotton,19.99,5\n',
+      );
+
+      expect(mockProductsService.update).toHaveBeenCalledWith(
+        existingProduct.id,
+        expect.objectContaining({ external_id: 'erp-1', sku: 'TEE-CRIMSON' }),
+        undefined,
+        'ada@x.io',
+      );
+      expect(mockProductsService.create).not.toHaveBeenCalled();
+      expect(result.updated_count).toBe(1);
+    });
+
+    it('should not move an external ID onto a product that has another', async () => {
+      const result = await importFile(
+        'external_id,sku,name,description,price,stock_quantity\n' +
+          'erp-2,TEE-RED,Red Tee,Cotton,19.99,5\n',
+      );
+
+      expect(result.errors).toEqual([
+        {
+          row: 1,
+          sku: 'TEE-RED',
+          external_id: 'erp-2',
+          messages: ['SKU TEE-RED belongs to the product with external ID erp-1'],
+        },
+      ]);
+      expect(mockProductsService.update).not.toHaveBeenCalled();
+    });
+
+    it('should report rows that break the product rules and carry on', async () => {
+      const result = await importFile(
+        'sku,name,description,price,stock_quantity,colour\n' +
+          'TEE-BLUE,Blue Tee,Cotton,-1,3,\n' +
+          'TEE-GREEN,Green Tee,Cotton,21,3,green\n' +
+          'TEE-PINK,Pink Tee,Cotton,21,3,\n',
+      );
+
+      expect(result.errors).toEqual([
+        { row: 1, sku: 'TEE-BLUE', messages: ['price must be a positive number'] },
+        { row: 2, sku: 'TEE-GREEN', messages: ['property colour should not exist'] },
+      ]);
+      expect(result.failed_count).toBe(2);
+      expect(mockProductsService.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report errors raised while writing the row', async () => {
+      mockProductsService.create.mockRejectedValueOnce(
+        new BadRequestException('Unsupported currency CHF'),
+      );
+
+      const result = await importFile(
+        'name,description,price,currency,stock_quantity\nRed Tee,Cotton,19.99,CHF,5\n',
+      );
+
+      expect(result.errors).toEqual([{ row: 1, messages: ['Unsupported currency CHF'] }]);
+    });
+
+    it('should reject a SKU repeated further down the file', async () => {
+      const result = await importFile(
+        'sku,name,description,price,stock_quantity\n' +
+          'TEE-BLUE,Blue Tee,Cotton,21,3\n' +
+          'tee-blue,Blue Tee,Cotton,22,3\n',
+      );
+
+      expect(result.errors).toEqual([
+        { row: 2, sku: 'tee-blue', messages: ['SKU TEE-BLUE is already imported by row 1'] },
+      ]);
+    });
+
+    it('should reject an external ID repeated further down the file', async () => {
+      const result = await importFile(
+        'external_id,name,description,price,stock_quantity\n' +
+          'erp-7,Blue Tee,Cotton,21,3\n' +
+          'erp-7,Blue Tee,Cotton,22,3\n',
+      );
+
+      expect(result.errors).toEqual([
+        {
+          row: 2,
+          external_id: 'erp-7',
+          messages: ['External ID erp-7 is already imported by row 1'],
+        },
+      ]);
+    });
+
+    it('should only validate in a dry run', async () => {
+      mockProductsService.assertValidProductData.mockRejectedValueOnce(
+        new BadRequestException('Tax class luxury does not exist'),
+      );
+
+      const result = await importFile(
+        'sku,name,description,price,tax_class,stock_quantity\n' +
+          'TEE-RED,Red Tee,Cotton,19.99,luxury,5\n' +
+          'TEE-RED-2,Red Tee,Cotton,19.99,,5\n',
+        true,
+      );
+
+      expect(mockProductsService.assertValidProductData).toHaveBeenCalledWith(
+        expect.objectContaining({ sku: 'TEE-RED' }),
+        existingProduct.id,
+      );
+      expect(mockProductsService.create).not.toHaveBeenCalled();
+      expect(mockProductsService.update).not.toHaveBeenCalled();
+      expect(mockProductsService.invalidateProductListCache).not.toHaveBeenCalled();
+      expect(result).toEqual(
+        expect.objectContaining({
+          status: ProductImportStatus.COMPLETED,
+          created_count: 1,
+          updated_count: 0,
+          failed_count: 1,
+        }),
+      );
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException for an unknown import', async () => {
+      mockImportRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
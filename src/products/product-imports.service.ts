@@ -0,0 +1,232 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  NotFoundException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { ProductImport, ProductImportStatus } from './entities/product-import.entity';
+import { CreateProductDto } from './dto/create-product.dto';
+import { ProductsService } from './products.service';
+import { Product } from './entities/product.entity';
+import { ImportRow, importFormatOf, parseImportFile } from './product-import-parser';
+
+enum RowOutcome {
+  CREATED = 'created',
+  UPDATED = 'updated',
+}
+
+/**
+ * Imports products from CSV and NDJSON uploads in the background, creating products
+ * or updating the product with the row's external ID or SKU, and keeps a report of rejected rows
+ */
+@Injectable()
+export class ProductImportsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ProductImportsService.name);
+  // Progress is saved every this many rows
+  private readonly PROGRESS_INTERVAL = 100;
+  // Imports run one after another, so two files upserting the same product never interleave
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    @InjectRepository(ProductImport)
+    private readonly importRepository: Repository<ProductImport>,
+    private readonly productsService: ProductsService,
+  ) {}
+
+  async onModuleInit() {
+    // Rows are only held in memory, so imports cut short by a restart can't resume
+    await this.importRepository.update(
+      { status: In([ProductImportStatus.QUEUED, ProductImportStatus.RUNNING]) },
+      {
+        status: ProductImportStatus.FAILED,
+        failure_reason: 'Interrupted by a restart; upload the file again',
+        finished_at: new Date(),
+      },
+    );
+  }
+
+  async onModuleDestroy() {
+    await this.queue;
+  }
+
+  /**
+   * Reads the uploaded file and queues its rows, returning the import to poll for progress
+   */
+  async start(file: any, dryRun = false, actor?: string): Promise<ProductImport> {
+    if (!file) {
+      throw new BadRequestException('A CSV or NDJSON file is required');
+    }
+
+    const format = importFormatOf(file);
+    const rows = parseImportFile(format, file.buffer.toString('utf8'));
+    if (rows.length === 0) {
+      throw new BadRequestException('The file has no rows to import');
+    }
+
+    const productImport = await this.importRepository.save(
+      this.importRepository.create({
+        format,
+        filename: file.originalname,
+        dry_run: dryRun,
+        total_rows: rows.length,
+        processed_rows: 0,
+        created_count: 0,
+        updated_count: 0,
+        failed_count: 0,
+        errors: [],
+        created_by: actor,
+      }),
+    );
+
+    this.queue = this.queue.then(() =>
+      this.run(productImport, rows, actor).catch((error) => {
+        this.logger.error(`Product import ${productImport.id} failed:`, error);
+      }),
+    );
+    return productImport;
+  }
+
+  async findOne(id: string): Promise<ProductImport> {
+    const productImport = await this.importRepository.findOne({ where: { id } });
+    if (!productImport) {
+      throw new NotFoundException(`Product import with ID ${id} not found`);
+    }
+    return productImport;
+  }
+
+  private async run(productImport: ProductImport, rows: ImportRow[], actor?: string) {
+    productImport.status = ProductImportStatus.RUNNING;
+    await this.importRepository.save(productImport);
+
+    // First row each SKU and external ID appeared on, so a file can't upsert one product twice
+    const keyRows = new Map<string, number>();
+    try {
+      for (const row of rows) {
+        try {
+          const outcome = await this.importRow(row, productImport.dry_run, keyRows, actor);
+          if (outcome === RowOutcome.CREATED) {
+            productImport.created_count++;
+          } else {
+            productImport.updated_count++;
+          }
+        } catch (error) {
+          productImport.failed_count++;
+          productImport.errors.push({
+            row: row.row,
+            sku: typeof row.data?.sku === 'string' ? row.data.sku : undefined,
+            external_id:
+              typeof row.data?.external_id === 'string' ? row.data.external_id : undefined,
+            messages: this.messagesOf(error),
+          });
+        }
+
+        productImport.processed_rows++;
+        if (productImport.processed_rows % this.PROGRESS_INTERVAL === 0) {
+          await this.importRepository.save(productImport);
+        }
+      }
+
+      productImport.status = ProductImportStatus.COMPLETED;
+    } catch (error) {
+      productImport.status = ProductImportStatus.FAILED;
+      productImport.failure_reason = error instanceof Error ? error.message : String(error);
+    }
+
+    productImport.finished_at = new Date();
+    await this.importRepository.save(productImport);
+
+    // Updates clear the cache as they go; new products only show up in the lists
+    if (productImport.created_count > 0 && !productImport.dry_run) {
+      await this.productsService.invalidateProductListCache();
+    }
+  }
+
+  private async importRow(
+    row: ImportRow,
+    dryRun: boolean,
+    keyRows: Map<string, number>,
+    actor?: string,
+  ): Promise<RowOutcome> {
+    if (row.error) {
+      throw new BadRequestException(row.error);
+    }
+
+    // The same rules POST /products applies to its body
+    const productDto = plainToInstance(CreateProductDto, row.data);
+    const validationErrors = await validate(productDto, {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+    if (validationErrors.length > 0) {
+      throw new BadRequestException(
+        validationErrors.flatMap((error) => Object.values(error.constraints ?? {})),
+      );
+    }
+
+    const keys: string[] = [];
+    if (productDto.sku) {
+      keys.push(`SKU ${productDto.sku}`);
+    }
+    if (productDto.external_id) {
+      keys.push(`External ID ${productDto.external_id}`);
+    }
+    for (const key of keys) {
+      const firstRow = keyRows.get(key);
+      if (firstRow !== undefined) {
+        throw new ConflictException(`${key} is already imported by row ${firstRow}`);
+      }
+    }
+    keys.forEach((key) => keyRows.set(key, row.row));
+
+    const existing = await this.findExisting(productDto);
+    if (dryRun) {
+      await this.productsService.assertValidProductData(productDto, existing?.id);
+    } else if (existing) {
+      await this.productsService.update(existing.id, productDto, undefined, actor);
+    } else {
+      await this.productsService.create(productDto, undefined, actor);
+    }
+    return existing ? RowOutcome.UPDATED : RowOutcome.CREATED;
+  }
+
+  /**
+   * Finds the product a row updates: the one with its external ID, else the one with its SKU
+   */
+  private async findExisting(productDto: CreateProductDto): Promise<Product | null> {
+    if (productDto.external_id) {
+      const product = await this.productsService.findOneByExternalId(productDto.external_id);
+      if (product) {
+        return product;
+      }
+    }
+
+    const product = productDto.sku ? await this.productsService.findOneBySku(productDto.sku) : null;
+    // Products imported by SKU alone pick up the row's external ID
+    if (product?.external_id && productDto.external_id) {
+      throw new ConflictException(
+        `SKU ${productDto.sku} belongs to the product with external ID ${product.external_id}`,
+      );
+    }
+    return product;
+  }
+
+  private messagesOf(error: unknown): string[] {
+    if (error instanceof HttpException) {
+      const response = error.getResponse();
+      const message = typeof response === 'string' ? response : (response as any).message;
+      return Array.isArray(message) ? message : [message ?? error.message];
+    }
+
+    // Anything else is a bug or an outage rather than a problem with the row
+    this.logger.error('Unexpected error importing a product row:', error);
+    return ['Unexpected error, the row was not imported'];
+  }
+}
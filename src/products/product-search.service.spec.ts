@@ -0,0 +1,213 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { In } from 'typeorm';
+import { ProductSearchService, tokenize, editDistance } from './product-search.service';
+import { Product } from './entities/product.entity';
+import { ReservationsService } from '../reservations/reservations.service';
+import { CurrenciesService } from '../currencies/currencies.service';
+
+describe('ProductSearchService', () => {
+  let service: ProductSearchService;
+
+  const shoesId = '123e4567-e89b-12d3-a456-426614174000';
+  const socksId = '223e4567-e89b-12d3-a456-426614174000';
+
+  const createMockProduct = (id: string, name: string): Product =>
+    Object.assign(new Product(), {
+      id,
+      name,
+      description: `${name} for everyday running`,
+      price: 50,
+      stock_quantity: 10,
+    });
+
+  // Rows as FTS5 returns them, with \u0002 and \u0003 around the matched words
+  let searchRows: { product_id: string; score: number; name: string; description: string }[];
+  let vocabulary: { term: string; doc: number }[];
+  let counts: { indexed: number; products: number };
+
+  const mockManager = {
+    query: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    manager: { transaction: jest.fn((work) => work(mockManager)) },
+    find: jest.fn(),
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('AS indexed')) {
+        return [counts];
+      }
+      if (sql.includes('COUNT(*) AS total')) {
+        return [{ total: searchRows.length }];
+      }
+      if (sql.includes('highlight(')) {
+        return searchRows;
+      }
+      if (sql.includes('term >= ?')) {
+        return vocabulary.filter(({ term }) => term.startsWith(params[0]));
+      }
+      if (sql.includes('length(term)')) {
+        return vocabulary;
+      }
+      return [];
+    }),
+  };
+
+  const mockReservationsService = {
+    getReservedQuantities: jest.fn(),
+  };
+
+  const mockCurrenciesService = {
+    getConverter: jest.fn(),
+  };
+
+  const matchOf = () =>
+    mockProductRepository.query.mock.calls.find(([sql]) => sql.includes('highlight('))[1][4];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductSearchService,
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: ReservationsService,
+          useValue: mockReservationsService,
+        },
+        {
+          provide: CurrenciesService,
+          useValue: mockCurrenciesService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProductSearchService>(ProductSearchService);
+
+    searchRows = [];
+    vocabulary = [
+      { term: 'running', doc: 2 },
+      { term: 'shoes', doc: 1 },
+      { term: 'socks', doc: 1 },
+    ];
+    counts = { indexed: 2, products: 2 };
+    mockProductRepository.find.mockResolvedValue([
+      createMockProduct(shoesId, 'Shoes'),
+      createMockProduct(socksId, 'Socks'),
+    ]);
+    mockReservationsService.getReservedQuantities.mockResolvedValue(new Map([[shoesId, 4]]));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('tokenize', () => {
+    it('should fold case and accents and drop punctuation and repeats', () => {
+      expect(tokenize('Café-au-lait, CAFÉ!')).toEqual(['cafe', 'au', 'lait']);
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count an adjacent swap as one edit', () => {
+      expect(editDistance('shoes', 'sheos', 2)).toBe(1);
+      expect(editDistance('runing', 'running', 2)).toBe(1);
+    });
+
+    it('should stop once the distance exceeds the maximum', () => {
+      expect(editDistance('socks', 'shoes', 1)).toBe(2);
+      expect(editDistance('sock', 'running', 1)).toBe(2);
+    });
+  });
+
+  describe('onModuleInit', () => {
+    it('should create the index with triggers for inserts, updates and deletes', async () => {
+      await service.onModuleInit();
+
+      const statements = mockProductRepository.query.mock.calls.map(([sql]) => sql).join('\n');
+      expect(statements).toContain('USING fts5(');
+      expect(statements).toContain('AFTER INSERT ON products');
+      expect(statements).toContain('AFTER UPDATE OF name, description ON products');
+      expect(statements).toContain('AFTER DELETE ON products');
+      expect(mockProductRepository.manager.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should rebuild the index when it has drifted from the products table', async () => {
+      counts = { indexed: 0, products: 2 };
+
+      await service.onModuleInit();
+
+      expect(mockManager.query).toHaveBeenCalledWith('DELETE FROM products_fts');
+      expect(mockManager.query).toHaveBeenCalledWith(
+        expect.stringContaining('SELECT id, name, description FROM products'),
+      );
+    });
+  });
+
+  describe('search', () => {
+    it('should match every word by prefix', async () => {
+      await service.search({ q: 'Run sho', page: 1, limit: 10 });
+
+      expect(matchOf()).toBe('"run"* AND "sho"*');
+    });
+
+    it('should also match misspelt words as the closest indexed words', async () => {
+      const result = await service.search({ q: 'runing shoes', page: 1, limit: 10 });
+
+      expect(matchOf()).toBe('("runing"* OR "running") AND "shoes"*');
+      expect(result.corrections).toEqual({ runing: ['running'] });
+    });
+
+    it('should return products in rank order with escaped, highlighted matches', async () => {
+      searchRows = [
+        {
+          product_id: socksId,
+          score: 2.5,
+          name: '\u0002Socks\u0003 <3',
+          description: 'Socks for everyday \u0002running\u0003',
+        },
+        { product_id: shoesId, score: 1.25, name: 'Shoes', description: '…\u0002running\u0003' },
+      ];
+
+      const result = await service.search({ q: 'socks', page: 2, limit: 5 });
+
+      expect(mockProductRepository.find).toHaveBeenCalledWith({
+        where: { id: In([socksId, shoesId]) },
+      });
+      expect(result.products.map((hit) => hit.id)).toEqual([socksId, shoesId]);
+      expect(result.products[0].score).toBe(2.5);
+      expect(result.products[0].highlights).toEqual({
+        name: '<mark>Socks</mark> &lt;3',
+        description: 'Socks for everyday <mark>running</mark>',
+      });
+      expect(result.products[1].available).toBe(6);
+      expect(result).toMatchObject({ total: 2, page: 2, limit: 5, corrections: {} });
+      expect(mockProductRepository.query).toHaveBeenCalledWith(expect.any(String), [
+        '\u0002',
+        '\u0003',
+        '\u0002',
+        '\u0003',
+        '"socks"*',
+        5,
+        5,
+      ]);
+    });
+
+    it('should skip products deleted since they were matched', async () => {
+      searchRows = [{ product_id: shoesId, score: 1, name: 'Shoes', description: '' }];
+      mockProductRepository.find.mockResolvedValue([]);
+
+      const result = await service.search({ q: 'shoes', page: 1, limit: 10 });
+
+      expect(result.products).toEqual([]);
+    });
+
+    it('should reject a query without letters or digits', async () => {
+      await expect(service.search({ q: '?!', page: 1, limit: 10 })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { Injectable, BadRequestException, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Product } from './entities/product.entity';
+import { ProductSearchQueryDto } from './dto/product-search-query.dto';
+import { ProductSearchResultDto, ProductSearchHitDto } from './dto/product-search-result.dto';
+import { ProductWithPricingDto } from './dto/product-with-pricing.dto';
+import { ReservationsService } from '../reservations/reservations.service';
+import { CurrenciesService } from '../currencies/currencies.service';
+
+const FTS_TABLE = 'products_fts';
+const VOCAB_TABLE = 'products_fts_vocab';
+
+// bm25 takes a weight per FTS column: product_id is not indexed and a name match counts ten times
+const RANK = `bm25(${FTS_TABLE}, 0.0, 10.0, 1.0)`;
+
+// Control characters never found in product text mark the matches until the text is escaped
+const MARK_START = '\u0002';
+const MARK_END = '\u0003';
+
+const MAX_TERMS = 10;
+const MIN_TYPO_LENGTH = 4;
+const MAX_CORRECTIONS = 3;
+
+/**
+ * Splits a query into words the way the FTS5 unicode61 tokenizer splits the indexed text
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  return [...new Set(words)].slice(0, MAX_TERMS);
+}
+
+/**
+ * Number of insertions, deletions, substitutions and adjacent swaps between two words,
+ * or max + 1 as soon as the distance is known to exceed max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const twoRowsBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], twoRowsBack[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+  }
+  return row[b.length];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function markMatches(text: string | null): string {
+  return escapeHtml(text ?? '')
+    .split(MARK_START)
+    .join('<mark>')
+    .split(MARK_END)
+    .join('</mark>');
+}
+
+interface SearchRow {
+  product_id: string;
+  score: number;
+  name: string;
+  description: string;
+}
+
+/**
+ * Full-text search over product names and descriptions, backed by an SQLite FTS5 index
+ */
+@Injectable()
+export class ProductSearchService implements OnModuleInit {
+  constructor(
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    private readonly reservationsService: ReservationsService,
+    private readonly currenciesService: CurrenciesService,
+  ) {}
+
+  /**
+   * Creates the index and the triggers that keep it in step with every write to products.
+   * The index is rebuilt when it has drifted, e.g. after synchronize recreated the products table
+   * and dropped its triggers.
+   */
+  async onModuleInit() {
+    const statements = [
+      `CREATE VIRTUAL TABLE IF NOT EXISTS ${FTS_TABLE} USING fts5(
+        product_id UNINDEXED, name, description, tokenize = 'unicode61 remove_diacritics 2'
+      )`,
+      `CREATE VIRTUAL TABLE IF NOT EXISTS ${VOCAB_TABLE} USING fts5vocab(${FTS_TABLE}, 'row')`,
+      `CREATE TRIGGER IF NOT EXISTS ${FTS_TABLE}_insert AFTER INSERT ON products BEGIN
+        INSERT INTO ${FTS_TABLE} (product_id, name, description)
+        VALUES (new.id, new.name, new.description);
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS ${FTS_TABLE}_update AFTER UPDATE OF name, description ON products
+      BEGIN
+        UPDATE ${FTS_TABLE} SET name = new.name, description = new.description
+        WHERE product_id = old.id;
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS ${FTS_TABLE}_delete AFTER DELETE ON products BEGIN
+        DELETE FROM ${FTS_TABLE} WHERE product_id = old.id;
+      END`,
+    ];
+    for (const statement of statements) {
+      await this.productRepository.query(statement);
+    }
+
+    const [counts] = await this.productRepository.query(
+      `SELECT (SELECT COUNT(*) FROM ${FTS_TABLE}) AS indexed, (SELECT COUNT(*) FROM products) AS products`,
+    );
+    if (Number(counts.indexed) !== Number(counts.products)) {
+      await this.reindex();
+    }
+  }
+
+  /**
+   * Rebuilds the index from the products table
+   */
+  async reindex(): Promise<void> {
+    await this.productRepository.manager.transaction(async (manager) => {
+      await manager.query(`DELETE FROM ${FTS_TABLE}`);
+      await manager.query(
+        `INSERT INTO ${FTS_TABLE} (product_id, name, description)
+        SELECT id, name, description FROM products`,
+      );
+    });
+  }
+
+  /**
+   * Ranks products matching every word of the query, each word also matching longer words it
+   * starts. A word that starts no indexed word is also matched as the indexed words closest to it.
+   */
+  async search(query: ProductSearchQueryDto): Promise<ProductSearchResultDto> {
+    const { q, page = 1, limit = 10, currency } = query;
+    const terms = tokenize(q);
+    if (terms.length === 0) {
+      throw new BadRequestException('q must contain at least one letter or digit');
+    }
+
+    const corrections: Record<string, string[]> = {};
+    const clauses: string[] = [];
+    for (const term of terms) {
+      const similar = await this.findSimilarTerms(term);
+      if (similar.length > 0) {
+        corrections[term] = similar;
+      }
+      const alternatives = [`"${term}"*`, ...similar.map((word) => `"${word}"`)];
+      clauses.push(alternatives.length > 1 ? `(${alternatives.join(' OR ')})` : alternatives[0]);
+    }
+    const match = clauses.join(' AND ');
+
+    const converter = currency ? await this.currenciesService.getConverter(currency) : undefined;
+
+    const [{ total }] = await this.productRepository.query(
+      `SELECT COUNT(*) AS total FROM ${FTS_TABLE} WHERE ${FTS_TABLE} MATCH ?`,
+      [match],
+    );
+    const rows: SearchRow[] = await this.productRepository.query(
+      `SELECT product_id, -${RANK} AS score,
+        highlight(${FTS_TABLE}, 1, ?, ?) AS name,
+        snippet(${FTS_TABLE}, 2, ?, ?, '…', 24) AS description
+      FROM ${FTS_TABLE} WHERE ${FTS_TABLE} MATCH ?
+      ORDER BY ${RANK} LIMIT ? OFFSET ?`,
+      [MARK_START, MARK_END, MARK_START, MARK_END, match, limit, (page - 1) * limit],
+    );
+
+    const ids = rows.map((row) => row.product_id);
+    const products =
+      ids.length > 0 ? await this.productRepository.find({ where: { id: In(ids) } }) : [];
+    const reserved = await this.reservationsService.getReservedQuantities(ids);
+
+    const hits: ProductSearchHitDto[] = [];
+    for (const row of rows) {
+      const product = products.find((candidate) => candidate.id === row.product_id);
+      if (!product) {
+        continue;
+      }
+      hits.push({
+        ...ProductWithPricingDto.fromProduct(product, reserved.get(product.id), converter),
+        score: Number(row.score),
+        highlights: {
+          name: markMatches(row.name),
+          description: markMatches(row.description),
+        },
+      });
+    }
+
+    return { products: hits, total: Number(total), page, limit, corrections };
+  }
+
+  /**
+   * Indexed words within one edit of the term, or two for terms of eight letters or more,
+   * closest and most common first. Terms that start an indexed word are taken as spelt right.
+   */
+  private async findSimilarTerms(term: string): Promise<string[]> {
+    if (term.length < MIN_TYPO_LENGTH || /^\d+$/.test(term)) {
+      return [];
+    }
+
+    const prefixed = await this.productRepository.query(
+      `SELECT term FROM ${VOCAB_TABLE} WHERE term >= ? AND term < ? LIMIT 1`,
+      [term, `${term}\uffff`],
+    );
+    if (prefixed.length > 0) {
+      return [];
+    }
+
+    const maxEdits = term.length >= 8 ? 2 : 1;
+    const candidates: { term: string; doc: number }[] = await this.productRepository.query(
+      `SELECT term, doc FROM ${VOCAB_TABLE} WHERE length(term) BETWEEN ? AND ?`,
+      [term.length - maxEdits, term.length + maxEdits],
+    );
+
+    return candidates
+      .map((candidate) => ({
+        ...candidate,
+        distance: editDistance(term, candidate.term, maxEdits),
+      }))
+      .filter((candidate) => candidate.distance <= maxEdits)
+      .sort((a, b) => a.distance - b.distance || b.doc - a.doc || a.term.localeCompare(b.term))
+      .slice(0, MAX_CORRECTIONS)
+      .map((candidate) => candidate.term);
+  }
+}
@@ -0,0 +1,103 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ProductVariantsController } from './product-variants.controller';
+import { ProductVariantsService } from './product-variants.service';
+import { ROLES_KEY } from '../auth/guards/roles.guard';
+import { JwtPayload, TokenType } from '../auth/auth.service';
+import { Role } from '../users/entities/user.entity';
+
+describe('ProductVariantsController', () => {
+  let controller: ProductVariantsController;
+  let service: ProductVariantsService;
+
+  const productId = '123e4567-e89b-12d3-a456-426614174000';
+  const mockVariant = {
+    id: '456e7890-e89b-12d3-a456-426614174001',
+    product_id: productId,
+    sku: 'TEE-RED-M',
+    options: { colour: 'red', size: 'M' },
+    stock_quantity: 3,
+  };
+  const user: JwtPayload = {
+    sub: 'user-1',
+    email: 'merch@example.com',
+    role: Role.MERCHANDISER,
+    type: TokenType.ACCESS,
+  };
+
+  const mockProductVariantsService = {
+    findAll: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ProductVariantsController],
+      providers: [
+        {
+          provide: ProductVariantsService,
+          useValue: mockProductVariantsService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    controller = module.get<ProductVariantsController>(ProductVariantsController);
+    service = module.get<ProductVariantsService>(ProductVariantsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list the variants of a product', async () => {
+    mockProductVariantsService.findAll.mockResolvedValue([mockVariant]);
+
+    expect(await controller.findAll(productId)).toEqual([mockVariant]);
+    expect(service.findAll).toHaveBeenCalledWith(productId);
+  });
+
+  it('should create a variant on behalf of the signed-in user', async () => {
+    const dto = { sku: 'TEE-RED-M', options: { colour: 'red', size: 'M' }, stock_quantity: 3 };
+    mockProductVariantsService.create.mockResolvedValue(mockVariant);
+
+    expect(await controller.create(productId, dto, user)).toEqual(mockVariant);
+    expect(service.create).toHaveBeenCalledWith(productId, dto, 'merch@example.com');
+  });
+
+  it('should update a variant', async () => {
+    mockProductVariantsService.update.mockResolvedValue({ ...mockVariant, price: 21 });
+
+    const result = await controller.update(productId, mockVariant.id, { price: 21 }, user);
+
+    expect(service.update).toHaveBeenCalledWith(
+      productId,
+      mockVariant.id,
+      { price: 21 },
+      'merch@example.com',
+    );
+    expect(result.price).toBe(21);
+  });
+
+  it('should delete a variant', async () => {
+    await controller.remove(productId, mockVariant.id);
+
+    expect(service.remove).toHaveBeenCalledWith(productId, mockVariant.id);
+  });
+
+  it('should restrict changes to admins and merchandisers', () => {
+    const rolesOf = (handler: (...args: any[]) => unknown) =>
+      Reflect.getMetadata(ROLES_KEY, handler);
+    const { findAll, create, update, remove } = ProductVariantsController.prototype;
+
+    expect(rolesOf(findAll)).toBeUndefined();
+    for (const handler of [create, update, remove]) {
+      expect(rolesOf(handler)).toEqual([Role.ADMIN, Role.MERCHANDISER]);
+    }
+  });
+});
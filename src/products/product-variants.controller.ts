@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { ProductVariantsService } from './product-variants.service';
+import { CreateProductVariantDto } from './dto/create-product-variant.dto';
+import { UpdateProductVariantDto } from './dto/update-product-variant.dto';
+import { ProductVariant } from './entities/product-variant.entity';
+import { ParseUUIDPipe } from '../common/pipes/parse-uuid.pipe';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+import { Role } from '../users/entities/user.entity';
+
+@ApiTags('products')
+@Controller('products/:productId/variants')
+export class ProductVariantsController {
+  constructor(private readonly productVariantsService: ProductVariantsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the variants of a product' })
+  @ApiParam({ name: 'productId', description: 'Product ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Variants retrieved successfully',
+    type: [ProductVariant],
+  })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async findAll(@Param('productId', ParseUUIDPipe) productId: string): Promise<ProductVariant[]> {
+    return await this.productVariantsService.findAll(productId);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Add a variant to a product' })
+  @ApiParam({ name: 'productId', description: 'Product ID' })
+  @ApiResponse({ status: 201, description: 'Variant created successfully', type: ProductVariant })
+  @ApiResponse({ status: 400, description: 'Bad request - options do not match the product axes' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  @ApiResponse({ status: 409, description: 'SKU or option combination already exists' })
+  async create(
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Body() createVariantDto: CreateProductVariantDto,
+    @CurrentUser() user?: JwtPayload,
+  ): Promise<ProductVariant> {
+    return await this.productVariantsService.create(productId, createVariantDto, user?.email);
+  }
+
+  @Put(':id')
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Update a product variant' })
+  @ApiParam({ name: 'productId', description: 'Product ID' })
+  @ApiParam({ name: 'id', description: 'Variant ID' })
+  @ApiResponse({ status: 200, description: 'Variant updated successfully', type: ProductVariant })
+  @ApiResponse({ status: 400, description: 'Bad request - options do not match the product axes' })
+  @ApiResponse({ status: 404, description: 'Variant not found' })
+  @ApiResponse({ status: 409, description: 'SKU or option combination already exists' })
+  async update(
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateVariantDto: UpdateProductVariantDto,
+    @CurrentUser() user?: JwtPayload,
+  ): Promise<ProductVariant> {
+    return await this.productVariantsService.update(productId, id, updateVariantDto, user?.email);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Delete a product variant without stock' })
+  @ApiParam({ name: 'productId', description: 'Product ID' })
+  @ApiParam({ name: 'id', description: 'Variant ID' })
+  @ApiResponse({ status: 204, description: 'Variant deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Variant still holds stock' })
+  @ApiResponse({ status: 404, description: 'Variant not found' })
+  async remove(
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    return await this.productVariantsService.remove(productId, id);
+  }
+}
@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { ProductVariantsService } from './product-variants.service';
+import { ProductVariant } from './entities/product-variant.entity';
+import { ProductsService } from './products.service';
+import { StockMovementType } from '../inventory/entities/stock-movement.entity';
+
+describe('ProductVariantsService', () => {
+  let service: ProductVariantsService;
+
+  const productId = '123e4567-e89b-12d3-a456-426614174000';
+  const variantId = '456e7890-e89b-12d3-a456-426614174001';
+
+  const existingVariant = {
+    id: '789e0123-e89b-12d3-a456-426614174002',
+    product_id: productId,
+    sku: 'TEE-RED-M',
+    options: { colour: 'red', size: 'M' },
+    stock_quantity: 0,
+  };
+
+  const mockProduct = {
+    id: productId,
+    name: 'T-shirt',
+    variants: [existingVariant],
+  };
+
+  const mockVariantRepository = {
+    create: jest.fn((data) => ({ ...data })),
+    save: jest.fn(async (variant) => ({ id: variantId, ...variant })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockProductsService = {
+    findOneEntity: jest.fn(),
+    adjustStock: jest.fn(),
+    invalidateProductCache: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductVariantsService,
+        {
+          provide: getRepositoryToken(ProductVariant),
+          useValue: mockVariantRepository,
+        },
+        {
+          provide: ProductsService,
+          useValue: mockProductsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProductVariantsService>(ProductVariantsService);
+    mockProductsService.findOneEntity.mockResolvedValue(mockProduct);
+    mockVariantRepository.findOne.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should return the variants in the order they were added', async () => {
+      mockVariantRepository.find.mockResolvedValue([existingVariant]);
+
+      const result = await service.findAll(productId);
+
+      expect(mockVariantRepository.find).toHaveBeenCalledWith({
+        where: { product_id: productId },
+        order: { created_at: 'ASC' },
+      });
+      expect(result).toEqual([existingVariant]);
+    });
+  });
+
+  describe('create', () => {
+    it('should normalize the options and receive the initial stock through the ledger', async () => {
+      const result = await service.create(
+        productId,
+        { sku: 'TEE-BLUE-M', options: { Size: ' M ', Colour: 'blue' }, stock_quantity: 5 },
+        'admin@example.com',
+      );
+
+      expect(mockVariantRepository.create).toHaveBeenCalledWith({
+        sku: 'TEE-BLUE-M',
+        options: { colour: 'blue', size: 'M' },
+        product_id: productId,
+        stock_quantity: 0,
+      });
+      expect(mockProductsService.adjustStock).toHaveBeenCalledWith(
+        productId,
+        {
+          type: StockMovementType.RECEIPT,
+          quantity: 5,
+          variant_id: variantId,
+          reason: 'Initial stock',
+        },
+        'admin@example.com',
+      );
+      expect(result.stock_quantity).toBe(5);
+    });
+
+    it('should only invalidate the product cache without initial stock', async () => {
+      await service.create(productId, {
+        sku: 'TEE-BLUE-M',
+        options: { colour: 'blue', size: 'M' },
+      });
+
+      expect(mockProductsService.adjustStock).not.toHaveBeenCalled();
+      expect(mockProductsService.invalidateProductCache).toHaveBeenCalledWith(productId);
+    });
+
+    it('should reject a SKU that is already taken', async () => {
+      mockVariantRepository.findOne.mockResolvedValue(existingVariant);
+
+      await expect(
+        service.create(productId, { sku: 'TEE-RED-M', options: { colour: 'blue', size: 'M' } }),
+      ).rejects.toThrow('A variant with SKU TEE-RED-M already exists');
+    });
+
+    it('should reject options that differ from the axes of the other variants', async () => {
+      await expect(
+        service.create(productId, { sku: 'TEE-BLUE', options: { colour: 'blue' } }),
+      ).rejects.toThrow(new BadRequestException('Variants of T-shirt are defined by colour, size'));
+    });
+
+    it('should reject an option combination another variant already has', async () => {
+      await expect(
+        service.create(productId, { sku: 'TEE-RED-M2', options: { size: 'M', colour: 'red' } }),
+      ).rejects.toThrow(new ConflictException('Variant TEE-RED-M already has these options'));
+    });
+
+    it('should reject empty option values', async () => {
+      await expect(
+        service.create(productId, { sku: 'TEE-X', options: { colour: ' ', size: 'M' } }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('update', () => {
+    it('should record a new stock level as an adjustment for the difference', async () => {
+      mockVariantRepository.findOne.mockResolvedValue({ ...existingVariant, stock_quantity: 4 });
+
+      const result = await service.update(productId, existingVariant.id, { stock_quantity: 1 });
+
+      expect(mockProductsService.adjustStock).toHaveBeenCalledWith(
+        productId,
+        {
+          type: StockMovementType.ADJUSTMENT,
+          quantity: -3,
+          variant_id: existingVariant.id,
+          reason: 'Stock level set by variant update',
+        },
+        undefined,
+      );
+      expect(result.stock_quantity).toBe(1);
+    });
+
+    it('should allow a variant to keep its own options', async () => {
+      mockVariantRepository.findOne.mockResolvedValue({ ...existingVariant });
+
+      await expect(
+        service.update(productId, existingVariant.id, { options: { colour: 'red', size: 'M' } }),
+      ).resolves.toBeDefined();
+    });
+
+    it('should throw NotFoundException for unknown variants', async () => {
+      await expect(service.update(productId, variantId, { price: 12 })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a variant without stock', async () => {
+      mockVariantRepository.findOne.mockResolvedValue(existingVariant);
+
+      await service.remove(productId, existingVariant.id);
+
+      expect(mockVariantRepository.remove).toHaveBeenCalledWith(existingVariant);
+      expect(mockProductsService.invalidateProductCache).toHaveBeenCalledWith(productId);
+    });
+
+    it('should refuse to delete a variant that still holds stock', async () => {
+      mockVariantRepository.findOne.mockResolvedValue({ ...existingVariant, stock_quantity: 2 });
+
+      await expect(service.remove(productId, existingVariant.id)).rejects.toThrow(
+        'Variant TEE-RED-M still holds 2 units',
+      );
+      expect(mockVariantRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+});
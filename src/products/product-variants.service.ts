@@ -0,0 +1,180 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ProductVariant } from './entities/product-variant.entity';
+import { Product } from './entities/product.entity';
+import { CreateProductVariantDto } from './dto/create-product-variant.dto';
+import { UpdateProductVariantDto } from './dto/update-product-variant.dto';
+import { ProductsService } from './products.service';
+import { StockMovementType } from '../inventory/entities/stock-movement.entity';
+
+@Injectable()
+export class ProductVariantsService {
+  constructor(
+    @InjectRepository(ProductVariant)
+    private readonly variantRepository: Repository<ProductVariant>,
+    private readonly productsService: ProductsService,
+  ) {}
+
+  async findAll(productId: string): Promise<ProductVariant[]> {
+    await this.productsService.findOneEntity(productId);
+
+    return await this.variantRepository.find({
+      where: { product_id: productId },
+      order: { created_at: 'ASC' },
+    });
+  }
+
+  /**
+   * Adds a variant; its initial stock is received into the product's stock through the ledger
+   */
+  async create(
+    productId: string,
+    createVariantDto: CreateProductVariantDto,
+    actor?: string,
+  ): Promise<ProductVariant> {
+    const product = await this.productsService.findOneEntity(productId);
+    const options = this.normalizeOptions(product, createVariantDto.options);
+    await this.assertSkuAvailable(createVariantDto.sku);
+
+    const { stock_quantity, ...fields } = createVariantDto;
+    const variant = this.variantRepository.create({
+      ...fields,
+      options,
+      product_id: productId,
+      stock_quantity: 0,
+    });
+    const savedVariant = await this.variantRepository.save(variant);
+
+    if (stock_quantity > 0) {
+      await this.productsService.adjustStock(
+        productId,
+        {
+          type: StockMovementType.RECEIPT,
+          quantity: stock_quantity,
+          variant_id: savedVariant.id,
+          reason: 'Initial stock',
+        },
+        actor,
+      );
+      savedVariant.stock_quantity = stock_quantity;
+    } else {
+      await this.productsService.invalidateProductCache(productId);
+    }
+    return savedVariant;
+  }
+
+  async update(
+    productId: string,
+    id: string,
+    updateVariantDto: UpdateProductVariantDto,
+    actor?: string,
+  ): Promise<ProductVariant> {
+    const product = await this.productsService.findOneEntity(productId);
+    const variant = await this.findVariant(productId, id);
+
+    if (updateVariantDto.sku && updateVariantDto.sku !== variant.sku) {
+      await this.assertSkuAvailable(updateVariantDto.sku);
+    }
+
+    const { stock_quantity, options, ...fields } = updateVariantDto;
+    Object.assign(variant, fields);
+    if (options) {
+      variant.options = this.normalizeOptions(product, options, variant.id);
+    }
+    const savedVariant = await this.variantRepository.save(variant);
+
+    // A new stock level is recorded as an adjustment for the difference
+    if (stock_quantity !== undefined && stock_quantity !== savedVariant.stock_quantity) {
+      await this.productsService.adjustStock(
+        productId,
+        {
+          type: StockMovementType.ADJUSTMENT,
+          quantity: stock_quantity - savedVariant.stock_quantity,
+          variant_id: savedVariant.id,
+          reason: 'Stock level set by variant update',
+        },
+        actor,
+      );
+      savedVariant.stock_quantity = stock_quantity;
+    } else {
+      await this.productsService.invalidateProductCache(productId);
+    }
+    return savedVariant;
+  }
+
+  /**
+   * Deletes a variant without stock; its stock has to be adjusted out first so totals stay right
+   */
+  async remove(productId: string, id: string): Promise<void> {
+    const variant = await this.findVariant(productId, id);
+    if (variant.stock_quantity > 0) {
+      throw new BadRequestException(
+        `Variant ${variant.sku} still holds ${variant.stock_quantity} units`,
+      );
+    }
+
+    await this.variantRepository.remove(variant);
+    await this.productsService.invalidateProductCache(productId);
+  }
+
+  private async findVariant(productId: string, id: string): Promise<ProductVariant> {
+    const variant = await this.variantRepository.findOne({ where: { id, product_id: productId } });
+    if (!variant) {
+      throw new NotFoundException(`Variant with ID ${id} not found`);
+    }
+    return variant;
+  }
+
+  private async assertSkuAvailable(sku: string): Promise<void> {
+    const existing = await this.variantRepository.findOne({ where: { sku } });
+    if (existing) {
+      throw new ConflictException(`A variant with SKU ${sku} already exists`);
+    }
+  }
+
+  /**
+   * Lower-cases the option names and trims the values, then checks the variant uses the same
+   * axes as the product's other variants without repeating one of their combinations
+   */
+  private normalizeOptions(
+    product: Product,
+    options: Record<string, string>,
+    variantId?: string,
+  ): Record<string, string> {
+    const entries = Object.entries(options)
+      .map(([name, value]) => [name.trim().toLowerCase(), String(value ?? '').trim()])
+      .sort(([a], [b]) => a.localeCompare(b));
+    if (entries.length === 0 || entries.some(([name, value]) => !name || !value)) {
+      throw new BadRequestException('options must give a non-empty value for each option name');
+    }
+    const normalized: Record<string, string> = Object.fromEntries(entries);
+
+    const siblings = (product.variants ?? []).filter((variant) => variant.id !== variantId);
+    if (siblings.length === 0) {
+      return normalized;
+    }
+
+    const axes = Object.keys(siblings[0].options).sort();
+    if (axes.join() !== Object.keys(normalized).join()) {
+      throw new BadRequestException(
+        `Variants of ${product.name} are defined by ${axes.join(', ')}`,
+      );
+    }
+
+    const combination = JSON.stringify(normalized);
+    const duplicate = siblings.find(
+      (variant) =>
+        JSON.stringify(Object.fromEntries(Object.entries(variant.options).sort())) === combination,
+    );
+    if (duplicate) {
+      throw new ConflictException(`Variant ${duplicate.sku} already has these options`);
+    }
+    return normalized;
+  }
+}
@@ -1,4 +1,5 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
 import { ProductsController } from './products.controller';
 import { ProductsService } from './products.service';
 import { CreateProductDto } from './dto/create-product.dto';
@@ -7,6 +8,13 @@ import { ProductQueryDto } from './dto/product-query.dto';
 import { ProductWithPricingDto } from './dto/product-with-pricing.dto';
 import { ApplyDiscountDto } from './dto/apply-discount.dto';
 import { Product } from './entities/product.entity';
+import { ROLES_KEY } from '../auth/guards/roles.guard';
+import { Role } from '../users/entities/user.entity';
+import { StockAlertsService } from '../stock-alerts/stock-alerts.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { StockMovementType } from '../inventory/entities/stock-movement.entity';
+import { TokenType } from '../auth/auth.service';
+import { ProductSearchService } from './product-search.service';
 
 describe('ProductsController', () => {
   let controller: ProductsController;
@@ -21,9 +29,6 @@ describe('ProductsController', () => {
       price: 99.99,
       stock_quantity: 10,
       image_url: 'https://example.com/image.jpg',
-      discount_percentage: null,
-      discount_start_date: null,
-      discount_end_date: null,
       created_at: new Date('2024-01-01'),
       updated_at: new Date('2024-01-01'),
       ...overrides,
@@ -43,6 +48,28 @@ describe('ProductsController', () => {
     remove: jest.fn(),
     applyDiscount: jest.fn(),
     removeDiscount: jest.fn(),
+    findDiscounts: jest.fn(),
+    cancelDiscount: jest.fn(),
+    adjustStock: jest.fn(),
+  };
+
+  const mockStockAlertsService = {
+    subscribe: jest.fn(),
+  };
+
+  const mockInventoryService = {
+    findByProduct: jest.fn(),
+  };
+
+  const mockProductSearchService = {
+    search: jest.fn(),
+  };
+
+  const mockUser = {
+    sub: 'user-id',
+    email: 'admin@example.com',
+    role: Role.ADMIN,
+    type: TokenType.ACCESS,
   };
 
   beforeEach(async () => {
@@ -53,6 +80,22 @@ describe('ProductsController', () => {
           provide: ProductsService,
           useValue: mockProductsService,
         },
+        {
+          provide: StockAlertsService,
+          useValue: mockStockAlertsService,
+        },
+        {
+          provide: InventoryService,
+          useValue: mockInventoryService,
+        },
+        {
+          provide: ProductSearchService,
+          useValue: mockProductSearchService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
       ],
     }).compile();
 
@@ -64,6 +107,48 @@ describe('ProductsController', () => {
     jest.clearAllMocks();
   });
 
+  describe('access control', () => {
+    const rolesOf = (handler: (...args: any[]) => unknown) =>
+      Reflect.getMetadata(ROLES_KEY, handler);
+
+    it('should restrict write routes to admins and merchandisers', () => {
+      const {
+        create,
+        update,
+        applyDiscount,
+        cancelDiscount,
+        remove,
+        removeDiscount,
+        adjustStock,
+        findStockMovements,
+        setCategories,
+      } = ProductsController.prototype;
+
+      for (const handler of [
+        create,
+        update,
+        applyDiscount,
+        cancelDiscount,
+        remove,
+        removeDiscount,
+        adjustStock,
+        findStockMovements,
+        setCategories,
+      ]) {
+        expect(rolesOf(handler)).toEqual([Role.ADMIN, Role.MERCHANDISER]);
+      }
+    });
+
+    it('should keep read routes public', () => {
+      const { findAll, search, findOne, findDiscounts, findCategories } =
+        ProductsController.prototype;
+
+      for (const handler of [findAll, search, findOne, findDiscounts, findCategories]) {
+        expect(rolesOf(handler)).toBeUndefined();
+      }
+    });
+  });
+
   describe('create', () => {
     it('should create a product without image', async () => {
       const createProductDto: CreateProductDto = {
@@ -75,9 +160,9 @@ describe('ProductsController', () => {
 
       mockProductsService.create.mockResolvedValue(mockProduct);
 
-      const result = await controller.create(createProductDto);
+      const result = await controller.create(createProductDto, undefined, mockUser);
 
-      expect(service.create).toHaveBeenCalledWith(createProductDto, undefined);
+      expect(service.create).toHaveBeenCalledWith(createProductDto, undefined, 'admin@example.com');
       expect(result).toEqual(mockProductWithPricing);
     });
 
@@ -98,9 +183,13 @@ describe('ProductsController', () => {
 
       mockProductsService.create.mockResolvedValue(mockProduct);
 
-      const result = await controller.create(createProductDto, mockImageFile);
+      const result = await controller.create(createProductDto, mockImageFile, mockUser);
 
-      expect(service.create).toHaveBeenCalledWith(createProductDto, mockImageFile);
+      expect(service.create).toHaveBeenCalledWith(
+        createProductDto,
+        mockImageFile,
+        'admin@example.com',
+      );
       expect(result).toEqual(mockProductWithPricing);
     });
   });
@@ -124,15 +213,57 @@ describe('ProductsController', () => {
     });
   });
 
+  describe('search', () => {
+    it('should return ranked matches', async () => {
+      const expectedResult = {
+        products: [
+          {
+            ...mockProductWithPricing,
+            score: 1.5,
+            highlights: {
+              name: '<mark>Test</mark> Product',
+              description: '<mark>Test</mark> Description',
+            },
+          },
+        ],
+        total: 1,
+        page: 1,
+        limit: 10,
+        corrections: {},
+      };
+      mockProductSearchService.search.mockResolvedValue(expectedResult);
+
+      const result = await controller.search({ q: 'test', page: 1, limit: 10 });
+
+      expect(mockProductSearchService.search).toHaveBeenCalledWith({
+        q: 'test',
+        page: 1,
+        limit: 10,
+      });
+      expect(result).toEqual(expectedResult);
+    });
+  });
+
   describe('findOne', () => {
     it('should return a single product', async () => {
       mockProductsService.findOne.mockResolvedValue(mockProductWithPricing);
 
-      const result = await controller.findOne('123e4567-e89b-12d3-a456-426614174000');
+      const result = await controller.findOne('123e4567-e89b-12d3-a456-426614174000', {});
 
-      expect(service.findOne).toHaveBeenCalledWith('123e4567-e89b-12d3-a456-426614174000');
+      expect(service.findOne).toHaveBeenCalledWith(
+        '123e4567-e89b-12d3-a456-426614174000',
+        undefined,
+      );
       expect(result).toEqual(mockProductWithPricing);
     });
+
+    it('should pass the requested currency through', async () => {
+      mockProductsService.findOne.mockResolvedValue({ ...mockProductWithPricing, currency: 'EUR' });
+
+      await controller.findOne('123e4567-e89b-12d3-a456-426614174000', { currency: 'EUR' });
+
+      expect(service.findOne).toHaveBeenCalledWith('123e4567-e89b-12d3-a456-426614174000', 'EUR');
+    });
   });
 
   describe('update', () => {
@@ -146,12 +277,14 @@ describe('ProductsController', () => {
         '123e4567-e89b-12d3-a456-426614174000',
         updateProductDto,
         undefined,
+        mockUser,
       );
 
       expect(service.update).toHaveBeenCalledWith(
         '123e4567-e89b-12d3-a456-426614174000',
         updateProductDto,
         undefined,
+        'admin@example.com',
       );
       expect(result).toEqual(updatedProduct);
     });
@@ -172,12 +305,14 @@ describe('ProductsController', () => {
         '123e4567-e89b-12d3-a456-426614174000',
         updateProductDto,
         mockImageFile,
+        mockUser,
       );
 
       expect(service.update).toHaveBeenCalledWith(
         '123e4567-e89b-12d3-a456-426614174000',
         updateProductDto,
         mockImageFile,
+        'admin@example.com',
       );
       expect(result).toEqual(updatedProduct);
     });
@@ -229,4 +364,81 @@ describe('ProductsController', () => {
       expect(result).toEqual(productWithoutDiscount);
     });
   });
+
+  describe('findDiscounts', () => {
+    it('should return the discount history of a product', async () => {
+      const history = { past: [], active: null, upcoming: [] };
+      mockProductsService.findDiscounts.mockResolvedValue(history);
+
+      const result = await controller.findDiscounts('123e4567-e89b-12d3-a456-426614174000');
+
+      expect(service.findDiscounts).toHaveBeenCalledWith('123e4567-e89b-12d3-a456-426614174000');
+      expect(result).toEqual(history);
+    });
+  });
+
+  describe('cancelDiscount', () => {
+    it('should cancel a discount window', async () => {
+      await controller.cancelDiscount(
+        '123e4567-e89b-12d3-a456-426614174000',
+        '456e7890-e89b-12d3-a456-426614174001',
+      );
+
+      expect(service.cancelDiscount).toHaveBeenCalledWith(
+        '123e4567-e89b-12d3-a456-426614174000',
+        '456e7890-e89b-12d3-a456-426614174001',
+      );
+    });
+  });
+
+  describe('adjustStock', () => {
+    it('should record the adjustment as the signed-in user', async () => {
+      const adjustmentDto = {
+        type: StockMovementType.RECEIPT,
+        quantity: 24,
+        reason: 'Weekly delivery',
+      };
+      const movement = { id: 'movement-id', ...adjustmentDto, balance: 34 };
+      mockProductsService.adjustStock.mockResolvedValue(movement);
+
+      const result = await controller.adjustStock(mockProduct.id, adjustmentDto, mockUser);
+
+      expect(service.adjustStock).toHaveBeenCalledWith(
+        mockProduct.id,
+        adjustmentDto,
+        'admin@example.com',
+      );
+      expect(result).toEqual(movement);
+    });
+  });
+
+  describe('findStockMovements', () => {
+    it('should return a page of the stock ledger', async () => {
+      const page = { movements: [], total: 0, page: 2, limit: 20 };
+      mockInventoryService.findByProduct.mockResolvedValue(page);
+
+      const result = await controller.findStockMovements(mockProduct.id, { page: 2, limit: 20 });
+
+      expect(mockInventoryService.findByProduct).toHaveBeenCalledWith(mockProduct.id, {
+        page: 2,
+        limit: 20,
+      });
+      expect(result).toEqual(page);
+    });
+  });
+
+  describe('notifyMe', () => {
+    it('should subscribe the email to back-in-stock notifications', async () => {
+      const subscription = { id: 'sub-1', product_id: mockProduct.id, email: 'ada@example.com' };
+      mockStockAlertsService.subscribe.mockResolvedValue(subscription);
+
+      const result = await controller.notifyMe(mockProduct.id, { email: 'ada@example.com' });
+
+      expect(mockStockAlertsService.subscribe).toHaveBeenCalledWith(
+        mockProduct.id,
+        'ada@example.com',
+      );
+      expect(result).toEqual(subscription);
+    });
+  });
 });
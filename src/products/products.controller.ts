@@ -20,6 +20,7 @@ import {
   ApiParam,
   ApiConsumes,
   ApiBody,
+  ApiExtraModels,
 } from '@nestjs/swagger';
 import { ProductsService } from './products.service';
 import { CreateProductDto } from './dto/create-product.dto';
@@ -27,17 +28,42 @@ import { UpdateProductDto } from './dto/update-product.dto';
 import { ProductQueryDto } from './dto/product-query.dto';
 import { ApplyDiscountDto } from './dto/apply-discount.dto';
 import { ProductWithPricingDto } from './dto/product-with-pricing.dto';
+import { ProductDiscountHistoryDto } from './dto/product-discount-history.dto';
+import { CurrencyQueryDto } from '../currencies/dto/currency-query.dto';
 import { ParseUUIDPipe } from '../common/pipes/parse-uuid.pipe';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../users/entities/user.entity';
 import { ImageValidationInterceptor } from '../common/interceptors/image-validation.interceptor';
 import { Cache } from '../common/decorators/cache.decorator';
+import { StockAlertsService } from '../stock-alerts/stock-alerts.service';
+import { NotifyMeDto } from '../stock-alerts/dto/notify-me.dto';
+import { BackInStockSubscription } from '../stock-alerts/entities/back-in-stock-subscription.entity';
+import { InventoryService } from '../inventory/inventory.service';
+import { StockMovement } from '../inventory/entities/stock-movement.entity';
+import { CreateStockAdjustmentDto } from '../inventory/dto/create-stock-adjustment.dto';
+import { StockMovementQueryDto } from '../inventory/dto/stock-movement-query.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+import { SetProductCategoriesDto } from './dto/set-product-categories.dto';
+import { Category } from '../categories/entities/category.entity';
+import { ProductSearchService } from './product-search.service';
+import { ProductSearchQueryDto } from './dto/product-search-query.dto';
+import { ProductSearchResultDto } from './dto/product-search-result.dto';
+import { ProductFacetsDto } from './dto/product-facets.dto';
 
 @ApiTags('products')
 @Controller('products')
 export class ProductsController {
-  constructor(private readonly productsService: ProductsService) {}
+  constructor(
+    private readonly productsService: ProductsService,
+    private readonly productSearchService: ProductSearchService,
+    private readonly stockAlertsService: StockAlertsService,
+    private readonly inventoryService: InventoryService,
+  ) {}
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
   @UseInterceptors(FileInterceptor('image'), ImageValidationInterceptor)
   @ApiOperation({ summary: 'Create a new product with optional image upload' })
   @ApiConsumes('multipart/form-data')
@@ -47,9 +73,12 @@ export class ProductsController {
       type: 'object',
       properties: {
         name: { type: 'string', example: 'iPhone 15' },
+        sku: { type: 'string', example: 'IPHONE-15-128' },
         description: { type: 'string', example: 'Latest iPhone with advanced features' },
         price: { type: 'number', example: 999.99 },
+        currency: { type: 'string', example: 'USD' },
         stock_quantity: { type: 'number', example: 50 },
+        reorder_threshold: { type: 'number', example: 5 },
         discount_percentage: { type: 'number', example: 15.5 },
         discount_start_date: { type: 'string', format: 'date-time' },
         discount_end_date: { type: 'string', format: 'date-time' },
@@ -67,12 +96,14 @@ export class ProductsController {
     description: 'Product created successfully',
     type: ProductWithPricingDto,
   })
-  @ApiResponse({ status: 400, description: 'Bad request - invalid data or file' })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid data, file or currency' })
+  @ApiResponse({ status: 409, description: 'A product with this SKU already exists' })
   async create(
     @Body() createProductDto: CreateProductDto,
     @UploadedFile() imageFile?: any,
+    @CurrentUser() user?: JwtPayload,
   ): Promise<ProductWithPricingDto> {
-    const product = await this.productsService.create(createProductDto, imageFile);
+    const product = await this.productsService.create(createProductDto, imageFile, user?.email);
     return ProductWithPricingDto.fromProduct(product);
   }
 
@@ -90,15 +121,34 @@ export class ProductsController {
           items: { $ref: '#/components/schemas/ProductWithPricingDto' },
         },
         total: { type: 'number' },
-        page: { type: 'number' },
+        page: { type: 'number', description: 'Absent when paging by cursor' },
         limit: { type: 'number' },
+        nextCursor: { type: 'string', nullable: true },
+        prevCursor: { type: 'string', nullable: true },
+        facets: { $ref: '#/components/schemas/ProductFacetsDto' },
       },
     },
   })
+  @ApiExtraModels(ProductFacetsDto)
+  @ApiResponse({ status: 400, description: 'Unsupported currency or invalid cursor' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
   async findAll(@Query() query: ProductQueryDto) {
     return await this.productsService.findAll(query);
   }
 
+  @Get('search')
+  @Cache({ ttl: 300, keyPrefix: 'products_list' }) // Cache for 5 minutes
+  @ApiOperation({ summary: 'Search product names and descriptions, best match first' })
+  @ApiResponse({
+    status: 200,
+    description: 'Matching products with relevance scores and highlighted matches',
+    type: ProductSearchResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Empty query or unsupported currency' })
+  async search(@Query() query: ProductSearchQueryDto): Promise<ProductSearchResultDto> {
+    return await this.productSearchService.search(query);
+  }
+
   @Get(':id')
   @Cache({ ttl: 600, keyPrefix: 'product' }) // Cache for 10 minutes
   @ApiOperation({ summary: 'Get a product by ID' })
@@ -108,12 +158,17 @@ export class ProductsController {
     description: 'Product retrieved successfully',
     type: ProductWithPricingDto,
   })
+  @ApiResponse({ status: 400, description: 'Unsupported currency' })
   @ApiResponse({ status: 404, description: 'Product not found' })
-  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<ProductWithPricingDto> {
-    return await this.productsService.findOne(id);
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: CurrencyQueryDto,
+  ): Promise<ProductWithPricingDto> {
+    return await this.productsService.findOne(id, query.currency);
   }
 
   @Put(':id')
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
   @UseInterceptors(FileInterceptor('image'), ImageValidationInterceptor)
   @ApiOperation({ summary: 'Update a product by ID with optional image upload' })
   @ApiConsumes('multipart/form-data')
@@ -124,9 +179,12 @@ export class ProductsController {
       type: 'object',
       properties: {
         name: { type: 'string', example: 'iPhone 15 Pro' },
+        sku: { type: 'string', example: 'IPHONE-15-PRO-128' },
         description: { type: 'string', example: 'Updated description' },
         price: { type: 'number', example: 1099.99 },
+        currency: { type: 'string', example: 'USD' },
         stock_quantity: { type: 'number', example: 25 },
+        reorder_threshold: { type: 'number', example: 5 },
         discount_percentage: { type: 'number', example: 10 },
         discount_start_date: { type: 'string', format: 'date-time' },
         discount_end_date: { type: 'string', format: 'date-time' },
@@ -145,16 +203,97 @@ export class ProductsController {
   })
   @ApiResponse({ status: 404, description: 'Product not found' })
   @ApiResponse({ status: 400, description: 'Bad request - invalid data or file' })
+  @ApiResponse({ status: 409, description: 'A product with this SKU already exists' })
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateProductDto: UpdateProductDto,
     @UploadedFile() imageFile?: any,
+    @CurrentUser() user?: JwtPayload,
   ): Promise<ProductWithPricingDto> {
-    return await this.productsService.update(id, updateProductDto, imageFile);
+    return await this.productsService.update(id, updateProductDto, imageFile, user?.email);
+  }
+
+  @Post(':id/stock-adjustments')
+  @HttpCode(HttpStatus.CREATED)
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Receive, return or correct stock of a product' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Stock adjusted and recorded in the ledger',
+    type: StockMovement,
+  })
+  @ApiResponse({ status: 400, description: 'Would take stock below zero or invalid data' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async adjustStock(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() adjustmentDto: CreateStockAdjustmentDto,
+    @CurrentUser() user: JwtPayload,
+  ): Promise<StockMovement> {
+    return await this.productsService.adjustStock(id, adjustmentDto, user.email);
+  }
+
+  @Get(':id/stock-movements')
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'List the stock ledger of a product, newest first' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Stock movements retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        movements: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/StockMovement' },
+        },
+        total: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async findStockMovements(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: StockMovementQueryDto,
+  ) {
+    return await this.inventoryService.findByProduct(id, query);
+  }
+
+  @Get(':id/categories')
+  @ApiOperation({ summary: 'List the categories a product is assigned to' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Categories retrieved successfully',
+    type: [Category],
+  })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async findCategories(@Param('id', ParseUUIDPipe) id: string): Promise<Category[]> {
+    return await this.productsService.findCategories(id);
+  }
+
+  @Put(':id/categories')
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Replace the categories a product is assigned to' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Categories assigned successfully',
+    type: [Category],
+  })
+  @ApiResponse({ status: 404, description: 'Product or category not found' })
+  async setCategories(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() setCategoriesDto: SetProductCategoriesDto,
+  ): Promise<Category[]> {
+    return await this.productsService.setCategories(id, setCategoriesDto.category_ids);
   }
 
   @Put(':id/discount')
-  @ApiOperation({ summary: 'Apply discount to a product' })
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Schedule a discount window for a product' })
   @ApiParam({ name: 'id', description: 'Product ID' })
   @ApiResponse({
     status: 200,
@@ -163,6 +302,7 @@ export class ProductsController {
   })
   @ApiResponse({ status: 404, description: 'Product not found' })
   @ApiResponse({ status: 400, description: 'Bad request - invalid discount data' })
+  @ApiResponse({ status: 409, description: 'Discount window overlaps an existing one' })
   async applyDiscount(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() applyDiscountDto: ApplyDiscountDto,
@@ -170,8 +310,56 @@ export class ProductsController {
     return await this.productsService.applyDiscount(id, applyDiscountDto);
   }
 
+  @Get(':id/discounts')
+  @ApiOperation({ summary: 'List past, active and upcoming discount windows of a product' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Discount history retrieved successfully',
+    type: ProductDiscountHistoryDto,
+  })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async findDiscounts(@Param('id', ParseUUIDPipe) id: string): Promise<ProductDiscountHistoryDto> {
+    return await this.productsService.findDiscounts(id);
+  }
+
+  @Post(':id/notify-me')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Get a one-off email when an out-of-stock product is restocked' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Subscribed successfully, or already subscribed',
+    type: BackInStockSubscription,
+  })
+  @ApiResponse({ status: 400, description: 'Product is in stock or invalid email' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async notifyMe(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() notifyMeDto: NotifyMeDto,
+  ): Promise<BackInStockSubscription> {
+    return await this.stockAlertsService.subscribe(id, notifyMeDto.email);
+  }
+
+  @Delete(':id/discounts/:discountId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'Cancel an upcoming discount window or end the active one' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiParam({ name: 'discountId', description: 'Discount ID' })
+  @ApiResponse({ status: 204, description: 'Discount cancelled successfully' })
+  @ApiResponse({ status: 400, description: 'Past discounts cannot be removed' })
+  @ApiResponse({ status: 404, description: 'Product or discount not found' })
+  async cancelDiscount(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('discountId', ParseUUIDPipe) discountId: string,
+  ): Promise<void> {
+    return await this.productsService.cancelDiscount(id, discountId);
+  }
+
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
   @ApiOperation({ summary: 'Delete a product by ID' })
   @ApiParam({ name: 'id', description: 'Product ID' })
   @ApiResponse({
@@ -184,7 +372,8 @@ export class ProductsController {
   }
 
   @Delete(':id/discount')
-  @ApiOperation({ summary: 'Remove discount from a product' })
+  @Roles(Role.ADMIN, Role.MERCHANDISER)
+  @ApiOperation({ summary: 'End the active discount of a product' })
   @ApiParam({ name: 'id', description: 'Product ID' })
   @ApiResponse({
     status: 200,
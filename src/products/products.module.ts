@@ -2,13 +2,52 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ProductsService } from './products.service';
 import { ProductsController } from './products.controller';
+import { PriceTiersService } from './price-tiers.service';
+import { PriceTiersController } from './price-tiers.controller';
+import { ProductVariantsService } from './product-variants.service';
+import { ProductVariantsController } from './product-variants.controller';
+import { ProductSearchService } from './product-search.service';
+import { ProductFacetsService } from './product-facets.service';
+import { ProductImportsService } from './product-imports.service';
+import { ProductImportsController } from './product-imports.controller';
 import { Product } from './entities/product.entity';
+import { PriceTier } from './entities/price-tier.entity';
+import { ProductDiscount } from './entities/product-discount.entity';
+import { ProductVariant } from './entities/product-variant.entity';
+import { ProductImport } from './entities/product-import.entity';
 import { CommonModule } from '../common/common.module';
+import { ReservationsModule } from '../reservations/reservations.module';
+import { CurrenciesModule } from '../currencies/currencies.module';
+import { TaxesModule } from '../taxes/taxes.module';
+import { StockAlertsModule } from '../stock-alerts/stock-alerts.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { CategoriesModule } from '../categories/categories.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Product]), CommonModule],
-  controllers: [ProductsController],
-  providers: [ProductsService],
+  imports: [
+    TypeOrmModule.forFeature([Product, PriceTier, ProductDiscount, ProductVariant, ProductImport]),
+    CommonModule,
+    ReservationsModule,
+    CurrenciesModule,
+    TaxesModule,
+    StockAlertsModule,
+    InventoryModule,
+    CategoriesModule,
+  ],
+  controllers: [
+    ProductsController,
+    PriceTiersController,
+    ProductVariantsController,
+    ProductImportsController,
+  ],
+  providers: [
+    ProductsService,
+    PriceTiersService,
+    ProductVariantsService,
+    ProductSearchService,
+    ProductFacetsService,
+    ProductImportsService,
+  ],
   exports: [ProductsService],
 })
 export class ProductsModule {}
@@ -1,14 +1,26 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { NotFoundException } from '@nestjs/common';
+import { In, LessThanOrEqual, Repository } from 'typeorm';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
 import { ProductsService } from './products.service';
 import { Product } from './entities/product.entity';
+import { ProductDiscount } from './entities/product-discount.entity';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { ApplyDiscountDto } from './dto/apply-discount.dto';
+import { ProductSort, SortOrder } from './dto/product-query.dto';
+import { CursorDirection, decodeCursor, encodeCursor } from './product-cursor';
 import { S3Service } from '../common/services/s3.service';
 import { RedisService } from '../common/services/redis.service';
+import { ReservationsService } from '../reservations/reservations.service';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { TaxesService } from '../taxes/taxes.service';
+import { CurrencyConverter } from '../currencies/currency-converter';
+import { StockAlertsService } from '../stock-alerts/stock-alerts.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { StockMovementType } from '../inventory/entities/stock-movement.entity';
+import { CategoriesService } from '../categories/categories.service';
+import { ProductFacetsService } from './product-facets.service';
 
 describe('ProductsService', () => {
   let service: ProductsService;
@@ -21,11 +33,9 @@ describe('ProductsService', () => {
       name: 'Test Product',
       description: 'Test Description',
       price: 99.99,
+      currency: 'USD',
       stock_quantity: 10,
       image_url: 'https://example.com/image.jpg',
-      discount_percentage: null,
-      discount_start_date: null,
-      discount_end_date: null,
       created_at: new Date('2024-01-01'),
       updated_at: new Date('2024-01-01'),
       ...overrides,
@@ -35,12 +45,72 @@ describe('ProductsService', () => {
 
   const mockProduct = createMockProduct();
 
+  const createMockDiscount = (overrides: Partial<ProductDiscount> = {}): ProductDiscount =>
+    Object.assign(new ProductDiscount(), {
+      id: '456e7890-e89b-12d3-a456-426614174001',
+      product_id: mockProduct.id,
+      discount_percentage: 20,
+      starts_at: new Date('2024-01-01T00:00:00.000Z'),
+      ends_at: null,
+      ...overrides,
+    });
+
+  const mockCategoryRelation = {
+    of: jest.fn().mockReturnThis(),
+    loadMany: jest.fn(),
+    addAndRemove: jest.fn(),
+  };
+
+  const mockListQuery = {
+    setFindOptions: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    setParameter: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    getCount: jest.fn(),
+    getRawAndEntities: jest.fn(),
+  };
+
+  // The listing query returns the products with the raw sort key values cursors are made from
+  const mockListing = (products: Product[], total: number) => {
+    mockListQuery.getCount.mockResolvedValue(total);
+    mockListQuery.getRawAndEntities.mockResolvedValue({
+      entities: products,
+      raw: products.map((product) => ({
+        product_id: product.id,
+        product_created_at: '2024-01-01 00:00:00',
+        sort_value: product.price,
+      })),
+    });
+  };
+
   const mockRepository = {
     create: jest.fn(),
     save: jest.fn(),
-    findAndCount: jest.fn(),
     findOne: jest.fn(),
     remove: jest.fn(),
+    createQueryBuilder: jest.fn(() => ({
+      ...mockListQuery,
+      relation: () => mockCategoryRelation,
+    })),
+    manager: {
+      transaction: jest.fn((run) => run(mockManager)),
+    },
+  };
+
+  // Transactions write through the same repository mocks
+  const mockManager = {
+    getRepository: jest.fn((entity) =>
+      entity === Product ? mockRepository : mockDiscountRepository,
+    ),
+  };
+
+  const mockDiscountRepository = {
+    create: jest.fn((data) => Object.assign(new ProductDiscount(), data)),
+    save: jest.fn(async (discount) => discount),
+    remove: jest.fn(),
   };
 
   const mockS3Service = {
@@ -55,6 +125,49 @@ describe('ProductsService', () => {
     flushPattern: jest.fn(),
   };
 
+  const mockReservationsService = {
+    getReservedQuantity: jest.fn().mockResolvedValue(0),
+    getReservedQuantities: jest.fn().mockResolvedValue(new Map()),
+  };
+
+  const mockCurrenciesService = {
+    baseCurrency: 'USD',
+    getConverter: jest.fn((currency?: string) =>
+      Promise.resolve(new CurrencyConverter(currency ?? 'USD', 'USD', new Map([['EUR', 0.9]]))),
+    ),
+    assertSupported: jest.fn(),
+  };
+
+  const mockTaxesService = {
+    assertClassExists: jest.fn(),
+  };
+
+  const mockStockAlertsService = {
+    onStockChanged: jest.fn(),
+  };
+
+  const mockInventoryService = {
+    adjust: jest.fn(),
+    record: jest.fn(),
+  };
+
+  const mockCategoriesService = {
+    findOne: jest.fn(),
+    findByIds: jest.fn(),
+    findSubtreeIds: jest.fn(),
+  };
+
+  const mockFacets = {
+    price: [{ min: 0, max: 25, count: 1 }],
+    stock: { in_stock: 1, out_of_stock: 0 },
+    sale: { on_sale: 0, not_on_sale: 1 },
+    categories: [],
+  };
+
+  const mockProductFacetsService = {
+    compute: jest.fn().mockResolvedValue(mockFacets),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -63,6 +176,10 @@ describe('ProductsService', () => {
           provide: getRepositoryToken(Product),
           useValue: mockRepository,
         },
+        {
+          provide: getRepositoryToken(ProductDiscount),
+          useValue: mockDiscountRepository,
+        },
         {
           provide: S3Service,
           useValue: mockS3Service,
@@ -71,6 +188,34 @@ describe('ProductsService', () => {
           provide: RedisService,
           useValue: mockRedisService,
         },
+        {
+          provide: ReservationsService,
+          useValue: mockReservationsService,
+        },
+        {
+          provide: CurrenciesService,
+          useValue: mockCurrenciesService,
+        },
+        {
+          provide: TaxesService,
+          useValue: mockTaxesService,
+        },
+        {
+          provide: CategoriesService,
+          useValue: mockCategoriesService,
+        },
+        {
+          provide: ProductFacetsService,
+          useValue: mockProductFacetsService,
+        },
+        {
+          provide: StockAlertsService,
+          useValue: mockStockAlertsService,
+        },
+        {
+          provide: InventoryService,
+          useValue: mockInventoryService,
+        },
       ],
     }).compile();
 
@@ -101,6 +246,55 @@ describe('ProductsService', () => {
       expect(result).toEqual(mockProduct);
     });
 
+    it('should record the initial stock as a receipt', async () => {
+      const product = createMockProduct({ stock_quantity: 10 });
+      mockRepository.create.mockReturnValue(product);
+      mockRepository.save.mockResolvedValue(product);
+
+      await service.create(
+        { name: 'Test Product', description: 'Test Description', price: 99.99, stock_quantity: 10 },
+        undefined,
+        'admin@example.com',
+      );
+
+      expect(mockInventoryService.record).toHaveBeenCalledWith(
+        product.id,
+        {
+          type: StockMovementType.RECEIPT,
+          quantity: 10,
+          reason: 'Initial stock',
+          actor: 'admin@example.com',
+        },
+        mockManager,
+      );
+    });
+
+    it('should create the product, opening stock and discount in one transaction', async () => {
+      const product = createMockProduct({ stock_quantity: 10, discounts: [] });
+      mockRepository.create.mockReturnValue(product);
+      mockRepository.save.mockResolvedValue(product);
+      mockS3Service.uploadFile.mockResolvedValue('https://bucket/products/new.jpg');
+
+      await expect(
+        service.create(
+          {
+            name: 'Test Product',
+            description: 'Test Description',
+            price: 99.99,
+            stock_quantity: 10,
+            discount_percentage: 10,
+            discount_start_date: '2020-01-01T00:00:00.000Z',
+            discount_end_date: '2020-12-31T23:59:59.000Z',
+          },
+          {},
+        ),
+      ).rejects.toThrow('Discount end date must be in the future');
+
+      expect(mockRepository.manager.transaction).toHaveBeenCalledTimes(1);
+      expect(mockDiscountRepository.save).not.toHaveBeenCalled();
+      expect(mockS3Service.deleteFile).toHaveBeenCalledWith('https://bucket/products/new.jpg');
+    });
+
     it('should create a product with image upload', async () => {
       const createProductDto: CreateProductDto = {
         name: 'Test Product',
@@ -127,12 +321,89 @@ describe('ProductsService', () => {
       expect(mockS3Service.uploadFile).toHaveBeenCalledWith(mockImageFile, 'products');
       expect(repository.create).toHaveBeenCalledWith({
         ...createProductDto,
+        currency: 'USD',
         image_url: imageUrl,
-        discount_start_date: undefined,
-        discount_end_date: undefined,
       });
       expect(result).toEqual(mockProduct);
     });
+
+    it('should reject prices in an unsupported currency', async () => {
+      mockCurrenciesService.assertSupported.mockRejectedValueOnce(
+        new BadRequestException('Unsupported currency CHF'),
+      );
+
+      await expect(
+        service.create({
+          name: 'Test Product',
+          description: 'Test Description',
+          price: 99.99,
+          currency: 'CHF',
+          stock_quantity: 10,
+        }),
+      ).rejects.toThrow('Unsupported currency CHF');
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown tax classes', async () => {
+      mockTaxesService.assertClassExists.mockRejectedValueOnce(
+        new BadRequestException('Tax class luxury does not exist'),
+      );
+
+      await expect(
+        service.create({
+          name: 'Test Product',
+          description: 'Test Description',
+          price: 99.99,
+          tax_class: 'luxury',
+          stock_quantity: 10,
+        }),
+      ).rejects.toThrow('Tax class luxury does not exist');
+      expect(mockTaxesService.assertClassExists).toHaveBeenCalledWith('luxury');
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a SKU another product already has', async () => {
+      mockRepository.findOne.mockResolvedValue(createMockProduct({ sku: 'TEE-RED' }));
+
+      await expect(
+        service.create({
+          name: 'Test Product',
+          description: 'Test Description',
+          price: 99.99,
+          sku: 'TEE-RED',
+          stock_quantity: 10,
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockRepository.findOne).toHaveBeenCalledWith({ where: { sku: 'TEE-RED' } });
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+
+    it('should open the first discount window from the discount fields', async () => {
+      const product = createMockProduct();
+      mockRepository.create.mockReturnValue(product);
+      mockRepository.save.mockResolvedValue(product);
+
+      await service.create({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 99.99,
+        stock_quantity: 10,
+        discount_percentage: 15,
+        discount_end_date: '2999-12-31T23:59:59.000Z',
+      });
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.not.objectContaining({ discount_percentage: expect.anything() }),
+      );
+      expect(mockDiscountRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          product_id: product.id,
+          discount_percentage: 15,
+          ends_at: new Date('2999-12-31T23:59:59.000Z'),
+        }),
+      );
+      expect(product.isDiscountActive).toBe(true);
+    });
   });
 
   describe('findAll', () => {
@@ -141,16 +412,28 @@ describe('ProductsService', () => {
       const products = [mockProduct];
       const total = 1;
 
-      mockRepository.findAndCount.mockResolvedValue([products, total]);
+      mockListing(products, total);
 
       const result = await service.findAll(query);
 
       expect(result).toEqual({
-        products,
+        products: [
+          expect.objectContaining({
+            id: mockProduct.id,
+            originalPrice: 99.99,
+            effectivePrice: 99.99,
+            available: 10,
+          }),
+        ],
         total,
         page: 1,
         limit: 10,
+        nextCursor: null,
+        prevCursor: null,
+        facets: mockFacets,
       });
+      expect(mockListQuery.skip).toHaveBeenCalledWith(0);
+      expect(mockListQuery.take).toHaveBeenCalledWith(10);
     });
 
     it('should filter products by name', async () => {
@@ -158,16 +441,277 @@ describe('ProductsService', () => {
       const products = [mockProduct];
       const total = 1;
 
-      mockRepository.findAndCount.mockResolvedValue([products, total]);
+      mockListing(products, total);
 
       await service.findAll(query);
 
-      expect(repository.findAndCount).toHaveBeenCalledWith({
+      expect(mockListQuery.setFindOptions).toHaveBeenCalledWith({
         where: { name: expect.any(Object) },
-        skip: 0,
-        take: 10,
-        order: { created_at: 'DESC' },
       });
+      expect(mockListQuery.skip).toHaveBeenCalledWith(0);
+      expect(mockListQuery.take).toHaveBeenCalledWith(10);
+      expect(mockListQuery.addOrderBy).toHaveBeenCalledWith('product.created_at', 'DESC');
+    });
+
+    it('should convert prices to the requested currency', async () => {
+      mockListing([mockProduct], 1);
+
+      const result = await service.findAll({ page: 1, limit: 10, currency: 'EUR' });
+
+      expect(mockCurrenciesService.getConverter).toHaveBeenCalledWith('EUR');
+      expect(result.products[0].currency).toBe('EUR');
+      expect(result.products[0].originalPrice).toBe(89.99);
+    });
+
+    it('should filter products by category', async () => {
+      const categoryId = '789e0123-e89b-12d3-a456-426614174002';
+      mockCategoriesService.findOne.mockResolvedValue({ id: categoryId });
+      mockListing([mockProduct], 1);
+
+      await service.findAll({ page: 1, limit: 10, category: categoryId });
+
+      expect(mockCategoriesService.findSubtreeIds).not.toHaveBeenCalled();
+      expect(mockListQuery.setFindOptions).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { categories: { id: In([categoryId]) } } }),
+      );
+    });
+
+    it('should include subcategories when asked to', async () => {
+      const subtree = [
+        '789e0123-e89b-12d3-a456-426614174002',
+        '789e0123-e89b-12d3-a456-426614174003',
+      ];
+      mockCategoriesService.findSubtreeIds.mockResolvedValue(subtree);
+      mockListing([mockProduct], 1);
+
+      await service.findAll({ page: 1, limit: 10, category: subtree[0], includeDescendants: true });
+
+      expect(mockCategoriesService.findSubtreeIds).toHaveBeenCalledWith(subtree[0]);
+      expect(mockListQuery.setFindOptions).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { categories: { id: In(subtree) } } }),
+      );
+    });
+
+    it('should filter products by stock', async () => {
+      mockListing([], 0);
+
+      await service.findAll({ page: 1, limit: 10, inStock: false });
+
+      expect(mockListQuery.setFindOptions).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { stock_quantity: LessThanOrEqual(0) } }),
+      );
+    });
+
+    it('should filter products by their price in the base currency', async () => {
+      mockListing([], 0);
+
+      await service.findAll({ page: 1, limit: 10, minPrice: 100, maxPrice: 500 });
+
+      const { where } = mockListQuery.setFindOptions.mock.calls[0][0];
+      const sql = where.price.getSql('product.price');
+      expect(sql).toContain('(product.price * 1.0 / COALESCE((SELECT exchange_rate.rate');
+      expect(sql).toContain('), 1)) >= :minPrice AND ');
+      expect(sql).toMatch(/\), 1\)\) <= :maxPrice$/);
+      expect(where.price.objectLiteralParameters).toEqual({ minPrice: 100, maxPrice: 500 });
+    });
+
+    it('should filter products by an active discount of at least discountMin', async () => {
+      mockListing([], 0);
+
+      await service.findAll({ page: 1, limit: 10, onSale: true, discountMin: 20 });
+
+      const { where } = mockListQuery.setFindOptions.mock.calls[0][0];
+      const sql = where.id.getSql('product.id');
+      expect(sql).toContain('product.id IN (SELECT discount.product_id FROM product_discounts');
+      expect(sql).toContain('discount.discount_percentage >= :discountMin');
+      expect(where.id.objectLiteralParameters).toEqual({ now: expect.any(Date), discountMin: 20 });
+    });
+
+    it('should sort by the price after the discount active now', async () => {
+      mockListing([], 0);
+
+      await service.findAll({ page: 1, limit: 10, sort: ProductSort.PRICE });
+
+      const [expression, alias] = mockListQuery.addSelect.mock.calls[0];
+      expect(expression).toContain('(product.price * 1.0 / COALESCE((SELECT exchange_rate.rate');
+      expect(expression).toContain(
+        'exchange_rate.currency = product.currency), 1)) * (100 - COALESCE((SELECT discount.discount_percentage',
+      );
+      expect(alias).toBe('sort_value');
+      expect(mockListQuery.setParameter).toHaveBeenCalledWith('now', expect.any(Date));
+      expect(mockListQuery.addOrderBy).toHaveBeenCalledWith('sort_value', 'ASC');
+      expect(mockListQuery.addOrderBy).toHaveBeenCalledWith('product.created_at', 'DESC');
+      expect(mockListQuery.addOrderBy).toHaveBeenCalledWith('product.id', 'ASC');
+    });
+
+    it('should take the sort direction when given', async () => {
+      mockListing([], 0);
+
+      await service.findAll({ page: 1, limit: 10, sort: ProductSort.STOCK, order: SortOrder.ASC });
+
+      expect(mockListQuery.addSelect).not.toHaveBeenCalled();
+      expect(mockListQuery.addOrderBy).toHaveBeenCalledWith('product.stock_quantity', 'ASC');
+    });
+
+    describe('cursors', () => {
+      const first = createMockProduct({ id: '123e4567-e89b-12d3-a456-426614174001', price: 10 });
+      const second = createMockProduct({ id: '123e4567-e89b-12d3-a456-426614174002', price: 20 });
+      const third = createMockProduct({ id: '123e4567-e89b-12d3-a456-426614174003', price: 30 });
+
+      it('should return a next cursor from an offset page with more after it', async () => {
+        mockListing([first, second], 3);
+
+        const result = await service.findAll({ page: 1, limit: 2, sort: ProductSort.PRICE });
+
+        expect(result.prevCursor).toBeNull();
+        expect(decodeCursor(result.nextCursor)).toEqual({
+          sort: ProductSort.PRICE,
+          order: SortOrder.ASC,
+          direction: CursorDirection.NEXT,
+          values: [20, '2024-01-01 00:00:00', second.id],
+        });
+      });
+
+      it('should continue after the cursor, fetching one extra product to see if more follow', async () => {
+        const cursor = encodeCursor({
+          sort: ProductSort.PRICE,
+          order: SortOrder.ASC,
+          direction: CursorDirection.NEXT,
+          values: [20, '2024-01-01 00:00:00', second.id],
+        });
+        mockListing([third], 3);
+
+        const result = await service.findAll({ limit: 2, sort: ProductSort.PRICE, cursor });
+
+        const [condition, parameters] = mockListQuery.andWhere.mock.calls[0];
+        expect(condition).toContain('/ 100 > :cursor_0) OR (');
+        expect(condition).toContain('product.created_at < :cursor_1');
+        expect(condition).toContain('product.created_at = :cursor_1 AND product.id > :cursor_2');
+        expect(parameters).toEqual({
+          cursor_0: 20,
+          cursor_1: '2024-01-01 00:00:00',
+          cursor_2: second.id,
+        });
+        expect(mockListQuery.skip).not.toHaveBeenCalled();
+        expect(mockListQuery.take).toHaveBeenCalledWith(3);
+        expect(result.products.map((product) => product.id)).toEqual([third.id]);
+        expect(result.page).toBeUndefined();
+        expect(result.nextCursor).toBeNull();
+        expect(decodeCursor(result.prevCursor).values[2]).toBe(third.id);
+      });
+
+      it('should walk the order backwards for a previous cursor', async () => {
+        const cursor = encodeCursor({
+          sort: ProductSort.NEWEST,
+          order: SortOrder.DESC,
+          direction: CursorDirection.PREV,
+          values: ['2024-01-01 00:00:00', third.id],
+        });
+        // Fetched in reverse order, with the extra product showing more come before
+        mockListing([second, first, createMockProduct()], 3);
+
+        const result = await service.findAll({ limit: 2, cursor });
+
+        expect(mockListQuery.andWhere.mock.calls[0][0]).toBe(
+          '((product.created_at > :cursor_0) OR (product.created_at = :cursor_0 AND product.id < :cursor_1))',
+        );
+        expect(mockListQuery.addOrderBy).toHaveBeenCalledWith('product.created_at', 'ASC');
+        expect(mockListQuery.addOrderBy).toHaveBeenCalledWith('product.id', 'DESC');
+        expect(result.products.map((product) => product.id)).toEqual([first.id, second.id]);
+        expect(decodeCursor(result.prevCursor).values[1]).toBe(first.id);
+        expect(decodeCursor(result.nextCursor).values[1]).toBe(second.id);
+      });
+
+      it('should reject a cursor issued for another sort', async () => {
+        const cursor = encodeCursor({
+          sort: ProductSort.NEWEST,
+          order: SortOrder.DESC,
+          direction: CursorDirection.NEXT,
+          values: ['2024-01-01 00:00:00', first.id],
+        });
+
+        await expect(
+          service.findAll({ limit: 2, sort: ProductSort.PRICE, cursor }),
+        ).rejects.toThrow(BadRequestException);
+        await expect(service.findAll({ limit: 2, cursor: 'not-a-cursor' })).rejects.toThrow(
+          'Invalid cursor',
+        );
+      });
+    });
+
+    it('should return facets over the same filters as the page', async () => {
+      mockListing([mockProduct], 1);
+
+      const result = await service.findAll({ page: 2, limit: 10, name: 'Test', onSale: false });
+
+      const { where } = mockListQuery.setFindOptions.mock.calls[0][0];
+      expect(mockProductFacetsService.compute).toHaveBeenCalledWith(where, expect.any(Date));
+      expect(result.facets).toEqual(mockFacets);
+    });
+  });
+
+  describe('setCategories', () => {
+    const shoes = { id: '789e0123-e89b-12d3-a456-426614174002', name: 'Shoes' };
+    const sale = { id: '789e0123-e89b-12d3-a456-426614174003', name: 'Sale' };
+    const boots = { id: '789e0123-e89b-12d3-a456-426614174004', name: 'Boots' };
+
+    it('should add the new categories and remove the dropped ones', async () => {
+      mockRepository.findOne.mockResolvedValue(mockProduct);
+      mockCategoriesService.findByIds.mockResolvedValue([shoes, boots]);
+      mockCategoryRelation.loadMany.mockResolvedValue([shoes, sale]);
+
+      const result = await service.setCategories(mockProduct.id, [shoes.id, boots.id]);
+
+      expect(mockCategoryRelation.of).toHaveBeenCalledWith(mockProduct.id);
+      expect(mockCategoryRelation.addAndRemove).toHaveBeenCalledWith([boots], [sale]);
+      expect(result).toEqual([shoes, boots]);
+    });
+
+    it('should invalidate the cached product lists', async () => {
+      mockRepository.findOne.mockResolvedValue(mockProduct);
+      mockCategoriesService.findByIds.mockResolvedValue([]);
+      mockCategoryRelation.loadMany.mockResolvedValue([shoes]);
+
+      await service.setCategories(mockProduct.id, []);
+
+      expect(mockCategoryRelation.addAndRemove).toHaveBeenCalledWith([], [shoes]);
+      expect(mockRedisService.flushPattern).toHaveBeenCalledWith('products_list:*');
+    });
+
+    it('should propagate NotFoundException for unknown categories', async () => {
+      mockRepository.findOne.mockResolvedValue(mockProduct);
+      mockCategoriesService.findByIds.mockRejectedValue(new NotFoundException());
+
+      await expect(service.setCategories(mockProduct.id, [shoes.id])).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockCategoryRelation.addAndRemove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('availability', () => {
+    it('should subtract active reservations from stock in listings', async () => {
+      mockListing([mockProduct], 1);
+      mockReservationsService.getReservedQuantities.mockResolvedValueOnce(
+        new Map([[mockProduct.id, 4]]),
+      );
+
+      const result = await service.findAll({ page: 1, limit: 10 });
+
+      expect(mockReservationsService.getReservedQuantities).toHaveBeenCalledWith([mockProduct.id]);
+      expect(result.products[0].stock_quantity).toBe(10);
+      expect(result.products[0].available).toBe(6);
+    });
+
+    it('should subtract active reservations from stock for a single product', async () => {
+      mockRedisService.getJson.mockResolvedValue(null);
+      mockRepository.findOne.mockResolvedValue(mockProduct);
+      mockReservationsService.getReservedQuantity.mockResolvedValueOnce(3);
+
+      const result = await service.findOne(mockProduct.id);
+
+      expect(mockReservationsService.getReservedQuantity).toHaveBeenCalledWith(mockProduct.id);
+      expect(result.available).toBe(7);
     });
   });
 
@@ -183,6 +727,22 @@ describe('ProductsService', () => {
       expect(result).toEqual(mockProduct);
     });
 
+    it('should cache the product once per currency', async () => {
+      mockRedisService.getJson.mockResolvedValue(null);
+      mockRepository.findOne.mockResolvedValue(mockProduct);
+
+      const result = await service.findOne(mockProduct.id, 'EUR');
+
+      expect(mockRedisService.getJson).toHaveBeenCalledWith(`product:${mockProduct.id}:EUR`);
+      expect(result.currency).toBe('EUR');
+      expect(result.originalPrice).toBe(89.99);
+      expect(mockRedisService.setJson).toHaveBeenCalledWith(
+        `product:${mockProduct.id}:EUR`,
+        result,
+        300,
+      );
+    });
+
     it('should throw NotFoundException when product not found', async () => {
       mockRepository.findOne.mockResolvedValue(null);
 
@@ -195,7 +755,7 @@ describe('ProductsService', () => {
   describe('update', () => {
     it('should update a product', async () => {
       const updateProductDto: UpdateProductDto = { name: 'Updated Product' };
-      const updatedProduct = { ...mockProduct, ...updateProductDto };
+      const updatedProduct = createMockProduct(updateProductDto);
 
       mockRepository.findOne.mockResolvedValue(mockProduct);
       mockRepository.save.mockResolvedValue(updatedProduct);
@@ -204,6 +764,106 @@ describe('ProductsService', () => {
 
       expect(repository.save).toHaveBeenCalled();
       expect(result.name).toBe('Updated Product');
+      expect(mockStockAlertsService.onStockChanged).not.toHaveBeenCalled();
+    });
+
+    it('should reach a new stock level through a ledger adjustment', async () => {
+      const product = createMockProduct({ stock_quantity: 2 });
+      mockRepository.findOne.mockResolvedValue(product);
+      mockRepository.save.mockImplementation(async (saved) => saved);
+      mockInventoryService.adjust.mockResolvedValue({ quantity: 3, balance: 5 });
+
+      const result = await service.update(product.id, { stock_quantity: 5 }, undefined, 'ada@x.io');
+
+      expect(mockInventoryService.adjust).toHaveBeenCalledWith(
+        product.id,
+        {
+          type: StockMovementType.ADJUSTMENT,
+          quantity: 3,
+          reason: 'Stock level set by product update',
+          actor: 'ada@x.io',
+        },
+        mockManager,
+      );
+      expect(result.stock_quantity).toBe(5);
+    });
+
+    it('should save the fields, discount and stock change in one transaction', async () => {
+      const product = createMockProduct({ stock_quantity: 2, discounts: [] });
+      mockRepository.findOne.mockResolvedValue(product);
+      mockRepository.save.mockImplementation(async (saved) => saved);
+      mockInventoryService.adjust.mockResolvedValue({ quantity: 3, balance: 5 });
+
+      await service.update(product.id, {
+        name: 'Updated Product',
+        discount_percentage: 10,
+        stock_quantity: 5,
+      });
+
+      expect(mockRepository.manager.transaction).toHaveBeenCalledTimes(1);
+      expect(mockManager.getRepository).toHaveBeenCalledWith(Product);
+      expect(mockManager.getRepository).toHaveBeenCalledWith(ProductDiscount);
+      expect(mockInventoryService.adjust).toHaveBeenCalledWith(
+        product.id,
+        expect.anything(),
+        mockManager,
+      );
+    });
+
+    it('should reject an overlapping discount without keeping the new image', async () => {
+      const product = createMockProduct({
+        image_url: 'https://bucket/products/old.jpg',
+        discounts: [createMockDiscount()],
+      });
+      mockRepository.findOne.mockResolvedValue(product);
+      mockRepository.save.mockImplementation(async (saved) => saved);
+      mockS3Service.uploadFile.mockResolvedValue('https://bucket/products/new.jpg');
+
+      await expect(
+        service.update(product.id, { name: 'Updated Product', discount_percentage: 40 }, {}),
+      ).rejects.toThrow(ConflictException);
+
+      expect(mockS3Service.deleteFile).toHaveBeenCalledTimes(1);
+      expect(mockS3Service.deleteFile).toHaveBeenCalledWith('https://bucket/products/new.jpg');
+      expect(mockRedisService.flushPattern).not.toHaveBeenCalled();
+    });
+
+    it('should not report a stock change the ledger rejected', async () => {
+      const product = createMockProduct({ stock_quantity: 2 });
+      mockRepository.findOne.mockResolvedValue(product);
+      mockRepository.save.mockImplementation(async (saved) => saved);
+      mockInventoryService.adjust.mockRejectedValue(new BadRequestException('Insufficient stock'));
+
+      await expect(service.update(product.id, { stock_quantity: 0 })).rejects.toThrow(
+        BadRequestException,
+      );
+
+      expect(mockStockAlertsService.onStockChanged).not.toHaveBeenCalled();
+      expect(mockRedisService.flushPattern).not.toHaveBeenCalled();
+    });
+
+    it('should report stock changes with the previous quantity', async () => {
+      const product = createMockProduct({ stock_quantity: 0 });
+      mockRepository.findOne.mockResolvedValue(product);
+      mockRepository.save.mockImplementation(async (saved) => saved);
+      mockInventoryService.adjust.mockResolvedValue({ quantity: 5, balance: 5 });
+
+      await service.update(product.id, { stock_quantity: 5 });
+
+      expect(mockStockAlertsService.onStockChanged).toHaveBeenCalledWith(
+        expect.objectContaining({ id: product.id, stock_quantity: 5 }),
+        0,
+      );
+    });
+
+    it('should let a product keep its own SKU', async () => {
+      const product = createMockProduct({ sku: 'TEE-RED' });
+      mockRepository.findOne.mockResolvedValue(product);
+      mockRepository.save.mockImplementation(async (saved) => saved);
+
+      const result = await service.update(product.id, { sku: 'TEE-RED', name: 'Red Tee' });
+
+      expect(result.name).toBe('Red Tee');
     });
 
     it('should throw NotFoundException when updating non-existent product', async () => {
@@ -215,6 +875,34 @@ describe('ProductsService', () => {
     });
   });
 
+  describe('adjustStock', () => {
+    it('should apply the movement and report the stock change', async () => {
+      const product = createMockProduct({ stock_quantity: 34 });
+      const movement = { type: StockMovementType.RECEIPT, quantity: 24, balance: 34 };
+      mockInventoryService.adjust.mockResolvedValue(movement);
+      mockRepository.findOne.mockResolvedValue(product);
+
+      const result = await service.adjustStock(
+        product.id,
+        { type: StockMovementType.RECEIPT, quantity: 24, reason: 'Weekly delivery' },
+        'admin@example.com',
+      );
+
+      expect(mockInventoryService.adjust).toHaveBeenCalledWith(product.id, {
+        type: StockMovementType.RECEIPT,
+        quantity: 24,
+        reason: 'Weekly delivery',
+        actor: 'admin@example.com',
+      });
+      expect(mockRedisService.flushPattern).toHaveBeenCalledWith(`product:${product.id}:*`);
+      expect(mockRedisService.flushPattern).toHaveBeenCalledWith(
+        `product:GET:/products/${product.id}*`,
+      );
+      expect(mockStockAlertsService.onStockChanged).toHaveBeenCalledWith(product, 10);
+      expect(result).toBe(movement);
+    });
+  });
+
   describe('remove', () => {
     it('should remove a product', async () => {
       mockRepository.findOne.mockResolvedValue(mockProduct);
@@ -235,37 +923,62 @@ describe('ProductsService', () => {
   });
 
   describe('applyDiscount', () => {
-    it('should apply discount to a product', async () => {
-      const applyDiscountDto: ApplyDiscountDto = {
-        discount_percentage: 20,
-        discount_start_date: '2024-01-01T00:00:00.000Z',
-        discount_end_date: '2024-12-31T23:59:59.000Z',
-      };
+    it('should schedule a discount window alongside the current one', async () => {
+      const product = createMockProduct({
+        discounts: [createMockDiscount({ ends_at: new Date('2999-11-01T00:00:00.000Z') })],
+      });
+      mockRepository.findOne.mockResolvedValue(product);
 
-      const productWithDiscount = {
-        ...mockProduct,
-        discount_percentage: 20,
-        discount_start_date: new Date('2024-01-01T00:00:00.000Z'),
-        discount_end_date: new Date('2024-12-31T23:59:59.000Z'),
+      const applyDiscountDto: ApplyDiscountDto = {
+        discount_percentage: 40,
+        discount_start_date: '2999-11-27T00:00:00.000Z',
+        discount_end_date: '2999-11-30T23:59:59.000Z',
       };
 
-      mockRepository.findOne.mockResolvedValue(mockProduct);
-      mockRepository.save.mockResolvedValue(productWithDiscount);
+      const result = await service.applyDiscount(product.id, applyDiscountDto);
 
-      const result = await service.applyDiscount(
-        '123e4567-e89b-12d3-a456-426614174000',
-        applyDiscountDto,
+      expect(mockDiscountRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          discount_percentage: 40,
+          starts_at: new Date('2999-11-27T00:00:00.000Z'),
+          ends_at: new Date('2999-11-30T23:59:59.000Z'),
+        }),
       );
+      expect(product.discounts).toHaveLength(2);
+      expect(result.discount_percentage).toBe(20);
+      expect(mockRedisService.flushPattern).toHaveBeenCalledWith(`product:${product.id}:*`);
+    });
+
+    it('should start the window now when no start date is given', async () => {
+      const product = createMockProduct({ discounts: [] });
+      mockRepository.findOne.mockResolvedValue(product);
+
+      const result = await service.applyDiscount(product.id, { discount_percentage: 20 });
 
-      expect(repository.save).toHaveBeenCalled();
       expect(result.discount_percentage).toBe(20);
+      expect(result.isDiscountActive).toBe(true);
+      expect(result.effectivePrice).toBe(79.99);
+    });
+
+    it('should reject windows overlapping an existing discount', async () => {
+      mockRepository.findOne.mockResolvedValue(
+        createMockProduct({ discounts: [createMockDiscount()] }),
+      );
+
+      await expect(
+        service.applyDiscount(mockProduct.id, {
+          discount_percentage: 40,
+          discount_start_date: '2999-11-27T00:00:00.000Z',
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockDiscountRepository.save).not.toHaveBeenCalled();
     });
 
     it('should throw BadRequestException for invalid date range', async () => {
       const applyDiscountDto: ApplyDiscountDto = {
         discount_percentage: 20,
-        discount_start_date: '2024-12-31T23:59:59.000Z',
-        discount_end_date: '2024-01-01T00:00:00.000Z', // End before start
+        discount_start_date: '2999-12-31T23:59:59.000Z',
+        discount_end_date: '2999-01-01T00:00:00.000Z', // End before start
       };
 
       mockRepository.findOne.mockResolvedValue(mockProduct);
@@ -274,31 +987,84 @@ describe('ProductsService', () => {
         service.applyDiscount('123e4567-e89b-12d3-a456-426614174000', applyDiscountDto),
       ).rejects.toThrow('Discount end date must be after start date');
     });
-  });
 
-  describe('removeDiscount', () => {
-    it('should remove discount from a product', async () => {
-      const productWithDiscount = {
-        ...mockProduct,
-        discount_percentage: 20,
-        discount_start_date: new Date('2024-01-01T00:00:00.000Z'),
-        discount_end_date: new Date('2024-12-31T23:59:59.000Z'),
-      };
+    it('should reject windows that have already ended', async () => {
+      mockRepository.findOne.mockResolvedValue(mockProduct);
 
-      const productWithoutDiscount = {
-        ...mockProduct,
-        discount_percentage: null,
-        discount_start_date: null,
-        discount_end_date: null,
-      };
+      await expect(
+        service.applyDiscount(mockProduct.id, {
+          discount_percentage: 20,
+          discount_start_date: '2020-01-01T00:00:00.000Z',
+          discount_end_date: '2020-12-31T23:59:59.000Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
 
-      mockRepository.findOne.mockResolvedValue(productWithDiscount);
-      mockRepository.save.mockResolvedValue(productWithoutDiscount);
+  describe('removeDiscount', () => {
+    it('should end the active discount and keep it in the history', async () => {
+      const activeDiscount = createMockDiscount();
+      mockRepository.findOne.mockResolvedValue(createMockProduct({ discounts: [activeDiscount] }));
 
       const result = await service.removeDiscount('123e4567-e89b-12d3-a456-426614174000');
 
-      expect(repository.save).toHaveBeenCalled();
+      expect(mockDiscountRepository.save).toHaveBeenCalledWith(activeDiscount);
+      expect(activeDiscount.ends_at).toBeInstanceOf(Date);
+      expect(mockDiscountRepository.remove).not.toHaveBeenCalled();
       expect(result.discount_percentage).toBeUndefined();
+      expect(result.isDiscountActive).toBe(false);
+    });
+  });
+
+  describe('findDiscounts', () => {
+    it('should group windows into past, active and upcoming', async () => {
+      const past = createMockDiscount({
+        id: 'past',
+        starts_at: new Date('2020-01-01'),
+        ends_at: new Date('2020-02-01'),
+      });
+      const active = createMockDiscount({ id: 'active', starts_at: new Date('2021-01-01') });
+      const upcoming = createMockDiscount({
+        id: 'upcoming',
+        starts_at: new Date('2999-11-27'),
+        ends_at: new Date('2999-11-30'),
+      });
+      mockRepository.findOne.mockResolvedValue(
+        createMockProduct({ discounts: [upcoming, active, past] }),
+      );
+
+      const result = await service.findDiscounts(mockProduct.id);
+
+      expect(result).toEqual({ past: [past], active, upcoming: [upcoming] });
+    });
+  });
+
+  describe('cancelDiscount', () => {
+    it('should delete an upcoming window', async () => {
+      const upcoming = createMockDiscount({ starts_at: new Date('2999-11-27') });
+      mockRepository.findOne.mockResolvedValue(createMockProduct({ discounts: [upcoming] }));
+
+      await service.cancelDiscount(mockProduct.id, upcoming.id);
+
+      expect(mockDiscountRepository.remove).toHaveBeenCalledWith(upcoming);
+    });
+
+    it('should refuse to delete past windows', async () => {
+      const past = createMockDiscount({ ends_at: new Date('2020-01-01') });
+      mockRepository.findOne.mockResolvedValue(createMockProduct({ discounts: [past] }));
+
+      await expect(service.cancelDiscount(mockProduct.id, past.id)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockDiscountRepository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for unknown discounts', async () => {
+      mockRepository.findOne.mockResolvedValue(createMockProduct({ discounts: [] }));
+
+      await expect(
+        service.cancelDiscount(mockProduct.id, '999e4567-e89b-12d3-a456-426614174999'),
+      ).rejects.toThrow(NotFoundException);
     });
   });
 });
@@ -1,15 +1,77 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Like, Between, MoreThanOrEqual, LessThanOrEqual } from 'typeorm';
+import { EntityManager, Repository, Like, MoreThan, LessThanOrEqual, In, Raw } from 'typeorm';
 import { Product } from './entities/product.entity';
+import {
+  ProductDiscount,
+  DiscountStatus,
+  ACTIVE_DISCOUNT_PRODUCT_IDS,
+  activeDiscountPercentage,
+} from './entities/product-discount.entity';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
-import { ProductQueryDto } from './dto/product-query.dto';
+import { ProductQueryDto, ProductSort, SortOrder } from './dto/product-query.dto';
+import { CursorDirection, decodeCursor, encodeCursor } from './product-cursor';
 import { ApplyDiscountDto } from './dto/apply-discount.dto';
 import { ProductWithPricingDto } from './dto/product-with-pricing.dto';
+import { ProductDiscountHistoryDto } from './dto/product-discount-history.dto';
+import { ProductFacetsDto } from './dto/product-facets.dto';
+import { ProductFacetsService } from './product-facets.service';
 import { S3Service } from '../common/services/s3.service';
 import { RedisService } from '../common/services/redis.service';
+import { ReservationsService } from '../reservations/reservations.service';
+import { CurrenciesService } from '../currencies/currencies.service';
+import { CurrencyConverter } from '../currencies/currency-converter';
+import { inBaseCurrency } from '../currencies/entities/exchange-rate.entity';
+import { TaxesService } from '../taxes/taxes.service';
 import { isValidMonetaryAmount } from '../common/utils/arithmetic.utils';
+import { StockAlertsService } from '../stock-alerts/stock-alerts.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { StockMovement, StockMovementType } from '../inventory/entities/stock-movement.entity';
+import { CreateStockAdjustmentDto } from '../inventory/dto/create-stock-adjustment.dto';
+import { CategoriesService } from '../categories/categories.service';
+import { Category } from '../categories/entities/category.entity';
+
+// Listing sorts on a column order by it directly
+const SORT_COLUMNS: Partial<Record<ProductSort, string>> = {
+  [ProductSort.NEWEST]: 'created_at',
+  [ProductSort.STOCK]: 'stock_quantity',
+};
+
+// Prices in the base currency, so products priced in different currencies compare fairly
+const BASE_PRICE = inBaseCurrency('product.price', 'product.currency');
+
+// Other sorts are computed in SQL at the time :now and selected as sort_value,
+// since TypeORM can only page a query with joins by columns it selects
+const SORT_EXPRESSIONS: Partial<Record<ProductSort, string>> = {
+  [ProductSort.PRICE]: `${BASE_PRICE} * (100 - ${activeDiscountPercentage('product.id')}) / 100`,
+  [ProductSort.NAME]: 'LOWER(product.name)',
+  [ProductSort.DISCOUNT]: activeDiscountPercentage('product.id'),
+};
+
+/**
+ * One key of a listing's order: the SQL compared by keyset cursors, what the query orders by,
+ * and the name of the key's value in the raw results
+ */
+interface SortKey {
+  expression: string;
+  orderBy: string;
+  raw: string;
+  direction: 'ASC' | 'DESC';
+}
+
+const DEFAULT_SORT_ORDERS: Record<ProductSort, SortOrder> = {
+  [ProductSort.NEWEST]: SortOrder.DESC,
+  [ProductSort.PRICE]: SortOrder.ASC,
+  [ProductSort.NAME]: SortOrder.ASC,
+  [ProductSort.DISCOUNT]: SortOrder.DESC,
+  [ProductSort.STOCK]: SortOrder.DESC,
+};
 
 @Injectable()
 export class ProductsService {
@@ -20,25 +82,25 @@ export class ProductsService {
   constructor(
     @InjectRepository(Product)
     private readonly productRepository: Repository<Product>,
+    @InjectRepository(ProductDiscount)
+    private readonly discountRepository: Repository<ProductDiscount>,
     private readonly s3Service: S3Service,
     private readonly redisService: RedisService,
+    private readonly reservationsService: ReservationsService,
+    private readonly currenciesService: CurrenciesService,
+    private readonly taxesService: TaxesService,
+    private readonly stockAlertsService: StockAlertsService,
+    private readonly inventoryService: InventoryService,
+    private readonly categoriesService: CategoriesService,
+    private readonly productFacetsService: ProductFacetsService,
   ) {}
 
-  async create(createProductDto: CreateProductDto, imageFile?: any): Promise<Product> {
-    // Validate price
-    if (!isValidMonetaryAmount(createProductDto.price)) {
-      throw new BadRequestException('Price must be a valid positive number');
-    }
-
-    // Validate discount percentage if provided
-    if (createProductDto.discount_percentage !== undefined) {
-      if (
-        !isValidMonetaryAmount(createProductDto.discount_percentage) ||
-        createProductDto.discount_percentage > 100
-      ) {
-        throw new BadRequestException('Discount percentage must be between 0 and 100');
-      }
-    }
+  async create(
+    createProductDto: CreateProductDto,
+    imageFile?: any,
+    actor?: string,
+  ): Promise<Product> {
+    await this.assertValidProductData(createProductDto);
 
     let imageUrl: string | undefined;
 
@@ -47,29 +109,80 @@ export class ProductsService {
       imageUrl = await this.s3Service.uploadFile(imageFile, 'products');
     }
 
-    // Convert date strings to Date objects if provided
-    const productData = {
-      ...createProductDto,
+    // Discount fields open the product's first discount window rather than being stored on it
+    const { discount_percentage, discount_start_date, discount_end_date, ...productData } =
+      createProductDto;
+
+    const product = this.productRepository.create({
+      ...productData,
+      currency: productData.currency ?? this.currenciesService.baseCurrency,
       image_url: imageUrl,
-      discount_start_date: createProductDto.discount_start_date
-        ? new Date(createProductDto.discount_start_date)
-        : undefined,
-      discount_end_date: createProductDto.discount_end_date
-        ? new Date(createProductDto.discount_end_date)
-        : undefined,
-    };
+    });
 
-    const product = this.productRepository.create(productData);
-    return await this.productRepository.save(product);
+    // A rejected discount window leaves no product behind
+    try {
+      return await this.productRepository.manager.transaction(async (manager) => {
+        const savedProduct = await manager.getRepository(Product).save(product);
+
+        // Opening balance, so the ledger adds up to the stock on hand
+        if (savedProduct.stock_quantity > 0) {
+          await this.inventoryService.record(
+            savedProduct.id,
+            {
+              type: StockMovementType.RECEIPT,
+              quantity: savedProduct.stock_quantity,
+              reason: 'Initial stock',
+              actor,
+            },
+            manager,
+          );
+        }
+
+        if (discount_percentage) {
+          await this.scheduleDiscount(
+            savedProduct,
+            discount_percentage,
+            discount_start_date,
+            discount_end_date,
+            manager,
+          );
+        }
+
+        return savedProduct;
+      });
+    } catch (error) {
+      if (imageUrl) {
+        await this.s3Service.deleteFile(imageUrl);
+      }
+      throw error;
+    }
   }
 
   async findAll(query: ProductQueryDto): Promise<{
     products: ProductWithPricingDto[];
     total: number;
-    page: number;
+    page?: number;
     limit: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+    facets: ProductFacetsDto;
   }> {
-    const { page = 1, limit = 10, name, minPrice, maxPrice } = query;
+    const {
+      page = 1,
+      limit = 10,
+      name,
+      minPrice,
+      maxPrice,
+      category,
+      includeDescendants,
+      inStock,
+      onSale,
+      discountMin,
+      sort = ProductSort.NEWEST,
+      order = DEFAULT_SORT_ORDERS[sort],
+      cursor: cursorToken,
+      currency,
+    } = query;
     const skip = (page - 1) * limit;
 
     const whereConditions: any = {};
@@ -78,37 +191,178 @@ export class ProductsService {
       whereConditions.name = Like(`%${name}%`);
     }
 
-    if (minPrice !== undefined && maxPrice !== undefined) {
-      whereConditions.price = Between(minPrice, maxPrice);
-    } else if (minPrice !== undefined) {
-      whereConditions.price = MoreThanOrEqual(minPrice);
-    } else if (maxPrice !== undefined) {
-      whereConditions.price = LessThanOrEqual(maxPrice);
+    if (minPrice !== undefined || maxPrice !== undefined) {
+      whereConditions.price = Raw(
+        () => {
+          const conditions: string[] = [];
+          if (minPrice !== undefined) {
+            conditions.push(`${BASE_PRICE} >= :minPrice`);
+          }
+          if (maxPrice !== undefined) {
+            conditions.push(`${BASE_PRICE} <= :maxPrice`);
+          }
+          return conditions.join(' AND ');
+        },
+        { minPrice, maxPrice },
+      );
     }
 
-    const [products, total] = await this.productRepository.findAndCount({
-      where: whereConditions,
-      skip,
-      take: limit,
-      order: { created_at: 'DESC' },
-    });
+    if (category) {
+      const categoryIds = includeDescendants
+        ? await this.categoriesService.findSubtreeIds(category)
+        : [(await this.categoriesService.findOne(category)).id];
+      whereConditions.categories = { id: In(categoryIds) };
+    }
 
-    // Transform products to include pricing information
+    if (inStock !== undefined) {
+      whereConditions.stock_quantity = inStock ? MoreThan(0) : LessThanOrEqual(0);
+    }
+
+    // Whether a discount is active depends on the time, so both filters compare its window to now
+    const now = new Date();
+    if (onSale !== undefined || discountMin !== undefined) {
+      whereConditions.id = Raw(
+        (alias) => {
+          const conditions: string[] = [];
+          if (onSale !== undefined) {
+            conditions.push(
+              `${alias} ${onSale ? 'IN' : 'NOT IN'} (${ACTIVE_DISCOUNT_PRODUCT_IDS})`,
+            );
+          }
+          if (discountMin !== undefined) {
+            conditions.push(
+              `${alias} IN (${ACTIVE_DISCOUNT_PRODUCT_IDS} AND discount.discount_percentage >= :discountMin)`,
+            );
+          }
+          return conditions.join(' AND ');
+        },
+        { now, discountMin },
+      );
+    }
+
+    const converter = currency ? await this.currenciesService.getConverter(currency) : undefined;
+
+    const keys = this.sortKeys(sort, order);
+    const cursor = cursorToken ? decodeCursor(cursorToken) : undefined;
+    if (
+      cursor &&
+      (cursor.sort !== sort || cursor.order !== order || cursor.values.length !== keys.length)
+    ) {
+      throw new BadRequestException('Cursor was issued for a different sort and order');
+    }
+
+    const builder = this.productRepository
+      .createQueryBuilder('product')
+      .setFindOptions({ where: whereConditions })
+      .setParameter('now', now);
+    if (SORT_EXPRESSIONS[sort]) {
+      builder.addSelect(SORT_EXPRESSIONS[sort], 'sort_value');
+    }
+    const total = await builder.getCount();
+
+    // A cursor continues after its product, or before it walking the order backwards,
+    // and one extra product tells whether there are more beyond the page
+    const backwards = cursor?.direction === CursorDirection.PREV;
+    if (cursor) {
+      builder.andWhere(
+        this.keysetCondition(keys, backwards),
+        Object.fromEntries(cursor.values.map((value, index) => [`cursor_${index}`, value])),
+      );
+      builder.take(limit + 1);
+    } else {
+      builder.skip(skip).take(limit);
+    }
+    for (const key of keys) {
+      const ascending = (key.direction === 'ASC') !== backwards;
+      builder.addOrderBy(key.orderBy, ascending ? 'ASC' : 'DESC');
+    }
+    const { entities, raw } = await builder.getRawAndEntities();
+
+    const hasMore = cursor ? entities.length > limit : skip + entities.length < total;
+    const products = entities.slice(0, limit);
+    if (backwards) {
+      products.reverse();
+    }
+    const moreBefore = backwards ? hasMore : cursor !== undefined || skip > 0;
+    const moreAfter = backwards || hasMore;
+
+    const cursorAt = (product: Product, direction: CursorDirection): string => {
+      const row = raw.find((candidate) => candidate.product_id === product.id);
+      return encodeCursor({ sort, order, direction, values: keys.map((key) => row[key.raw]) });
+    };
+    const first = products[0];
+    const last = products[products.length - 1];
+
+    // Transform products to include pricing and availability information
+    const reserved = await this.reservationsService.getReservedQuantities(
+      products.map((product) => product.id),
+    );
     const productsWithPricing = products.map((product) =>
-      ProductWithPricingDto.fromProduct(product),
+      ProductWithPricingDto.fromProduct(product, reserved.get(product.id), converter),
     );
 
     return {
       products: productsWithPricing,
       total,
-      page,
+      page: cursor ? undefined : page,
       limit,
+      nextCursor: moreAfter && last ? cursorAt(last, CursorDirection.NEXT) : null,
+      prevCursor: moreBefore && first ? cursorAt(first, CursorDirection.PREV) : null,
+      facets: await this.productFacetsService.compute(whereConditions, now),
     };
   }
 
-  async findOne(id: string): Promise<ProductWithPricingDto> {
+  /**
+   * The listing's order: the chosen sort, then newest first, then the ID, so that no two products
+   * tie and pages never overlap
+   */
+  private sortKeys(sort: ProductSort, order: SortOrder): SortKey[] {
+    const direction: SortKey['direction'] = order === SortOrder.ASC ? 'ASC' : 'DESC';
+    const column = (name: string, columnDirection: 'ASC' | 'DESC'): SortKey => ({
+      expression: `product.${name}`,
+      orderBy: `product.${name}`,
+      raw: `product_${name}`,
+      direction: columnDirection,
+    });
+
+    const keys: SortKey[] = SORT_EXPRESSIONS[sort]
+      ? [
+          {
+            expression: SORT_EXPRESSIONS[sort],
+            orderBy: 'sort_value',
+            raw: 'sort_value',
+            direction,
+          },
+        ]
+      : [column(SORT_COLUMNS[sort], direction)];
+    if (sort !== ProductSort.NEWEST) {
+      keys.push(column('created_at', 'DESC'));
+    }
+    keys.push(column('id', 'ASC'));
+    return keys;
+  }
+
+  /**
+   * Matches the products ordered after the cursor's values (:cursor_0, :cursor_1, ...),
+   * or before them when walking backwards
+   */
+  private keysetCondition(keys: SortKey[], backwards: boolean): string {
+    const branches = keys.map((key, index) => {
+      const ascending = (key.direction === 'ASC') !== backwards;
+      const ties = keys
+        .slice(0, index)
+        .map((tie, tieIndex) => `${tie.expression} = :cursor_${tieIndex}`);
+      return [...ties, `${key.expression} ${ascending ? '>' : '<'} :cursor_${index}`].join(' AND ');
+    });
+    return `((${branches.join(') OR (')}))`;
+  }
+
+  /**
+   * Returns the product priced in its own currency, or converted to the given currency
+   */
+  async findOne(id: string, currency?: string): Promise<ProductWithPricingDto> {
     // Try to get from cache first
-    const cacheKey = `${this.PRODUCT_CACHE_PREFIX}:${id}`;
+    const cacheKey = this.getProductCacheKey(id, currency);
     const cachedProduct = await this.redisService.getJson<ProductWithPricingDto>(cacheKey);
 
     if (cachedProduct) {
@@ -121,7 +375,8 @@ export class ProductsService {
       throw new NotFoundException(`Product with ID ${id} not found`);
     }
 
-    const productWithPricing = ProductWithPricingDto.fromProduct(product);
+    const converter = currency ? await this.currenciesService.getConverter(currency) : undefined;
+    const productWithPricing = await this.toPricingDto(product, converter);
 
     // Cache the result
     await this.redisService.setJson(cacheKey, productWithPricing, this.CACHE_TTL);
@@ -141,21 +396,9 @@ export class ProductsService {
     id: string,
     updateProductDto: UpdateProductDto,
     imageFile?: any,
+    actor?: string,
   ): Promise<ProductWithPricingDto> {
-    // Validate price if provided
-    if (updateProductDto.price !== undefined && !isValidMonetaryAmount(updateProductDto.price)) {
-      throw new BadRequestException('Price must be a valid positive number');
-    }
-
-    // Validate discount percentage if provided
-    if (updateProductDto.discount_percentage !== undefined) {
-      if (
-        !isValidMonetaryAmount(updateProductDto.discount_percentage) ||
-        updateProductDto.discount_percentage > 100
-      ) {
-        throw new BadRequestException('Discount percentage must be between 0 and 100');
-      }
-    }
+    await this.assertValidProductData(updateProductDto, id);
 
     const product = await this.findOneEntity(id);
 
@@ -163,34 +406,108 @@ export class ProductsService {
 
     // Upload new image to S3 if provided
     if (imageFile) {
-      // Delete old image if it exists
-      if (product.image_url) {
-        await this.s3Service.deleteFile(product.image_url);
-      }
       imageUrl = await this.s3Service.uploadFile(imageFile, 'products');
     }
-
-    // Convert date strings to Date objects if provided
-    const updateData = {
-      ...updateProductDto,
+    const previousImageUrl = product.image_url;
+
+    const {
+      discount_percentage,
+      discount_start_date,
+      discount_end_date,
+      stock_quantity,
+      ...productData
+    } = updateProductDto;
+
+    Object.assign(product, {
+      ...productData,
       ...(imageUrl && { image_url: imageUrl }),
-      discount_start_date: updateProductDto.discount_start_date
-        ? new Date(updateProductDto.discount_start_date)
-        : updateProductDto.discount_start_date,
-      discount_end_date: updateProductDto.discount_end_date
-        ? new Date(updateProductDto.discount_end_date)
-        : updateProductDto.discount_end_date,
-    };
+    });
 
-    Object.assign(product, updateData);
-    const savedProduct = await this.productRepository.save(product);
+    // A rejected discount window or stock change leaves the product as it was
+    let savedProduct: Product;
+    let movement: StockMovement | undefined;
+    try {
+      savedProduct = await this.productRepository.manager.transaction(async (manager) => {
+        const saved = await manager.getRepository(Product).save(product);
+
+        // A discount percentage schedules a new window; 0 ends the active one
+        if (discount_percentage) {
+          await this.scheduleDiscount(
+            saved,
+            discount_percentage,
+            discount_start_date,
+            discount_end_date,
+            manager,
+          );
+        } else if (discount_percentage === 0) {
+          await this.endActiveDiscount(saved, manager);
+        }
+
+        // A new stock level is reached through a ledger adjustment rather than overwritten
+        if (stock_quantity !== undefined && stock_quantity !== saved.stock_quantity) {
+          movement = await this.inventoryService.adjust(
+            id,
+            {
+              type: StockMovementType.ADJUSTMENT,
+              quantity: stock_quantity - saved.stock_quantity,
+              reason: 'Stock level set by product update',
+              actor,
+            },
+            manager,
+          );
+          saved.stock_quantity = movement.balance;
+        }
+
+        return saved;
+      });
+    } catch (error) {
+      if (imageUrl) {
+        await this.s3Service.deleteFile(imageUrl);
+      }
+      throw error;
+    }
+
+    // The old image is only dropped once the new one is in place
+    if (imageUrl && previousImageUrl) {
+      await this.s3Service.deleteFile(previousImageUrl);
+    }
+
+    if (movement) {
+      await this.stockAlertsService.onStockChanged(
+        savedProduct,
+        movement.balance - movement.quantity,
+      );
+    }
 
     // Invalidate cache
-    const cacheKey = `${this.PRODUCT_CACHE_PREFIX}:${id}`;
-    await this.redisService.del(cacheKey);
-    await this.invalidateProductListCache();
+    await this.invalidateProductCache(id);
+
+    return await this.toPricingDto(savedProduct);
+  }
+
+  /**
+   * Applies a manual stock movement to the product and records it in the ledger
+   */
+  async adjustStock(
+    id: string,
+    adjustmentDto: CreateStockAdjustmentDto,
+    actor?: string,
+  ): Promise<StockMovement> {
+    const movement = await this.inventoryService.adjust(id, {
+      type: adjustmentDto.type ?? StockMovementType.ADJUSTMENT,
+      quantity: adjustmentDto.quantity,
+      warehouse_id: adjustmentDto.warehouse_id,
+      variant_id: adjustmentDto.variant_id,
+      reason: adjustmentDto.reason,
+      actor,
+    });
+
+    await this.invalidateProductCache(id);
+
+    const product = await this.findOneEntity(id);
+    await this.stockAlertsService.onStockChanged(product, movement.balance - movement.quantity);
 
-    return ProductWithPricingDto.fromProduct(savedProduct);
+    return movement;
   }
 
   async remove(id: string): Promise<void> {
@@ -204,9 +521,7 @@ export class ProductsService {
     await this.productRepository.remove(product);
 
     // Invalidate cache
-    const cacheKey = `${this.PRODUCT_CACHE_PREFIX}:${id}`;
-    await this.redisService.del(cacheKey);
-    await this.invalidateProductListCache();
+    await this.invalidateProductCache(id);
   }
 
   async applyDiscount(
@@ -224,54 +539,229 @@ export class ProductsService {
 
     const product = await this.findOneEntity(id);
 
-    // Validate date range if both dates are provided
-    if (applyDiscountDto.discount_start_date && applyDiscountDto.discount_end_date) {
-      const startDate = new Date(applyDiscountDto.discount_start_date);
-      const endDate = new Date(applyDiscountDto.discount_end_date);
+    // Schedule a new window alongside the existing ones
+    await this.scheduleDiscount(
+      product,
+      applyDiscountDto.discount_percentage,
+      applyDiscountDto.discount_start_date,
+      applyDiscountDto.discount_end_date,
+    );
 
-      if (endDate <= startDate) {
-        throw new BadRequestException('Discount end date must be after start date');
-      }
-    }
+    // Invalidate cache
+    await this.invalidateProductCache(id);
 
-    // Apply discount
-    product.discount_percentage = applyDiscountDto.discount_percentage;
-    product.discount_start_date = applyDiscountDto.discount_start_date
-      ? new Date(applyDiscountDto.discount_start_date)
-      : undefined;
-    product.discount_end_date = applyDiscountDto.discount_end_date
-      ? new Date(applyDiscountDto.discount_end_date)
-      : undefined;
+    return await this.toPricingDto(product);
+  }
 
-    const savedProduct = await this.productRepository.save(product);
+  async removeDiscount(id: string): Promise<ProductWithPricingDto> {
+    const product = await this.findOneEntity(id);
+
+    // End the active window now; it stays in the history
+    await this.endActiveDiscount(product);
 
     // Invalidate cache
-    const cacheKey = `${this.PRODUCT_CACHE_PREFIX}:${id}`;
-    await this.redisService.del(cacheKey);
-    await this.invalidateProductListCache();
+    await this.invalidateProductCache(id);
 
-    return ProductWithPricingDto.fromProduct(savedProduct);
+    return await this.toPricingDto(product);
   }
 
-  async removeDiscount(id: string): Promise<ProductWithPricingDto> {
+  async findDiscounts(id: string): Promise<ProductDiscountHistoryDto> {
     const product = await this.findOneEntity(id);
+    const now = new Date();
 
-    // Remove discount
-    product.discount_percentage = null;
-    product.discount_start_date = null;
-    product.discount_end_date = null;
+    const discounts = [...(product.discounts ?? [])].sort(
+      (a, b) => a.starts_at.getTime() - b.starts_at.getTime(),
+    );
 
-    const savedProduct = await this.productRepository.save(product);
+    return {
+      past: discounts.filter((d) => d.getStatus(now) === DiscountStatus.PAST).reverse(),
+      active: discounts.find((d) => d.getStatus(now) === DiscountStatus.ACTIVE) ?? null,
+      upcoming: discounts.filter((d) => d.getStatus(now) === DiscountStatus.UPCOMING),
+    };
+  }
+
+  async cancelDiscount(id: string, discountId: string): Promise<void> {
+    const product = await this.findOneEntity(id);
+
+    const discount = product.discounts?.find((d) => d.id === discountId);
+    if (!discount) {
+      throw new NotFoundException(`Discount with ID ${discountId} not found`);
+    }
+
+    switch (discount.getStatus()) {
+      case DiscountStatus.PAST:
+        throw new BadRequestException('Past discounts are kept as history and cannot be removed');
+      case DiscountStatus.ACTIVE:
+        discount.ends_at = new Date();
+        await this.discountRepository.save(discount);
+        break;
+      case DiscountStatus.UPCOMING:
+        await this.discountRepository.remove(discount);
+        break;
+    }
 
     // Invalidate cache
-    const cacheKey = `${this.PRODUCT_CACHE_PREFIX}:${id}`;
-    await this.redisService.del(cacheKey);
+    await this.invalidateProductCache(id);
+  }
+
+  async findCategories(id: string): Promise<Category[]> {
+    await this.findOneEntity(id);
+
+    return await this.productRepository
+      .createQueryBuilder()
+      .relation(Product, 'categories')
+      .of(id)
+      .loadMany<Category>();
+  }
+
+  /**
+   * Replaces the categories the product is assigned to
+   */
+  async setCategories(id: string, categoryIds: string[]): Promise<Category[]> {
+    await this.findOneEntity(id);
+    const categories = await this.categoriesService.findByIds(categoryIds);
+
+    const relation = this.productRepository.createQueryBuilder().relation(Product, 'categories');
+    const current = await relation.of(id).loadMany<Category>();
+    await relation.of(id).addAndRemove(
+      categories.filter((category) => !current.some((existing) => existing.id === category.id)),
+      current.filter((existing) => !categoryIds.includes(existing.id)),
+    );
+
+    // Category filters are part of the cached list queries
+    await this.invalidateProductCache(id);
+    return categories;
+  }
+
+  async findOneBySku(sku: string): Promise<Product | null> {
+    return await this.productRepository.findOne({ where: { sku } });
+  }
+
+  async findOneByExternalId(externalId: string): Promise<Product | null> {
+    return await this.productRepository.findOne({ where: { external_id: externalId } });
+  }
+
+  /**
+   * Checks product data against the rules create and update enforce beyond the DTO's own.
+   * The product being updated, if any, may keep its own SKU and external ID.
+   */
+  async assertValidProductData(productDto: UpdateProductDto, id?: string): Promise<void> {
+    // Validate price if provided
+    if (productDto.price !== undefined && !isValidMonetaryAmount(productDto.price)) {
+      throw new BadRequestException('Price must be a valid positive number');
+    }
+
+    // Validate discount percentage if provided
+    if (productDto.discount_percentage !== undefined) {
+      if (
+        !isValidMonetaryAmount(productDto.discount_percentage) ||
+        productDto.discount_percentage > 100
+      ) {
+        throw new BadRequestException('Discount percentage must be between 0 and 100');
+      }
+    }
+
+    // Prices can only be set in currencies that can be converted
+    if (productDto.currency) {
+      await this.currenciesService.assertSupported(productDto.currency);
+    }
+
+    if (productDto.tax_class) {
+      await this.taxesService.assertClassExists(productDto.tax_class);
+    }
+
+    if (productDto.sku) {
+      const existing = await this.findOneBySku(productDto.sku);
+      if (existing && existing.id !== id) {
+        throw new ConflictException(`A product with SKU ${productDto.sku} already exists`);
+      }
+    }
+
+    if (productDto.external_id) {
+      const existing = await this.findOneByExternalId(productDto.external_id);
+      if (existing && existing.id !== id) {
+        throw new ConflictException(
+          `A product with external ID ${productDto.external_id} already exists`,
+        );
+      }
+    }
+  }
+
+  async invalidateProductCache(id: string): Promise<void> {
+    // The product is cached once per requested currency
+    await this.redisService.flushPattern(`${this.PRODUCT_CACHE_PREFIX}:${id}:*`);
+    // GET /products/:id responses are also cached by the CacheInterceptor, keyed by URL
+    await this.redisService.flushPattern(`${this.PRODUCT_CACHE_PREFIX}:GET:/products/${id}*`);
     await this.invalidateProductListCache();
+  }
+
+  /**
+   * Adds a discount window to the product, rejecting windows that overlap an existing one.
+   * A missing start date means the window starts now; a missing end date leaves it open-ended.
+   */
+  private async scheduleDiscount(
+    product: Product,
+    discountPercentage: number,
+    startDate?: string,
+    endDate?: string,
+    manager?: EntityManager,
+  ): Promise<ProductDiscount> {
+    const now = new Date();
+    const startsAt = startDate ? new Date(startDate) : now;
+    const endsAt = endDate ? new Date(endDate) : null;
+
+    if (endsAt && endsAt <= startsAt) {
+      throw new BadRequestException('Discount end date must be after start date');
+    }
+    if (endsAt && endsAt <= now) {
+      throw new BadRequestException('Discount end date must be in the future');
+    }
+
+    const overlapping = product.discounts?.find((d) => d.overlaps(startsAt, endsAt));
+    if (overlapping) {
+      const until = overlapping.ends_at ? overlapping.ends_at.toISOString() : 'open-ended';
+      throw new ConflictException(
+        `Discount window overlaps an existing discount (${overlapping.starts_at.toISOString()} - ${until})`,
+      );
+    }
+
+    const discountRepository = manager?.getRepository(ProductDiscount) ?? this.discountRepository;
+    const discount = discountRepository.create({
+      product_id: product.id,
+      discount_percentage: discountPercentage,
+      starts_at: startsAt,
+      ends_at: endsAt,
+    });
+    const savedDiscount = await discountRepository.save(discount);
+
+    product.discounts = [...(product.discounts ?? []), savedDiscount];
+    return savedDiscount;
+  }
+
+  private async endActiveDiscount(product: Product, manager?: EntityManager): Promise<void> {
+    const activeDiscount = product.activeDiscount;
+    if (!activeDiscount) {
+      return;
+    }
+
+    activeDiscount.ends_at = new Date();
+    const discountRepository = manager?.getRepository(ProductDiscount) ?? this.discountRepository;
+    await discountRepository.save(activeDiscount);
+  }
+
+  private async toPricingDto(
+    product: Product,
+    converter?: CurrencyConverter,
+  ): Promise<ProductWithPricingDto> {
+    const reservedQuantity = await this.reservationsService.getReservedQuantity(product.id);
+    return ProductWithPricingDto.fromProduct(product, reservedQuantity, converter);
+  }
 
-    return ProductWithPricingDto.fromProduct(savedProduct);
+  private getProductCacheKey(id: string, currency?: string): string {
+    return `${this.PRODUCT_CACHE_PREFIX}:${id}:${currency?.toUpperCase() ?? 'native'}`;
   }
 
-  private async invalidateProductListCache(): Promise<void> {
+  async invalidateProductListCache(): Promise<void> {
     // Invalidate all product list caches (they may have different query parameters)
     await this.redisService.flushPattern(`${this.PRODUCTS_LIST_CACHE_PREFIX}:*`);
   }
@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Cart } from '../../cart/entities/cart.entity';
+import { Product } from '../../products/entities/product.entity';
+import { ProductVariant } from '../../products/entities/product-variant.entity';
+
+/**
+ * Stock held for a cart line until it is checked out, removed or the hold expires.
+ * There is at most one reservation per cart line; its quantity mirrors the line.
+ */
+@Entity('stock_reservations')
+@Index(['cart_id', 'product_id', 'variant_id'], { unique: true })
+export class StockReservation {
+  @ApiProperty({ description: 'Reservation ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Cart holding the stock' })
+  @Column({ type: 'varchar' })
+  cart_id: string;
+
+  @ApiProperty({ description: 'Reserved product' })
+  @Column({ type: 'varchar' })
+  product_id: string;
+
+  @ApiProperty({ description: 'Reserved variant', required: false })
+  @Column({ type: 'varchar', nullable: true })
+  variant_id?: string;
+
+  @ApiProperty({ description: 'Number of units held' })
+  @Column({ type: 'integer' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Date after which the hold is released' })
+  @Column({ type: 'datetime' })
+  expires_at: Date;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => Cart, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'cart_id' })
+  cart: Cart;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'product_id' })
+  product: Product;
+
+  @ManyToOne(() => ProductVariant, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'variant_id' })
+  variant?: ProductVariant;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ReservationsService } from './reservations.service';
+import { StockReservation } from './entities/stock-reservation.entity';
+import { InventoryModule } from '../inventory/inventory.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([StockReservation]), InventoryModule],
+  providers: [ReservationsService],
+  exports: [ReservationsService],
+})
+export class ReservationsModule {}
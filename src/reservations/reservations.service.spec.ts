@@ -0,0 +1,302 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ReservationsService } from './reservations.service';
+import { StockReservation } from './entities/stock-reservation.entity';
+import { InventoryService } from '../inventory/inventory.service';
+import { StockMovementType } from '../inventory/entities/stock-movement.entity';
+import { Product } from '../products/entities/product.entity';
+import { ProductVariant } from '../products/entities/product-variant.entity';
+
+describe('ReservationsService', () => {
+  let service: ReservationsService;
+
+  const cartId = '789e0123-e89b-12d3-a456-426614174002';
+  const productId = '123e4567-e89b-12d3-a456-426614174000';
+  const variantId = '456e7890-e89b-12d3-a456-426614174001';
+
+  const createQueryBuilder = (result: { raw?: any; rows?: any[] }) => {
+    const builder: any = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      getRawOne: jest.fn().mockResolvedValue(result.raw),
+      getRawMany: jest.fn().mockResolvedValue(result.rows),
+    };
+    return builder;
+  };
+
+  const mockManager = {
+    createQueryBuilder: jest.fn(),
+    find: jest.fn().mockResolvedValue([]),
+    findOne: jest.fn(),
+    create: jest.fn((_entity, data) => ({ ...data })),
+    save: jest.fn(async (entity) => entity),
+    delete: jest.fn(),
+    transaction: jest.fn((work) => work(mockManager)),
+  };
+
+  const mockRepository = {
+    manager: mockManager,
+    createQueryBuilder: jest.fn(),
+    find: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockInventoryService = {
+    record: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReservationsService,
+        {
+          provide: getRepositoryToken(StockReservation),
+          useValue: mockRepository,
+        },
+        {
+          provide: InventoryService,
+          useValue: mockInventoryService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReservationsService>(ReservationsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getReservedQuantity', () => {
+    it('should sum active holds excluding the given cart', async () => {
+      const builder = createQueryBuilder({ raw: { reserved: '4' } });
+      mockManager.createQueryBuilder.mockReturnValue(builder);
+
+      const result = await service.getReservedQuantity(productId, cartId);
+
+      expect(result).toBe(4);
+      expect(builder.andWhere).toHaveBeenCalledWith('reservation.cart_id != :excludeCartId', {
+        excludeCartId: cartId,
+      });
+    });
+
+    it('should return 0 when nothing is reserved', async () => {
+      mockManager.createQueryBuilder.mockReturnValue(createQueryBuilder({ raw: undefined }));
+
+      expect(await service.getReservedQuantity(productId)).toBe(0);
+    });
+  });
+
+  describe('getReservedQuantities', () => {
+    it('should map product IDs to reserved totals', async () => {
+      mockRepository.createQueryBuilder.mockReturnValue(
+        createQueryBuilder({ rows: [{ product_id: productId, reserved: '3' }] }),
+      );
+
+      const result = await service.getReservedQuantities([productId]);
+
+      expect(result.get(productId)).toBe(3);
+    });
+
+    it('should skip the query for an empty list', async () => {
+      const result = await service.getReservedQuantities([]);
+
+      expect(result.size).toBe(0);
+      expect(mockRepository.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('hold', () => {
+    // Stock read by the hold's transaction, and the cart's current hold on the line, if any
+    const mockHoldReads = (existing: object | null = null, variant: ProductVariant | null = null) =>
+      mockManager.findOne.mockImplementation(async (entity) => {
+        if (entity === Product) {
+          return Object.assign(new Product(), { id: productId, stock_quantity: 10 });
+        }
+        return entity === ProductVariant ? variant : existing;
+      });
+
+    it('should create a hold with a future expiry', async () => {
+      mockManager.createQueryBuilder.mockReturnValue(createQueryBuilder({ raw: { reserved: 0 } }));
+      mockHoldReads();
+
+      const result = await service.hold(cartId, productId, 2);
+
+      expect(result.cart_id).toBe(cartId);
+      expect(result.product_id).toBe(productId);
+      expect(result.quantity).toBe(2);
+      expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should update the quantity of an existing hold', async () => {
+      const existing = {
+        id: 'reservation-id',
+        cart_id: cartId,
+        product_id: productId,
+        quantity: 1,
+      };
+      mockManager.createQueryBuilder.mockReturnValue(createQueryBuilder({ raw: { reserved: 0 } }));
+      mockHoldReads(existing);
+
+      const result = await service.hold(cartId, productId, 5);
+
+      expect(mockManager.create).not.toHaveBeenCalled();
+      expect(result.id).toBe('reservation-id');
+      expect(result.quantity).toBe(5);
+    });
+
+    it('should record the change in held quantity in the stock ledger', async () => {
+      mockManager.createQueryBuilder.mockReturnValue(createQueryBuilder({ raw: { reserved: 0 } }));
+      mockHoldReads({ cart_id: cartId, product_id: productId, quantity: 1 });
+
+      await service.hold(cartId, productId, 3);
+
+      expect(mockInventoryService.record).toHaveBeenCalledWith(
+        productId,
+        {
+          type: StockMovementType.RESERVATION,
+          quantity: 2,
+          reason: 'Held by cart',
+          reference: cartId,
+        },
+        mockManager,
+      );
+    });
+
+    it('should not record a hold that only restarts its TTL', async () => {
+      mockManager.createQueryBuilder.mockReturnValue(createQueryBuilder({ raw: { reserved: 0 } }));
+      mockHoldReads({ cart_id: cartId, product_id: productId, quantity: 3 });
+
+      await service.hold(cartId, productId, 3);
+
+      expect(mockInventoryService.record).not.toHaveBeenCalled();
+    });
+
+    it('should check a variant hold against the variant stock', async () => {
+      mockManager.createQueryBuilder
+        .mockReturnValueOnce(createQueryBuilder({ raw: { reserved: 0 } }))
+        .mockReturnValueOnce(createQueryBuilder({ raw: { reserved: 2 } }));
+      mockHoldReads(
+        null,
+        Object.assign(new ProductVariant(), { id: variantId, stock_quantity: 3 }),
+      );
+
+      await expect(service.hold(cartId, productId, 2, variantId)).rejects.toThrow(
+        'Insufficient stock. Available: 1, Requested: 2',
+      );
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should hold a variant in its own reservation', async () => {
+      mockManager.createQueryBuilder.mockReturnValue(createQueryBuilder({ raw: { reserved: 0 } }));
+      mockHoldReads(
+        null,
+        Object.assign(new ProductVariant(), { id: variantId, stock_quantity: 3 }),
+      );
+
+      const result = await service.hold(cartId, productId, 2, variantId);
+
+      expect(result.variant_id).toBe(variantId);
+      expect(mockInventoryService.record).toHaveBeenCalledWith(
+        productId,
+        expect.objectContaining({ quantity: 2, variant_id: variantId }),
+        mockManager,
+      );
+    });
+
+    it('should reject holds exceeding stock not held by other carts', async () => {
+      mockManager.createQueryBuilder.mockReturnValue(createQueryBuilder({ raw: { reserved: 9 } }));
+      mockHoldReads();
+
+      await expect(service.hold(cartId, productId, 2)).rejects.toThrow(BadRequestException);
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should read the stock inside the hold transaction', async () => {
+      mockManager.createQueryBuilder.mockReturnValue(createQueryBuilder({ raw: { reserved: 0 } }));
+      mockHoldReads();
+
+      await expect(service.hold(cartId, productId, 11)).rejects.toThrow(
+        'Insufficient stock. Available: 10, Requested: 11',
+      );
+      expect(mockManager.transaction).toHaveBeenCalledTimes(1);
+      expect(mockManager.findOne).toHaveBeenCalledWith(Product, {
+        where: { id: productId },
+        loadEagerRelations: false,
+      });
+    });
+
+    it('should reject holds on an unknown product or variant', async () => {
+      mockManager.findOne.mockResolvedValue(null);
+
+      await expect(service.hold(cartId, productId, 1)).rejects.toThrow(NotFoundException);
+
+      mockHoldReads();
+      await expect(service.hold(cartId, productId, 1, variantId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('release', () => {
+    it('should release the hold of a single cart line', async () => {
+      await service.release(cartId, { product_id: productId, variant_id: variantId });
+
+      expect(mockManager.delete).toHaveBeenCalledWith(StockReservation, {
+        cart_id: cartId,
+        product_id: productId,
+        variant_id: variantId,
+      });
+    });
+
+    it('should release every hold of a cart', async () => {
+      await service.release(cartId);
+
+      expect(mockManager.delete).toHaveBeenCalledWith(StockReservation, { cart_id: cartId });
+    });
+
+    it('should record each released hold in the stock ledger', async () => {
+      mockManager.find.mockResolvedValueOnce([
+        { cart_id: cartId, product_id: productId, quantity: 2 },
+      ]);
+
+      await service.release(cartId);
+
+      expect(mockInventoryService.record).toHaveBeenCalledWith(
+        productId,
+        {
+          type: StockMovementType.RESERVATION,
+          quantity: -2,
+          reason: 'Hold released',
+          reference: cartId,
+        },
+        mockManager,
+      );
+    });
+  });
+
+  describe('releaseExpired', () => {
+    it('should delete expired holds and return distinct product IDs', async () => {
+      mockRepository.find.mockResolvedValue([
+        { id: 'a', product_id: productId },
+        { id: 'b', product_id: productId },
+      ]);
+
+      const result = await service.releaseExpired();
+
+      expect(mockRepository.delete).toHaveBeenCalledWith({ id: expect.any(Object) });
+      expect(result).toEqual([productId]);
+    });
+
+    it('should do nothing when no hold has expired', async () => {
+      mockRepository.find.mockResolvedValue([]);
+
+      expect(await service.releaseExpired()).toEqual([]);
+      expect(mockRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
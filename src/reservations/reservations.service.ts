@@ -0,0 +1,219 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { StockReservation } from './entities/stock-reservation.entity';
+import { Product } from '../products/entities/product.entity';
+import { ProductVariant } from '../products/entities/product-variant.entity';
+import { InventoryService } from '../inventory/inventory.service';
+import { StockMovementType } from '../inventory/entities/stock-movement.entity';
+import config from '../common/config';
+
+@Injectable()
+export class ReservationsService {
+  private readonly RESERVATION_TTL_MS = config.reservations.ttlMinutes * 60 * 1000;
+
+  constructor(
+    @InjectRepository(StockReservation)
+    private readonly reservationRepository: Repository<StockReservation>,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  /**
+   * Sums the active holds on a product, optionally ignoring one cart's own hold
+   */
+  async getReservedQuantity(
+    productId: string,
+    excludeCartId?: string,
+    manager: EntityManager = this.reservationRepository.manager,
+  ): Promise<number> {
+    return await this.sumHolds('product_id', productId, excludeCartId, manager);
+  }
+
+  /**
+   * Sums the active holds on one variant of a product, optionally ignoring one cart's own hold
+   */
+  async getReservedVariantQuantity(
+    variantId: string,
+    excludeCartId?: string,
+    manager: EntityManager = this.reservationRepository.manager,
+  ): Promise<number> {
+    return await this.sumHolds('variant_id', variantId, excludeCartId, manager);
+  }
+
+  private async sumHolds(
+    column: 'product_id' | 'variant_id',
+    id: string,
+    excludeCartId: string | undefined,
+    manager: EntityManager,
+  ): Promise<number> {
+    const query = manager
+      .createQueryBuilder(StockReservation, 'reservation')
+      .select('COALESCE(SUM(reservation.quantity), 0)', 'reserved')
+      .where(`reservation.${column} = :id`, { id })
+      .andWhere('reservation.expires_at > :now', { now: new Date() });
+
+    if (excludeCartId) {
+      query.andWhere('reservation.cart_id != :excludeCartId', { excludeCartId });
+    }
+
+    const result = await query.getRawOne();
+    return Number(result?.reserved) || 0;
+  }
+
+  async getReservedQuantities(productIds: string[]): Promise<Map<string, number>> {
+    const reserved = new Map<string, number>();
+    if (productIds.length === 0) {
+      return reserved;
+    }
+
+    const rows = await this.reservationRepository
+      .createQueryBuilder('reservation')
+      .select('reservation.product_id', 'product_id')
+      .addSelect('SUM(reservation.quantity)', 'reserved')
+      .where('reservation.product_id IN (:...productIds)', { productIds })
+      .andWhere('reservation.expires_at > :now', { now: new Date() })
+      .groupBy('reservation.product_id')
+      .getRawMany();
+
+    for (const row of rows) {
+      reserved.set(row.product_id, Number(row.reserved));
+    }
+    return reserved;
+  }
+
+  /**
+   * Sets the cart's hold on a product, or on one of its variants, to the given quantity and
+   * restarts its TTL. Fails if the stock not held by other carts can't cover it.
+   * Changes to the held quantity are recorded in the stock ledger.
+   */
+  async hold(
+    cartId: string,
+    productId: string,
+    quantity: number,
+    variantId?: string,
+  ): Promise<StockReservation> {
+    return await this.reservationRepository.manager.transaction(async (manager) => {
+      // Stock is read in the transaction, so a checkout or another hold can't slip in between
+      const product = await manager.findOne(Product, {
+        where: { id: productId },
+        loadEagerRelations: false,
+      });
+      if (!product) {
+        throw new NotFoundException(`Product with ID ${productId} not found`);
+      }
+      const variant = variantId
+        ? await manager.findOne(ProductVariant, {
+            where: { id: variantId, product_id: productId },
+            loadEagerRelations: false,
+          })
+        : null;
+      if (variantId && !variant) {
+        throw new NotFoundException(`Variant with ID ${variantId} not found`);
+      }
+
+      const reservedByOthers = await this.getReservedQuantity(productId, cartId, manager);
+      let available = product.stock_quantity - reservedByOthers;
+
+      if (variant) {
+        const variantReservedByOthers = await this.getReservedVariantQuantity(
+          variant.id,
+          cartId,
+          manager,
+        );
+        available = Math.min(available, variant.stock_quantity - variantReservedByOthers);
+      }
+
+      if (available < quantity) {
+        throw new BadRequestException(
+          `Insufficient stock. Available: ${Math.max(available, 0)}, Requested: ${quantity}`,
+        );
+      }
+
+      const existing = await manager.findOne(StockReservation, {
+        where: { cart_id: cartId, product_id: productId, variant_id: variant?.id ?? IsNull() },
+      });
+      const reservation =
+        existing ??
+        manager.create(StockReservation, {
+          cart_id: cartId,
+          product_id: productId,
+          variant_id: variant?.id,
+        });
+
+      const previousQuantity = existing?.quantity ?? 0;
+      reservation.quantity = quantity;
+      reservation.expires_at = new Date(Date.now() + this.RESERVATION_TTL_MS);
+      const saved = await manager.save(reservation);
+
+      if (quantity !== previousQuantity) {
+        await this.inventoryService.record(
+          productId,
+          {
+            type: StockMovementType.RESERVATION,
+            quantity: quantity - previousQuantity,
+            variant_id: variant?.id,
+            reason: 'Held by cart',
+            reference: cartId,
+          },
+          manager,
+        );
+      }
+      return saved;
+    });
+  }
+
+  /**
+   * Drops a cart's holds, either for a single cart line or for the whole cart
+   */
+  async release(
+    cartId: string,
+    line?: { product_id: string; variant_id?: string },
+    manager: EntityManager = this.reservationRepository.manager,
+  ): Promise<void> {
+    const where = {
+      cart_id: cartId,
+      ...(line && { product_id: line.product_id, variant_id: line.variant_id ?? IsNull() }),
+    };
+    const holds = await manager.find(StockReservation, { where });
+
+    await manager.delete(StockReservation, where);
+    await this.recordReleases(holds, 'Hold released', manager);
+  }
+
+  /**
+   * Deletes holds past their TTL and returns the affected product IDs
+   */
+  async releaseExpired(): Promise<string[]> {
+    const expired = await this.reservationRepository.find({
+      where: { expires_at: LessThanOrEqual(new Date()) },
+    });
+
+    if (expired.length === 0) {
+      return [];
+    }
+
+    await this.reservationRepository.delete({ id: In(expired.map((r) => r.id)) });
+    await this.recordReleases(expired, 'Hold expired');
+    return [...new Set(expired.map((r) => r.product_id))];
+  }
+
+  private async recordReleases(
+    holds: StockReservation[],
+    reason: string,
+    manager: EntityManager = this.reservationRepository.manager,
+  ): Promise<void> {
+    for (const hold of holds) {
+      await this.inventoryService.record(
+        hold.product_id,
+        {
+          type: StockMovementType.RESERVATION,
+          quantity: -hold.quantity,
+          variant_id: hold.variant_id ?? undefined,
+          reason,
+          reference: hold.cart_id,
+        },
+        manager,
+      );
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsEnum,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsPositive,
+  ArrayMinSize,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ShippingRateType } from '../entities/shipping-method.entity';
+
+export class WeightBandDto {
+  @ApiProperty({ description: 'Heaviest cart weight in kg the band covers', example: 5 })
+  @IsNumber({ maxDecimalPlaces: 3 })
+  @IsPositive()
+  @Type(() => Number)
+  max_weight: number;
+
+  @ApiProperty({ description: 'Shipping price for the band', example: 7.5 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  price: number;
+}
+
+export class CreateShippingMethodDto {
+  @ApiProperty({ description: 'Shipping method name', example: 'Standard delivery' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Delivery details', example: 'Delivered in 3-5 days' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ description: 'How the price is determined', enum: ShippingRateType })
+  @IsEnum(ShippingRateType)
+  rate_type: ShippingRateType;
+
+  @ApiPropertyOptional({ description: 'Price of flat-rate shipping', example: 4.99 })
+  @ValidateIf((o: CreateShippingMethodDto) => o.rate_type === ShippingRateType.FLAT)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  flat_rate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Weight bands for weight-based shipping',
+    type: [WeightBandDto],
+  })
+  @ValidateIf((o: CreateShippingMethodDto) => o.rate_type === ShippingRateType.WEIGHT)
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => WeightBandDto)
+  weight_bands?: WeightBandDto[];
+
+  @ApiPropertyOptional({ description: 'Cart subtotal from which shipping is free', example: 50 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Type(() => Number)
+  free_over?: number;
+
+  @ApiPropertyOptional({ description: 'Heaviest cart in kg the method accepts', example: 30 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 3 })
+  @IsPositive()
+  @Type(() => Number)
+  max_weight?: number;
+
+  @ApiPropertyOptional({ description: 'Longest item side in cm the method accepts', example: 120 })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  @Type(() => Number)
+  max_dimension?: number;
+
+  @ApiPropertyOptional({ description: 'Whether the method is offered to shoppers', example: true })
+  @IsOptional()
+  @IsBoolean()
+  is_active?: boolean;
+}
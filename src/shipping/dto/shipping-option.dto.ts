@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ShippingRateType } from '../entities/shipping-method.entity';
+
+export class ShippingOptionDto {
+  @ApiProperty({ description: 'Shipping method ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Shipping method name' })
+  name: string;
+
+  @ApiProperty({ description: 'Delivery details', required: false })
+  description?: string;
+
+  @ApiProperty({ description: 'How the price is determined', enum: ShippingRateType })
+  rate_type: ShippingRateType;
+
+  @ApiProperty({ description: 'Shipping cost for the cart, 0 when unavailable' })
+  cost: number;
+
+  @ApiProperty({ description: 'Whether the method can ship the cart' })
+  available: boolean;
+
+  @ApiProperty({ description: 'Why the method cannot ship the cart', required: false })
+  message?: string;
+}
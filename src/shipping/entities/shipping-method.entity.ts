@@ -0,0 +1,159 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { toPreciseDecimal } from '../../common/utils/arithmetic.utils';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+
+export enum ShippingRateType {
+  FLAT = 'flat',
+  WEIGHT = 'weight',
+}
+
+export interface WeightBand {
+  /** Heaviest cart weight in kg the band covers */
+  max_weight: number;
+  /** Shipping price in the base currency */
+  price: number;
+}
+
+/**
+ * What a shipping method is quoted against: the cart's total weight in kg,
+ * its subtotal after coupons in the base currency and its longest item side in cm
+ */
+export interface ShippingParcel {
+  weight: number;
+  subtotal: number;
+  longestSide: number;
+}
+
+@Entity('shipping_methods')
+export class ShippingMethod {
+  @ApiProperty({ description: 'Shipping method ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Shipping method name', example: 'Standard delivery' })
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @ApiProperty({ description: 'Delivery details shown to shoppers', required: false })
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  @ApiProperty({ description: 'How the price is determined', enum: ShippingRateType })
+  @Column({ type: 'varchar', length: 20 })
+  rate_type: ShippingRateType;
+
+  @ApiProperty({ description: 'Price of flat-rate shipping', required: false })
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    transformer: decimalTransformer,
+    nullable: true,
+  })
+  flat_rate?: number;
+
+  @ApiProperty({
+    description: 'Weight bands for weight-based shipping, each covering carts up to max_weight kg',
+    required: false,
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        max_weight: { type: 'number' },
+        price: { type: 'number' },
+      },
+    },
+  })
+  @Column({ type: 'simple-json', nullable: true })
+  weight_bands?: WeightBand[];
+
+  @ApiProperty({ description: 'Cart subtotal from which shipping is free', required: false })
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    transformer: decimalTransformer,
+    nullable: true,
+  })
+  free_over?: number;
+
+  @ApiProperty({ description: 'Heaviest cart in kg the method accepts', required: false })
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 3,
+    transformer: decimalTransformer,
+    nullable: true,
+  })
+  max_weight?: number;
+
+  @ApiProperty({ description: 'Longest item side in cm the method accepts', required: false })
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    transformer: decimalTransformer,
+    nullable: true,
+  })
+  max_dimension?: number;
+
+  @ApiProperty({ description: 'Whether the method is offered to shoppers' })
+  @Column({ type: 'boolean', default: true })
+  is_active: boolean;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  /**
+   * Returns why the method cannot ship the parcel, or null if it can
+   */
+  getUnavailabilityReason(parcel: ShippingParcel): string | null {
+    if (!this.is_active) {
+      return 'Shipping method is not active';
+    }
+    if (this.max_weight != null && parcel.weight > this.max_weight) {
+      return `Cart weighs more than ${this.max_weight} kg`;
+    }
+    if (this.max_dimension != null && parcel.longestSide > this.max_dimension) {
+      return `An item is longer than ${this.max_dimension} cm`;
+    }
+    if (this.rate_type === ShippingRateType.WEIGHT && !this.findWeightBand(parcel.weight)) {
+      return `No rate for a cart weighing ${parcel.weight} kg`;
+    }
+    return null;
+  }
+
+  /**
+   * Shipping price in the base currency; only meaningful when the method is available
+   */
+  calculateCost(parcel: ShippingParcel): number {
+    if (this.free_over != null && parcel.subtotal >= this.free_over) {
+      return 0;
+    }
+    if (this.rate_type === ShippingRateType.WEIGHT) {
+      return toPreciseDecimal(this.findWeightBand(parcel.weight)?.price ?? 0);
+    }
+    return toPreciseDecimal(this.flat_rate ?? 0);
+  }
+
+  /**
+   * Lightest band that still covers the weight
+   */
+  private findWeightBand(weight: number): WeightBand | undefined {
+    return [...(this.weight_bands ?? [])]
+      .sort((a, b) => a.max_weight - b.max_weight)
+      .find((band) => weight <= band.max_weight);
+  }
+}
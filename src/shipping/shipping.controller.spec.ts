@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ShippingController } from './shipping.controller';
+import { ShippingService } from './shipping.service';
+import { ShippingRateType } from './entities/shipping-method.entity';
+import { ROLES_KEY } from '../auth/guards/roles.guard';
+import { Role } from '../users/entities/user.entity';
+
+describe('ShippingController', () => {
+  let controller: ShippingController;
+  let service: ShippingService;
+
+  const mockMethod = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    name: 'Courier',
+    rate_type: ShippingRateType.FLAT,
+    flat_rate: 12.5,
+    is_active: true,
+  };
+
+  const mockShippingService = {
+    create: jest.fn(),
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ShippingController],
+      providers: [
+        {
+          provide: ShippingService,
+          useValue: mockShippingService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    controller = module.get<ShippingController>(ShippingController);
+    service = module.get<ShippingService>(ShippingService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('access control', () => {
+    const rolesOf = (handler: (...args: any[]) => unknown) =>
+      Reflect.getMetadata(ROLES_KEY, handler);
+
+    it('should restrict write routes to admins', () => {
+      const { create, update, remove } = ShippingController.prototype;
+
+      for (const handler of [create, update, remove]) {
+        expect(rolesOf(handler)).toEqual([Role.ADMIN]);
+      }
+    });
+
+    it('should leave read routes public', () => {
+      const { findAll, findOne } = ShippingController.prototype;
+
+      expect(rolesOf(findAll)).toBeUndefined();
+      expect(rolesOf(findOne)).toBeUndefined();
+    });
+  });
+
+  describe('create', () => {
+    it('should create a shipping method', async () => {
+      const dto = { name: 'Courier', rate_type: ShippingRateType.FLAT, flat_rate: 12.5 };
+      mockShippingService.create.mockResolvedValue(mockMethod);
+
+      const result = await controller.create(dto);
+
+      expect(service.create).toHaveBeenCalledWith(dto);
+      expect(result).toEqual(mockMethod);
+    });
+  });
+
+  describe('findAll', () => {
+    it('should return the shipping methods', async () => {
+      mockShippingService.findAll.mockResolvedValue([mockMethod]);
+
+      expect(await controller.findAll()).toEqual([mockMethod]);
+    });
+  });
+
+  describe('update', () => {
+    it('should update a shipping method', async () => {
+      mockShippingService.update.mockResolvedValue({ ...mockMethod, is_active: false });
+
+      const result = await controller.update(mockMethod.id, { is_active: false });
+
+      expect(service.update).toHaveBeenCalledWith(mockMethod.id, { is_active: false });
+      expect(result.is_active).toBe(false);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a shipping method', async () => {
+      mockShippingService.remove.mockResolvedValue(undefined);
+
+      await controller.remove(mockMethod.id);
+
+      expect(service.remove).toHaveBeenCalledWith(mockMethod.id);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { ShippingService } from './shipping.service';
+import { CreateShippingMethodDto } from './dto/create-shipping-method.dto';
+import { UpdateShippingMethodDto } from './dto/update-shipping-method.dto';
+import { ShippingMethod } from './entities/shipping-method.entity';
+import { ParseUUIDPipe } from '../common/pipes/parse-uuid.pipe';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../users/entities/user.entity';
+
+@ApiTags('shipping')
+@Controller('shipping-methods')
+export class ShippingController {
+  constructor(private readonly shippingService: ShippingService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Create a shipping method' })
+  @ApiResponse({
+    status: 201,
+    description: 'Shipping method created successfully',
+    type: ShippingMethod,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid rate table' })
+  async create(@Body() createShippingMethodDto: CreateShippingMethodDto): Promise<ShippingMethod> {
+    return await this.shippingService.create(createShippingMethodDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List all shipping methods' })
+  @ApiResponse({
+    status: 200,
+    description: 'Shipping methods retrieved successfully',
+    type: [ShippingMethod],
+  })
+  async findAll(): Promise<ShippingMethod[]> {
+    return await this.shippingService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a shipping method by ID' })
+  @ApiParam({ name: 'id', description: 'Shipping method ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Shipping method retrieved successfully',
+    type: ShippingMethod,
+  })
+  @ApiResponse({ status: 404, description: 'Shipping method not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<ShippingMethod> {
+    return await this.shippingService.findOne(id);
+  }
+
+  @Put(':id')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Update a shipping method by ID' })
+  @ApiParam({ name: 'id', description: 'Shipping method ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Shipping method updated successfully',
+    type: ShippingMethod,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid rate table' })
+  @ApiResponse({ status: 404, description: 'Shipping method not found' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateShippingMethodDto: UpdateShippingMethodDto,
+  ): Promise<ShippingMethod> {
+    return await this.shippingService.update(id, updateShippingMethodDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Delete a shipping method by ID' })
+  @ApiParam({ name: 'id', description: 'Shipping method ID' })
+  @ApiResponse({ status: 204, description: 'Shipping method deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Shipping method not found' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return await this.shippingService.remove(id);
+  }
+}
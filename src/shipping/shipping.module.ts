@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ShippingService } from './shipping.service';
+import { ShippingController } from './shipping.controller';
+import { ShippingMethod } from './entities/shipping-method.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ShippingMethod])],
+  controllers: [ShippingController],
+  providers: [ShippingService],
+  exports: [ShippingService],
+})
+export class ShippingModule {}
@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ShippingService } from './shipping.service';
+import { ShippingMethod, ShippingRateType } from './entities/shipping-method.entity';
+import { CurrencyConverter } from '../currencies/currency-converter';
+
+describe('ShippingService', () => {
+  let service: ShippingService;
+
+  const methodId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const createMockMethod = (overrides: Partial<ShippingMethod> = {}): ShippingMethod =>
+    Object.assign(new ShippingMethod(), {
+      id: methodId,
+      name: 'Standard delivery',
+      rate_type: ShippingRateType.WEIGHT,
+      weight_bands: [
+        { max_weight: 2, price: 4.99 },
+        { max_weight: 10, price: 9.99 },
+      ],
+      is_active: true,
+      ...overrides,
+    });
+
+  const mockShippingMethodRepository = {
+    create: jest.fn((data) => Object.assign(new ShippingMethod(), data)),
+    save: jest.fn(async (method) => method),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const converter = new CurrencyConverter('USD', 'USD', new Map([['EUR', 0.9]]));
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShippingService,
+        {
+          provide: getRepositoryToken(ShippingMethod),
+          useValue: mockShippingMethodRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ShippingService>(ShippingService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a flat-rate method', async () => {
+      const result = await service.create({
+        name: 'Courier',
+        rate_type: ShippingRateType.FLAT,
+        flat_rate: 12.5,
+      });
+
+      expect(mockShippingMethodRepository.save).toHaveBeenCalled();
+      expect(result.flat_rate).toBe(12.5);
+    });
+
+    it('should reject a flat-rate method without a flat_rate', async () => {
+      await expect(
+        service.create({ name: 'Courier', rate_type: ShippingRateType.FLAT }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockShippingMethodRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject weight bands with the same max_weight', async () => {
+      await expect(
+        service.create({
+          name: 'Standard delivery',
+          rate_type: ShippingRateType.WEIGHT,
+          weight_bands: [
+            { max_weight: 2, price: 4.99 },
+            { max_weight: 2, price: 5.99 },
+          ],
+        }),
+      ).rejects.toThrow('Weight bands must have distinct max_weight values');
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException when the method does not exist', async () => {
+      mockShippingMethodRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne(methodId)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('update', () => {
+    it('should validate the merged rate table', async () => {
+      mockShippingMethodRepository.findOne.mockResolvedValue(createMockMethod());
+
+      await expect(service.update(methodId, { weight_bands: [] })).rejects.toThrow(
+        'Weight-based shipping methods need at least one weight band',
+      );
+    });
+  });
+
+  describe('quote', () => {
+    const parcel = { weight: 1.5, subtotal: 50, longestSide: 30 };
+
+    it('should price a parcel by the lightest band that covers it', () => {
+      expect(service.quote(createMockMethod(), parcel, converter)).toEqual({
+        id: methodId,
+        name: 'Standard delivery',
+        description: undefined,
+        rate_type: ShippingRateType.WEIGHT,
+        cost: 4.99,
+        available: true,
+      });
+      expect(service.quote(createMockMethod(), { ...parcel, weight: 2.001 }, converter).cost).toBe(
+        9.99,
+      );
+    });
+
+    it('should ship for free from the free_over threshold', () => {
+      const method = createMockMethod({ free_over: 50 });
+
+      expect(service.quote(method, parcel, converter).cost).toBe(0);
+      expect(service.quote(method, { ...parcel, subtotal: 49.99 }, converter).cost).toBe(4.99);
+    });
+
+    it('should convert the cost to the converter currency', () => {
+      const euros = new CurrencyConverter('EUR', 'USD', new Map([['EUR', 0.9]]));
+
+      expect(service.quote(createMockMethod(), parcel, euros).cost).toBe(4.49);
+    });
+
+    it('should explain why a method cannot ship the parcel', () => {
+      const tooHeavy = service.quote(createMockMethod(), { ...parcel, weight: 12 }, converter);
+      expect(tooHeavy).toEqual(
+        expect.objectContaining({
+          available: false,
+          cost: 0,
+          message: 'No rate for a cart weighing 12 kg',
+        }),
+      );
+
+      const tooLong = service.quote(
+        createMockMethod({ rate_type: ShippingRateType.FLAT, flat_rate: 5, max_dimension: 20 }),
+        parcel,
+        converter,
+      );
+      expect(tooLong.message).toBe('An item is longer than 20 cm');
+
+      const overLimit = service.quote(createMockMethod({ max_weight: 1 }), parcel, converter);
+      expect(overLimit.message).toBe('Cart weighs more than 1 kg');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  ShippingMethod,
+  ShippingParcel,
+  ShippingRateType,
+} from './entities/shipping-method.entity';
+import { CreateShippingMethodDto } from './dto/create-shipping-method.dto';
+import { UpdateShippingMethodDto } from './dto/update-shipping-method.dto';
+import { ShippingOptionDto } from './dto/shipping-option.dto';
+import { CurrencyConverter } from '../currencies/currency-converter';
+
+@Injectable()
+export class ShippingService {
+  constructor(
+    @InjectRepository(ShippingMethod)
+    private readonly shippingMethodRepository: Repository<ShippingMethod>,
+  ) {}
+
+  async create(createShippingMethodDto: CreateShippingMethodDto): Promise<ShippingMethod> {
+    const method = this.shippingMethodRepository.create(createShippingMethodDto);
+    this.assertValidRates(method);
+
+    return await this.shippingMethodRepository.save(method);
+  }
+
+  async findAll(): Promise<ShippingMethod[]> {
+    return await this.shippingMethodRepository.find({ order: { created_at: 'ASC' } });
+  }
+
+  async findActive(): Promise<ShippingMethod[]> {
+    return await this.shippingMethodRepository.find({
+      where: { is_active: true },
+      order: { created_at: 'ASC' },
+    });
+  }
+
+  async findOne(id: string): Promise<ShippingMethod> {
+    const method = await this.shippingMethodRepository.findOne({ where: { id } });
+    if (!method) {
+      throw new NotFoundException(`Shipping method with ID ${id} not found`);
+    }
+    return method;
+  }
+
+  async update(
+    id: string,
+    updateShippingMethodDto: UpdateShippingMethodDto,
+  ): Promise<ShippingMethod> {
+    const method = await this.findOne(id);
+    Object.assign(method, updateShippingMethodDto);
+    this.assertValidRates(method);
+
+    return await this.shippingMethodRepository.save(method);
+  }
+
+  async remove(id: string): Promise<void> {
+    const method = await this.findOne(id);
+    await this.shippingMethodRepository.remove(method);
+  }
+
+  /**
+   * Prices the method for a parcel in the converter's currency
+   */
+  quote(
+    method: ShippingMethod,
+    parcel: ShippingParcel,
+    converter: CurrencyConverter,
+  ): ShippingOptionDto {
+    const reason = method.getUnavailabilityReason(parcel);
+
+    return {
+      id: method.id,
+      name: method.name,
+      description: method.description,
+      rate_type: method.rate_type,
+      cost: reason ? 0 : converter.convert(method.calculateCost(parcel), converter.baseCurrency),
+      available: !reason,
+      ...(reason && { message: reason }),
+    };
+  }
+
+  private assertValidRates(method: ShippingMethod): void {
+    if (method.rate_type === ShippingRateType.FLAT && method.flat_rate == null) {
+      throw new BadRequestException('Flat-rate shipping methods need a flat_rate');
+    }
+    if (method.rate_type === ShippingRateType.WEIGHT && !method.weight_bands?.length) {
+      throw new BadRequestException('Weight-based shipping methods need at least one weight band');
+    }
+
+    const weights = (method.weight_bands ?? []).map((band) => band.max_weight);
+    if (new Set(weights).size !== weights.length) {
+      throw new BadRequestException('Weight bands must have distinct max_weight values');
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import { IsEmail, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class NotifyMeDto {
+  @ApiProperty({ description: 'Email to notify once the product is back in stock' })
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+}
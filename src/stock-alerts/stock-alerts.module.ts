@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { StockAlertsService } from './stock-alerts.service';
+import { BackInStockSubscription } from './entities/back-in-stock-subscription.entity';
+import { Product } from '../products/entities/product.entity';
+import { MailModule } from '../mail/mail.module';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([BackInStockSubscription, Product]), MailModule, UsersModule],
+  providers: [StockAlertsService],
+  exports: [StockAlertsService],
+})
+export class StockAlertsModule {}
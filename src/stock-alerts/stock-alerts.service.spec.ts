@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { StockAlertsService } from './stock-alerts.service';
+import { BackInStockSubscription } from './entities/back-in-stock-subscription.entity';
+import { Product } from '../products/entities/product.entity';
+import { MailService } from '../mail/mail.service';
+import { UsersService } from '../users/users.service';
+import { Role, User } from '../users/entities/user.entity';
+
+describe('StockAlertsService', () => {
+  let service: StockAlertsService;
+
+  const createMockProduct = (overrides: Partial<Product> = {}): Product =>
+    Object.assign(new Product(), {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'Test Product',
+      stock_quantity: 0,
+      reorder_threshold: null,
+      ...overrides,
+    });
+
+  const createMockSubscription = (email: string): BackInStockSubscription =>
+    Object.assign(new BackInStockSubscription(), {
+      id: `sub-${email}`,
+      product_id: '123e4567-e89b-12d3-a456-426614174000',
+      email,
+    });
+
+  const mockSubscriptionRepository = {
+    create: jest.fn((data) => Object.assign(new BackInStockSubscription(), data)),
+    save: jest.fn(async (subscription) => subscription),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockMailService = {
+    sendLowStockAlert: jest.fn(),
+    sendBackInStock: jest.fn(),
+  };
+
+  const mockUsersService = {
+    findByRole: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockAlertsService,
+        {
+          provide: getRepositoryToken(BackInStockSubscription),
+          useValue: mockSubscriptionRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: MailService,
+          useValue: mockMailService,
+        },
+        {
+          provide: UsersService,
+          useValue: mockUsersService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<StockAlertsService>(StockAlertsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('subscribe', () => {
+    it('should store a lower-cased subscription for an out-of-stock product', async () => {
+      mockProductRepository.findOne.mockResolvedValue(createMockProduct());
+      mockSubscriptionRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.subscribe(
+        '123e4567-e89b-12d3-a456-426614174000',
+        ' Ada@Example.com ',
+      );
+
+      expect(result.email).toBe('ada@example.com');
+      expect(mockSubscriptionRepository.save).toHaveBeenCalled();
+    });
+
+    it('should return the existing subscription when subscribing twice', async () => {
+      const existing = createMockSubscription('ada@example.com');
+      mockProductRepository.findOne.mockResolvedValue(createMockProduct());
+      mockSubscriptionRepository.findOne.mockResolvedValue(existing);
+
+      const result = await service.subscribe(existing.product_id, 'ada@example.com');
+
+      expect(result).toBe(existing);
+      expect(mockSubscriptionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject products that are in stock', async () => {
+      mockProductRepository.findOne.mockResolvedValue(createMockProduct({ stock_quantity: 3 }));
+
+      await expect(
+        service.subscribe('123e4567-e89b-12d3-a456-426614174000', 'ada@example.com'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException for an unknown product', async () => {
+      mockProductRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.subscribe('999e4567-e89b-12d3-a456-426614174999', 'ada@example.com'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('onStockChanged', () => {
+    const admin = Object.assign(new User(), { email: 'admin@example.com', role: Role.ADMIN });
+
+    it('should alert admins when stock drops below the reorder threshold', async () => {
+      const product = createMockProduct({ stock_quantity: 4, reorder_threshold: 5 });
+      mockUsersService.findByRole.mockResolvedValue([admin]);
+
+      await service.onStockChanged(product, 6);
+
+      expect(mockUsersService.findByRole).toHaveBeenCalledWith(Role.ADMIN);
+      expect(mockMailService.sendLowStockAlert).toHaveBeenCalledWith(
+        [product],
+        ['admin@example.com'],
+      );
+    });
+
+    it('should not alert again while stock stays below the threshold', async () => {
+      await service.onStockChanged(
+        createMockProduct({ stock_quantity: 2, reorder_threshold: 5 }),
+        4,
+      );
+
+      expect(mockMailService.sendLowStockAlert).not.toHaveBeenCalled();
+    });
+
+    it('should not alert products without a reorder threshold', async () => {
+      await service.onStockChanged(
+        createMockProduct({ stock_quantity: 0, reorder_threshold: 0 }),
+        10,
+      );
+
+      expect(mockMailService.sendLowStockAlert).not.toHaveBeenCalled();
+    });
+
+    it('should notify and drop subscriptions when stock comes back from zero', async () => {
+      const product = createMockProduct({ stock_quantity: 5 });
+      const subscriptions = [
+        createMockSubscription('ada@example.com'),
+        createMockSubscription('bob@example.com'),
+      ];
+      mockSubscriptionRepository.find.mockResolvedValue(subscriptions);
+
+      await service.onStockChanged(product, 0);
+
+      expect(mockMailService.sendBackInStock).toHaveBeenCalledWith(product, 'ada@example.com');
+      expect(mockMailService.sendBackInStock).toHaveBeenCalledWith(product, 'bob@example.com');
+      expect(mockSubscriptionRepository.remove).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not notify subscribers on a restock of a product still in stock', async () => {
+      await service.onStockChanged(createMockProduct({ stock_quantity: 8 }), 2);
+
+      expect(mockSubscriptionRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('should log rather than throw when an alert cannot be queued', async () => {
+      mockSubscriptionRepository.find.mockRejectedValue(new Error('database is locked'));
+
+      await expect(
+        service.onStockChanged(createMockProduct({ stock_quantity: 1 }), 0),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BackInStockSubscription } from './entities/back-in-stock-subscription.entity';
+import { Product } from '../products/entities/product.entity';
+import { MailService } from '../mail/mail.service';
+import { UsersService } from '../users/users.service';
+import { Role } from '../users/entities/user.entity';
+
+@Injectable()
+export class StockAlertsService {
+  private readonly logger = new Logger(StockAlertsService.name);
+
+  constructor(
+    @InjectRepository(BackInStockSubscription)
+    private readonly subscriptionRepository: Repository<BackInStockSubscription>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    private readonly mailService: MailService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  /**
+   * Asks to be emailed once when an out-of-stock product is restocked; subscribing twice is a no-op
+   */
+  async subscribe(productId: string, email: string): Promise<BackInStockSubscription> {
+    const product = await this.productRepository.findOne({ where: { id: productId } });
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+    if (product.stock_quantity > 0) {
+      throw new BadRequestException(`${product.name} is in stock`);
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const existing = await this.subscriptionRepository.findOne({
+      where: { product_id: productId, email: normalizedEmail },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    return await this.subscriptionRepository.save(
+      this.subscriptionRepository.create({ product_id: productId, email: normalizedEmail }),
+    );
+  }
+
+  /**
+   * Reacts to a committed stock change: alerts admins when stock falls below the product's
+   * reorder threshold and notifies back-in-stock subscribers when it comes back from zero.
+   * Failures are logged rather than thrown, the stock change itself has already happened.
+   */
+  async onStockChanged(product: Product, previousQuantity: number): Promise<void> {
+    try {
+      if (this.crossedReorderThreshold(product, previousQuantity)) {
+        await this.sendLowStockAlert(product);
+      }
+      if (previousQuantity <= 0 && product.stock_quantity > 0) {
+        await this.notifySubscribers(product);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to send stock alerts for product ${product.id}:`, error);
+    }
+  }
+
+  private crossedReorderThreshold(product: Product, previousQuantity: number): boolean {
+    const threshold = product.reorder_threshold;
+    // Only the drop across the threshold alerts, not every sale below it
+    return threshold > 0 && previousQuantity >= threshold && product.stock_quantity < threshold;
+  }
+
+  private async sendLowStockAlert(product: Product): Promise<void> {
+    this.logger.warn(
+      `Low stock: ${product.name} (${product.id}) has ${product.stock_quantity} left, reorder threshold ${product.reorder_threshold}`,
+    );
+
+    const admins = await this.usersService.findByRole(Role.ADMIN);
+    if (admins.length === 0) {
+      return;
+    }
+    await this.mailService.sendLowStockAlert(
+      [product],
+      admins.map((admin) => admin.email),
+    );
+  }
+
+  private async notifySubscribers(product: Product): Promise<void> {
+    const subscriptions = await this.subscriptionRepository.find({
+      where: { product_id: product.id },
+      order: { created_at: 'ASC' },
+    });
+
+    for (const subscription of subscriptions) {
+      await this.mailService.sendBackInStock(product, subscription.email);
+      // Notified once, a later restock needs a new subscription
+      await this.subscriptionRepository.remove(subscription);
+    }
+  }
+}
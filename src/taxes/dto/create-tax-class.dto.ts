@@ -0,0 +1,20 @@
+import { IsString, IsNotEmpty, MaxLength, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export class CreateTaxClassDto {
+  @ApiProperty({ description: 'Tax class code (case-insensitive)', example: 'standard' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toLowerCase() : value))
+  @IsString()
+  @MaxLength(50)
+  @Matches(/^[a-z0-9_-]+$/, {
+    message: 'code may only contain letters, digits, dashes and underscores',
+  })
+  code: string;
+
+  @ApiProperty({ description: 'Tax class name', example: 'Standard rate' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+}
@@ -0,0 +1,46 @@
+import {
+  IsString,
+  IsNumber,
+  IsBoolean,
+  IsOptional,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type, Transform } from 'class-transformer';
+import { normalizePostcode, normalizeRegion, REGION_PATTERN } from './tax-destination.dto';
+
+export class CreateTaxRateDto {
+  @ApiProperty({ description: 'ISO 3166 country or subdivision code', example: 'US-CA' })
+  @Transform(({ value }) => normalizeRegion(value))
+  @IsString()
+  @Matches(REGION_PATTERN, { message: 'region must be an ISO 3166 code such as DE or US-CA' })
+  region: string;
+
+  @ApiPropertyOptional({
+    description: 'Only apply to destinations whose postcode starts with this prefix',
+    example: '941',
+  })
+  @IsOptional()
+  @Transform(({ value }) => normalizePostcode(value))
+  @IsString()
+  @MaxLength(20)
+  postcode_prefix?: string;
+
+  @ApiProperty({ description: 'Tax rate percentage', example: 8.25, minimum: 0, maximum: 100 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0, { message: 'rate must be at least 0' })
+  @Max(100, { message: 'rate must not exceed 100' })
+  @Type(() => Number)
+  rate: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether product prices already include this tax',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  inclusive?: boolean;
+}
@@ -0,0 +1,35 @@
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export const REGION_PATTERN = /^[A-Z]{2}(-[A-Z0-9]{1,3})?$/;
+
+export function normalizeRegion(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim().toUpperCase() : value;
+}
+
+export function normalizePostcode(value: unknown): unknown {
+  return typeof value === 'string' ? value.replace(/\s+/g, '').toUpperCase() : value;
+}
+
+/**
+ * Where the order ships to, used to pick the tax rates
+ */
+export class TaxDestinationDto {
+  @ApiPropertyOptional({
+    description: 'Destination ISO 3166 country or subdivision code',
+    example: 'US-CA',
+  })
+  @IsOptional()
+  @Transform(({ value }) => normalizeRegion(value))
+  @IsString()
+  @Matches(REGION_PATTERN, { message: 'region must be an ISO 3166 code such as DE or US-CA' })
+  region?: string;
+
+  @ApiPropertyOptional({ description: 'Destination postcode', example: '94107' })
+  @IsOptional()
+  @Transform(({ value }) => normalizePostcode(value))
+  @IsString()
+  @MaxLength(20)
+  postcode?: string;
+}
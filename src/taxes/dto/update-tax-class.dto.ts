@@ -0,0 +1,6 @@
+import { PartialType, OmitType } from '@nestjs/swagger';
+import { CreateTaxClassDto } from './create-tax-class.dto';
+
+export class UpdateTaxClassDto extends PartialType(
+  OmitType(CreateTaxClassDto, ['code'] as const),
+) {}
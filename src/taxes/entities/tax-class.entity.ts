@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { TaxRate } from './tax-rate.entity';
+
+/**
+ * Group of products taxed alike, e.g. standard, reduced or zero-rated goods
+ */
+@Entity('tax_classes')
+export class TaxClass {
+  @ApiProperty({ description: 'Tax class code', example: 'standard' })
+  @PrimaryColumn({ type: 'varchar', length: 50 })
+  code: string;
+
+  @ApiProperty({ description: 'Tax class name', example: 'Standard rate' })
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ApiProperty({ description: 'Rates per jurisdiction', type: () => [TaxRate] })
+  @OneToMany(() => TaxRate, (rate) => rate.taxClass, { eager: true })
+  rates: TaxRate[];
+}
@@ -0,0 +1,59 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { TaxClass } from './tax-class.entity';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+
+/**
+ * Rate a tax class is charged at in one jurisdiction.
+ * A jurisdiction is a region (country or subdivision), optionally narrowed to postcodes with a prefix.
+ */
+@Entity('tax_rates')
+export class TaxRate {
+  @ApiProperty({ description: 'Tax rate ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Tax class code' })
+  @Column({ type: 'varchar', length: 50 })
+  tax_class: string;
+
+  @ApiProperty({ description: 'ISO 3166 country or subdivision code', example: 'US-CA' })
+  @Column({ type: 'varchar', length: 10 })
+  region: string;
+
+  @ApiProperty({
+    description: 'Only destinations whose postcode starts with this prefix',
+    required: false,
+    example: '941',
+  })
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  postcode_prefix?: string;
+
+  @ApiProperty({ description: 'Tax rate percentage', example: 8.25 })
+  @Column({ type: 'decimal', precision: 5, scale: 2, transformer: decimalTransformer })
+  rate: number;
+
+  @ApiProperty({ description: 'Whether product prices already include this tax' })
+  @Column({ type: 'boolean', default: false })
+  inclusive: boolean;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => TaxClass, (taxClass) => taxClass.rates, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tax_class' })
+  taxClass: TaxClass;
+}
@@ -0,0 +1,71 @@
+import { TaxCalculator } from './tax-calculator';
+import { TaxRate } from './entities/tax-rate.entity';
+
+describe('TaxCalculator', () => {
+  const rates = [
+    { tax_class: 'standard', region: 'US', rate: 5, inclusive: false },
+    { tax_class: 'standard', region: 'US-CA', rate: 7.25, inclusive: false },
+    { tax_class: 'standard', region: 'US-CA', postcode_prefix: '941', rate: 8.5, inclusive: false },
+    { tax_class: 'standard', region: 'DE', postcode_prefix: '941', rate: 7, inclusive: true },
+    { tax_class: 'standard', region: 'GB', rate: 20, inclusive: true },
+    { tax_class: 'reduced', region: 'GB', rate: 5, inclusive: true },
+  ].map((rate) => Object.assign(new TaxRate(), rate));
+
+  it('should pick the rate for the destination region and tax class', () => {
+    const calculator = new TaxCalculator({ region: 'GB' }, rates);
+
+    expect(calculator.findRate('standard').rate).toBe(20);
+    expect(calculator.findRate('reduced').rate).toBe(5);
+  });
+
+  it('should prefer the most specific matching rate', () => {
+    expect(new TaxCalculator({ region: 'US-NY' }, rates).findRate('standard').rate).toBe(5);
+    expect(new TaxCalculator({ region: 'US-CA' }, rates).findRate('standard').rate).toBe(7.25);
+    expect(
+      new TaxCalculator({ region: 'US-CA', postcode: '94107' }, rates).findRate('standard').rate,
+    ).toBe(8.5);
+  });
+
+  it('should only match a postcode prefix within the destination region', () => {
+    expect(
+      new TaxCalculator({ region: 'US-CA', postcode: '94107' }, rates).findRate('standard').rate,
+    ).toBe(8.5);
+    expect(
+      new TaxCalculator({ region: 'DE', postcode: '94107' }, rates).findRate('standard').rate,
+    ).toBe(7);
+    expect(
+      new TaxCalculator({ region: 'GB', postcode: '94107' }, rates).findRate('standard').rate,
+    ).toBe(20);
+  });
+
+  it('should not match any rate from a postcode alone', () => {
+    expect(new TaxCalculator({ postcode: '94107' }, rates).findRate('standard')).toBeUndefined();
+  });
+
+  it('should not match rates of another region or an unknown class', () => {
+    const calculator = new TaxCalculator({ region: 'DE' }, rates);
+
+    expect(calculator.findRate('standard')).toBeUndefined();
+    expect(new TaxCalculator({ region: 'GB' }, rates).findRate('luxury')).toBeUndefined();
+    expect(new TaxCalculator({ region: 'GB' }, rates).findRate(null)).toBeUndefined();
+  });
+
+  it('should calculate exclusive and inclusive tax in minor units of the currency', () => {
+    expect(
+      new TaxCalculator({ region: 'US-CA' }, rates).calculate('standard', 19.99, 'USD'),
+    ).toEqual({ taxRate: 7.25, taxAmount: 1.45, priceIncludesTax: false });
+    expect(new TaxCalculator({ region: 'GB' }, rates).calculate('standard', 1000, 'JPY')).toEqual({
+      taxRate: 20,
+      taxAmount: 167,
+      priceIncludesTax: true,
+    });
+  });
+
+  it('should not tax anything without a matching rate', () => {
+    expect(TaxCalculator.NONE.calculate('standard', 100, 'USD')).toEqual({
+      taxRate: 0,
+      taxAmount: 0,
+      priceIncludesTax: false,
+    });
+  });
+});
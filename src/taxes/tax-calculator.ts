@@ -0,0 +1,66 @@
+import { calculateTax, getCurrencyDecimals } from '../common/utils/arithmetic.utils';
+import { MoneyInput } from '../common/utils/money';
+import { TaxRate } from './entities/tax-rate.entity';
+import { TaxDestinationDto } from './dto/tax-destination.dto';
+
+export interface LineTax {
+  taxRate: number;
+  taxAmount: number;
+  priceIncludesTax: boolean;
+}
+
+/**
+ * Picks tax rates for one destination from a snapshot of the configured rates.
+ * A rate matches when its region is the destination region or a country containing it, and its
+ * postcode prefix (if any) starts the destination postcode. The most specific match wins.
+ * Postcodes only narrow down a region, so a destination without one matches nothing.
+ */
+export class TaxCalculator {
+  static readonly NONE = new TaxCalculator({}, []);
+
+  constructor(
+    readonly destination: TaxDestinationDto,
+    private readonly rates: TaxRate[],
+  ) {}
+
+  findRate(taxClass: string | null | undefined): TaxRate | undefined {
+    if (!taxClass) {
+      return undefined;
+    }
+
+    return this.rates
+      .filter((rate) => rate.tax_class === taxClass && this.matches(rate))
+      .sort(
+        (a, b) =>
+          (b.postcode_prefix?.length ?? 0) - (a.postcode_prefix?.length ?? 0) ||
+          b.region.length - a.region.length,
+      )[0];
+  }
+
+  /**
+   * Tax on an amount of a product in the given tax class, rounded to the currency's minor unit.
+   * Products without a tax class, or with no rate for the destination, are untaxed.
+   */
+  calculate(taxClass: string | null | undefined, amount: MoneyInput, currency: string): LineTax {
+    const rate = this.findRate(taxClass);
+    if (!rate) {
+      return { taxRate: 0, taxAmount: 0, priceIncludesTax: false };
+    }
+
+    return {
+      taxRate: rate.rate,
+      taxAmount: calculateTax(amount, rate.rate, rate.inclusive, getCurrencyDecimals(currency)),
+      priceIncludesTax: rate.inclusive,
+    };
+  }
+
+  private matches(rate: TaxRate): boolean {
+    const { region, postcode } = this.destination;
+
+    // The same postcode prefix can belong to different regions
+    if (!region || (region !== rate.region && !region.startsWith(`${rate.region}-`))) {
+      return false;
+    }
+    return !rate.postcode_prefix || !!postcode?.startsWith(rate.postcode_prefix);
+  }
+}
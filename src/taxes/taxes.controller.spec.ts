@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { TaxesController } from './taxes.controller';
+import { TaxesService } from './taxes.service';
+import { ROLES_KEY } from '../auth/guards/roles.guard';
+import { Role } from '../users/entities/user.entity';
+
+describe('TaxesController', () => {
+  let controller: TaxesController;
+  let service: TaxesService;
+
+  const mockRate = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    tax_class: 'standard',
+    region: 'DE',
+    rate: 19,
+    inclusive: true,
+  };
+
+  const mockTaxClass = { code: 'standard', name: 'Standard rate', rates: [mockRate] };
+
+  const mockTaxesService = {
+    createClass: jest.fn(),
+    findAllClasses: jest.fn(),
+    findClass: jest.fn(),
+    updateClass: jest.fn(),
+    removeClass: jest.fn(),
+    createRate: jest.fn(),
+    updateRate: jest.fn(),
+    removeRate: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TaxesController],
+      providers: [
+        {
+          provide: TaxesService,
+          useValue: mockTaxesService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    controller = module.get<TaxesController>(TaxesController);
+    service = module.get<TaxesService>(TaxesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('access control', () => {
+    const rolesOf = (handler: (...args: any[]) => unknown) =>
+      Reflect.getMetadata(ROLES_KEY, handler);
+
+    it('should restrict write routes to admins', () => {
+      const { createClass, updateClass, removeClass, createRate, updateRate, removeRate } =
+        TaxesController.prototype;
+
+      for (const handler of [
+        createClass,
+        updateClass,
+        removeClass,
+        createRate,
+        updateRate,
+        removeRate,
+      ]) {
+        expect(rolesOf(handler)).toEqual([Role.ADMIN]);
+      }
+    });
+
+    it('should leave read routes public', () => {
+      const { findAllClasses, findClass } = TaxesController.prototype;
+
+      expect(rolesOf(findAllClasses)).toBeUndefined();
+      expect(rolesOf(findClass)).toBeUndefined();
+    });
+  });
+
+  describe('createClass', () => {
+    it('should create a tax class', async () => {
+      mockTaxesService.createClass.mockResolvedValue(mockTaxClass);
+
+      const result = await controller.createClass({ code: 'standard', name: 'Standard rate' });
+
+      expect(service.createClass).toHaveBeenCalledWith({ code: 'standard', name: 'Standard rate' });
+      expect(result).toEqual(mockTaxClass);
+    });
+  });
+
+  describe('findAllClasses', () => {
+    it('should return the tax classes', async () => {
+      mockTaxesService.findAllClasses.mockResolvedValue([mockTaxClass]);
+
+      expect(await controller.findAllClasses()).toEqual([mockTaxClass]);
+    });
+  });
+
+  describe('createRate', () => {
+    it('should add a rate to the class', async () => {
+      mockTaxesService.createRate.mockResolvedValue(mockRate);
+
+      const result = await controller.createRate('standard', { region: 'DE', rate: 19 });
+
+      expect(service.createRate).toHaveBeenCalledWith('standard', { region: 'DE', rate: 19 });
+      expect(result).toEqual(mockRate);
+    });
+  });
+
+  describe('removeRate', () => {
+    it('should delete the rate', async () => {
+      await controller.removeRate('standard', mockRate.id);
+
+      expect(service.removeRate).toHaveBeenCalledWith('standard', mockRate.id);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { TaxesService } from './taxes.service';
+import { CreateTaxClassDto } from './dto/create-tax-class.dto';
+import { UpdateTaxClassDto } from './dto/update-tax-class.dto';
+import { CreateTaxRateDto } from './dto/create-tax-rate.dto';
+import { UpdateTaxRateDto } from './dto/update-tax-rate.dto';
+import { TaxClass } from './entities/tax-class.entity';
+import { TaxRate } from './entities/tax-rate.entity';
+import { ParseUUIDPipe } from '../common/pipes/parse-uuid.pipe';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../users/entities/user.entity';
+
+@ApiTags('taxes')
+@Controller('tax-classes')
+export class TaxesController {
+  constructor(private readonly taxesService: TaxesService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Create a tax class' })
+  @ApiResponse({ status: 201, description: 'Tax class created successfully', type: TaxClass })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid data' })
+  @ApiResponse({ status: 409, description: 'A tax class with this code already exists' })
+  async createClass(@Body() createTaxClassDto: CreateTaxClassDto): Promise<TaxClass> {
+    return await this.taxesService.createClass(createTaxClassDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List all tax classes with their rates' })
+  @ApiResponse({ status: 200, description: 'Tax classes retrieved successfully', type: [TaxClass] })
+  async findAllClasses(): Promise<TaxClass[]> {
+    return await this.taxesService.findAllClasses();
+  }
+
+  @Get(':code')
+  @ApiOperation({ summary: 'Get a tax class with its rates' })
+  @ApiParam({ name: 'code', description: 'Tax class code' })
+  @ApiResponse({ status: 200, description: 'Tax class retrieved successfully', type: TaxClass })
+  @ApiResponse({ status: 404, description: 'Tax class not found' })
+  async findClass(@Param('code') code: string): Promise<TaxClass> {
+    return await this.taxesService.findClass(code);
+  }
+
+  @Put(':code')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Rename a tax class' })
+  @ApiParam({ name: 'code', description: 'Tax class code' })
+  @ApiResponse({ status: 200, description: 'Tax class updated successfully', type: TaxClass })
+  @ApiResponse({ status: 404, description: 'Tax class not found' })
+  async updateClass(
+    @Param('code') code: string,
+    @Body() updateTaxClassDto: UpdateTaxClassDto,
+  ): Promise<TaxClass> {
+    return await this.taxesService.updateClass(code, updateTaxClassDto);
+  }
+
+  @Delete(':code')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Delete a tax class and its rates' })
+  @ApiParam({ name: 'code', description: 'Tax class code' })
+  @ApiResponse({ status: 204, description: 'Tax class deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Tax class not found' })
+  @ApiResponse({ status: 409, description: 'Tax class is still assigned to products' })
+  async removeClass(@Param('code') code: string): Promise<void> {
+    return await this.taxesService.removeClass(code);
+  }
+
+  @Post(':code/rates')
+  @HttpCode(HttpStatus.CREATED)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Add a jurisdiction rate to a tax class' })
+  @ApiParam({ name: 'code', description: 'Tax class code' })
+  @ApiResponse({ status: 201, description: 'Tax rate created successfully', type: TaxRate })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid rate data' })
+  @ApiResponse({ status: 404, description: 'Tax class not found' })
+  @ApiResponse({ status: 409, description: 'A rate for this jurisdiction already exists' })
+  async createRate(
+    @Param('code') code: string,
+    @Body() createTaxRateDto: CreateTaxRateDto,
+  ): Promise<TaxRate> {
+    return await this.taxesService.createRate(code, createTaxRateDto);
+  }
+
+  @Put(':code/rates/:id')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Update a jurisdiction rate' })
+  @ApiParam({ name: 'code', description: 'Tax class code' })
+  @ApiParam({ name: 'id', description: 'Tax rate ID' })
+  @ApiResponse({ status: 200, description: 'Tax rate updated successfully', type: TaxRate })
+  @ApiResponse({ status: 404, description: 'Tax rate not found' })
+  @ApiResponse({ status: 409, description: 'A rate for this jurisdiction already exists' })
+  async updateRate(
+    @Param('code') code: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateTaxRateDto: UpdateTaxRateDto,
+  ): Promise<TaxRate> {
+    return await this.taxesService.updateRate(code, id, updateTaxRateDto);
+  }
+
+  @Delete(':code/rates/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Delete a jurisdiction rate' })
+  @ApiParam({ name: 'code', description: 'Tax class code' })
+  @ApiParam({ name: 'id', description: 'Tax rate ID' })
+  @ApiResponse({ status: 204, description: 'Tax rate deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Tax rate not found' })
+  async removeRate(
+    @Param('code') code: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    return await this.taxesService.removeRate(code, id);
+  }
+}
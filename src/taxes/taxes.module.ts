@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TaxesService } from './taxes.service';
+import { TaxesController } from './taxes.controller';
+import { TaxClass } from './entities/tax-class.entity';
+import { TaxRate } from './entities/tax-rate.entity';
+import { Product } from '../products/entities/product.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([TaxClass, TaxRate, Product])],
+  controllers: [TaxesController],
+  providers: [TaxesService],
+  exports: [TaxesService],
+})
+export class TaxesModule {}
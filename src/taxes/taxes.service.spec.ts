@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { TaxesService } from './taxes.service';
+import { TaxClass } from './entities/tax-class.entity';
+import { TaxRate } from './entities/tax-rate.entity';
+import { Product } from '../products/entities/product.entity';
+import { TaxCalculator } from './tax-calculator';
+
+describe('TaxesService', () => {
+  let service: TaxesService;
+
+  const createMockClass = (overrides: Partial<TaxClass> = {}): TaxClass =>
+    Object.assign(new TaxClass(), {
+      code: 'standard',
+      name: 'Standard rate',
+      rates: [],
+      ...overrides,
+    });
+
+  const createMockRate = (overrides: Partial<TaxRate> = {}): TaxRate =>
+    Object.assign(new TaxRate(), {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      tax_class: 'standard',
+      region: 'DE',
+      postcode_prefix: null,
+      rate: 19,
+      inclusive: true,
+      ...overrides,
+    });
+
+  const mockTaxClassRepository = {
+    create: jest.fn((data) => Object.assign(new TaxClass(), data)),
+    save: jest.fn(async (taxClass) => taxClass),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    count: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockTaxRateRepository = {
+    create: jest.fn((data) => Object.assign(new TaxRate(), data)),
+    save: jest.fn(async (rate) => rate),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    count: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaxesService,
+        {
+          provide: getRepositoryToken(TaxClass),
+          useValue: mockTaxClassRepository,
+        },
+        {
+          provide: getRepositoryToken(TaxRate),
+          useValue: mockTaxRateRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TaxesService>(TaxesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createClass', () => {
+    it('should create a tax class', async () => {
+      mockTaxClassRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.createClass({ code: 'standard', name: 'Standard rate' });
+
+      expect(mockTaxClassRepository.save).toHaveBeenCalled();
+      expect(result.code).toBe('standard');
+      expect(result.rates).toEqual([]);
+    });
+
+    it('should reject duplicate codes', async () => {
+      mockTaxClassRepository.findOne.mockResolvedValue(createMockClass());
+
+      await expect(
+        service.createClass({ code: 'standard', name: 'Standard rate' }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('findClass', () => {
+    it('should throw NotFoundException for unknown codes', async () => {
+      mockTaxClassRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findClass('luxury')).rejects.toThrow('Tax class luxury not found');
+    });
+  });
+
+  describe('removeClass', () => {
+    it('should delete the class and its rates', async () => {
+      const taxClass = createMockClass();
+      mockTaxClassRepository.findOne.mockResolvedValue(taxClass);
+      mockProductRepository.count.mockResolvedValue(0);
+
+      await service.removeClass('standard');
+
+      expect(mockTaxRateRepository.delete).toHaveBeenCalledWith({ tax_class: 'standard' });
+      expect(mockTaxClassRepository.remove).toHaveBeenCalledWith(taxClass);
+    });
+
+    it('should refuse to delete a class assigned to products', async () => {
+      mockTaxClassRepository.findOne.mockResolvedValue(createMockClass());
+      mockProductRepository.count.mockResolvedValue(3);
+
+      await expect(service.removeClass('standard')).rejects.toThrow(
+        'Tax class standard is assigned to 3 product(s)',
+      );
+      expect(mockTaxClassRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createRate', () => {
+    it('should add a rate to the class', async () => {
+      mockTaxClassRepository.findOne.mockResolvedValue(createMockClass());
+      mockTaxRateRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.createRate('standard', {
+        region: 'US-CA',
+        postcode_prefix: '941',
+        rate: 8.5,
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          tax_class: 'standard',
+          region: 'US-CA',
+          postcode_prefix: '941',
+          rate: 8.5,
+        }),
+      );
+    });
+
+    it('should reject a second rate for the same jurisdiction', async () => {
+      mockTaxClassRepository.findOne.mockResolvedValue(createMockClass());
+      mockTaxRateRepository.findOne.mockResolvedValue(createMockRate());
+
+      await expect(service.createRate('standard', { region: 'DE', rate: 7 })).rejects.toThrow(
+        'Tax class standard already has a rate for DE',
+      );
+      expect(mockTaxRateRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateRate', () => {
+    it('should update the rate', async () => {
+      const rate = createMockRate();
+      mockTaxRateRepository.findOne.mockResolvedValueOnce(rate).mockResolvedValueOnce(rate);
+
+      const result = await service.updateRate('standard', rate.id, {
+        rate: 7,
+        postcode_prefix: '',
+      });
+
+      expect(result.rate).toBe(7);
+      expect(result.postcode_prefix).toBeNull();
+    });
+
+    it('should throw NotFoundException for rates of another class', async () => {
+      mockTaxRateRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.updateRate('reduced', '123e4567-e89b-12d3-a456-426614174000', { rate: 7 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getCalculator', () => {
+    it('should not load rates without a destination region', async () => {
+      expect(await service.getCalculator({})).toBe(TaxCalculator.NONE);
+      expect(await service.getCalculator({ postcode: '94107' })).toBe(TaxCalculator.NONE);
+      expect(mockTaxRateRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('should build a calculator for the destination', async () => {
+      mockTaxRateRepository.find.mockResolvedValue([createMockRate()]);
+
+      const calculator = await service.getCalculator({ region: 'DE' });
+
+      expect(calculator.findRate('standard').rate).toBe(19);
+    });
+  });
+
+  describe('assertClassExists', () => {
+    it('should reject unknown tax classes', async () => {
+      mockTaxClassRepository.count.mockResolvedValue(0);
+
+      await expect(service.assertClassExists('luxury')).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { TaxClass } from './entities/tax-class.entity';
+import { TaxRate } from './entities/tax-rate.entity';
+import { Product } from '../products/entities/product.entity';
+import { CreateTaxClassDto } from './dto/create-tax-class.dto';
+import { UpdateTaxClassDto } from './dto/update-tax-class.dto';
+import { CreateTaxRateDto } from './dto/create-tax-rate.dto';
+import { UpdateTaxRateDto } from './dto/update-tax-rate.dto';
+import { TaxDestinationDto } from './dto/tax-destination.dto';
+import { TaxCalculator } from './tax-calculator';
+
+@Injectable()
+export class TaxesService {
+  constructor(
+    @InjectRepository(TaxClass)
+    private readonly taxClassRepository: Repository<TaxClass>,
+    @InjectRepository(TaxRate)
+    private readonly taxRateRepository: Repository<TaxRate>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+  ) {}
+
+  async createClass(createTaxClassDto: CreateTaxClassDto): Promise<TaxClass> {
+    const existing = await this.taxClassRepository.findOne({
+      where: { code: createTaxClassDto.code },
+    });
+    if (existing) {
+      throw new ConflictException(`Tax class ${createTaxClassDto.code} already exists`);
+    }
+
+    const taxClass = this.taxClassRepository.create(createTaxClassDto);
+    const saved = await this.taxClassRepository.save(taxClass);
+    saved.rates = [];
+    return saved;
+  }
+
+  async findAllClasses(): Promise<TaxClass[]> {
+    return await this.taxClassRepository.find({ order: { code: 'ASC' } });
+  }
+
+  async findClass(code: string): Promise<TaxClass> {
+    const taxClass = await this.taxClassRepository.findOne({ where: { code } });
+    if (!taxClass) {
+      throw new NotFoundException(`Tax class ${code} not found`);
+    }
+    return taxClass;
+  }
+
+  async updateClass(code: string, updateTaxClassDto: UpdateTaxClassDto): Promise<TaxClass> {
+    const taxClass = await this.findClass(code);
+    Object.assign(taxClass, updateTaxClassDto);
+    return await this.taxClassRepository.save(taxClass);
+  }
+
+  async removeClass(code: string): Promise<void> {
+    const taxClass = await this.findClass(code);
+
+    const products = await this.productRepository.count({ where: { tax_class: code } });
+    if (products > 0) {
+      throw new ConflictException(`Tax class ${code} is assigned to ${products} product(s)`);
+    }
+
+    await this.taxRateRepository.delete({ tax_class: code });
+    await this.taxClassRepository.remove(taxClass);
+  }
+
+  async createRate(code: string, createTaxRateDto: CreateTaxRateDto): Promise<TaxRate> {
+    await this.findClass(code);
+
+    const rate = this.taxRateRepository.create({
+      ...createTaxRateDto,
+      tax_class: code,
+      postcode_prefix: createTaxRateDto.postcode_prefix || null,
+    });
+    await this.assertJurisdictionAvailable(rate);
+
+    return await this.taxRateRepository.save(rate);
+  }
+
+  async updateRate(code: string, id: string, updateTaxRateDto: UpdateTaxRateDto): Promise<TaxRate> {
+    const rate = await this.findRate(code, id);
+
+    const { postcode_prefix, ...rest } = updateTaxRateDto;
+    Object.assign(rate, rest);
+    if (postcode_prefix !== undefined) {
+      rate.postcode_prefix = postcode_prefix || null;
+    }
+    await this.assertJurisdictionAvailable(rate);
+
+    return await this.taxRateRepository.save(rate);
+  }
+
+  async removeRate(code: string, id: string): Promise<void> {
+    const rate = await this.findRate(code, id);
+    await this.taxRateRepository.remove(rate);
+  }
+
+  /**
+   * Returns a calculator for the destination; without a region nothing is taxed
+   */
+  async getCalculator(destination: TaxDestinationDto = {}): Promise<TaxCalculator> {
+    if (!destination.region) {
+      return TaxCalculator.NONE;
+    }
+
+    const rates = await this.taxRateRepository.find();
+    return new TaxCalculator(destination, rates);
+  }
+
+  async assertClassExists(code: string): Promise<void> {
+    const count = await this.taxClassRepository.count({ where: { code } });
+    if (count === 0) {
+      throw new BadRequestException(`Tax class ${code} does not exist`);
+    }
+  }
+
+  private async findRate(code: string, id: string): Promise<TaxRate> {
+    const rate = await this.taxRateRepository.findOne({ where: { id, tax_class: code } });
+    if (!rate) {
+      throw new NotFoundException(`Tax rate with ID ${id} not found in tax class ${code}`);
+    }
+    return rate;
+  }
+
+  private async assertJurisdictionAvailable(rate: TaxRate): Promise<void> {
+    const existing = await this.taxRateRepository.findOne({
+      where: {
+        tax_class: rate.tax_class,
+        region: rate.region,
+        postcode_prefix: rate.postcode_prefix ?? IsNull(),
+      },
+    });
+    if (existing && existing.id !== rate.id) {
+      const jurisdiction = rate.postcode_prefix
+        ? `${rate.region} postcodes ${rate.postcode_prefix}*`
+        : rate.region;
+      throw new ConflictException(
+        `Tax class ${rate.tax_class} already has a rate for ${jurisdiction}`,
+      );
+    }
+  }
+}
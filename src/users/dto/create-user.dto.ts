@@ -0,0 +1,21 @@
+import { IsEmail, IsEnum, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Role } from '../entities/user.entity';
+
+export class CreateUserDto {
+  @ApiProperty({ description: 'Login email', example: 'jane@example.com' })
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+
+  @ApiProperty({ description: 'Password, at least 8 characters' })
+  @IsString()
+  @MinLength(8)
+  @MaxLength(128)
+  password: string;
+
+  @ApiPropertyOptional({ description: 'Role', enum: Role, default: Role.CUSTOMER })
+  @IsOptional()
+  @IsEnum(Role)
+  role?: Role;
+}
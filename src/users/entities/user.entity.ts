@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum Role {
+  ADMIN = 'admin',
+  MERCHANDISER = 'merchandiser',
+  CUSTOMER = 'customer',
+}
+
+@Entity('users')
+export class User {
+  @ApiProperty({ description: 'User ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Login email (lower-cased)', example: 'jane@example.com' })
+  @Column({ type: 'varchar', length: 255, unique: true })
+  email: string;
+
+  /** scrypt hash of the password; never selected unless asked for explicitly */
+  @Column({ type: 'varchar', length: 255, nullable: true, select: false })
+  password_hash?: string;
+
+  @ApiProperty({
+    description: 'Google account ID, set once signed in with Google',
+    required: false,
+  })
+  @Column({ type: 'varchar', length: 255, nullable: true, unique: true })
+  google_id?: string;
+
+  @ApiProperty({ description: 'Role granting access to admin routes', enum: Role })
+  @Column({ type: 'varchar', length: 20, default: Role.CUSTOMER })
+  role: Role;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,66 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+import { Role } from './entities/user.entity';
+import { ROLES_KEY } from '../auth/guards/roles.guard';
+
+describe('UsersController', () => {
+  let controller: UsersController;
+  let service: UsersService;
+
+  const mockUser = { id: 'user-id', email: 'jane@example.com', role: Role.MERCHANDISER };
+
+  const mockUsersService = {
+    create: jest.fn(),
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [UsersController],
+      providers: [
+        {
+          provide: UsersService,
+          useValue: mockUsersService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    controller = module.get<UsersController>(UsersController);
+    service = module.get<UsersService>(UsersService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be restricted to admins', () => {
+    expect(Reflect.getMetadata(ROLES_KEY, UsersController)).toEqual([Role.ADMIN]);
+  });
+
+  describe('create', () => {
+    it('should create a user', async () => {
+      mockUsersService.create.mockResolvedValue(mockUser);
+
+      const dto = { email: 'jane@example.com', password: 'correct horse', role: Role.MERCHANDISER };
+      const result = await controller.create(dto);
+
+      expect(service.create).toHaveBeenCalledWith(dto);
+      expect(result).toEqual(mockUser);
+    });
+  });
+
+  describe('findAll', () => {
+    it('should return the users', async () => {
+      mockUsersService.findAll.mockResolvedValue([mockUser]);
+
+      expect(await controller.findAll()).toEqual([mockUser]);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { UsersService } from './users.service';
+import { Role, User } from './entities/user.entity';
+import { verifyPassword } from '../common/utils/password.utils';
+import config from '../common/config';
+
+describe('UsersService', () => {
+  let service: UsersService;
+
+  const mockQueryBuilder = {
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    getOne: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    create: jest.fn((data) => Object.assign(new User(), data)),
+    save: jest.fn(async (user) => ({ id: 'user-id', ...user })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsersService,
+        {
+          provide: getRepositoryToken(User),
+          useValue: mockUserRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<UsersService>(UsersService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store a password hash, never the password', async () => {
+      mockUserRepository.count.mockResolvedValue(0);
+
+      const result = await service.create({
+        email: 'Jane@Example.com',
+        password: 'correct horse',
+        role: Role.MERCHANDISER,
+      });
+
+      const saved = mockUserRepository.save.mock.calls[0][0];
+      expect(saved.email).toBe('jane@example.com');
+      expect(saved.role).toBe(Role.MERCHANDISER);
+      await expect(verifyPassword('correct horse', saved.password_hash)).resolves.toBe(true);
+      expect(result.password_hash).toBeUndefined();
+    });
+
+    it('should default to the customer role', async () => {
+      mockUserRepository.count.mockResolvedValue(0);
+
+      const result = await service.create({ email: 'jane@example.com', password: 'correct horse' });
+
+      expect(result.role).toBe(Role.CUSTOMER);
+    });
+
+    it('should reject an email already in use', async () => {
+      mockUserRepository.count.mockResolvedValue(1);
+
+      await expect(
+        service.create({ email: 'jane@example.com', password: 'correct horse' }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException when the user does not exist', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne('user-id')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findByRole', () => {
+    it('should list the users with a role, oldest first', async () => {
+      mockUserRepository.find.mockResolvedValue([]);
+
+      await service.findByRole(Role.ADMIN);
+
+      expect(mockUserRepository.find).toHaveBeenCalledWith({
+        where: { role: Role.ADMIN },
+        order: { created_at: 'ASC' },
+      });
+    });
+  });
+
+  describe('findByEmailWithPassword', () => {
+    it('should select the password hash for a lower-cased email', async () => {
+      await service.findByEmailWithPassword('Jane@Example.com');
+
+      expect(mockQueryBuilder.addSelect).toHaveBeenCalledWith('user.password_hash');
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith('user.email = :email', {
+        email: 'jane@example.com',
+      });
+    });
+  });
+
+  describe('updatePassword', () => {
+    it('should store the hash of the new password', async () => {
+      await service.updatePassword('user-id', 'battery staple');
+
+      const [id, { password_hash }] = mockUserRepository.update.mock.calls[0];
+      expect(id).toBe('user-id');
+      await expect(verifyPassword('battery staple', password_hash)).resolves.toBe(true);
+    });
+  });
+
+  describe('findOrCreateByGoogle', () => {
+    it('should return the user already linked to the Google account', async () => {
+      const linked = Object.assign(new User(), { id: 'user-id', google_id: 'google-sub' });
+      mockUserRepository.findOne.mockResolvedValueOnce(linked);
+
+      const result = await service.findOrCreateByGoogle('google-sub', 'jane@example.com');
+
+      expect(result).toBe(linked);
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should link the Google account to the user with the same email', async () => {
+      mockUserRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(
+          Object.assign(new User(), { id: 'user-id', email: 'jane@example.com', role: Role.ADMIN }),
+        );
+
+      const result = await service.findOrCreateByGoogle('google-sub', 'Jane@Example.com');
+
+      expect(mockUserRepository.findOne).toHaveBeenLastCalledWith({
+        where: { email: 'jane@example.com' },
+      });
+      expect(result).toEqual(
+        expect.objectContaining({ id: 'user-id', google_id: 'google-sub', role: Role.ADMIN }),
+      );
+    });
+
+    it('should create a customer without a password on first sign-in', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.findOrCreateByGoogle('google-sub', 'jane@example.com');
+
+      expect(result.role).toBe(Role.CUSTOMER);
+      expect(result.google_id).toBe('google-sub');
+      expect(result.password_hash).toBeUndefined();
+    });
+  });
+
+  describe('onModuleInit', () => {
+    const adminConfig = { ...config.admin };
+
+    afterEach(() => {
+      Object.assign(config.admin, adminConfig);
+    });
+
+    it('should create the configured admin when missing', async () => {
+      Object.assign(config.admin, { email: 'admin@example.com', password: 'change_me_too' });
+      mockUserRepository.count.mockResolvedValue(0);
+
+      await service.onModuleInit();
+
+      expect(mockUserRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'admin@example.com', role: Role.ADMIN }),
+      );
+    });
+
+    it('should leave an existing admin alone', async () => {
+      Object.assign(config.admin, { email: 'admin@example.com', password: 'change_me_too' });
+      mockUserRepository.count.mockResolvedValue(1);
+
+      await service.onModuleInit();
+
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing without admin credentials', async () => {
+      Object.assign(config.admin, { email: undefined, password: undefined });
+
+      await service.onModuleInit();
+
+      expect(mockUserRepository.count).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { Injectable, ConflictException, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Role, User } from './entities/user.entity';
+import { CreateUserDto } from './dto/create-user.dto';
+import { hashPassword } from '../common/utils/password.utils';
+import config from '../common/config';
+
+@Injectable()
+export class UsersService implements OnModuleInit {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  /**
+   * Creates the configured admin account so a fresh install can sign in
+   */
+  async onModuleInit() {
+    const { email, password } = config.admin;
+    if (!email || !password) {
+      return;
+    }
+
+    const existing = await this.userRepository.count({ where: { email: email.toLowerCase() } });
+    if (existing === 0) {
+      await this.create({ email, password, role: Role.ADMIN });
+    }
+  }
+
+  async create(createUserDto: CreateUserDto): Promise<User> {
+    const email = createUserDto.email.toLowerCase();
+    const existing = await this.userRepository.count({ where: { email } });
+    if (existing > 0) {
+      throw new ConflictException(`User with email ${email} already exists`);
+    }
+
+    const user = this.userRepository.create({
+      email,
+      password_hash: await hashPassword(createUserDto.password),
+      role: createUserDto.role ?? Role.CUSTOMER,
+    });
+    const saved = await this.userRepository.save(user);
+    delete saved.password_hash;
+
+    return saved;
+  }
+
+  async findAll(): Promise<User[]> {
+    return await this.userRepository.find({ order: { created_at: 'ASC' } });
+  }
+
+  async findByRole(role: Role): Promise<User[]> {
+    return await this.userRepository.find({ where: { role }, order: { created_at: 'ASC' } });
+  }
+
+  async findOne(id: string): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    return user;
+  }
+
+  async updatePassword(id: string, password: string): Promise<void> {
+    await this.userRepository.update(id, { password_hash: await hashPassword(password) });
+  }
+
+  /**
+   * Finds the user signed in with a Google account, linking the account to the user with the
+   * same email or creating a customer on first sign-in
+   */
+  async findOrCreateByGoogle(googleId: string, email: string): Promise<User> {
+    const linked = await this.userRepository.findOne({ where: { google_id: googleId } });
+    if (linked) {
+      return linked;
+    }
+
+    const normalizedEmail = email.toLowerCase();
+    const existing = await this.userRepository.findOne({ where: { email: normalizedEmail } });
+    if (existing) {
+      existing.google_id = googleId;
+      return await this.userRepository.save(existing);
+    }
+
+    const user = this.userRepository.create({
+      email: normalizedEmail,
+      google_id: googleId,
+      role: Role.CUSTOMER,
+    });
+    return await this.userRepository.save(user);
+  }
+
+  /**
+   * Looks a user up by email with the password hash, which is otherwise never selected
+   */
+  async findByEmailWithPassword(email: string): Promise<User | null> {
+    return await this.userRepository
+      .createQueryBuilder('user')
+      .addSelect('user.password_hash')
+      .where('user.email = :email', { email: email.toLowerCase() })
+      .getOne();
+  }
+}
@@ -0,0 +1,35 @@
+import { IsString, IsNotEmpty, IsInt, IsOptional, Matches, MaxLength, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { REGION_PATTERN, normalizeRegion } from '../../taxes/dto/tax-destination.dto';
+
+export class CreateWarehouseDto {
+  @ApiProperty({ description: 'Short unique code (case-insensitive)', example: 'LON' })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string;
+
+  @ApiProperty({ description: 'Warehouse name', example: 'London fulfilment centre' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    description: 'ISO 3166 country or subdivision code the warehouse ships from',
+    example: 'GB-LND',
+  })
+  @Transform(({ value }) => normalizeRegion(value))
+  @IsString()
+  @Matches(REGION_PATTERN, { message: 'region must be an ISO 3166 code such as DE or US-CA' })
+  region: string;
+
+  @ApiPropertyOptional({ description: 'Allocation priority, lower ships first', example: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  priority?: number;
+}
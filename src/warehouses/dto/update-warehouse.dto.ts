@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateWarehouseDto } from './create-warehouse.dto';
+
+export class UpdateWarehouseDto extends PartialType(CreateWarehouseDto) {}
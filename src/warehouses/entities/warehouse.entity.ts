@@ -0,0 +1,42 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+@Entity('warehouses')
+export class Warehouse {
+  @ApiProperty({ description: 'Warehouse ID' })
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ApiProperty({ description: 'Short unique code, stored upper-case', example: 'LON' })
+  @Column({ type: 'varchar', length: 20, unique: true })
+  code: string;
+
+  @ApiProperty({ description: 'Warehouse name', example: 'London fulfilment centre' })
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @ApiProperty({
+    description: 'ISO 3166 country or subdivision code the warehouse ships from',
+    example: 'GB-LND',
+  })
+  @Column({ type: 'varchar', length: 10 })
+  region: string;
+
+  @ApiProperty({ description: 'Allocation priority, lower ships first', example: 0 })
+  @Column({ type: 'integer', default: 0 })
+  priority: number;
+
+  @ApiProperty({ description: 'Creation date' })
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ApiProperty({ description: 'Last update date' })
+  @UpdateDateColumn()
+  updated_at: Date;
+}
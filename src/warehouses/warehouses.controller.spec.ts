@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { WarehousesController } from './warehouses.controller';
+import { WarehousesService } from './warehouses.service';
+import { ROLES_KEY } from '../auth/guards/roles.guard';
+import { Role } from '../users/entities/user.entity';
+
+describe('WarehousesController', () => {
+  let controller: WarehousesController;
+  let service: WarehousesService;
+
+  const mockWarehouse = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    code: 'EAST',
+    name: 'East Coast DC',
+    region: 'US-NY',
+    priority: 1,
+  };
+
+  const mockWarehousesService = {
+    create: jest.fn(),
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [WarehousesController],
+      providers: [
+        {
+          provide: WarehousesService,
+          useValue: mockWarehousesService,
+        },
+        {
+          provide: JwtService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    controller = module.get<WarehousesController>(WarehousesController);
+    service = module.get<WarehousesService>(WarehousesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('access control', () => {
+    const rolesOf = (handler: (...args: any[]) => unknown) =>
+      Reflect.getMetadata(ROLES_KEY, handler);
+
+    it('should restrict write routes to admins', () => {
+      const { create, update, remove } = WarehousesController.prototype;
+
+      for (const handler of [create, update, remove]) {
+        expect(rolesOf(handler)).toEqual([Role.ADMIN]);
+      }
+    });
+
+    it('should leave read routes public', () => {
+      const { findAll, findOne } = WarehousesController.prototype;
+
+      expect(rolesOf(findAll)).toBeUndefined();
+      expect(rolesOf(findOne)).toBeUndefined();
+    });
+  });
+
+  describe('create', () => {
+    it('should create a warehouse', async () => {
+      const dto = { code: 'EAST', name: 'East Coast DC', region: 'US-NY', priority: 1 };
+      mockWarehousesService.create.mockResolvedValue(mockWarehouse);
+
+      const result = await controller.create(dto);
+
+      expect(service.create).toHaveBeenCalledWith(dto);
+      expect(result).toEqual(mockWarehouse);
+    });
+  });
+
+  describe('findAll', () => {
+    it('should return the warehouses', async () => {
+      mockWarehousesService.findAll.mockResolvedValue([mockWarehouse]);
+
+      expect(await controller.findAll()).toEqual([mockWarehouse]);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a warehouse', async () => {
+      mockWarehousesService.remove.mockResolvedValue(undefined);
+
+      await controller.remove(mockWarehouse.id);
+
+      expect(service.remove).toHaveBeenCalledWith(mockWarehouse.id);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpStatus,
+  HttpCode,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { WarehousesService } from './warehouses.service';
+import { CreateWarehouseDto } from './dto/create-warehouse.dto';
+import { UpdateWarehouseDto } from './dto/update-warehouse.dto';
+import { Warehouse } from './entities/warehouse.entity';
+import { ParseUUIDPipe } from '../common/pipes/parse-uuid.pipe';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../users/entities/user.entity';
+
+@ApiTags('warehouses')
+@Controller('warehouses')
+export class WarehousesController {
+  constructor(private readonly warehousesService: WarehousesService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Create a warehouse' })
+  @ApiResponse({
+    status: 201,
+    description: 'Warehouse created successfully',
+    type: Warehouse,
+  })
+  @ApiResponse({ status: 409, description: 'Warehouse code already exists' })
+  async create(@Body() createWarehouseDto: CreateWarehouseDto): Promise<Warehouse> {
+    return await this.warehousesService.create(createWarehouseDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List all warehouses in allocation priority order' })
+  @ApiResponse({
+    status: 200,
+    description: 'Warehouses retrieved successfully',
+    type: [Warehouse],
+  })
+  async findAll(): Promise<Warehouse[]> {
+    return await this.warehousesService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a warehouse by ID' })
+  @ApiParam({ name: 'id', description: 'Warehouse ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Warehouse retrieved successfully',
+    type: Warehouse,
+  })
+  @ApiResponse({ status: 404, description: 'Warehouse not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<Warehouse> {
+    return await this.warehousesService.findOne(id);
+  }
+
+  @Put(':id')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Update a warehouse by ID' })
+  @ApiParam({ name: 'id', description: 'Warehouse ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Warehouse updated successfully',
+    type: Warehouse,
+  })
+  @ApiResponse({ status: 404, description: 'Warehouse not found' })
+  @ApiResponse({ status: 409, description: 'Warehouse code already exists' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateWarehouseDto: UpdateWarehouseDto,
+  ): Promise<Warehouse> {
+    return await this.warehousesService.update(id, updateWarehouseDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Delete an empty warehouse by ID' })
+  @ApiParam({ name: 'id', description: 'Warehouse ID' })
+  @ApiResponse({ status: 204, description: 'Warehouse deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Warehouse still holds stock' })
+  @ApiResponse({ status: 404, description: 'Warehouse not found' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return await this.warehousesService.remove(id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WarehousesService } from './warehouses.service';
+import { WarehousesController } from './warehouses.controller';
+import { Warehouse } from './entities/warehouse.entity';
+import { InventoryLevel } from '../inventory/entities/inventory-level.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Warehouse, InventoryLevel])],
+  controllers: [WarehousesController],
+  providers: [WarehousesService],
+  exports: [WarehousesService],
+})
+export class WarehousesModule {}
@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { WarehousesService } from './warehouses.service';
+import { Warehouse } from './entities/warehouse.entity';
+import { InventoryLevel } from '../inventory/entities/inventory-level.entity';
+
+describe('WarehousesService', () => {
+  let service: WarehousesService;
+
+  const warehouseId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const createMockWarehouse = (overrides: Partial<Warehouse> = {}): Warehouse =>
+    Object.assign(new Warehouse(), {
+      id: warehouseId,
+      code: 'EAST',
+      name: 'East Coast DC',
+      region: 'US-NY',
+      priority: 1,
+      ...overrides,
+    });
+
+  const mockWarehouseRepository = {
+    create: jest.fn((data) => Object.assign(new Warehouse(), data)),
+    save: jest.fn(async (warehouse) => warehouse),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    getRawOne: jest.fn(),
+  };
+
+  const mockInventoryLevelRepository = {
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WarehousesService,
+        {
+          provide: getRepositoryToken(Warehouse),
+          useValue: mockWarehouseRepository,
+        },
+        {
+          provide: getRepositoryToken(InventoryLevel),
+          useValue: mockInventoryLevelRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WarehousesService>(WarehousesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a warehouse', async () => {
+      mockWarehouseRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.create({ code: 'EAST', name: 'East Coast DC', region: 'US-NY' });
+
+      expect(mockWarehouseRepository.save).toHaveBeenCalled();
+      expect(result.code).toBe('EAST');
+    });
+
+    it('should reject a code that is already taken', async () => {
+      mockWarehouseRepository.findOne.mockResolvedValue(createMockWarehouse());
+
+      await expect(
+        service.create({ code: 'EAST', name: 'Another DC', region: 'US-NJ' }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockWarehouseRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should list warehouses in priority order', async () => {
+      mockWarehouseRepository.find.mockResolvedValue([createMockWarehouse()]);
+
+      await service.findAll();
+
+      expect(mockWarehouseRepository.find).toHaveBeenCalledWith({
+        order: { priority: 'ASC', code: 'ASC' },
+      });
+    });
+  });
+
+  describe('update', () => {
+    it('should only check the code when it changes', async () => {
+      mockWarehouseRepository.findOne.mockResolvedValueOnce(createMockWarehouse());
+
+      const result = await service.update(warehouseId, { code: 'EAST', priority: 5 });
+
+      expect(mockWarehouseRepository.findOne).toHaveBeenCalledTimes(1);
+      expect(result.priority).toBe(5);
+    });
+
+    it('should throw NotFoundException for an unknown warehouse', async () => {
+      mockWarehouseRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.update(warehouseId, { name: 'Renamed' })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete an empty warehouse', async () => {
+      const warehouse = createMockWarehouse();
+      mockWarehouseRepository.findOne.mockResolvedValue(warehouse);
+      mockQueryBuilder.getRawOne.mockResolvedValue({ units: 0 });
+
+      await service.remove(warehouseId);
+
+      expect(mockWarehouseRepository.remove).toHaveBeenCalledWith(warehouse);
+    });
+
+    it('should refuse to delete a warehouse that still holds stock', async () => {
+      mockWarehouseRepository.findOne.mockResolvedValue(createMockWarehouse());
+      mockQueryBuilder.getRawOne.mockResolvedValue({ units: 12 });
+
+      await expect(service.remove(warehouseId)).rejects.toThrow(BadRequestException);
+      await expect(service.remove(warehouseId)).rejects.toThrow(
+        'Warehouse EAST still holds 12 units',
+      );
+      expect(mockWarehouseRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+});
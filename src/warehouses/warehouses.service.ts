@@ -0,0 +1,77 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Warehouse } from './entities/warehouse.entity';
+import { CreateWarehouseDto } from './dto/create-warehouse.dto';
+import { UpdateWarehouseDto } from './dto/update-warehouse.dto';
+import { InventoryLevel } from '../inventory/entities/inventory-level.entity';
+
+@Injectable()
+export class WarehousesService {
+  constructor(
+    @InjectRepository(Warehouse)
+    private readonly warehouseRepository: Repository<Warehouse>,
+    @InjectRepository(InventoryLevel)
+    private readonly inventoryLevelRepository: Repository<InventoryLevel>,
+  ) {}
+
+  async create(createWarehouseDto: CreateWarehouseDto): Promise<Warehouse> {
+    await this.assertCodeAvailable(createWarehouseDto.code);
+
+    const warehouse = this.warehouseRepository.create(createWarehouseDto);
+    return await this.warehouseRepository.save(warehouse);
+  }
+
+  async findAll(): Promise<Warehouse[]> {
+    return await this.warehouseRepository.find({ order: { priority: 'ASC', code: 'ASC' } });
+  }
+
+  async findOne(id: string): Promise<Warehouse> {
+    const warehouse = await this.warehouseRepository.findOne({ where: { id } });
+    if (!warehouse) {
+      throw new NotFoundException(`Warehouse with ID ${id} not found`);
+    }
+    return warehouse;
+  }
+
+  async update(id: string, updateWarehouseDto: UpdateWarehouseDto): Promise<Warehouse> {
+    const warehouse = await this.findOne(id);
+    if (updateWarehouseDto.code && updateWarehouseDto.code !== warehouse.code) {
+      await this.assertCodeAvailable(updateWarehouseDto.code);
+    }
+
+    Object.assign(warehouse, updateWarehouseDto);
+    return await this.warehouseRepository.save(warehouse);
+  }
+
+  /**
+   * Deletes an empty warehouse; stock has to be moved out first so totals stay right
+   */
+  async remove(id: string): Promise<void> {
+    const warehouse = await this.findOne(id);
+
+    const result = await this.inventoryLevelRepository
+      .createQueryBuilder('level')
+      .select('COALESCE(SUM(level.quantity), 0)', 'units')
+      .where('level.warehouse_id = :id', { id })
+      .getRawOne();
+    const units = Number(result?.units) || 0;
+    if (units > 0) {
+      throw new BadRequestException(`Warehouse ${warehouse.code} still holds ${units} units`);
+    }
+
+    await this.warehouseRepository.remove(warehouse);
+  }
+
+  private async assertCodeAvailable(code: string): Promise<void> {
+    const existing = await this.warehouseRepository.findOne({ where: { code } });
+    if (existing) {
+      throw new ConflictException(`Warehouse ${code} already exists`);
+    }
+  }
+}
@@ -4,19 +4,62 @@ import * as request from 'supertest';
 import { AppModule } from '../src/app.module';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Product } from '../src/products/entities/product.entity';
+import { ProductVariant } from '../src/products/entities/product-variant.entity';
+import { Category } from '../src/categories/entities/category.entity';
+import { ProductDiscount } from '../src/products/entities/product-discount.entity';
+import { Cart } from '../src/cart/entities/cart.entity';
 import { CartItem } from '../src/cart/entities/cart-item.entity';
+import { Coupon, CouponType } from '../src/coupons/entities/coupon.entity';
+import { ExchangeRate } from '../src/currencies/entities/exchange-rate.entity';
+import { TaxClass } from '../src/taxes/entities/tax-class.entity';
+import { TaxRate } from '../src/taxes/entities/tax-rate.entity';
+import { ShippingMethod } from '../src/shipping/entities/shipping-method.entity';
+import { Role, User } from '../src/users/entities/user.entity';
+import { Customer } from '../src/customers/entities/customer.entity';
+import { hashPassword } from '../src/common/utils/password.utils';
 import { Repository } from 'typeorm';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import config from '../src/common/config';
 import { S3Service } from '../src/common/services/s3.service';
 import { RedisService } from '../src/common/services/redis.service';
+import { MailService } from '../src/mail/mail.service';
+import { MAIL_TRANSPORT } from '../src/mail/transports/mail-transport';
+import { InMemoryMailTransport } from '../src/mail/transports/memory.transport';
+import { OutboundEmail } from '../src/mail/entities/outbound-email.entity';
+import { BackInStockSubscription } from '../src/stock-alerts/entities/back-in-stock-subscription.entity';
+import { StockMovement, StockMovementType } from '../src/inventory/entities/stock-movement.entity';
+import { InventoryLevel } from '../src/inventory/entities/inventory-level.entity';
+import { Warehouse } from '../src/warehouses/entities/warehouse.entity';
 
 describe('AppController (e2e)', () => {
   let app: INestApplication;
   let productRepository: Repository<Product>;
+  let discountRepository: Repository<ProductDiscount>;
   let cartRepository: Repository<CartItem>;
+  let cartsRepository: Repository<Cart>;
+  let couponsRepository: Repository<Coupon>;
+  let exchangeRateRepository: Repository<ExchangeRate>;
+  let taxClassRepository: Repository<TaxClass>;
+  let taxRateRepository: Repository<TaxRate>;
+  let shippingMethodRepository: Repository<ShippingMethod>;
+  let userRepository: Repository<User>;
+  let customerRepository: Repository<Customer>;
+  let outboundEmailRepository: Repository<OutboundEmail>;
+  let subscriptionRepository: Repository<BackInStockSubscription>;
+  let stockMovementRepository: Repository<StockMovement>;
+  let inventoryLevelRepository: Repository<InventoryLevel>;
+  let warehouseRepository: Repository<Warehouse>;
+  let variantRepository: Repository<ProductVariant>;
+  let categoryRepository: Repository<Category>;
+  let mailService: MailService;
+  let mailTransport: InMemoryMailTransport;
+  let adminToken: string;
   let s3Service: S3Service;
   let redisService: RedisService;
 
   beforeEach(async () => {
+    mailTransport = new InMemoryMailTransport();
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
     })
@@ -33,6 +76,8 @@ describe('AppController (e2e)', () => {
         flushPattern: jest.fn().mockResolvedValue(true),
         isConnected: jest.fn().mockReturnValue(false), // Disable caching in tests
       })
+      .overrideProvider(MAIL_TRANSPORT)
+      .useValue(mailTransport)
       .compile();
 
     app = moduleFixture.createNestApplication();
@@ -45,7 +90,40 @@ describe('AppController (e2e)', () => {
     );
 
     productRepository = moduleFixture.get<Repository<Product>>(getRepositoryToken(Product));
+    discountRepository = moduleFixture.get<Repository<ProductDiscount>>(
+      getRepositoryToken(ProductDiscount),
+    );
     cartRepository = moduleFixture.get<Repository<CartItem>>(getRepositoryToken(CartItem));
+    cartsRepository = moduleFixture.get<Repository<Cart>>(getRepositoryToken(Cart));
+    couponsRepository = moduleFixture.get<Repository<Coupon>>(getRepositoryToken(Coupon));
+    exchangeRateRepository = moduleFixture.get<Repository<ExchangeRate>>(
+      getRepositoryToken(ExchangeRate),
+    );
+    taxClassRepository = moduleFixture.get<Repository<TaxClass>>(getRepositoryToken(TaxClass));
+    taxRateRepository = moduleFixture.get<Repository<TaxRate>>(getRepositoryToken(TaxRate));
+    shippingMethodRepository = moduleFixture.get<Repository<ShippingMethod>>(
+      getRepositoryToken(ShippingMethod),
+    );
+    userRepository = moduleFixture.get<Repository<User>>(getRepositoryToken(User));
+    customerRepository = moduleFixture.get<Repository<Customer>>(getRepositoryToken(Customer));
+    outboundEmailRepository = moduleFixture.get<Repository<OutboundEmail>>(
+      getRepositoryToken(OutboundEmail),
+    );
+    subscriptionRepository = moduleFixture.get<Repository<BackInStockSubscription>>(
+      getRepositoryToken(BackInStockSubscription),
+    );
+    stockMovementRepository = moduleFixture.get<Repository<StockMovement>>(
+      getRepositoryToken(StockMovement),
+    );
+    inventoryLevelRepository = moduleFixture.get<Repository<InventoryLevel>>(
+      getRepositoryToken(InventoryLevel),
+    );
+    warehouseRepository = moduleFixture.get<Repository<Warehouse>>(getRepositoryToken(Warehouse));
+    variantRepository = moduleFixture.get<Repository<ProductVariant>>(
+      getRepositoryToken(ProductVariant),
+    );
+    categoryRepository = moduleFixture.get<Repository<Category>>(getRepositoryToken(Category));
+    mailService = moduleFixture.get<MailService>(MailService);
     s3Service = moduleFixture.get<S3Service>(S3Service);
     redisService = moduleFixture.get<RedisService>(RedisService);
 
@@ -53,12 +131,54 @@ describe('AppController (e2e)', () => {
 
     // Clean up database before each test
     await cartRepository.clear();
+    await cartsRepository.clear();
+    await couponsRepository.clear();
+    await exchangeRateRepository.clear();
+    await taxRateRepository.clear();
+    await taxClassRepository.clear();
+    await shippingMethodRepository.clear();
+    await subscriptionRepository.clear();
+    await stockMovementRepository.clear();
+    await inventoryLevelRepository.clear();
+    await variantRepository.clear();
     await productRepository.clear();
+    await categoryRepository.clear();
+    await warehouseRepository.clear();
+    await customerRepository.clear();
+    await outboundEmailRepository.clear();
+    await userRepository.clear();
+
+    // Product mutations need an admin or merchandiser token
+    await userRepository.save({
+      email: 'admin@example.com',
+      password_hash: await hashPassword('correct horse'),
+      role: Role.ADMIN,
+    });
+    const login = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'admin@example.com', password: 'correct horse' })
+      .expect(200);
+    adminToken = login.body.accessToken;
   });
 
   afterEach(async () => {
     await cartRepository.clear();
+    await cartsRepository.clear();
+    await couponsRepository.clear();
+    await exchangeRateRepository.clear();
+    await taxRateRepository.clear();
+    await taxClassRepository.clear();
+    await shippingMethodRepository.clear();
+    await subscriptionRepository.clear();
+    await stockMovementRepository.clear();
+    await inventoryLevelRepository.clear();
+    await variantRepository.clear();
     await productRepository.clear();
+    await categoryRepository.clear();
+    await warehouseRepository.clear();
+    await customerRepository.clear();
+    await outboundEmailRepository.clear();
+    await userRepository.clear();
     await app.close();
   });
 
@@ -66,6 +186,7 @@ describe('AppController (e2e)', () => {
     it('should create a new product without image', () => {
       return request(app.getHttpServer())
         .post('/products')
+        .set('Authorization', `Bearer ${adminToken}`)
         .field('name', 'Test Product')
         .field('description', 'Test Description')
         .field('price', '99.99')
@@ -86,6 +207,7 @@ describe('AppController (e2e)', () => {
     it('should return 400 for invalid product data', () => {
       return request(app.getHttpServer())
         .post('/products')
+        .set('Authorization', `Bearer ${adminToken}`)
         .field('name', '')
         .field('description', 'Test Description')
         .field('price', '-10')
@@ -98,6 +220,7 @@ describe('AppController (e2e)', () => {
 
       return request(app.getHttpServer())
         .post('/products')
+        .set('Authorization', `Bearer ${adminToken}`)
         .field('name', 'Test Product')
         .field('description', 'Test Description')
         .field('price', '99.99')
@@ -111,6 +234,7 @@ describe('AppController (e2e)', () => {
 
       return request(app.getHttpServer())
         .post('/products')
+        .set('Authorization', `Bearer ${adminToken}`)
         .field('name', 'Test Product')
         .field('description', 'Test Description')
         .field('price', '99.99')
@@ -129,6 +253,7 @@ describe('AppController (e2e)', () => {
 
       return request(app.getHttpServer())
         .post('/products')
+        .set('Authorization', `Bearer ${adminToken}`)
         .field('name', 'PNG Product')
         .field('description', 'Product with PNG image')
         .field('price', '149.99')
@@ -142,6 +267,7 @@ describe('AppController (e2e)', () => {
 
       return request(app.getHttpServer())
         .post('/products')
+        .set('Authorization', `Bearer ${adminToken}`)
         .field('name', 'WebP Product')
         .field('description', 'Product with WebP image')
         .field('price', '199.99')
@@ -253,6 +379,7 @@ describe('AppController (e2e)', () => {
     it('should update a product without image', () => {
       return request(app.getHttpServer())
         .put(`/products/${productId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .field('name', 'Updated Product')
         .field('price', '149.99')
         .expect(200)
@@ -268,6 +395,7 @@ describe('AppController (e2e)', () => {
 
       return request(app.getHttpServer())
         .put(`/products/${productId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .field('name', 'Updated Product with Image')
         .field('price', '179.99')
         .attach('image', buffer, { filename: 'updated.jpg', contentType: 'image/jpeg' })
@@ -280,9 +408,30 @@ describe('AppController (e2e)', () => {
         });
     });
 
+    it('should leave the product unchanged when its discount window is rejected', async () => {
+      await request(app.getHttpServer())
+        .put(`/products/${productId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('discount_percentage', '10')
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .put(`/products/${productId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('name', 'Updated Product')
+        .field('stock_quantity', '4')
+        .field('discount_percentage', '20')
+        .expect(409);
+
+      expect(await productRepository.findOneBy({ id: productId })).toEqual(
+        expect.objectContaining({ name: 'Test Product', stock_quantity: 10 }),
+      );
+    });
+
     it('should return 404 when updating non-existent product', () => {
       return request(app.getHttpServer())
         .put('/products/999')
+        .set('Authorization', `Bearer ${adminToken}`)
         .send({ name: 'Updated' })
         .expect(404);
     });
@@ -302,17 +451,24 @@ describe('AppController (e2e)', () => {
     });
 
     it('should delete a product', () => {
-      return request(app.getHttpServer()).delete(`/products/${productId}`).expect(204);
+      return request(app.getHttpServer())
+        .delete(`/products/${productId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
     });
 
     it('should return 404 when deleting non-existent product', () => {
       return request(app.getHttpServer())
         .delete('/products/999e4567-e89b-12d3-a456-426614174999')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(404);
     });
 
     it('should return 400 for invalid UUID format', () => {
-      return request(app.getHttpServer()).delete('/products/invalid-uuid').expect(400);
+      return request(app.getHttpServer())
+        .delete('/products/invalid-uuid')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
     });
 
     it('should delete product image from S3 when product is deleted', async () => {
@@ -325,16 +481,34 @@ describe('AppController (e2e)', () => {
         image_url: 'https://mock-s3-url.com/test-image.jpg',
       });
 
-      await request(app.getHttpServer()).delete(`/products/${productWithImage.id}`).expect(204);
+      await request(app.getHttpServer())
+        .delete(`/products/${productWithImage.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
 
       expect(s3Service.deleteFile).toHaveBeenCalledWith('https://mock-s3-url.com/test-image.jpg');
     });
   });
 
+  describe('/cart (POST)', () => {
+    it('should create a cart', () => {
+      return request(app.getHttpServer())
+        .post('/cart')
+        .expect(201)
+        .expect((res) => {
+          expect(res.body.id).toBeDefined();
+          expect(new Date(res.body.expires_at).getTime()).toBeGreaterThan(Date.now());
+        });
+    });
+  });
+
   describe('/cart/items (POST)', () => {
     let productId: string;
+    let cartId: string;
 
     beforeEach(async () => {
+      cartId = (await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) })).id;
+
       const product = await productRepository.save({
         name: 'Test Product',
         description: 'Test Description',
@@ -352,6 +526,7 @@ describe('AppController (e2e)', () => {
 
       return request(app.getHttpServer())
         .post('/cart/items')
+        .set('x-cart-id', cartId)
         .send(addToCartDto)
         .expect(201)
         .expect((res) => {
@@ -367,7 +542,11 @@ describe('AppController (e2e)', () => {
         quantity: 15, // More than available stock
       };
 
-      return request(app.getHttpServer()).post('/cart/items').send(addToCartDto).expect(400);
+      return request(app.getHttpServer())
+        .post('/cart/items')
+        .set('x-cart-id', cartId)
+        .send(addToCartDto)
+        .expect(400);
     });
 
     it('should return 404 for non-existent product', () => {
@@ -376,14 +555,121 @@ describe('AppController (e2e)', () => {
         quantity: 1,
       };
 
-      return request(app.getHttpServer()).post('/cart/items').send(addToCartDto).expect(404);
+      return request(app.getHttpServer())
+        .post('/cart/items')
+        .set('x-cart-id', cartId)
+        .send(addToCartDto)
+        .expect(404);
+    });
+
+    it('should hold stock so other carts cannot claim it', async () => {
+      await productRepository.update(productId, { stock_quantity: 1 });
+      const otherCart = await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) });
+
+      await request(app.getHttpServer())
+        .post('/cart/items')
+        .set('x-cart-id', cartId)
+        .send({ product_id: productId, quantity: 1 })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .post('/cart/items')
+        .set('x-cart-id', otherCart.id)
+        .send({ product_id: productId, quantity: 1 })
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .get(`/products/${productId}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.stock_quantity).toBe(1);
+          expect(res.body.available).toBe(0);
+        });
+    });
+
+    it('should return 400 when the cart header is missing', () => {
+      return request(app.getHttpServer())
+        .post('/cart/items')
+        .send({ product_id: productId, quantity: 1 })
+        .expect(400);
+    });
+
+    it('should return 404 for an unknown cart', () => {
+      return request(app.getHttpServer())
+        .post('/cart/items')
+        .set('x-cart-id', '999e4567-e89b-12d3-a456-426614174999')
+        .send({ product_id: productId, quantity: 1 })
+        .expect(404);
+    });
+  });
+
+  describe('/cart/items/:id (PATCH)', () => {
+    let productId: string;
+    let cartId: string;
+    let itemId: string;
+
+    beforeEach(async () => {
+      cartId = (await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) })).id;
+
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 10,
+        stock_quantity: 5,
+      });
+      productId = product.id;
+
+      const res = await request(app.getHttpServer())
+        .post('/cart/items')
+        .set('x-cart-id', cartId)
+        .send({ product_id: productId, quantity: 1 });
+      itemId = res.body.id;
+    });
+
+    it('should set the quantity and return the repriced line', () => {
+      return request(app.getHttpServer())
+        .patch(`/cart/items/${itemId}`)
+        .set('x-cart-id', cartId)
+        .send({ quantity: 4 })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.quantity).toBe(4);
+          expect(res.body.lineTotal).toBe(40);
+        });
+    });
+
+    it('should return 400 when the new quantity exceeds stock', () => {
+      return request(app.getHttpServer())
+        .patch(`/cart/items/${itemId}`)
+        .set('x-cart-id', cartId)
+        .send({ quantity: 6 })
+        .expect(400);
+    });
+
+    it('should remove the item when quantity is 0', async () => {
+      await request(app.getHttpServer())
+        .patch(`/cart/items/${itemId}`)
+        .set('x-cart-id', cartId)
+        .send({ quantity: 0 })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .get('/cart')
+        .set('x-cart-id', cartId)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.items).toHaveLength(0);
+        });
     });
   });
 
   describe('/cart (GET)', () => {
     let productId: string;
+    let cartId: string;
 
     beforeEach(async () => {
+      cartId = (await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) })).id;
+
       const product = await productRepository.save({
         name: 'Test Product',
         description: 'Test Description',
@@ -394,6 +680,7 @@ describe('AppController (e2e)', () => {
 
       // Add item to cart
       await cartRepository.save({
+        cart_id: cartId,
         product_id: productId,
         quantity: 2,
       });
@@ -402,6 +689,7 @@ describe('AppController (e2e)', () => {
     it('should return cart with totals', () => {
       return request(app.getHttpServer())
         .get('/cart')
+        .set('x-cart-id', cartId)
         .expect(200)
         .expect((res) => {
           expect(res.body.items).toHaveLength(1);
@@ -416,6 +704,7 @@ describe('AppController (e2e)', () => {
 
       return request(app.getHttpServer())
         .get('/cart')
+        .set('x-cart-id', cartId)
         .expect(200)
         .expect((res) => {
           expect(res.body.items).toHaveLength(0);
@@ -424,6 +713,286 @@ describe('AppController (e2e)', () => {
           expect(res.body.uniqueProducts).toBe(0);
         });
     });
+
+    it('should not include items from other carts', async () => {
+      const otherCart = await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) });
+
+      return request(app.getHttpServer())
+        .get('/cart')
+        .set('x-cart-id', otherCart.id)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.items).toHaveLength(0);
+        });
+    });
+
+    it('should clear only the given cart', async () => {
+      const otherCart = await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) });
+      await cartRepository.save({ cart_id: otherCart.id, product_id: productId, quantity: 1 });
+
+      await request(app.getHttpServer()).delete('/cart').set('x-cart-id', cartId).expect(204);
+
+      expect(await cartRepository.count({ where: { cart_id: cartId } })).toBe(0);
+      expect(await cartRepository.count({ where: { cart_id: otherCart.id } })).toBe(1);
+    });
+
+    it('should return 404 for an expired cart', async () => {
+      const expiredCart = await cartsRepository.save({ expires_at: new Date('2020-01-01') });
+
+      return request(app.getHttpServer()).get('/cart').set('x-cart-id', expiredCart.id).expect(404);
+    });
+  });
+
+  describe('/cart/checkout (POST)', () => {
+    let productId: string;
+    let cartId: string;
+
+    beforeEach(async () => {
+      cartId = (await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) })).id;
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 99.99,
+        stock_quantity: 10,
+      });
+      productId = product.id;
+      await cartRepository.save({ cart_id: cartId, product_id: productId, quantity: 3 });
+    });
+
+    it('should place an order, decrement stock and empty the cart', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('x-cart-id', cartId)
+        .expect(201);
+
+      expect(res.body.total_items).toBe(3);
+      expect(res.body.total_price).toBe(299.97);
+      expect(res.body.lines).toHaveLength(1);
+      expect(res.body.lines[0].effective_price).toBe(99.99);
+
+      const product = await productRepository.findOne({ where: { id: productId } });
+      expect(product.stock_quantity).toBe(7);
+      expect(await cartRepository.count({ where: { cart_id: cartId } })).toBe(0);
+
+      await request(app.getHttpServer())
+        .get(`/orders/${res.body.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200)
+        .expect((orderRes) => {
+          expect(orderRes.body.lines[0].quantity).toBe(3);
+        });
+    });
+
+    it('should fail without side effects when stock ran out', async () => {
+      await productRepository.update(productId, { stock_quantity: 2 });
+
+      await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('x-cart-id', cartId)
+        .expect(400);
+
+      const product = await productRepository.findOne({ where: { id: productId } });
+      expect(product.stock_quantity).toBe(2);
+      expect(await cartRepository.count({ where: { cart_id: cartId } })).toBe(1);
+    });
+  });
+
+  describe('/products/:id/price-tiers', () => {
+    let productId: string;
+    let cartId: string;
+
+    beforeEach(async () => {
+      cartId = (await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) })).id;
+      const product = await productRepository.save({
+        name: 'Bulk Product',
+        description: 'Test Description',
+        price: 10,
+        stock_quantity: 100,
+      });
+      productId = product.id;
+    });
+
+    it('should price cart lines with the matching tier', async () => {
+      await request(app.getHttpServer())
+        .post(`/products/${productId}/price-tiers`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ min_quantity: 10, discount_percentage: 5 })
+        .expect(201);
+      await request(app.getHttpServer())
+        .post(`/products/${productId}/price-tiers`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ min_quantity: 50, discount_percentage: 12 })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .post('/cart/items')
+        .set('x-cart-id', cartId)
+        .send({ product_id: productId, quantity: 10 })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .get('/cart')
+        .set('x-cart-id', cartId)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.items[0].unitPrice).toBe(9.5);
+          expect(res.body.items[0].lineTotal).toBe(95);
+          expect(res.body.items[0].lineSavings).toBe(5);
+        });
+    });
+
+    it('should return 409 for a duplicate quantity threshold', async () => {
+      await request(app.getHttpServer())
+        .post(`/products/${productId}/price-tiers`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ min_quantity: 10, discount_percentage: 5 })
+        .expect(201);
+
+      return request(app.getHttpServer())
+        .post(`/products/${productId}/price-tiers`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ min_quantity: 10, discount_percentage: 8 })
+        .expect(409);
+    });
+
+    it('should list tiers on the product', async () => {
+      await request(app.getHttpServer())
+        .post(`/products/${productId}/price-tiers`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ min_quantity: 10, discount_percentage: 5 })
+        .expect(201);
+
+      return request(app.getHttpServer())
+        .get(`/products/${productId}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.price_tiers).toEqual([{ min_quantity: 10, discount_percentage: 5 }]);
+        });
+    });
+  });
+
+  describe('/coupons', () => {
+    it('should create a coupon with an upper-cased code', () => {
+      return request(app.getHttpServer())
+        .post('/coupons')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ code: 'summer10', type: 'percentage', value: 10 })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body.code).toBe('SUMMER10');
+          expect(res.body.times_used).toBe(0);
+        });
+    });
+
+    it('should return 409 for a duplicate code', async () => {
+      await couponsRepository.save({ code: 'SUMMER10', type: CouponType.FIXED, value: 5 });
+
+      return request(app.getHttpServer())
+        .post('/coupons')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ code: 'Summer10', type: 'fixed', value: 5 })
+        .expect(409);
+    });
+
+    it('should return 400 for an invalid coupon type', () => {
+      return request(app.getHttpServer())
+        .post('/coupons')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ code: 'BAD', type: 'bogo', value: 5 })
+        .expect(400);
+    });
+  });
+
+  describe('/cart/coupon', () => {
+    let cartId: string;
+
+    beforeEach(async () => {
+      cartId = (await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) })).id;
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 50,
+        stock_quantity: 10,
+      });
+      await cartRepository.save({ cart_id: cartId, product_id: product.id, quantity: 2 });
+      await couponsRepository.save({
+        code: 'SAVE10',
+        type: CouponType.PERCENTAGE,
+        value: 10,
+        min_subtotal: 80,
+        max_uses: 1,
+      });
+    });
+
+    it('should apply a coupon and report its discount separately', () => {
+      return request(app.getHttpServer())
+        .post('/cart/coupon')
+        .set('x-cart-id', cartId)
+        .send({ code: 'save10' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.totalPrice).toBe(100);
+          expect(res.body.totalSavings).toBe(0);
+          expect(res.body.couponDiscount).toBe(10);
+          expect(res.body.grandTotal).toBe(90);
+          expect(res.body.coupon.code).toBe('SAVE10');
+        });
+    });
+
+    it('should return 404 for an unknown code', () => {
+      return request(app.getHttpServer())
+        .post('/cart/coupon')
+        .set('x-cart-id', cartId)
+        .send({ code: 'NOPE' })
+        .expect(404);
+    });
+
+    it('should return 400 when the cart is below the minimum subtotal', async () => {
+      await cartRepository.update({ cart_id: cartId }, { quantity: 1 });
+
+      return request(app.getHttpServer())
+        .post('/cart/coupon')
+        .set('x-cart-id', cartId)
+        .send({ code: 'SAVE10' })
+        .expect(400);
+    });
+
+    it('should remove the coupon', async () => {
+      await request(app.getHttpServer())
+        .post('/cart/coupon')
+        .set('x-cart-id', cartId)
+        .send({ code: 'SAVE10' })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .delete('/cart/coupon')
+        .set('x-cart-id', cartId)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.coupon).toBeNull();
+          expect(res.body.grandTotal).toBe(100);
+        });
+    });
+
+    it('should redeem the coupon at checkout', async () => {
+      await request(app.getHttpServer())
+        .post('/cart/coupon')
+        .set('x-cart-id', cartId)
+        .send({ code: 'SAVE10' })
+        .expect(200);
+
+      const res = await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('x-cart-id', cartId)
+        .expect(201);
+
+      expect(res.body.coupon_code).toBe('SAVE10');
+      expect(res.body.coupon_discount).toBe(10);
+      expect(res.body.grand_total).toBe(90);
+
+      const coupon = await couponsRepository.findOne({ where: { code: 'SAVE10' } });
+      expect(coupon.times_used).toBe(1);
+    });
   });
 
   describe('/products/:id/discount (PUT)', () => {
@@ -443,11 +1012,12 @@ describe('AppController (e2e)', () => {
       const discountDto = {
         discount_percentage: 20,
         discount_start_date: '2024-01-01T00:00:00.000Z',
-        discount_end_date: '2024-12-31T23:59:59.000Z',
+        discount_end_date: '2030-12-31T23:59:59.000Z',
       };
 
       return request(app.getHttpServer())
         .put(`/products/${productId}/discount`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .send(discountDto)
         .expect(200)
         .expect((res) => {
@@ -466,9 +1036,55 @@ describe('AppController (e2e)', () => {
 
       return request(app.getHttpServer())
         .put(`/products/${productId}/discount`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .send(invalidDiscountDto)
         .expect(400);
     });
+
+    it('should queue a future window while the current one runs', async () => {
+      await request(app.getHttpServer())
+        .put(`/products/${productId}/discount`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ discount_percentage: 10, discount_end_date: '2999-11-01T00:00:00.000Z' })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .put(`/products/${productId}/discount`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          discount_percentage: 40,
+          discount_start_date: '2999-11-27T00:00:00.000Z',
+          discount_end_date: '2999-11-30T23:59:59.000Z',
+        })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.discount_percentage).toBe(10);
+        });
+
+      await request(app.getHttpServer())
+        .get(`/products/${productId}/discounts`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.active.discount_percentage).toBe(10);
+          expect(res.body.upcoming).toHaveLength(1);
+          expect(res.body.upcoming[0].discount_percentage).toBe(40);
+          expect(res.body.past).toHaveLength(0);
+        });
+    });
+
+    it('should return 409 for an overlapping window', async () => {
+      await request(app.getHttpServer())
+        .put(`/products/${productId}/discount`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ discount_percentage: 10 })
+        .expect(200);
+
+      return request(app.getHttpServer())
+        .put(`/products/${productId}/discount`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ discount_percentage: 40, discount_start_date: '2999-11-27T00:00:00.000Z' })
+        .expect(409);
+    });
   });
 
   describe('/products/:id/discount (DELETE)', () => {
@@ -480,16 +1096,20 @@ describe('AppController (e2e)', () => {
         description: 'Test Description',
         price: 100.0,
         stock_quantity: 10,
-        discount_percentage: 20,
-        discount_start_date: new Date('2024-01-01'),
-        discount_end_date: new Date('2024-12-31'),
       });
       productId = product.id;
+      await discountRepository.save({
+        product_id: productId,
+        discount_percentage: 20,
+        starts_at: new Date('2024-01-01'),
+        ends_at: new Date('2030-12-31'),
+      });
     });
 
     it('should remove discount from a product', () => {
       return request(app.getHttpServer())
         .delete(`/products/${productId}/discount`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200)
         .expect((res) => {
           expect(res.body.discount_percentage).toBeUndefined();
@@ -499,25 +1119,48 @@ describe('AppController (e2e)', () => {
           expect(res.body.discountAmount).toBe(0);
         });
     });
+
+    it('should keep the ended window in the history', async () => {
+      await request(app.getHttpServer())
+        .delete(`/products/${productId}/discount`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      return request(app.getHttpServer())
+        .get(`/products/${productId}/discounts`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.active).toBeNull();
+          expect(res.body.past).toHaveLength(1);
+          expect(res.body.past[0].discount_percentage).toBe(20);
+        });
+    });
   });
 
   describe('Cart with discounted products', () => {
     let productId: string;
+    let cartId: string;
 
     beforeEach(async () => {
+      cartId = (await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) })).id;
+
       const product = await productRepository.save({
         name: 'Discounted Product',
         description: 'Product with discount',
         price: 100.0,
         stock_quantity: 10,
-        discount_percentage: 25,
-        discount_start_date: new Date('2020-01-01'),
-        discount_end_date: new Date('2030-12-31'),
       });
       productId = product.id;
-
+      await discountRepository.save({
+        product_id: productId,
+        discount_percentage: 25,
+        starts_at: new Date('2020-01-01'),
+        ends_at: new Date('2030-12-31'),
+      });
+
       // Add discounted item to cart
       await cartRepository.save({
+        cart_id: cartId,
         product_id: productId,
         quantity: 2,
       });
@@ -526,6 +1169,7 @@ describe('AppController (e2e)', () => {
     it('should calculate cart totals with discounts', () => {
       return request(app.getHttpServer())
         .get('/cart')
+        .set('x-cart-id', cartId)
         .expect(200)
         .expect((res) => {
           expect(res.body.items).toHaveLength(1);
@@ -539,4 +1183,1928 @@ describe('AppController (e2e)', () => {
         });
     });
   });
+
+  describe('Multi-currency pricing', () => {
+    let productId: string;
+    let cartId: string;
+
+    beforeEach(async () => {
+      await exchangeRateRepository.save([
+        { currency: 'EUR', rate: 0.9 },
+        { currency: 'JPY', rate: 150 },
+      ]);
+
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 99.99,
+        stock_quantity: 10,
+      });
+      productId = product.id;
+
+      cartId = (await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) })).id;
+      await cartRepository.save({ cart_id: cartId, product_id: productId, quantity: 2 });
+    });
+
+    it('should list exchange rates', () => {
+      return request(app.getHttpServer())
+        .get('/currencies/rates')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toEqual({ base: 'USD', rates: { EUR: 0.9, JPY: 150 } });
+        });
+    });
+
+    it('should convert a product to the requested currency', () => {
+      return request(app.getHttpServer())
+        .get(`/products/${productId}?currency=eur`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.currency).toBe('EUR');
+          expect(res.body.originalPrice).toBe(89.99);
+          expect(res.body.effectivePrice).toBe(89.99);
+          expect(res.body.discountAmount).toBe(0);
+        });
+    });
+
+    it('should round to the minor unit of the requested currency', () => {
+      return request(app.getHttpServer())
+        .get('/products?currency=JPY')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.products[0].currency).toBe('JPY');
+          expect(res.body.products[0].originalPrice).toBe(14999);
+        });
+    });
+
+    it('should price products in their own currency by default', async () => {
+      await request(app.getHttpServer())
+        .post('/products')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('name', 'Yen Product')
+        .field('description', 'Priced in yen')
+        .field('price', '1500')
+        .field('currency', 'JPY')
+        .field('stock_quantity', '5')
+        .expect(201)
+        .expect((res) => {
+          expect(res.body.currency).toBe('JPY');
+          expect(res.body.originalPrice).toBe(1500);
+        });
+    });
+
+    it('should reject products priced in an unsupported currency', () => {
+      return request(app.getHttpServer())
+        .post('/products')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('name', 'Franc Product')
+        .field('description', 'Priced in francs')
+        .field('price', '10')
+        .field('currency', 'CHF')
+        .field('stock_quantity', '5')
+        .expect(400);
+    });
+
+    it('should convert cart totals to the requested currency', () => {
+      return request(app.getHttpServer())
+        .get('/cart?currency=EUR')
+        .set('x-cart-id', cartId)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.currency).toBe('EUR');
+          expect(res.body.items[0].unitPrice).toBe(89.99);
+          expect(res.body.totalPrice).toBe(179.98);
+          expect(res.body.grandTotal).toBe(179.98);
+        });
+    });
+
+    it('should return 400 for unsupported currencies', async () => {
+      await request(app.getHttpServer()).get(`/products/${productId}?currency=CHF`).expect(400);
+      await request(app.getHttpServer())
+        .get('/cart?currency=NOPE')
+        .set('x-cart-id', cartId)
+        .expect(400);
+    });
+
+    it('should apply updated rates', async () => {
+      await request(app.getHttpServer())
+        .put('/currencies/rates/EUR')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ rate: 0.5 })
+        .expect(200);
+
+      return request(app.getHttpServer())
+        .get(`/products/${productId}?currency=EUR`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.originalPrice).toBe(50);
+        });
+    });
+  });
+
+  describe('Tax calculation', () => {
+    let cartId: string;
+
+    beforeEach(async () => {
+      await request(app.getHttpServer())
+        .post('/tax-classes')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ code: 'Standard', name: 'Standard rate' })
+        .expect(201);
+      await request(app.getHttpServer())
+        .post('/tax-classes/standard/rates')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ region: 'us-ca', rate: 7.25 })
+        .expect(201);
+      await request(app.getHttpServer())
+        .post('/tax-classes/standard/rates')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ region: 'DE', rate: 19, inclusive: true })
+        .expect(201);
+
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 99.99,
+        stock_quantity: 10,
+        tax_class: 'standard',
+      });
+
+      cartId = (await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) })).id;
+      await cartRepository.save({ cart_id: cartId, product_id: product.id, quantity: 2 });
+    });
+
+    it('should list tax classes with their rates', () => {
+      return request(app.getHttpServer())
+        .get('/tax-classes')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveLength(1);
+          expect(res.body[0].code).toBe('standard');
+          expect(res.body[0].rates).toHaveLength(2);
+        });
+    });
+
+    it('should add exclusive tax for the destination region', () => {
+      return request(app.getHttpServer())
+        .get('/cart?region=US-CA')
+        .set('x-cart-id', cartId)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.items[0].taxRate).toBe(7.25);
+          expect(res.body.items[0].taxAmount).toBe(14.5);
+          expect(res.body.totalTax).toBe(14.5);
+          expect(res.body.grandTotal).toBe(214.48);
+        });
+    });
+
+    it('should report tax included in the prices', () => {
+      return request(app.getHttpServer())
+        .get('/cart?region=DE')
+        .set('x-cart-id', cartId)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.items[0].priceIncludesTax).toBe(true);
+          expect(res.body.totalTax).toBe(31.93);
+          expect(res.body.grandTotal).toBe(199.98);
+        });
+    });
+
+    it('should charge the destination tax at checkout', () => {
+      return request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('x-cart-id', cartId)
+        .send({ region: 'US-CA' })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body.tax_region).toBe('US-CA');
+          expect(res.body.total_tax).toBe(14.5);
+          expect(res.body.grand_total).toBe(214.48);
+          expect(res.body.lines[0].tax_amount).toBe(14.5);
+        });
+    });
+
+    it('should reject invalid regions and unknown tax classes', async () => {
+      await request(app.getHttpServer())
+        .get('/cart?region=California')
+        .set('x-cart-id', cartId)
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/products')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('name', 'Luxury Product')
+        .field('description', 'Unknown tax class')
+        .field('price', '10')
+        .field('tax_class', 'luxury')
+        .field('stock_quantity', '5')
+        .expect(400);
+    });
+
+    it('should not delete a tax class assigned to products', () => {
+      return request(app.getHttpServer())
+        .delete('/tax-classes/standard')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+    });
+  });
+
+  describe('Shipping', () => {
+    let cartId: string;
+    let standardId: string;
+    let courierId: string;
+
+    beforeEach(async () => {
+      const standard = await request(app.getHttpServer())
+        .post('/shipping-methods')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          name: 'Standard delivery',
+          rate_type: 'weight',
+          weight_bands: [
+            { max_weight: 2, price: 4.99 },
+            { max_weight: 10, price: 9.99 },
+          ],
+          free_over: 250,
+        })
+        .expect(201);
+      standardId = standard.body.id;
+
+      const courier = await request(app.getHttpServer())
+        .post('/shipping-methods')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Courier', rate_type: 'flat', flat_rate: 15, max_dimension: 35 })
+        .expect(201);
+      courierId = courier.body.id;
+
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 99.99,
+        stock_quantity: 10,
+        weight_kg: 1.2,
+        length_cm: 40,
+      });
+
+      cartId = (await cartsRepository.save({ expires_at: new Date(Date.now() + 3600000) })).id;
+      await cartRepository.save({ cart_id: cartId, product_id: product.id, quantity: 2 });
+    });
+
+    it('should quote each method against the cart', () => {
+      return request(app.getHttpServer())
+        .get('/cart/shipping-options')
+        .set('x-cart-id', cartId)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveLength(2);
+          expect(res.body[0]).toMatchObject({ name: 'Standard delivery', cost: 9.99 });
+          expect(res.body[1]).toMatchObject({
+            name: 'Courier',
+            available: false,
+            message: 'An item is longer than 35 cm',
+          });
+        });
+    });
+
+    it('should include the chosen method in the cart totals and the order', async () => {
+      await request(app.getHttpServer())
+        .put('/cart/shipping-method')
+        .set('x-cart-id', cartId)
+        .send({ shipping_method_id: standardId })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.shipping.name).toBe('Standard delivery');
+          expect(res.body.shippingCost).toBe(9.99);
+          expect(res.body.grandTotal).toBe(209.97);
+        });
+
+      await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('x-cart-id', cartId)
+        .send({})
+        .expect(201)
+        .expect((res) => {
+          expect(res.body.shipping_method).toBe('Standard delivery');
+          expect(res.body.shipping_cost).toBe(9.99);
+          expect(res.body.grand_total).toBe(209.97);
+        });
+    });
+
+    it('should not choose a method that cannot ship the cart', () => {
+      return request(app.getHttpServer())
+        .put('/cart/shipping-method')
+        .set('x-cart-id', cartId)
+        .send({ shipping_method_id: courierId })
+        .expect(400);
+    });
+
+    it('should reject a rate table that does not match the rate type', () => {
+      return request(app.getHttpServer())
+        .post('/shipping-methods')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Courier', rate_type: 'flat' })
+        .expect(400);
+    });
+  });
+
+  describe('Authentication', () => {
+    const createProduct = () =>
+      request(app.getHttpServer())
+        .post('/products')
+        .field('name', 'Test Product')
+        .field('description', 'Test Description')
+        .field('price', '99.99')
+        .field('stock_quantity', '10');
+
+    it('should reject product mutations without a token', async () => {
+      await createProduct().expect(401);
+      await createProduct().set('Authorization', 'Bearer not.a.jwt').expect(401);
+    });
+
+    it('should reject product mutations by customers', async () => {
+      await request(app.getHttpServer())
+        .post('/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ email: 'jane@example.com', password: 'battery staple' })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body.role).toBe('customer');
+          expect(res.body.password_hash).toBeUndefined();
+        });
+
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'jane@example.com', password: 'battery staple' })
+        .expect(200);
+
+      await createProduct().set('Authorization', `Bearer ${login.body.accessToken}`).expect(403);
+    });
+
+    it('should keep product reads public', () => {
+      return request(app.getHttpServer()).get('/products').expect(200);
+    });
+
+    it('should reject a wrong password', () => {
+      return request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'admin@example.com', password: 'battery staple' })
+        .expect(401);
+    });
+
+    it('should exchange a refresh token for new tokens', async () => {
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'admin@example.com', password: 'correct horse' })
+        .expect(200);
+
+      const refreshed = await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refresh_token: login.body.refreshToken })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Authorization', `Bearer ${refreshed.body.accessToken}`)
+        .expect(200)
+        .expect((res) => expect(res.body.email).toBe('admin@example.com'));
+
+      // A refresh token is not an access token
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Authorization', `Bearer ${login.body.refreshToken}`)
+        .expect(401);
+    });
+  });
+
+  describe('Google sign-in', () => {
+    const googleConfig = { ...config.google };
+    let googleStub: Server;
+    let googleProfile: Record<string, unknown>;
+    let receivedCode: string;
+
+    // Stands in for Google's token and userinfo endpoints
+    beforeAll(async () => {
+      googleStub = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          res.setHeader('Content-Type', 'application/json');
+          if (req.url === '/token') {
+            receivedCode = new URLSearchParams(body).get('code');
+            res.end(JSON.stringify({ access_token: 'google-access-token' }));
+          } else if (req.headers.authorization === 'Bearer google-access-token') {
+            res.end(JSON.stringify(googleProfile));
+          } else {
+            res.statusCode = 401;
+            res.end('{}');
+          }
+        });
+      });
+      await new Promise<void>((resolve) => googleStub.listen(0, '127.0.0.1', resolve));
+
+      const { port } = googleStub.address() as AddressInfo;
+      Object.assign(config.google, {
+        client_id: 'client-id',
+        client_secret: 'client-secret',
+        callback_url: 'http://localhost:3000/auth/google/callback',
+        token_url: `http://127.0.0.1:${port}/token`,
+        userinfo_url: `http://127.0.0.1:${port}/userinfo`,
+      });
+    });
+
+    afterAll(async () => {
+      Object.assign(config.google, googleConfig);
+      await new Promise((resolve) => googleStub.close(resolve));
+    });
+
+    beforeEach(() => {
+      googleProfile = { sub: 'google-sub', email: 'jane@example.com', email_verified: true };
+    });
+
+    const startSignIn = async () => {
+      const res = await request(app.getHttpServer()).get('/auth/google').expect(302);
+      return new URL(res.headers.location);
+    };
+
+    it('should redirect to the consent screen', async () => {
+      const location = await startSignIn();
+
+      expect(location.searchParams.get('client_id')).toBe('client-id');
+      expect(location.searchParams.get('redirect_uri')).toBe(config.google.callback_url);
+      expect(location.searchParams.get('state')).toBeTruthy();
+    });
+
+    it('should create a customer on first sign-in', async () => {
+      const state = (await startSignIn()).searchParams.get('state');
+
+      const res = await request(app.getHttpServer())
+        .get('/auth/google/callback')
+        .query({ code: 'auth-code', state, scope: 'openid email profile', authuser: '0' })
+        .expect(200);
+
+      expect(receivedCode).toBe('auth-code');
+      expect(res.body.user).toEqual(
+        expect.objectContaining({ email: 'jane@example.com', role: 'customer' }),
+      );
+
+      await request(app.getHttpServer())
+        .get('/auth/me')
+        .set('Authorization', `Bearer ${res.body.accessToken}`)
+        .expect(200)
+        .expect((me) => expect(me.body.google_id).toBe('google-sub'));
+
+      // Google-only accounts have no password to sign in with
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'jane@example.com', password: 'correct horse' })
+        .expect(401);
+    });
+
+    it('should link an existing user with the same email', async () => {
+      googleProfile.email = 'admin@example.com';
+      const state = (await startSignIn()).searchParams.get('state');
+
+      const res = await request(app.getHttpServer())
+        .get('/auth/google/callback')
+        .query({ code: 'auth-code', state })
+        .expect(200);
+
+      expect(res.body.user.role).toBe('admin');
+      expect(await userRepository.count()).toBe(1);
+      expect((await userRepository.findOneBy({ email: 'admin@example.com' })).google_id).toBe(
+        'google-sub',
+      );
+    });
+
+    it('should reject a forged state and unverified emails', async () => {
+      await request(app.getHttpServer())
+        .get('/auth/google/callback')
+        .query({ code: 'auth-code', state: 'forged' })
+        .expect(401);
+
+      googleProfile.email_verified = false;
+      const state = (await startSignIn()).searchParams.get('state');
+      await request(app.getHttpServer())
+        .get('/auth/google/callback')
+        .query({ code: 'auth-code', state })
+        .expect(401);
+    });
+  });
+
+  describe('Customer carts', () => {
+    let customerToken: string;
+    let productId: string;
+
+    beforeEach(async () => {
+      await request(app.getHttpServer())
+        .post('/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ email: 'jane@example.com', password: 'battery staple' })
+        .expect(201);
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'jane@example.com', password: 'battery staple' })
+        .expect(200);
+      customerToken = login.body.accessToken;
+
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 99.99,
+        stock_quantity: 5,
+      });
+      productId = product.id;
+    });
+
+    const addItem = (cartId: string, quantity: number) =>
+      request(app.getHttpServer())
+        .post('/cart/items')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .set('x-cart-id', cartId)
+        .send({ product_id: productId, quantity })
+        .expect(201);
+
+    it('should keep one cart per customer', async () => {
+      const first = await request(app.getHttpServer())
+        .post('/cart/mine')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(200);
+      const second = await request(app.getHttpServer())
+        .post('/cart/mine')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(200);
+
+      expect(second.body.id).toBe(first.body.id);
+      expect(first.body.customer_email).toBe('jane@example.com');
+
+      await request(app.getHttpServer())
+        .get('/customers/me')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(200)
+        .expect((res) => expect(res.body.id).toBe(first.body.customer_id));
+    });
+
+    it('should merge a guest cart, capping quantities at the available stock', async () => {
+      const customerCart = await request(app.getHttpServer())
+        .post('/cart/mine')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(200);
+      await addItem(customerCart.body.id, 2);
+
+      const guestCart = await request(app.getHttpServer()).post('/cart').expect(201);
+      await addItem(guestCart.body.id, 3);
+
+      // Stock drops while both carts hold the product
+      await productRepository.update(productId, { stock_quantity: 4 });
+
+      const merge = await request(app.getHttpServer())
+        .post('/cart/merge')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .set('x-cart-id', guestCart.body.id)
+        .expect(200);
+
+      expect(merge.body).toEqual({
+        cart_id: customerCart.body.id,
+        merged_lines: 1,
+        reduced: [
+          {
+            product_id: productId,
+            requested_quantity: 5,
+            quantity: 4,
+            reason: 'Insufficient stock. Available: 4, Requested: 5',
+          },
+        ],
+      });
+
+      await request(app.getHttpServer())
+        .get('/cart')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .set('x-cart-id', customerCart.body.id)
+        .expect(200)
+        .expect((res) => expect(res.body.totalItems).toBe(4));
+      await request(app.getHttpServer())
+        .get('/cart')
+        .set('x-cart-id', guestCart.body.id)
+        .expect(404);
+    });
+
+    it('should require a signed-in customer to merge', async () => {
+      const guestCart = await request(app.getHttpServer()).post('/cart').expect(201);
+
+      await request(app.getHttpServer())
+        .post('/cart/merge')
+        .set('x-cart-id', guestCart.body.id)
+        .expect(401);
+    });
+
+    it('should only let the customer who owns a cart use it', async () => {
+      const cart = await request(app.getHttpServer())
+        .post('/cart/mine')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(200);
+      await addItem(cart.body.id, 1);
+
+      await request(app.getHttpServer()).get('/cart').set('x-cart-id', cart.body.id).expect(401);
+      await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('x-cart-id', cart.body.id)
+        .expect(401);
+
+      // Signed in, but as someone else
+      await request(app.getHttpServer())
+        .post('/cart/items')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('x-cart-id', cart.body.id)
+        .send({ product_id: productId, quantity: 1 })
+        .expect(404);
+      await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('x-cart-id', cart.body.id)
+        .expect(404);
+
+      await request(app.getHttpServer())
+        .get('/cart')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .set('x-cart-id', cart.body.id)
+        .expect(200)
+        .expect((res) => expect(res.body.totalItems).toBe(1));
+    });
+
+    it('should count coupons against the account email of customer carts', async () => {
+      await request(app.getHttpServer())
+        .post('/coupons')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ code: 'ONCE', type: 'fixed', value: 5, max_uses_per_customer: 1 })
+        .expect(201);
+      const cart = await request(app.getHttpServer())
+        .post('/cart/mine')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(200);
+      await addItem(cart.body.id, 1);
+
+      await request(app.getHttpServer())
+        .post('/cart/coupon')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .set('x-cart-id', cart.body.id)
+        .send({ code: 'ONCE', email: 'someone@example.com' })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/cart/coupon')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .set('x-cart-id', cart.body.id)
+        .send({ code: 'ONCE' })
+        .expect(200);
+    });
+
+    it('should only show customers their own orders', async () => {
+      const cart = await request(app.getHttpServer())
+        .post('/cart/mine')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(200);
+      await addItem(cart.body.id, 1);
+      const order = await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .set('x-cart-id', cart.body.id)
+        .expect(201);
+
+      const guestCart = await request(app.getHttpServer()).post('/cart').expect(201);
+      await addItem(guestCart.body.id, 1);
+      const guestOrder = await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('x-cart-id', guestCart.body.id)
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .get(`/orders/${order.body.id}`)
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(200);
+      await request(app.getHttpServer())
+        .get(`/orders/${guestOrder.body.id}`)
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(404);
+      await request(app.getHttpServer()).get(`/orders/${order.body.id}`).expect(401);
+    });
+
+    it('should keep showing customers their orders once the cart has expired', async () => {
+      const cart = await request(app.getHttpServer())
+        .post('/cart/mine')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(200);
+      await addItem(cart.body.id, 1);
+      const order = await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .set('x-cart-id', cart.body.id)
+        .expect(201);
+
+      // The next visit replaces the expired cart with a new one
+      await cartsRepository.update(cart.body.id, { expires_at: new Date(Date.now() - 1000) });
+      await request(app.getHttpServer())
+        .post('/cart/mine')
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(200);
+      expect(await cartsRepository.findOneBy({ id: cart.body.id })).toBeNull();
+
+      await request(app.getHttpServer())
+        .get(`/orders/${order.body.id}`)
+        .set('Authorization', `Bearer ${customerToken}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.customer_id).toBeDefined();
+        });
+    });
+  });
+
+  describe('Email', () => {
+    it('should reset a password through the emailed link', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ email: 'admin@example.com' })
+        .expect(202);
+      await mailService.processQueue();
+
+      expect(mailTransport.sent).toHaveLength(1);
+      expect(mailTransport.sent[0].to).toEqual(['admin@example.com']);
+      const token = /token=([^\s]+)/.exec(mailTransport.sent[0].text)[1];
+
+      await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token, password: 'battery staple' })
+        .expect(204);
+      await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'admin@example.com', password: 'battery staple' })
+        .expect(200);
+
+      // The link only works once
+      await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token, password: 'another password' })
+        .expect(401);
+    });
+
+    it('should not reveal whether an email has an account', async () => {
+      await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ email: 'nobody@example.com' })
+        .expect(202);
+      await mailService.processQueue();
+
+      expect(mailTransport.sent).toHaveLength(0);
+    });
+
+    it('should email an order confirmation to the customer', async () => {
+      const cart = await request(app.getHttpServer())
+        .post('/cart/mine')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 99.99,
+        stock_quantity: 10,
+      });
+      await cartRepository.save({ cart_id: cart.body.id, product_id: product.id, quantity: 2 });
+
+      const order = await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('x-cart-id', cart.body.id)
+        .expect(201);
+      await mailService.processQueue();
+
+      expect(mailTransport.sent).toEqual([
+        expect.objectContaining({
+          to: ['admin@example.com'],
+          subject: `Order confirmation ${order.body.id}`,
+          text: expect.stringContaining('2 x Test Product: $199.98'),
+        }),
+      ]);
+      expect(await outboundEmailRepository.findOneBy({ template: 'order-confirmation' })).toEqual(
+        expect.objectContaining({ status: 'sent', attempts: 1 }),
+      );
+    });
+  });
+
+  describe('Stock ledger', () => {
+    const createProduct = async (stockQuantity: number) => {
+      const res = await request(app.getHttpServer())
+        .post('/products')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('name', 'Test Product')
+        .field('description', 'Test Description')
+        .field('price', '99.99')
+        .field('stock_quantity', String(stockQuantity))
+        .expect(201);
+      return res.body.id as string;
+    };
+
+    const listMovements = async (productId: string) => {
+      const res = await request(app.getHttpServer())
+        .get(`/products/${productId}/stock-movements`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      return res.body;
+    };
+
+    it('should record the initial stock and manual adjustments with their actor', async () => {
+      const productId = await createProduct(10);
+
+      await request(app.getHttpServer())
+        .post(`/products/${productId}/stock-adjustments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ type: 'receipt', quantity: 24, reason: 'Weekly delivery' })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body).toEqual(
+            expect.objectContaining({
+              type: 'receipt',
+              quantity: 24,
+              balance: 34,
+              reason: 'Weekly delivery',
+              actor: 'admin@example.com',
+            }),
+          );
+        });
+
+      const product = await productRepository.findOneBy({ id: productId });
+      expect(product.stock_quantity).toBe(34);
+
+      const ledger = await listMovements(productId);
+      expect(ledger.total).toBe(2);
+      expect(ledger.movements).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ type: 'receipt', quantity: 10, reason: 'Initial stock' }),
+          expect.objectContaining({ type: 'receipt', quantity: 24 }),
+        ]),
+      );
+    });
+
+    it('should refuse adjustments that take stock below zero', async () => {
+      const productId = await createProduct(2);
+
+      await request(app.getHttpServer())
+        .post(`/products/${productId}/stock-adjustments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ quantity: -5, reason: 'Stock count' })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post(`/products/${productId}/stock-adjustments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ type: 'sale', quantity: -1, reason: 'Manual sale' })
+        .expect(400);
+
+      expect((await productRepository.findOneBy({ id: productId })).stock_quantity).toBe(2);
+      expect((await listMovements(productId)).total).toBe(1);
+    });
+
+    it('should turn a stock update into an adjustment', async () => {
+      const productId = await createProduct(10);
+
+      await request(app.getHttpServer())
+        .put(`/products/${productId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('stock_quantity', '7')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.stock_quantity).toBe(7);
+        });
+
+      const ledger = await listMovements(productId);
+      expect(ledger.movements).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ type: 'adjustment', quantity: -3, balance: 7 }),
+        ]),
+      );
+    });
+
+    it('should record holds and sales so the ledger adds up to the stock on hand', async () => {
+      const productId = await createProduct(10);
+      const cart = await request(app.getHttpServer()).post('/cart').expect(201);
+
+      await request(app.getHttpServer())
+        .post('/cart/items')
+        .set('x-cart-id', cart.body.id)
+        .send({ product_id: productId, quantity: 3 })
+        .expect(201);
+      const order = await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('x-cart-id', cart.body.id)
+        .expect(201);
+
+      const { movements } = await listMovements(productId);
+      expect(movements).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ type: 'reservation', quantity: 3, reference: cart.body.id }),
+          expect.objectContaining({ type: 'reservation', quantity: -3, reference: cart.body.id }),
+          expect.objectContaining({
+            type: 'sale',
+            quantity: -3,
+            balance: 7,
+            reference: order.body.id,
+          }),
+        ]),
+      );
+
+      const onHand = movements
+        .filter((movement) => movement.type !== 'reservation')
+        .reduce((sum, movement) => sum + movement.quantity, 0);
+      expect(onHand).toBe(7);
+    });
+
+    it('should keep the ledger to admins and merchandisers', async () => {
+      const productId = await createProduct(1);
+
+      await request(app.getHttpServer()).get(`/products/${productId}/stock-movements`).expect(401);
+      await request(app.getHttpServer())
+        .post(`/products/${productId}/stock-adjustments`)
+        .send({ quantity: 1, reason: 'Found one' })
+        .expect(401);
+    });
+  });
+
+  describe('Warehouses', () => {
+    const createWarehouse = async (code: string, region: string, priority: number) => {
+      const res = await request(app.getHttpServer())
+        .post('/warehouses')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ code, name: `${code} warehouse`, region, priority })
+        .expect(201);
+      return res.body.id as string;
+    };
+
+    const receive = (productId: string, warehouseId: string, quantity: number) =>
+      request(app.getHttpServer())
+        .post(`/products/${productId}/stock-adjustments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ type: 'receipt', quantity, warehouse_id: warehouseId, reason: 'Delivery' })
+        .expect(201);
+
+    let productId: string;
+
+    beforeEach(async () => {
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 10,
+        stock_quantity: 0,
+      });
+      productId = product.id;
+    });
+
+    it('should show the stock held at each warehouse', async () => {
+      const eastId = await createWarehouse('east', 'us-ny', 1);
+      await receive(productId, eastId, 4);
+
+      await request(app.getHttpServer())
+        .get(`/products/${productId}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.stock_quantity).toBe(4);
+          expect(res.body.stock_by_warehouse).toEqual([
+            { warehouse_id: eastId, warehouse_code: 'EAST', quantity: 4 },
+          ]);
+        });
+    });
+
+    it('should allocate checkout quantities by warehouse priority', async () => {
+      const westId = await createWarehouse('WEST', 'US-CA', 2);
+      const eastId = await createWarehouse('EAST', 'US-NY', 1);
+      await receive(productId, westId, 5);
+      await receive(productId, eastId, 2);
+
+      const cart = await request(app.getHttpServer()).post('/cart').expect(201);
+      await request(app.getHttpServer())
+        .post('/cart/items')
+        .set('x-cart-id', cart.body.id)
+        .send({ product_id: productId, quantity: 4 })
+        .expect(201);
+      const order = await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('x-cart-id', cart.body.id)
+        .expect(201);
+
+      expect(order.body.lines[0].allocations).toEqual([
+        { warehouse_id: eastId, warehouse_code: 'EAST', quantity: 2 },
+        { warehouse_id: westId, warehouse_code: 'WEST', quantity: 2 },
+      ]);
+
+      const levels = await inventoryLevelRepository.find({ where: { product_id: productId } });
+      expect(levels.map((level) => [level.warehouse.code, level.quantity]).sort()).toEqual([
+        ['EAST', 0],
+        ['WEST', 3],
+      ]);
+      expect((await productRepository.findOneBy({ id: productId })).stock_quantity).toBe(3);
+
+      // One sale movement per allocation, each with the stock left after it
+      const sales = await stockMovementRepository.find({
+        where: { product_id: productId, type: StockMovementType.SALE },
+      });
+      expect(sales.map((sale) => [sale.quantity, sale.balance]).sort()).toEqual([
+        [-2, 3],
+        [-2, 5],
+      ]);
+    });
+
+    it('should refuse to remove more than a warehouse holds', async () => {
+      const eastId = await createWarehouse('EAST', 'US-NY', 1);
+      await receive(productId, eastId, 2);
+
+      await request(app.getHttpServer())
+        .post(`/products/${productId}/stock-adjustments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ quantity: -3, warehouse_id: eastId, reason: 'Stock count' })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post(`/products/${productId}/stock-adjustments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ quantity: -1, reason: 'Stock count' })
+        .expect(400);
+    });
+
+    it('should only delete warehouses that are empty', async () => {
+      const eastId = await createWarehouse('EAST', 'US-NY', 1);
+      await receive(productId, eastId, 2);
+
+      await request(app.getHttpServer())
+        .delete(`/warehouses/${eastId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .post(`/products/${productId}/stock-adjustments`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ quantity: -2, warehouse_id: eastId, reason: 'Moved out' })
+        .expect(201);
+      await request(app.getHttpServer())
+        .delete(`/warehouses/${eastId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+    });
+
+    it('should keep warehouse changes to admins', async () => {
+      await request(app.getHttpServer())
+        .post('/warehouses')
+        .send({ code: 'EAST', name: 'East', region: 'US-NY' })
+        .expect(401);
+    });
+  });
+
+  describe('Product variants', () => {
+    const createVariant = (productId: string, body: Record<string, unknown>) =>
+      request(app.getHttpServer())
+        .post(`/products/${productId}/variants`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(body);
+
+    let productId: string;
+
+    beforeEach(async () => {
+      const product = await productRepository.save({
+        name: 'T-shirt',
+        description: 'Cotton tee',
+        price: 20,
+        stock_quantity: 0,
+      });
+      productId = product.id;
+      await discountRepository.save({
+        product_id: productId,
+        discount_percentage: 25,
+        starts_at: new Date('2020-01-01'),
+        ends_at: new Date('2030-12-31'),
+      });
+    });
+
+    it('should list the variants of a product with their discounted prices', async () => {
+      await createVariant(productId, {
+        sku: 'tee-red-m',
+        options: { Colour: 'red', Size: 'M' },
+        stock_quantity: 3,
+      }).expect(201);
+      await createVariant(productId, {
+        sku: 'TEE-RED-XL',
+        options: { colour: 'red', size: 'XL' },
+        price: 24,
+        stock_quantity: 2,
+      }).expect(201);
+
+      await request(app.getHttpServer())
+        .get(`/products/${productId}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.stock_quantity).toBe(5);
+          expect(res.body.options).toEqual([
+            { name: 'colour', values: ['red'] },
+            { name: 'size', values: ['M', 'XL'] },
+          ]);
+          expect(res.body.variants.map((variant) => [variant.sku, variant.effectivePrice])).toEqual(
+            [
+              ['TEE-RED-M', 15],
+              ['TEE-RED-XL', 18],
+            ],
+          );
+        });
+    });
+
+    it('should reject variants that do not match the option names of the others', async () => {
+      await createVariant(productId, {
+        sku: 'TEE-RED-M',
+        options: { colour: 'red', size: 'M' },
+      }).expect(201);
+
+      await createVariant(productId, { sku: 'TEE-RED', options: { colour: 'red' } }).expect(400);
+      await createVariant(productId, {
+        sku: 'TEE-RED-M2',
+        options: { colour: 'red', size: 'M' },
+      }).expect(409);
+      await createVariant(productId, {
+        sku: 'TEE-RED-M',
+        options: { colour: 'blue', size: 'M' },
+      }).expect(409);
+    });
+
+    it('should price and sell the variant chosen in the cart', async () => {
+      const variant = await createVariant(productId, {
+        sku: 'TEE-RED-XL',
+        options: { colour: 'red', size: 'XL' },
+        price: 24,
+        stock_quantity: 2,
+      }).expect(201);
+
+      const cart = await request(app.getHttpServer()).post('/cart').expect(201);
+      await request(app.getHttpServer())
+        .post('/cart/items')
+        .set('x-cart-id', cart.body.id)
+        .send({ product_id: productId, quantity: 1 })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/cart/items')
+        .set('x-cart-id', cart.body.id)
+        .send({ product_id: productId, variant_id: variant.body.id, quantity: 3 })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/cart/items')
+        .set('x-cart-id', cart.body.id)
+        .send({ product_id: productId, variant_id: variant.body.id, quantity: 2 })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .get('/cart')
+        .set('x-cart-id', cart.body.id)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.items[0].variant.sku).toBe('TEE-RED-XL');
+          expect(res.body.items[0].product.originalPrice).toBe(24);
+          expect(res.body.items[0].product.effectivePrice).toBe(18);
+          expect(res.body.totalPrice).toBe(36);
+        });
+
+      const order = await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('x-cart-id', cart.body.id)
+        .expect(201);
+
+      expect(order.body.lines[0].sku).toBe('TEE-RED-XL');
+      expect((await variantRepository.findOneBy({ id: variant.body.id })).stock_quantity).toBe(0);
+      expect((await productRepository.findOneBy({ id: productId })).stock_quantity).toBe(0);
+    });
+
+    it('should keep variant changes to admins and merchandisers', async () => {
+      await request(app.getHttpServer())
+        .post(`/products/${productId}/variants`)
+        .send({ sku: 'TEE-RED-M', options: { colour: 'red', size: 'M' } })
+        .expect(401);
+    });
+  });
+
+  describe('Categories', () => {
+    const createCategory = async (name: string, parentId?: string) => {
+      const res = await request(app.getHttpServer())
+        .post('/categories')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name, parent_id: parentId })
+        .expect(201);
+      return res.body.id as string;
+    };
+
+    const createProduct = (name: string) =>
+      productRepository.save({
+        name,
+        description: 'Test Description',
+        price: 10,
+        stock_quantity: 5,
+      });
+
+    const assign = (productId: string, categoryIds: string[]) =>
+      request(app.getHttpServer())
+        .put(`/products/${productId}/categories`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ category_ids: categoryIds })
+        .expect(200);
+
+    const listNames = async (query: Record<string, string>) => {
+      const res = await request(app.getHttpServer()).get('/products').query(query).expect(200);
+      return res.body.products.map((product) => product.name).sort();
+    };
+
+    let clothingId: string;
+    let shoesId: string;
+    let trainersId: string;
+
+    beforeEach(async () => {
+      clothingId = await createCategory('Clothing');
+      shoesId = await createCategory('Shoes', clothingId);
+      trainersId = await createCategory('Trainers', shoesId);
+    });
+
+    it('should return the path from the root to a category', async () => {
+      await request(app.getHttpServer())
+        .get(`/categories/${trainersId}/breadcrumbs`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.map((category) => category.name)).toEqual([
+            'Clothing',
+            'Shoes',
+            'Trainers',
+          ]);
+        });
+    });
+
+    it('should list the category tree', async () => {
+      await createCategory('Accessories');
+
+      await request(app.getHttpServer())
+        .get('/categories')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.map((category) => category.name)).toEqual(['Accessories', 'Clothing']);
+          expect(res.body[1].children[0].name).toBe('Shoes');
+          expect(res.body[1].children[0].children[0].name).toBe('Trainers');
+        });
+    });
+
+    it('should filter products by category, optionally including subcategories', async () => {
+      const boots = await createProduct('Boots');
+      const runners = await createProduct('Runners');
+      await createProduct('Hat');
+      await assign(boots.id, [shoesId]);
+      await assign(runners.id, [trainersId, clothingId]);
+
+      expect(await listNames({ category: shoesId })).toEqual(['Boots']);
+      expect(await listNames({ category: shoesId, includeDescendants: 'true' })).toEqual([
+        'Boots',
+        'Runners',
+      ]);
+      expect(await listNames({ category: clothingId, includeDescendants: 'true' })).toEqual([
+        'Boots',
+        'Runners',
+      ]);
+
+      await assign(runners.id, []);
+      expect(await listNames({ category: clothingId, includeDescendants: 'true' })).toEqual([
+        'Boots',
+      ]);
+    });
+
+    it('should move a category together with its subcategories', async () => {
+      const saleId = await createCategory('Sale');
+
+      await request(app.getHttpServer())
+        .put(`/categories/${shoesId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ parent_id: saleId })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .get(`/categories/${trainersId}/breadcrumbs`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.map((category) => category.name)).toEqual(['Sale', 'Shoes', 'Trainers']);
+        });
+
+      await request(app.getHttpServer())
+        .put(`/categories/${saleId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ parent_id: trainersId })
+        .expect(400);
+    });
+
+    it('should only delete categories without subcategories', async () => {
+      const boots = await createProduct('Boots');
+      await assign(boots.id, [trainersId]);
+
+      await request(app.getHttpServer())
+        .delete(`/categories/${shoesId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+      await request(app.getHttpServer())
+        .delete(`/categories/${trainersId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+
+      await request(app.getHttpServer())
+        .get(`/products/${boots.id}/categories`)
+        .expect(200)
+        .expect((res) => expect(res.body).toEqual([]));
+    });
+
+    it('should reject sibling categories with the same name', async () => {
+      await request(app.getHttpServer())
+        .post('/categories')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Shoes', parent_id: clothingId })
+        .expect(409);
+    });
+  });
+
+  describe('Product search', () => {
+    const createProduct = (name: string, description: string) =>
+      productRepository.save({ name, description, price: 10, stock_quantity: 5 });
+
+    const search = async (q: string) =>
+      (await request(app.getHttpServer()).get('/products/search').query({ q }).expect(200)).body;
+
+    let shoes: Product;
+    let socks: Product;
+
+    beforeEach(async () => {
+      shoes = await createProduct('Running Shoes', 'Lightweight trainers with a cushioned sole');
+      socks = await createProduct('Wool Socks', 'Warm socks for running in winter');
+      await createProduct('Yoga Mat', 'Non-slip mat for the studio');
+    });
+
+    it('should rank name matches above description matches', async () => {
+      const result = await search('running');
+
+      expect(result.total).toBe(2);
+      expect(result.products.map((hit) => hit.id)).toEqual([shoes.id, socks.id]);
+      expect(result.products[0].score).toBeGreaterThan(result.products[1].score);
+      expect(result.products[0].highlights.name).toBe('<mark>Running</mark> Shoes');
+      expect(result.products[1].highlights.description).toBe(
+        'Warm socks for <mark>running</mark> in winter',
+      );
+    });
+
+    it('should match words by prefix and require every word', async () => {
+      const result = await search('wo soc');
+
+      expect(result.products.map((hit) => hit.name)).toEqual(['Wool Socks']);
+    });
+
+    it('should tolerate typos and report the words it matched instead', async () => {
+      const result = await search('runing shoos');
+
+      expect(result.products.map((hit) => hit.name)).toEqual(['Running Shoes']);
+      expect(result.corrections).toEqual({ runing: ['running'], shoos: ['shoes'] });
+    });
+
+    it('should keep the index in step with product updates and deletes', async () => {
+      await request(app.getHttpServer())
+        .put(`/products/${shoes.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('name', 'Trail Boots')
+        .expect(200);
+      await request(app.getHttpServer())
+        .delete(`/products/${socks.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(204);
+
+      expect((await search('running')).products).toEqual([]);
+      expect((await search('boots')).products.map((hit) => hit.id)).toEqual([shoes.id]);
+    });
+
+    it('should reject an empty query', async () => {
+      await request(app.getHttpServer()).get('/products/search').query({ q: '' }).expect(400);
+      await request(app.getHttpServer()).get('/products/search').query({ q: '!!' }).expect(400);
+    });
+  });
+
+  describe('Product listing facets', () => {
+    const createProduct = (name: string, price: number, stock: number) =>
+      productRepository.save({
+        name,
+        description: 'Test Description',
+        price,
+        stock_quantity: stock,
+      });
+
+    const discount = (productId: string, body: Record<string, unknown>) =>
+      request(app.getHttpServer())
+        .put(`/products/${productId}/discount`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(body)
+        .expect(200);
+
+    const list = async (query: Record<string, string> = {}) =>
+      (await request(app.getHttpServer()).get('/products').query(query).expect(200)).body;
+
+    let footwearId: string;
+
+    beforeEach(async () => {
+      const socks = await createProduct('Socks', 10, 20);
+      await createProduct('Cap', 30, 0);
+      const boots = await createProduct('Boots', 120, 4);
+      const coat = await createProduct('Coat', 600, 2);
+      await discount(boots.id, { discount_percentage: 25 });
+      await discount(socks.id, { discount_percentage: 10 });
+      // Scheduled but not yet running, so not on sale
+      await discount(coat.id, {
+        discount_percentage: 50,
+        discount_start_date: new Date(Date.now() + 86400000).toISOString(),
+      });
+
+      const res = await request(app.getHttpServer())
+        .post('/categories')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Footwear' })
+        .expect(201);
+      footwearId = res.body.id;
+      for (const product of [socks, boots]) {
+        await request(app.getHttpServer())
+          .put(`/products/${product.id}/categories`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ category_ids: [footwearId] })
+          .expect(200);
+      }
+    });
+
+    it('should count price buckets, stock, sales and categories alongside the page', async () => {
+      const result = await list({ limit: '1' });
+
+      expect(result.products).toHaveLength(1);
+      expect(result.total).toBe(4);
+      expect(result.facets.price).toEqual([
+        { min: 0, max: 25, count: 1 },
+        { min: 25, max: 50, count: 1 },
+        { min: 50, max: 100, count: 0 },
+        { min: 100, max: 250, count: 1 },
+        { min: 250, max: 500, count: 0 },
+        { min: 500, count: 1 },
+      ]);
+      expect(result.facets.stock).toEqual({ in_stock: 3, out_of_stock: 1 });
+      expect(result.facets.sale).toEqual({ on_sale: 2, not_on_sale: 2 });
+      expect(result.facets.categories).toEqual([
+        { id: expect.any(String), name: 'Footwear', count: 2 },
+      ]);
+    });
+
+    it('should filter by stock, active discount and minimum discount', async () => {
+      const names = async (query: Record<string, string>) =>
+        (await list(query)).products.map((product) => product.name).sort();
+
+      expect(await names({ inStock: 'false' })).toEqual(['Cap']);
+      expect(await names({ onSale: 'true' })).toEqual(['Boots', 'Socks']);
+      expect(await names({ onSale: 'false' })).toEqual(['Cap', 'Coat']);
+      expect(await names({ discountMin: '20' })).toEqual(['Boots']);
+      expect(await names({ onSale: 'false', discountMin: '20' })).toEqual([]);
+    });
+
+    it('should compute the facets over the filtered products', async () => {
+      const result = await list({ inStock: 'true', maxPrice: '200' });
+
+      expect(result.total).toBe(2);
+      expect(result.facets.stock).toEqual({ in_stock: 2, out_of_stock: 0 });
+      expect(result.facets.sale).toEqual({ on_sale: 2, not_on_sale: 0 });
+      expect(result.facets.price.map((bucket) => bucket.count)).toEqual([1, 0, 0, 1, 0, 0]);
+    });
+
+    it('should count categories when the listing is filtered by category', async () => {
+      const result = await list({ category: footwearId, onSale: 'true' });
+
+      expect(result.total).toBe(2);
+      expect(result.facets.categories).toEqual([{ id: footwearId, name: 'Footwear', count: 2 }]);
+    });
+
+    it('should reject an out-of-range discountMin', async () => {
+      await request(app.getHttpServer()).get('/products').query({ discountMin: '101' }).expect(400);
+    });
+  });
+
+  describe('Product listing sort', () => {
+    const createProduct = (name: string, price: number, stock: number) =>
+      productRepository.save({
+        name,
+        description: 'Test Description',
+        price,
+        stock_quantity: stock,
+      });
+
+    const discount = (productId: string, body: Record<string, unknown>) =>
+      request(app.getHttpServer())
+        .put(`/products/${productId}/discount`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send(body)
+        .expect(200);
+
+    const names = async (query: Record<string, string>) =>
+      (
+        await request(app.getHttpServer()).get('/products').query(query).expect(200)
+      ).body.products.map((product) => product.name);
+
+    beforeEach(async () => {
+      const anorak = await createProduct('anorak', 100, 3);
+      await createProduct('Boots', 60, 8);
+      const cap = await createProduct('Cap', 40, 1);
+      const duffel = await createProduct('Duffel', 80, 5);
+      // Effective prices: anorak 50, Boots 60, Cap 40 (its sale has not started), Duffel 72
+      await discount(anorak.id, { discount_percentage: 50 });
+      await discount(duffel.id, { discount_percentage: 10 });
+      await discount(cap.id, {
+        discount_percentage: 90,
+        discount_start_date: new Date(Date.now() + 86400000).toISOString(),
+      });
+    });
+
+    it('should sort by the price after any active discount across pages', async () => {
+      expect(await names({ sort: 'price', limit: '2' })).toEqual(['Cap', 'anorak']);
+      expect(await names({ sort: 'price', limit: '2', page: '2' })).toEqual(['Boots', 'Duffel']);
+      expect(await names({ sort: 'price', order: 'desc' })).toEqual([
+        'Duffel',
+        'Boots',
+        'anorak',
+        'Cap',
+      ]);
+    });
+
+    it('should compare prices in the base currency', async () => {
+      await exchangeRateRepository.save({ currency: 'JPY', rate: 150 });
+      // 9150 JPY is 61 USD: just above Boots, though far above everything in its own currency
+      await productRepository.save({
+        name: 'Scarf',
+        description: 'Test Description',
+        price: 9150,
+        currency: 'JPY',
+        stock_quantity: 2,
+      });
+
+      expect(await names({ sort: 'price' })).toEqual(['Cap', 'anorak', 'Boots', 'Scarf', 'Duffel']);
+      expect(await names({ sort: 'price', minPrice: '55', maxPrice: '65' })).toEqual([
+        'Boots',
+        'Scarf',
+      ]);
+    });
+
+    it('should sort by name ignoring case, biggest discount and stock', async () => {
+      expect(await names({ sort: 'name' })).toEqual(['anorak', 'Boots', 'Cap', 'Duffel']);
+      // Boots and Cap tie at no discount
+      expect((await names({ sort: 'discount' })).slice(0, 2)).toEqual(['anorak', 'Duffel']);
+      expect(await names({ sort: 'stock' })).toEqual(['Boots', 'Duffel', 'anorak', 'Cap']);
+      expect(await names({ sort: 'stock', order: 'asc' })).toEqual([
+        'Cap',
+        'anorak',
+        'Duffel',
+        'Boots',
+      ]);
+    });
+
+    it('should list the newest products first by default', async () => {
+      expect(await names({})).toEqual(await names({ sort: 'newest', order: 'desc' }));
+    });
+
+    it('should reject an unknown sort or order', async () => {
+      await request(app.getHttpServer()).get('/products').query({ sort: 'rating' }).expect(400);
+      await request(app.getHttpServer()).get('/products').query({ order: 'up' }).expect(400);
+    });
+  });
+
+  describe('Product listing cursors', () => {
+    const list = async (query: Record<string, string>) =>
+      (await request(app.getHttpServer()).get('/products').query(query).expect(200)).body;
+
+    beforeEach(async () => {
+      for (const [name, price] of [
+        ['Apron', 15],
+        ['Beanie', 25],
+        ['Cardigan', 35],
+        ['Dungarees', 45],
+        ['Espadrilles', 55],
+      ] as const) {
+        await productRepository.save({
+          name,
+          description: 'Test Description',
+          price,
+          stock_quantity: 5,
+        });
+      }
+    });
+
+    it('should walk the whole listing forwards and back by cursor', async () => {
+      const first = await list({ sort: 'price', limit: '2' });
+      expect(first.prevCursor).toBeNull();
+      const second = await list({ sort: 'price', limit: '2', cursor: first.nextCursor });
+      const third = await list({ sort: 'price', limit: '2', cursor: second.nextCursor });
+
+      expect(
+        [first, second, third].flatMap((page) => page.products.map((product) => product.name)),
+      ).toEqual(['Apron', 'Beanie', 'Cardigan', 'Dungarees', 'Espadrilles']);
+      expect(third.nextCursor).toBeNull();
+      expect(third.total).toBe(5);
+      expect(third.page).toBeUndefined();
+
+      const back = await list({ sort: 'price', limit: '2', cursor: third.prevCursor });
+      expect(back.products.map((product) => product.name)).toEqual(['Cardigan', 'Dungarees']);
+      const start = await list({ sort: 'price', limit: '2', cursor: back.prevCursor });
+      expect(start.products.map((product) => product.name)).toEqual(['Apron', 'Beanie']);
+      expect(start.prevCursor).toBeNull();
+    });
+
+    it('should neither repeat nor skip products inserted while paging', async () => {
+      const first = await list({ sort: 'price', limit: '2' });
+      await productRepository.save({
+        name: 'Bandana',
+        description: 'Test Description',
+        price: 5,
+        stock_quantity: 5,
+      });
+
+      const second = await list({ sort: 'price', limit: '2', cursor: first.nextCursor });
+
+      expect(second.products.map((product) => product.name)).toEqual(['Cardigan', 'Dungarees']);
+    });
+
+    it('should hand out a next cursor in offset mode too', async () => {
+      const page = await list({ page: '2', limit: '2' });
+      const next = await list({ limit: '2', cursor: page.nextCursor });
+
+      expect(page.prevCursor).not.toBeNull();
+      expect(next.products).toHaveLength(1);
+    });
+
+    it('should reject oversized pages and bad or mismatched cursors', async () => {
+      const { nextCursor } = await list({ sort: 'price', limit: '2' });
+
+      await request(app.getHttpServer()).get('/products').query({ limit: '101' }).expect(400);
+      await request(app.getHttpServer()).get('/products').query({ cursor: 'garbage' }).expect(400);
+      await request(app.getHttpServer())
+        .get('/products')
+        .query({ sort: 'name', cursor: nextCursor })
+        .expect(400);
+    });
+  });
+
+  describe('Product import', () => {
+    const upload = (content: string, filename: string, query: Record<string, string> = {}) =>
+      request(app.getHttpServer())
+        .post('/products/import')
+        .query(query)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .attach('file', Buffer.from(content), filename);
+
+    // Polls the import until its last row has been handled
+    const finished = async (id: string) => {
+      for (let attempt = 0; attempt < 50; attempt++) {
+        const response = await request(app.getHttpServer())
+          .get(`/products/import/${id}`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .expect(200);
+        if (response.body.finished_at) {
+          return response.body;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      throw new Error(`Import ${id} did not finish`);
+    };
+
+    it('should create new products and update the ones with a known SKU', async () => {
+      await productRepository.save({
+        name: 'Old Tee',
+        sku: 'TEE-RED',
+        description: 'Test Description',
+        price: 15,
+        stock_quantity: 0,
+      });
+
+      const response = await upload(
+        'sku,name,description,price,stock_quantity\n' +
+          'tee-red,Red Tee,"Soft, organic cotton",19.99,5\n' +
+          'TEE-BLUE,Blue Tee,Cotton,21,3\n' +
+          'TEE-PINK,Pink Tee,Cotton,-4,3\n',
+        'tees.csv',
+      ).expect(202);
+      expect(response.body).toMatchObject({ format: 'csv', total_rows: 3, dry_run: false });
+
+      const report = await finished(response.body.id);
+
+      expect(report).toMatchObject({
+        status: 'completed',
+        processed_rows: 3,
+        created_count: 1,
+        updated_count: 1,
+        failed_count: 1,
+        errors: [{ row: 3, sku: 'TEE-PINK', messages: ['price must be a positive number'] }],
+      });
+      const red = await productRepository.findOne({ where: { sku: 'TEE-RED' } });
+      expect(red).toMatchObject({
+        name: 'Red Tee',
+        description: 'Soft, organic cotton',
+        price: 19.99,
+        stock_quantity: 5,
+      });
+      expect(await productRepository.count()).toBe(2);
+    });
+
+    it('should update the product with a known external ID', async () => {
+      const first = await upload(
+        'external_id,sku,name,description,price,stock_quantity\n' +
+          'erp-1,TEE-RED,Red Tee,Cotton,19.99,5\n',
+        'tees.csv',
+      ).expect(202);
+      await finished(first.body.id);
+
+      const second = await upload(
+        'external_id,sku,name,description,price,stock_quantity\n' +
+          'erp-1,TEE-CRIMSON,Crimson Tee,Cotton,19.99,5\n',
+        'tees.csv',
+      ).expect(202);
+
+      expect(await finished(second.body.id)).toMatchObject({ created_count: 0, updated_count: 1 });
+      expect(await productRepository.find()).toEqual([
+        expect.objectContaining({ external_id: 'erp-1', sku: 'TEE-CRIMSON', name: 'Crimson Tee' }),
+      ]);
+    });
+
+    it('should leave a re-imported product unchanged when its discount is rejected', async () => {
+      const header = 'sku,name,description,price,stock_quantity,discount_percentage\n';
+      const first = await upload(`${header}TEE-RED,Red Tee,Cotton,19.99,5,10\n`, 'tees.csv').expect(
+        202,
+      );
+      await finished(first.body.id);
+
+      // The open-ended 10% window is still running, so a second one overlaps it
+      const second = await upload(
+        `${header}TEE-RED,Renamed Tee,Cotton,24.99,8,20\n`,
+        'tees.csv',
+      ).expect(202);
+
+      const report = await finished(second.body.id);
+      expect(report).toMatchObject({ updated_count: 0, failed_count: 1 });
+      expect(report.errors[0].messages[0]).toContain('overlaps an existing discount');
+      expect(await productRepository.findOne({ where: { sku: 'TEE-RED' } })).toMatchObject({
+        name: 'Red Tee',
+        price: 19.99,
+        stock_quantity: 5,
+      });
+    });
+
+    it('should only validate rows in a dry run', async () => {
+      const response = await upload(
+        '{"sku":"TEE-BLUE","name":"Blue Tee","description":"Cotton","price":21,"stock_quantity":3}\n' +
+          '{"name":"Green Tee","description":"Cotton","price":21,"stock_quantity":3,"currency":"XYZ"}\n' +
+          'not json\n',
+        'tees.ndjson',
+        { dryRun: 'true' },
+      ).expect(202);
+
+      const report = await finished(response.body.id);
+
+      expect(report).toMatchObject({
+        status: 'completed',
+        dry_run: true,
+        created_count: 1,
+        failed_count: 2,
+      });
+      expect(report.errors.map((error) => error.row)).toEqual([2, 3]);
+      expect(report.errors[1].messages).toEqual(['Row is not valid JSON']);
+      expect(await productRepository.count()).toBe(0);
+    });
+
+    it('should reject files it cannot import', async () => {
+      await upload('name\nRed Tee\n', 'tees.xlsx').expect(400);
+      await upload('name,price\n', 'tees.csv').expect(400);
+      await request(app.getHttpServer())
+        .post('/products/import')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/products/import')
+        .attach('file', Buffer.from('name\nRed Tee\n'), 'tees.csv')
+        .expect(401);
+    });
+
+    it('should reject a SKU another product already has', async () => {
+      await productRepository.save({
+        name: 'Red Tee',
+        sku: 'TEE-RED',
+        description: 'Test Description',
+        price: 15,
+        stock_quantity: 0,
+      });
+
+      await request(app.getHttpServer())
+        .post('/products')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          name: 'Other Tee',
+          sku: 'tee-red',
+          description: 'Test Description',
+          price: 15,
+          stock_quantity: 0,
+        })
+        .expect(409);
+    });
+  });
+
+  describe('Stock alerts', () => {
+    it('should alert admins once stock drops below the reorder threshold', async () => {
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 99.99,
+        stock_quantity: 10,
+        reorder_threshold: 5,
+      });
+
+      await request(app.getHttpServer())
+        .put(`/products/${product.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('stock_quantity', '4')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.reorder_threshold).toBe(5);
+        });
+      await mailService.processQueue();
+
+      expect(mailTransport.sent).toEqual([
+        expect.objectContaining({
+          to: ['admin@example.com'],
+          subject: 'Low stock: 1 product',
+          text: expect.stringContaining(`Test Product (${product.id}): 4 left`),
+        }),
+      ]);
+    });
+
+    it('should alert admins when checkout takes stock below the reorder threshold', async () => {
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 99.99,
+        stock_quantity: 6,
+        reorder_threshold: 5,
+      });
+      const cart = await request(app.getHttpServer()).post('/cart').expect(201);
+      await cartRepository.save({ cart_id: cart.body.id, product_id: product.id, quantity: 2 });
+
+      await request(app.getHttpServer())
+        .post('/cart/checkout')
+        .set('x-cart-id', cart.body.id)
+        .expect(201);
+      await mailService.processQueue();
+
+      expect(mailTransport.sent).toEqual([
+        expect.objectContaining({ subject: 'Low stock: 1 product' }),
+      ]);
+    });
+
+    it('should email back-in-stock subscribers once when a product is restocked', async () => {
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 99.99,
+        stock_quantity: 0,
+      });
+
+      await request(app.getHttpServer())
+        .post(`/products/${product.id}/notify-me`)
+        .send({ email: 'Shopper@Example.com' })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body.email).toBe('shopper@example.com');
+        });
+      // Subscribing twice is harmless
+      await request(app.getHttpServer())
+        .post(`/products/${product.id}/notify-me`)
+        .send({ email: 'shopper@example.com' })
+        .expect(201);
+
+      await request(app.getHttpServer())
+        .put(`/products/${product.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .field('stock_quantity', '5')
+        .expect(200);
+      await mailService.processQueue();
+
+      expect(mailTransport.sent).toEqual([
+        expect.objectContaining({
+          to: ['shopper@example.com'],
+          subject: 'Test Product is back in stock',
+        }),
+      ]);
+      expect(await subscriptionRepository.count()).toBe(0);
+    });
+
+    it('should reject notify-me for a product in stock', async () => {
+      const product = await productRepository.save({
+        name: 'Test Product',
+        description: 'Test Description',
+        price: 99.99,
+        stock_quantity: 3,
+      });
+
+      await request(app.getHttpServer())
+        .post(`/products/${product.id}/notify-me`)
+        .send({ email: 'shopper@example.com' })
+        .expect(400);
+    });
+  });
 });